@@ -1,8 +1,26 @@
 
-import React, { useEffect, useState, useCallback, useRef } from 'react';
-import { Ticker, Signal, NotificationRule, ToastMessage, FuturesTicker, PriceAlert, MarketIndex, Liquidation } from './types';
+import React, { useEffect, useState, useCallback, useRef, useMemo } from 'react';
+import { Ticker, Signal, NotificationRule, NotificationChannel, NotificationPolicy, NotificationThrottle, ChannelDelivery, ToastMessage, FuturesTicker, PriceAlert, AlertTrigger, MarketIndex, Liquidation, StreamStatus, Exchange, WebhookEndpointStats, WebhookDeliverySummary } from './types';
 import { DEFAULT_WATCHLIST, MOCK_HOLDINGS } from './constants';
-import { connectToBinance, connectToBinanceFutures, generateMockSignal, startGlobalIndicesMock, connectToLiquidations } from './services/marketData';
+import { startGlobalIndicesMock } from './services/marketData';
+import { PRIMARY_EXCHANGE, DEFAULT_BATCH_INTERVAL_MS, exchangeOf, parseMarketKey } from './services/exchanges';
+import { StrategyEngine, startStrategyEngine } from './services/strategyEngine';
+import { RecordedMessage, RecordingStats, downloadRecording } from './services/marketRecorder';
+import { ReplayProgress, ReplaySpeed } from './services/marketReplay';
+import { SimulatorConfig } from './services/marketSimulator';
+import { MarketSource, MarketUpdate } from './services/marketPipeline';
+import { MarketPipelineClient, connectMarketPipeline } from './services/marketWorkerClient';
+import { AnalyzerState, Anomaly, BookView } from './services/marketAnalysis';
+import { baseAsset, loadSymbolRegistry } from './services/symbolRegistry';
+import { connectWebhookFeed } from './services/webhookClient';
+import { RetentionPolicy, DEFAULT_RETENTION, saveSignals, deleteSignal, clearSignals, applyRetention, openSignalSession, closeSignalSession } from './services/signalStore';
+import { createSignalTracker, SignalTracker } from './services/signalLifecycle';
+import { StrategyConfig } from './services/strategies';
+import { RuleContext, evaluateRule } from './services/ruleExpression';
+import { deliverToChannel } from './services/notificationChannels';
+import { DEFAULT_ALERT_CHANNELS, PriceAlertDraft, alertDraft, createPriceAlertMonitor, describeAlert } from './services/priceAlerts';
+import { DEFAULT_POLICY, NO_THROTTLE, PRICE_ALERT_SOURCE, SIGNAL_TOAST_SOURCE, VERDICT_LABELS, NotificationDigest, ThrottledEvent, createNotificationThrottle, digestKey, isQuietTime } from './services/notificationThrottle';
+import { ConfluenceConfig, DEFAULT_CONFLUENCE, createConfluenceEngine, observationFromSignal, observationFromScannerHit } from './services/confluence';
 import { Watchlist } from './components/Watchlist';
 import { SignalFeed } from './components/SignalFeed';
 import { LiquidationsFeed } from './components/LiquidationsFeed';
@@ -10,19 +28,34 @@ import { FundingRates } from './components/FundingRates';
 import { FidelioRadar } from './components/FidelioRadar';
 import { WebhookManager } from './components/WebhookManager';
 import { SignalManager } from './components/SignalManager';
+import { SignalAnalytics } from './components/SignalAnalytics';
+import { Backtester } from './components/Backtester';
 import { GlobalTicker } from './components/GlobalTicker';
 import { SpotScanner } from './components/SpotScanner';
+import { OrderBookPanel } from './components/OrderBookPanel';
 import { Portfolio } from './components/Portfolio';
 import { FidelioAI } from './components/FidelioAI';
 import { Modal } from './components/ui/Modal';
 import { SetAlertModal } from './components/SetAlertModal';
+import { AlertManager } from './components/AlertManager';
 import { NotificationSettings } from './components/NotificationSettings';
+import { ChannelSettings } from './components/ChannelSettings';
+import { NotificationPolicySettings } from './components/NotificationPolicySettings';
 import { ToastContainer } from './components/ui/Toast';
+import { StreamStatusBadge } from './components/StreamStatusBadge';
+import { ExchangeSettings } from './components/ExchangeSettings';
+import { DataSourceSettings } from './components/DataSourceSettings';
+import { StrategySettings } from './components/StrategySettings';
+import { ConfluenceSettings } from './components/ConfluenceSettings';
+import { MarketReplayPanel } from './components/MarketReplayPanel';
 import { Settings, Moon, Sun, Hexagon, Sparkles } from 'lucide-react';
 
-type ViewMode = 'dashboard' | 'funding' | 'signals-manager' | 'lab' | 'spot-scanner' | 'portfolio' | 'fidelio-ai';
+type ViewMode = 'dashboard' | 'funding' | 'signals-manager' | 'signal-analytics' | 'backtest' | 'lab' | 'spot-scanner' | 'portfolio' | 'alerts' | 'fidelio-ai';
 type Theme = 'light' | 'dark';
 
+const MAX_CHANNEL_DELIVERIES = 50;
+const MAX_ALERT_LOG = 500;
+
 const App: React.FC = () => {
   // --- Global State ---
   const [viewMode, setViewMode] = useState<ViewMode>('dashboard');
@@ -32,28 +65,90 @@ const App: React.FC = () => {
   const [indicesData, setIndicesData] = useState<MarketIndex[]>([]);
   const [liquidations, setLiquidations] = useState<Liquidation[]>([]);
   
-  const [signals, setSignals] = useState<Signal[]>([]);
   const [watchlist, setWatchlist] = useState<string[]>(DEFAULT_WATCHLIST);
-  const [connectionStatus, setConnectionStatus] = useState<'connected' | 'disconnected' | 'connecting'>('connecting');
+  const [streamStatus, setStreamStatus] = useState<Record<string, StreamStatus>>({});
+  const [enabledExchanges, setEnabledExchanges] = useState<Exchange[]>(() => {
+    const saved = localStorage.getItem('fidelio_exchanges');
+    return saved ? JSON.parse(saved) : [PRIMARY_EXCHANGE];
+  });
+  const [simulator, setSimulator] = useState<SimulatorConfig | null>(() => {
+    const saved = localStorage.getItem('fidelio_simulator');
+    return saved ? JSON.parse(saved) : null;
+  });
+  const [batchIntervalMs, setBatchIntervalMs] = useState<number>(() => {
+    const saved = localStorage.getItem('fidelio_batch_interval');
+    return saved ? JSON.parse(saved) : DEFAULT_BATCH_INTERVAL_MS;
+  });
+  const [strategyConfig, setStrategyConfig] = useState<StrategyConfig>(() => {
+    const saved = localStorage.getItem('fidelio_strategy_config');
+    return saved ? JSON.parse(saved) : {};
+  });
+  const [confluenceConfig, setConfluenceConfig] = useState<ConfluenceConfig>(() => {
+    const saved = localStorage.getItem('fidelio_confluence');
+    return saved ? { ...DEFAULT_CONFLUENCE, ...JSON.parse(saved) } : DEFAULT_CONFLUENCE;
+  });
+  const [replay, setReplay] = useState<{ messages: RecordedMessage[]; speed: ReplaySpeed } | null>(null);
+  const [replayProgress, setReplayProgress] = useState<ReplayProgress | null>(null);
+  const [recordingStats, setRecordingStats] = useState<RecordingStats | null>(null);
+
+  // Derived in the market worker
+  const [analyzers, setAnalyzers] = useState<Record<string, AnalyzerState>>({});
+  const [flowSymbolCount, setFlowSymbolCount] = useState(0);
+  const [radar, setRadar] = useState<{ sentiment: number; anomalies: Anomaly[] } | null>(null);
+  const [bookSymbol, setBookSymbol] = useState<string>(() => localStorage.getItem('fidelio_book_symbol') || 'BTCUSDT');
+  const [signalRetention, setSignalRetention] = useState<RetentionPolicy>(() => {
+    const saved = localStorage.getItem('fidelio_signal_retention');
+    return saved ? JSON.parse(saved) : DEFAULT_RETENTION;
+  });
+  const [webhookStatus, setWebhookStatus] = useState<StreamStatus | null>(null);
+  const [webhookReceived, setWebhookReceived] = useState(0);
+  const [webhookStats, setWebhookStats] = useState<Record<string, WebhookEndpointStats>>({});
+  const [lastWebhookDelivery, setLastWebhookDelivery] = useState<WebhookDeliverySummary | null>(null);
+  const [orderBook, setOrderBook] = useState<BookView | null | undefined>(undefined); // undefined = syncing, null = unavailable
   
   // Notification State
-  const [rules, setRules] = useState<NotificationRule[]>([]);
+  const [rules, setRules] = useState<NotificationRule[]>(() => {
+    const saved = localStorage.getItem('fidelio_rules');
+    return saved ? JSON.parse(saved) : [];
+  });
+  const [channels, setChannels] = useState<NotificationChannel[]>(() => {
+    const saved = localStorage.getItem('fidelio_channels');
+    return saved ? JSON.parse(saved) : [];
+  });
+  const [channelDeliveries, setChannelDeliveries] = useState<ChannelDelivery[]>([]);
+  const [notificationPolicy, setNotificationPolicy] = useState<NotificationPolicy>(() => {
+    const saved = localStorage.getItem('fidelio_notification_policy');
+    return saved ? { ...DEFAULT_POLICY, ...JSON.parse(saved) } : DEFAULT_POLICY;
+  });
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
 
   // Price Alert State
-  const [priceAlerts, setPriceAlerts] = useState<PriceAlert[]>([]);
-  const [alertModal, setAlertModal] = useState<{ isOpen: boolean; symbol: string | null }>({ isOpen: false, symbol: null });
+  const [priceAlerts, setPriceAlerts] = useState<PriceAlert[]>(() => {
+    const saved = localStorage.getItem('fidelio_price_alerts');
+    return saved ? JSON.parse(saved) : [];
+  });
+  const [alertLog, setAlertLog] = useState<AlertTrigger[]>(() => {
+    const saved = localStorage.getItem('fidelio_alert_log');
+    return saved ? JSON.parse(saved) : [];
+  });
+  const [alertModal, setAlertModal] = useState<{ isOpen: boolean; symbol: string | null; alertId?: string }>({ isOpen: false, symbol: null });
 
   // Refs for Logic
   const marketDataRef = useRef(marketData);
-  const lastSignalTimeRef = useRef<Record<string, number>>({});
-  const rmiCooldownsRef = useRef<Record<string, number>>({});
+  const futuresDataRef = useRef(futuresData);
+  const watchlistRef = useRef(watchlist);
+  const recordingTextRef = useRef('');
 
   useEffect(() => {
     marketDataRef.current = marketData;
   }, [marketData]);
 
+  useEffect(() => {
+    futuresDataRef.current = futuresData;
+    watchlistRef.current = watchlist;
+  }, [futuresData, watchlist]);
+
   // --- Theme Management ---
   useEffect(() => {
     const root = window.document.documentElement;
@@ -66,69 +161,284 @@ const App: React.FC = () => {
   };
 
   // --- Helpers for Notifications ---
+  // Only the newest few stay on screen; older ones are dropped rather than queued
+  const maxToastsRef = useRef(notificationPolicy.maxToasts);
   const addToast = useCallback((title: string, description: string, type: ToastMessage['type'] = 'info') => {
-    setToasts(prev => [...prev, { id: Math.random().toString(36), title, description, type }]);
+    setToasts(prev => [...prev, { id: Math.random().toString(36), title, description, type }].slice(-Math.max(1, maxToastsRef.current)));
   }, []);
 
   const dismissToast = useCallback((id: string) => {
     setToasts(prev => prev.filter(t => t.id !== id));
   }, []);
 
-  const checkAndTriggerNotifications = useCallback((signal: Signal) => {
-    rules.forEach(rule => {
-      const symbolMatch = !rule.condition.symbol || rule.condition.symbol === signal.symbol;
-      const sideMatch = rule.condition.side === 'ANY' || rule.condition.side === signal.side;
+  const reportStreamStatus = useCallback((name: string) => (status: StreamStatus) => {
+    setStreamStatus(prev => ({ ...prev, [name]: status }));
+  }, []);
 
-      if (symbolMatch && sideMatch) {
-        const title = `Alert: ${signal.symbol} ${signal.side}`;
-        const body = `${signal.strategy} at ${signal.price.toFixed(2)}`;
+  const clearStreamStatus = useCallback((name: string) => {
+    setStreamStatus(prev => {
+      const next = { ...prev };
+      delete next[name];
+      return next;
+    });
+  }, []);
 
-        if (rule.channels.inApp) addToast(title, body, 'alert');
-        if (rule.channels.browser && Notification.permission === 'granted') {
-          new Notification(title, { body, icon: '/favicon.ico' });
-        }
+  useEffect(() => {
+    localStorage.setItem('fidelio_rules', JSON.stringify(rules));
+  }, [rules]);
+
+  useEffect(() => {
+    localStorage.setItem('fidelio_channels', JSON.stringify(channels));
+  }, [channels]);
+
+  // Newest first; status updates replace the entry in place
+  const recordDelivery = useCallback((delivery: ChannelDelivery) => {
+    setChannelDeliveries(prev => prev.some(d => d.id === delivery.id)
+      ? prev.map(d => d.id === delivery.id ? delivery : d)
+      : [delivery, ...prev].slice(0, MAX_CHANNEL_DELIVERIES));
+  }, []);
+
+  const handleTestChannel = useCallback((channel: NotificationChannel) => {
+    deliverToChannel(channel, { title: 'Fidelio test', body: `Notifications to ${channel.name} are working.` }, recordDelivery);
+  }, [recordDelivery]);
+
+  useEffect(() => {
+    localStorage.setItem('fidelio_notification_policy', JSON.stringify(notificationPolicy));
+    maxToastsRef.current = notificationPolicy.maxToasts;
+    setToasts(prev => prev.slice(-Math.max(1, notificationPolicy.maxToasts)));
+  }, [notificationPolicy]);
+
+  // Sends to each target channel that isn't in quiet hours; critical notifications ignore them.
+  // Returns the names of the channels notified and of those held back by quiet hours.
+  const deliverNotification = useCallback((targets: NotificationRule['channels'], message: { title: string; body: string; type: ToastMessage['type']; ruleName?: string; signal?: Signal }, critical: boolean) => {
+    const now = new Date();
+    const open = (channel: string) => critical || !isQuietTime(notificationPolicy.quietHours[channel], now);
+    const notified: string[] = [];
+    const quiet: string[] = [];
+    const send = (id: string, name: string, deliver: () => void) => {
+      if (!open(id)) {
+        quiet.push(name);
+        return;
       }
+      deliver();
+      notified.push(name);
+    };
+
+    if (targets.inApp) send('inApp', 'In-App', () => addToast(message.title, message.body, message.type));
+    if (targets.browser && Notification.permission === 'granted') {
+      send('browser', 'Browser', () => new Notification(message.title, { body: message.body, icon: '/favicon.ico' }));
+    }
+    targets.external?.forEach(id => {
+      const channel = channels.find(c => c.id === id);
+      if (channel?.enabled) send(id, channel.name, () => deliverToChannel(channel, message, recordDelivery));
     });
-  }, [rules, addToast]);
+    return { notified, quiet };
+  }, [notificationPolicy, channels, addToast, recordDelivery]);
+
+  // --- Throttling (rate limits, dedup and digests per rule, built-in toasts and price alerts) ---
+  const onDigestRef = useRef<(digest: NotificationDigest) => void>(() => {});
+  // Targets of the latest event in each digest, by digestKey()
+  const digestTargetsRef = useRef<Record<string, { targets: NotificationRule['channels']; type: ToastMessage['type']; critical: boolean; ruleName?: string }>>({});
+  const throttler = useMemo(() => createNotificationThrottle(digest => onDigestRef.current(digest)), []);
+
+  useEffect(() => {
+    onDigestRef.current = (digest: NotificationDigest) => {
+        const route = digestTargetsRef.current[digest.key];
+        delete digestTargetsRef.current[digest.key]; // The next event into this digest sets it again
+        if (route) deliverNotification(route.targets, { title: digest.title, body: digest.body, type: route.type, ruleName: route.ruleName }, route.critical);
+    };
+  }, [deliverNotification]);
+
+  useEffect(() => () => throttler.reset(), [throttler]);
+
+  const notify = useCallback((
+    event: ThrottledEvent,
+    throttle: NotificationThrottle,
+    targets: NotificationRule['channels'],
+    message: { type: ToastMessage['type']; ruleName?: string; signal?: Signal }
+  ) => {
+    digestTargetsRef.current[digestKey(event)] = { targets, type: message.type, critical: throttle.critical, ruleName: message.ruleName };
+    const verdict = throttler.admit(event, throttle);
+    if (verdict !== 'SEND') return { verdict, notified: [] as string[], quiet: [] as string[] };
+    return { verdict, ...deliverNotification(targets, { ...message, title: event.title, body: event.body }, throttle.critical) };
+  }, [throttler, deliverNotification]);
+
+  // Built-in toasts for detector output share one throttle
+  const notifySignalToast = useCallback((signal: Signal, title: string, body: string) => {
+    notify(
+      { source: SIGNAL_TOAST_SOURCE, symbol: signal.symbol, side: signal.side, strategy: signal.strategy, title, body },
+      notificationPolicy.signalToasts,
+      { inApp: true, browser: false },
+      { type: signal.side === 'LONG' || signal.side === 'BUY' ? 'success' : 'alert', signal }
+    );
+  }, [notify, notificationPolicy]);
+
+  const checkAndTriggerNotifications = useCallback((signal: Signal) => {
+    const ctx: RuleContext = { signal, tickers: marketDataRef.current, futures: futuresDataRef.current, watchlist: watchlistRef.current };
+    rules.forEach(rule => {
+      if (evaluateRule(rule.condition, ctx)) {
+        const title = signal.confluence ? `Confluence: ${signal.symbol} ${signal.side}` : `Alert: ${signal.symbol} ${signal.side}`;
+        const body = signal.confluence
+          ? `${signal.confluence.contributors.length} inputs, score ${(signal.confluence.score * 100).toFixed(0)}% at ${signal.price.toFixed(2)}`
+          : `${signal.strategy} at ${signal.price.toFixed(2)}`;
+
+        notify(
+          { source: rule.id, symbol: signal.symbol, side: signal.side, strategy: signal.strategy, title, body },
+          rule.throttle || NO_THROTTLE,
+          rule.channels,
+          { type: 'alert', ruleName: rule.name, signal }
+        );
+      }
+    });
+  }, [rules, notify]);
 
   // --- Signal Management Helpers ---
   const handleDeleteSignal = useCallback((id: string) => {
-      setSignals(prev => prev.filter(s => s.id !== id));
+      deleteSignal(id);
   }, []);
 
   const handleClearAllSignals = useCallback(() => {
       if (window.confirm('Are you sure you want to clear the entire signal history?')) {
-          setSignals([]);
+          clearSignals();
           addToast('Cleared', 'Signal history has been reset.', 'info');
       }
   }, [addToast]);
 
-  // --- Price Alert Checker ---
-  useEffect(() => {
-    setPriceAlerts(currentAlerts => {
-        let hasChanges = false;
-        const updatedAlerts = currentAlerts.map(alert => {
-            if (!alert.isActive) return alert;
-            const ticker = marketDataRef.current[alert.symbol];
-            if (!ticker) return alert;
-
-            let triggered = false;
-            if (alert.condition === 'ABOVE' && ticker.lastPrice >= alert.targetPrice) triggered = true;
-            if (alert.condition === 'BELOW' && ticker.lastPrice <= alert.targetPrice) triggered = true;
-
-            if (triggered) {
-                hasChanges = true;
-                const title = `Price Alert: ${alert.symbol}`;
-                const body = `${alert.symbol} is now ${alert.condition.toLowerCase()} ${alert.targetPrice}`;
-                addToast(title, body, 'success');
-                if (Notification.permission === 'granted') new Notification(title, { body });
-                return { ...alert, isActive: false };
-            }
-            return alert;
+  // History is kept in IndexedDB; trim it to the retention policy now and every hour
+  useEffect(() => {
+    localStorage.setItem('fidelio_signal_retention', JSON.stringify(signalRetention));
+    applyRetention(signalRetention);
+    const timer = setInterval(() => applyRetention(signalRetention), 60 * 60 * 1000);
+    return () => clearInterval(timer);
+  }, [signalRetention]);
+
+  // --- Signal Lifecycle (TP/SL, expiry and excursions against live prices) ---
+  // Simulated and replayed prices never resolve a signal, and signals from them aren't tracked
+  const isLiveFeed = !replay && !simulator;
+  const isLiveFeedRef = useRef(isLiveFeed);
+  const trackerRef = useRef<SignalTracker | null>(null);
+  const onSignalResolvedRef = useRef<(signal: Signal) => void>(() => {});
+
+  useEffect(() => {
+    isLiveFeedRef.current = isLiveFeed;
+  }, [isLiveFeed]);
+
+  useEffect(() => {
+    onSignalResolvedRef.current = (signal: Signal) => {
+        const life = signal.lifecycle!;
+        const outcome = life.state === 'TP_HIT' ? 'Take profit hit' : life.state === 'SL_HIT' ? 'Stop loss hit' : life.state === 'CLOSED' ? 'Closed' : 'Expired';
+        addToast(`${outcome}: ${baseAsset(signal.symbol)}`, `${signal.strategy} ${signal.side} ${life.pnl! >= 0 ? '+' : ''}${life.pnl!.toFixed(2)}%`, life.pnl! >= 0 ? 'success' : 'alert');
+    };
+  }, [addToast]);
+
+  useEffect(() => {
+    const tracker = createSignalTracker(signal => onSignalResolvedRef.current(signal));
+    trackerRef.current = tracker;
+    return () => {
+        tracker.stop();
+        trackerRef.current = null;
+    };
+  }, []);
+
+  // The engine outlives renders; settings are pushed into it below
+  const confluence = useMemo(() => createConfluenceEngine(), []);
+  const onConfluenceRef = useRef<(signals: Signal[]) => void>(() => {});
+  // The market pipeline's clock: replayed inputs are stamped with recorded time, so
+  // the confluence window has to run on it too
+  const marketClockRef = useRef(Date.now());
+  const marketNow = useCallback(() => isLiveFeedRef.current ? Date.now() : marketClockRef.current, []);
+
+  // Signals from simulated or replayed data stay in a session that's dropped
+  // when the source changes; webhook alerts and injections are always real.
+  // Confluence starts over too, so one feed's inputs never back another's.
+  useEffect(() => {
+    if (replay || simulator) openSignalSession();
+    else closeSignalSession();
+    confluence.reset();
+  }, [replay, simulator, confluence]);
+
+  // Every stored signal is also an input to the confluence engine
+  const recordSignals = useCallback((newSignals: Signal[], live = isLiveFeedRef.current) => {
+      if (!live) saveSignals(newSignals, 'session');
+      else if (trackerRef.current) trackerRef.current.add(newSignals);
+      else saveSignals(newSignals);
+      // Live alerts arriving during a replay run on another clock, so they don't merge with it
+      if (live !== isLiveFeedRef.current) return;
+      onConfluenceRef.current(confluence.observe(newSignals.map(observationFromSignal).filter(o => o !== null), marketNow()));
+  }, [confluence, marketNow]);
+
+  // --- Signal Confluence (agreeing signals, radar anomalies and scanner hits per symbol) ---
+  useEffect(() => {
+    localStorage.setItem('fidelio_confluence', JSON.stringify(confluenceConfig));
+    confluence.setConfig(confluenceConfig);
+  }, [confluence, confluenceConfig]);
+
+  useEffect(() => {
+    onConfluenceRef.current = (confluences: Signal[]) => {
+        if (confluences.length === 0) return;
+        recordSignals(confluences);
+        confluences.forEach(s => {
+            checkAndTriggerNotifications(s);
+            notifySignalToast(s, `Confluence: ${baseAsset(s.symbol)} ${s.side}`, s.note || '');
+        });
+    };
+  }, [recordSignals, checkAndTriggerNotifications, notifySignalToast]);
+
+  const handleScannerHit = useCallback((analysis: AnalyzerState, preset: string) => {
+      const now = marketNow();
+      onConfluenceRef.current(confluence.observe([observationFromScannerHit(analysis, preset, now)], now));
+  }, [confluence, marketNow]);
+
+  useEffect(() => {
+    if (!isLiveFeed) return;
+    trackerRef.current?.onPrices(key => marketData[key]?.lastPrice ?? futuresData[key]?.markPrice);
+  }, [marketData, futuresData, isLiveFeed]);
+
+  // --- Price Alert Checker (last, mark and funding on every batch) ---
+  const priceAlertMonitor = useMemo(() => createPriceAlertMonitor(), []);
+  const priceAlertsRef = useRef(priceAlerts);
+
+  useEffect(() => {
+    priceAlertsRef.current = priceAlerts;
+    localStorage.setItem('fidelio_price_alerts', JSON.stringify(priceAlerts));
+  }, [priceAlerts]);
+
+  useEffect(() => {
+    localStorage.setItem('fidelio_alert_log', JSON.stringify(alertLog));
+  }, [alertLog]);
+
+  useEffect(() => {
+    const { alerts, events } = priceAlertMonitor.check(priceAlertsRef.current, marketData, futuresData);
+    if (alerts !== priceAlertsRef.current) {
+        priceAlertsRef.current = alerts;
+        setPriceAlerts(alerts);
+    }
+    const triggers: AlertTrigger[] = [];
+    events.forEach(({ alert, type, value, message }) => {
+        if (type === 'EXPIRED') {
+            addToast(`Alert Expired: ${alert.symbol}`, message, 'info');
+            return;
+        }
+        const { verdict, notified, quiet } = notify(
+            { source: PRICE_ALERT_SOURCE, symbol: alert.symbol, side: alert.condition, strategy: alert.id, group: alert.id, title: `Price Alert: ${alert.symbol}`, body: message },
+            notificationPolicy.priceAlerts,
+            alert.channels || DEFAULT_ALERT_CHANNELS,
+            { type: 'success' }
+        );
+        triggers.push({
+            id: Math.random().toString(36).substring(2, 11),
+            alertId: alert.id,
+            symbol: alert.symbol,
+            description: describeAlert(alert),
+            target: alert.target || 'LAST',
+            value: value ?? alert.targetPrice,
+            time: alert.lastTriggeredAt || Date.now(),
+            channels: notified,
+            suppressed: verdict !== 'SEND' ? VERDICT_LABELS[verdict] : quiet.length > 0 ? `Quiet hours: ${quiet.join(', ')}` : undefined
         });
-        return hasChanges ? updatedAlerts : currentAlerts;
     });
-  }, [marketData, addToast]);
+    if (triggers.length > 0) setAlertLog(prev => [...triggers.reverse(), ...prev].slice(0, MAX_ALERT_LOG));
+  }, [marketData, futuresData, priceAlertMonitor, notify, notificationPolicy, addToast]);
 
   // --- Handlers ---
   const addToWatchlist = useCallback((symbol: string) => {
@@ -152,155 +462,262 @@ const App: React.FC = () => {
       setAlertModal({ isOpen: true, symbol });
   }, []);
 
-  const handleCreateAlert = (price: number, condition: 'ABOVE' | 'BELOW') => {
+  const editingAlert = alertModal.alertId ? priceAlerts.find(a => a.id === alertModal.alertId) : undefined;
+
+  const editAlert = useCallback((alert: PriceAlert) => {
+      setAlertModal({ isOpen: true, symbol: alert.symbol, alertId: alert.id });
+  }, []);
+
+  // Editing keeps the trigger history but re-arms the alert and starts its tracking over
+  const handleSaveAlert = (draft: PriceAlertDraft) => {
       if (!alertModal.symbol) return;
-      const newAlert: PriceAlert = {
-          id: Math.random().toString(36).substring(7),
+      const saved: PriceAlert = {
+          ...draft,
+          id: editingAlert?.id || Math.random().toString(36).substring(7),
           symbol: alertModal.symbol,
-          targetPrice: price,
-          condition,
           isActive: true,
-          createdAt: Date.now()
+          createdAt: editingAlert?.createdAt || Date.now(),
+          triggerCount: editingAlert?.triggerCount,
+          lastTriggeredAt: editingAlert?.lastTriggeredAt
       };
-      setPriceAlerts(prev => [...prev, newAlert]);
-      addToast('Alert Set', `Notify when ${alertModal.symbol} is ${condition.toLowerCase()} ${price}`, 'success');
+      if (editingAlert) {
+          priceAlertMonitor.forget(editingAlert.id);
+          setPriceAlerts(prev => prev.map(a => a.id === editingAlert.id ? saved : a));
+          addToast('Alert Updated', `Notify when ${saved.symbol} ${describeAlert(saved)}`, 'success');
+      } else {
+          setPriceAlerts(prev => [...prev, saved]);
+          addToast('Alert Set', `Notify when ${saved.symbol} ${describeAlert(saved)}`, 'success');
+      }
       setAlertModal({ isOpen: false, symbol: null });
   };
 
-  const handleManualSignal = (signal: Signal) => {
-      setSignals(prev => [signal, ...prev].slice(0, 100));
+  // Resuming re-arms the alert; one whose expiry has passed no longer expires
+  const toggleAlert = useCallback((id: string) => {
+      priceAlertMonitor.forget(id);
+      setPriceAlerts(prev => prev.map(a => {
+          if (a.id !== id) return a;
+          if (a.isActive) return { ...a, isActive: false };
+          const expiresAt = a.expiresAt && a.expiresAt > Date.now() ? a.expiresAt : undefined;
+          return { ...a, isActive: true, armed: undefined, expired: undefined, expiresAt };
+      }));
+  }, [priceAlertMonitor]);
+
+  const duplicateAlert = useCallback((id: string) => {
+      setPriceAlerts(prev => {
+          const original = prev.find(a => a.id === id);
+          if (!original) return prev;
+          const copy: PriceAlert = {
+              ...alertDraft(original),
+              id: Math.random().toString(36).substring(7),
+              symbol: original.symbol,
+              isActive: true,
+              createdAt: Date.now()
+          };
+          return [...prev, copy];
+      });
+  }, []);
+
+  const deleteAlert = useCallback((id: string) => {
+      priceAlertMonitor.forget(id);
+      setPriceAlerts(prev => prev.filter(a => a.id !== id));
+  }, [priceAlertMonitor]);
+
+  // Manual injections and webhook alerts share one path into the feed and notifications
+  const handleIncomingSignal = useCallback((signal: Signal, title: string, via: string) => {
+      recordSignals([signal], true);
       checkAndTriggerNotifications(signal);
-      addToast('Signal Injected', `${signal.symbol} ${signal.side} signal added via Hub.`, 'success');
+      addToast(title, `${signal.symbol} ${signal.side} signal added via ${via}.`, 'success');
+  }, [recordSignals, checkAndTriggerNotifications, addToast]);
+
+  const handleManualSignal = (signal: Signal) => handleIncomingSignal(signal, 'Signal Injected', 'Hub');
+
+  // --- Webhook Receiver (TradingView alerts relayed by `npm run webhooks`) ---
+  const onWebhookSignalRef = useRef<(signal: Signal) => void>(() => {});
+  useEffect(() => {
+    onWebhookSignalRef.current = (signal: Signal) => {
+        setWebhookReceived(n => n + 1);
+        handleIncomingSignal(signal, 'Webhook Signal', signal.strategy);
+    };
+  }, [handleIncomingSignal]);
+
+  useEffect(() => {
+    return connectWebhookFeed({
+        onSignal: signal => onWebhookSignalRef.current(signal),
+        onEndpointStats: (id, stats) => setWebhookStats(prev => ({ ...prev, [id]: stats })),
+        onDelivery: setLastWebhookDelivery
+    }, setWebhookStatus);
+  }, []);
+
+  const startReplay = (messages: RecordedMessage[], speed: ReplaySpeed) => {
+      setReplayProgress(null);
+      setReplay({ messages, speed });
+      addToast('Replay Started', `Live feeds paused, replaying ${messages.length.toLocaleString()} messages.`, 'info');
   };
 
-  // --- RMI Logic Detector ---
-  useEffect(() => {
-    const checkRMI = () => {
-        const now = Date.now();
-        const tickers = marketDataRef.current;
-        const newRmiSignals: Signal[] = [];
-
-        Object.values(tickers).forEach((ticker: Ticker) => {
-            if (!ticker.symbol.endsWith('USDT') || ticker.volume < 10000) return;
-            const isOverbought = ticker.priceChangePercent > 4.5;
-            const isOversold = ticker.priceChangePercent < -4.5;
-
-            if (isOverbought || isOversold) {
-                const lastTrigger = rmiCooldownsRef.current[ticker.symbol] || 0;
-                if (now - lastTrigger > 300000) {
-                     const type = isOverbought ? 'RMI_Overbought' : 'RMI_Oversold';
-                     const side = isOverbought ? 'SELL' : 'BUY';
-                     newRmiSignals.push({
-                        id: `rmi_${now}_${ticker.symbol}`,
-                        strategy: type,
-                        symbol: ticker.symbol,
-                        side: side,
-                        price: ticker.lastPrice,
-                        time: new Date().toISOString(),
-                        note: `Momentum Extreme`,
-                        confidence: 0.8,
-                        source: 'ALGO_MOMENTUM'
-                     });
-                     rmiCooldownsRef.current[ticker.symbol] = now;
-                }
-            }
-        });
+  const stopReplay = () => {
+      setReplay(null);
+      setReplayProgress(null);
+      addToast('Live', 'Reconnected to live market streams.', 'info');
+  };
+
+  // --- Indicator Strategies (RSI / RMI / MACD / Bollinger / EMA trend on live candles) ---
+  const onAlgoSignalsRef = useRef<(signals: Signal[]) => void>(() => {});
+  useEffect(() => {
+    onAlgoSignalsRef.current = (newSignals: Signal[]) => {
+        recordSignals(newSignals);
+        newSignals.forEach(s => checkAndTriggerNotifications(s));
+    };
+  }, [recordSignals, checkAndTriggerNotifications]);
+
+  // Candles come from Binance REST/WS, so this only runs on the live Binance feed
+  const indicatorsEnabled = !replay && !simulator && enabledExchanges.includes(PRIMARY_EXCHANGE);
+  const strategyEngineRef = useRef<StrategyEngine | null>(null);
+  const strategyConfigRef = useRef(strategyConfig);
+
+  useEffect(() => {
+    if (!indicatorsEnabled) return;
+    const stream = 'binance:klines';
+    const engine = startStrategyEngine(signals => onAlgoSignalsRef.current(signals), { onStatus: reportStreamStatus(stream), config: strategyConfigRef.current });
+    strategyEngineRef.current = engine;
+    return () => {
+        engine.stop();
+        strategyEngineRef.current = null;
+        clearStreamStatus(stream);
+    };
+  }, [indicatorsEnabled, reportStreamStatus, clearStreamStatus]);
+
+  useEffect(() => {
+    // Watchlist entries for other venues are market keys, indicators follow Binance symbols only
+    const symbols = watchlist.map(parseMarketKey).filter(m => m.exchange === PRIMARY_EXCHANGE).map(m => m.symbol);
+    strategyEngineRef.current?.setSymbols(symbols);
+  }, [watchlist, indicatorsEnabled]);
+
+  // --- Market Worker (one stream per enabled venue, the simulator or a replay) ---
+  // Sockets, parsing and the scanner/radar/divergence math run off the main
+  // thread; React only merges the diffs it posts back.
+  useEffect(() => {
+    localStorage.setItem('fidelio_simulator', JSON.stringify(simulator));
+  }, [simulator]);
+
+  useEffect(() => {
+    localStorage.setItem('fidelio_exchanges', JSON.stringify(enabledExchanges));
+  }, [enabledExchanges]);
+
+  useEffect(() => {
+    localStorage.setItem('fidelio_batch_interval', JSON.stringify(batchIntervalMs));
+  }, [batchIntervalMs]);
+
+  useEffect(() => {
+    localStorage.setItem('fidelio_book_symbol', bookSymbol);
+  }, [bookSymbol]);
 
-        if (newRmiSignals.length > 0) {
-            setSignals(prev => [...newRmiSignals, ...prev].slice(0, 100));
-            newRmiSignals.forEach(s => checkAndTriggerNotifications(s));
+  const onMarketUpdateRef = useRef<(update: MarketUpdate) => void>(() => {});
+  useEffect(() => {
+    onMarketUpdateRef.current = (update: MarketUpdate) => {
+        if (update.now !== undefined) marketClockRef.current = update.now;
+        if (update.reset) {
+            // Switching between live, simulated and replayed data starts from a clean slate so they never mix
+            setMarketData({});
+            setFuturesData({});
+            setLiquidations([]);
+            setAnalyzers({});
+            setRadar(null);
+            setOrderBook(undefined);
+            confluence.reset();
+            priceAlertMonitor.reset();
+        }
+        if (update.dropExchanges) {
+            const isKept = (item: { exchange?: Exchange }) => !update.dropExchanges!.includes(exchangeOf(item));
+            setMarketData(prev => Object.fromEntries(Object.entries(prev).filter(([, t]) => isKept(t))));
+            setFuturesData(prev => Object.fromEntries(Object.entries(prev).filter(([, t]) => isKept(t))));
+            setLiquidations(prev => prev.filter(isKept));
+        }
+        if (update.tickers) setMarketData(prev => ({ ...prev, ...update.tickers }));
+        if (update.futures) setFuturesData(prev => ({ ...prev, ...update.futures }));
+        if (update.liquidations) setLiquidations(prev => [...update.liquidations!, ...prev].slice(0, 50));
+        if (update.analyzers) setAnalyzers(prev => ({ ...prev, ...update.analyzers }));
+        if (update.flowSymbols !== undefined) setFlowSymbolCount(update.flowSymbols);
+        if (update.radar) {
+            setRadar(update.radar);
+            onConfluenceRef.current(confluence.observeAnomalies(update.radar.anomalies, symbol => marketDataRef.current[symbol]?.lastPrice, marketNow()));
+        }
+        if (update.book !== undefined) setOrderBook(update.book);
+        if (update.status) {
+            setStreamStatus(prev => {
+                const next = { ...prev };
+                Object.entries(update.status!).forEach(([name, status]) => {
+                    if (status) next[name] = status;
+                    else delete next[name];
+                });
+                return next;
+            });
+        }
+        if (update.replay) setReplayProgress(update.replay);
+        if (update.recording !== undefined) setRecordingStats(update.recording);
+        if (update.recordingText !== undefined) recordingTextRef.current = update.recordingText;
+
+        const newSignals = update.signals;
+        if (newSignals) {
+            recordSignals(newSignals);
+            newSignals.forEach(s => {
+                checkAndTriggerNotifications(s);
+                notifySignalToast(s, `${s.side} Signal: ${baseAsset(s.symbol)}`, s.note || 'Divergence');
+            });
         }
     };
-    const interval = setInterval(checkRMI, 3000);
-    return () => clearInterval(interval);
-  }, [checkAndTriggerNotifications]);
+  }, [recordSignals, checkAndTriggerNotifications, notifySignalToast, confluence, priceAlertMonitor, marketNow]);
 
-  // --- WebSocket Connections ---
+  const pipelineRef = useRef<MarketPipelineClient | null>(null);
   useEffect(() => {
-    const disconnect = connectToBinance((newTickers) => {
-        setConnectionStatus('connected');
-        setMarketData(prev => ({ ...prev, ...newTickers }));
-    });
-    return () => { disconnect(); setConnectionStatus('disconnected'); };
+    const client = connectMarketPipeline(update => onMarketUpdateRef.current(update));
+    client.send({ type: 'strategies', config: strategyConfigRef.current });
+    pipelineRef.current = client;
+    return () => {
+        client.close();
+        pipelineRef.current = null;
+    };
   }, []);
 
+  // Plugin settings apply live: candle strategies here, funding strategies in the market worker
   useEffect(() => {
-    const disconnect = connectToBinanceFutures((updates) => {
-        setFuturesData(prev => {
-            const next = { ...prev };
-            const now = Date.now();
-            const newSignals: Signal[] = [];
-            const FUNDING_THRESHOLD = 0.0003; 
-
-            Object.values(updates).forEach((update: Partial<FuturesTicker>) => {
-                const symbol = update.symbol!;
-                const current = prev[symbol];
-                
-                let sessionStartRate = current?.sessionStartRate;
-                if (sessionStartRate === undefined && update.fundingRate !== undefined) sessionStartRate = update.fundingRate;
-                
-                let sessionChange = current?.sessionChange || 0;
-                if (update.fundingRate !== undefined && sessionStartRate !== undefined) sessionChange = update.fundingRate - sessionStartRate;
-
-                // Divergence Logic
-                if (current && update.fundingRate !== undefined && update.markPrice !== undefined) {
-                    const priceChange = update.markPrice - current.markPrice;
-                    const fundingChange = update.fundingRate - current.fundingRate;
-                    const lastTime = lastSignalTimeRef.current[symbol] || 0;
-                    
-                    if (now - lastTime > 15000) {
-                        if (fundingChange < 0 && priceChange > 0 && update.fundingRate <= -FUNDING_THRESHOLD) {
-                             if ((priceChange / current.markPrice) > 0.0005) {
-                                newSignals.push({
-                                    id: `auto_${now}_${symbol}`,
-                                    strategy: 'SmartMoney_Divergence',
-                                    symbol, side: 'LONG', price: update.markPrice,
-                                    time: new Date().toISOString(),
-                                    note: `Funding Short Squeeze Alert`,
-                                    confidence: 0.85, source: 'ALGO'
-                                });
-                                lastSignalTimeRef.current[symbol] = now;
-                             }
-                        }
-                        if (fundingChange > 0 && priceChange < 0 && update.fundingRate >= FUNDING_THRESHOLD) {
-                             if ((priceChange / current.markPrice) < -0.0005) {
-                                newSignals.push({
-                                    id: `auto_${now}_${symbol}`,
-                                    strategy: 'SmartMoney_Divergence',
-                                    symbol, side: 'SHORT', price: update.markPrice,
-                                    time: new Date().toISOString(),
-                                    note: `Funding Long Trap Alert`,
-                                    confidence: 0.85, source: 'ALGO'
-                                });
-                                lastSignalTimeRef.current[symbol] = now;
-                             }
-                        }
-                    }
-                }
-                next[symbol] = { ...current, ...update, symbol, markPrice: update.markPrice ?? current?.markPrice ?? 0, fundingRate: update.fundingRate ?? current?.fundingRate ?? 0, nextFundingTime: update.nextFundingTime ?? current?.nextFundingTime ?? 0, indexPrice: update.indexPrice ?? current?.indexPrice ?? 0, sessionStartRate, sessionChange } as FuturesTicker;
-            });
+    localStorage.setItem('fidelio_strategy_config', JSON.stringify(strategyConfig));
+    strategyConfigRef.current = strategyConfig;
+    strategyEngineRef.current?.setConfig(strategyConfig);
+    pipelineRef.current?.send({ type: 'strategies', config: strategyConfig });
+  }, [strategyConfig]);
+
+  const liveSource = useMemo<MarketSource>(
+    () => simulator ? { kind: 'simulator', config: simulator } : { kind: 'live', exchanges: enabledExchanges },
+    [simulator, enabledExchanges]
+  );
+  const replaySource = useMemo<MarketSource | null>(() => replay ? { kind: 'replay', ...replay } : null, [replay]);
+  const marketSource = replaySource || liveSource;
 
-            if (newSignals.length > 0) {
-                setTimeout(() => {
-                    setSignals(prev => {
-                         const combined = [...newSignals, ...prev].slice(0, 100);
-                         newSignals.forEach(s => checkAndTriggerNotifications(s));
-                         return combined;
-                    });
-                    newSignals.forEach(s => addToast(`${s.side} Signal: ${s.symbol.replace('USDT', '')}`, s.note || 'Divergence', s.side === 'LONG' ? 'success' : 'alert'));
-                }, 0);
-            }
-            return next;
-        });
-    });
-    return () => disconnect();
-  }, [checkAndTriggerNotifications, addToast]);
+  useEffect(() => {
+    pipelineRef.current?.send({ type: 'configure', source: marketSource, batchIntervalMs });
+  }, [marketSource, batchIntervalMs]);
 
+  // Spot Sniper's analyzers (and its trade stream) only run while it is open
   useEffect(() => {
-    const disconnect = connectToLiquidations((liq) => {
-        setLiquidations(prev => [liq, ...prev].slice(0, 50));
-    });
-    return () => disconnect();
+    const active = viewMode === 'spot-scanner';
+    pipelineRef.current?.send({ type: 'scanner', active });
+    if (!active) setAnalyzers({});
+  }, [viewMode]);
+
+  // The order book panel lives on the Spot Sniper page too
+  useEffect(() => {
+    pipelineRef.current?.send({ type: 'book', symbol: viewMode === 'spot-scanner' ? bookSymbol : null });
+    setOrderBook(undefined);
+  }, [viewMode, bookSymbol]);
+
+  const toggleRecording = () => {
+      const recording = !!recordingStats && !recordingStats.stoppedAt;
+      pipelineRef.current?.send({ type: 'recorder', action: recording ? 'stop' : 'start' });
+  };
+
+  // Tick sizes and base/quote splits; the bundled snapshot covers the majors until exchangeInfo arrives
+  useEffect(() => {
+    loadSymbolRegistry();
   }, []);
 
   useEffect(() => {
@@ -318,14 +735,32 @@ const App: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-background text-text font-sans selection:bg-primary/30 flex flex-col transition-colors duration-200">
-       <ToastContainer toasts={toasts} onDismiss={dismissToast} />
+       <ToastContainer toasts={toasts} onDismiss={dismissToast} limit={notificationPolicy.maxToasts} />
        
        <Modal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} title="Preferences">
-         <NotificationSettings rules={rules} setRules={setRules} />
+         <DataSourceSettings simulator={simulator} onChange={setSimulator} batchIntervalMs={batchIntervalMs} onBatchIntervalChange={setBatchIntervalMs} />
+         {!simulator && <ExchangeSettings enabled={enabledExchanges} onChange={setEnabledExchanges} />}
+         <StrategySettings config={strategyConfig} onChange={setStrategyConfig} />
+         <ConfluenceSettings config={confluenceConfig} onChange={setConfluenceConfig} />
+         <ChannelSettings channels={channels} onChange={setChannels} deliveries={channelDeliveries} onTest={handleTestChannel} />
+         <NotificationPolicySettings policy={notificationPolicy} onChange={setNotificationPolicy} channels={channels} />
+         <NotificationSettings rules={rules} setRules={setRules} marketData={marketData} futuresData={futuresData} watchlist={watchlist} channels={channels} />
        </Modal>
 
-       <Modal isOpen={alertModal.isOpen} onClose={() => setAlertModal({ isOpen: false, symbol: null })} title={`Set Alert: ${alertModal.symbol?.replace('USDT', '')}`}>
-          {alertModal.symbol && <SetAlertModal symbol={alertModal.symbol} currentPrice={marketData[alertModal.symbol]?.lastPrice || 0} onSave={handleCreateAlert} onCancel={() => setAlertModal({ isOpen: false, symbol: null })} />}
+       <Modal isOpen={alertModal.isOpen} onClose={() => setAlertModal({ isOpen: false, symbol: null })} title={`${editingAlert ? 'Edit' : 'Set'} Alert: ${alertModal.symbol ? baseAsset(parseMarketKey(alertModal.symbol).symbol) : ''}`}>
+          {alertModal.symbol && (
+             <SetAlertModal
+                key={alertModal.alertId || alertModal.symbol}
+                symbol={alertModal.symbol}
+                currentPrice={marketData[alertModal.symbol]?.lastPrice || 0}
+                markPrice={futuresData[alertModal.symbol]?.markPrice}
+                fundingRate={futuresData[alertModal.symbol]?.fundingRate}
+                channels={channels}
+                initial={editingAlert && alertDraft(editingAlert)}
+                onSave={handleSaveAlert}
+                onCancel={() => setAlertModal({ isOpen: false, symbol: null })}
+             />
+          )}
        </Modal>
 
        <header className="sticky top-0 z-30 shrink-0 bg-surface border-b border-border shadow-sm h-16">
@@ -341,6 +776,9 @@ const App: React.FC = () => {
                     <NavLink mode="funding" label="Derivatives" />
                     <NavLink mode="portfolio" label="Portfolio" />
                     <NavLink mode="signals-manager" label="Signals" />
+                    <NavLink mode="signal-analytics" label="Analytics" />
+                    <NavLink mode="alerts" label="Alerts" />
+                    <NavLink mode="backtest" label="Backtest" />
                     <NavLink mode="fidelio-ai" label="Fidelio.ai" icon={<Sparkles size={14} className={viewMode === 'fidelio-ai' ? 'animate-pulse' : ''} />} />
                     <NavLink mode="lab" label="Lab" />
                  </nav>
@@ -352,10 +790,9 @@ const App: React.FC = () => {
              </div>
 
              <div className="flex items-center gap-4 shrink-0">
-                <div className={`hidden lg:flex items-center gap-2 text-[12px] font-medium px-2 py-1 rounded bg-surface-secondary text-secondary`}>
-                   <div className={`w-1.5 h-1.5 rounded-full ${connectionStatus === 'connected' ? 'bg-success' : 'bg-warning'}`} />
-                   {connectionStatus === 'connected' ? 'Connected' : '...'}
-                </div>
+                <StreamStatusBadge streams={streamStatus} />
+                {replay && <button onClick={() => setViewMode('lab')} className="text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded bg-warning/10 text-warning">Replay</button>}
+                {!replay && simulator && <button onClick={() => setIsSettingsOpen(true)} className="text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded bg-primary/10 text-primary">Sim #{simulator.seed}</button>}
                 <button onClick={toggleTheme} className="p-2 rounded hover:bg-surface-secondary text-secondary hover:text-text"><ThemeIcon theme={theme} /></button>
                 <button onClick={() => setIsSettingsOpen(true)} className="p-2 rounded hover:bg-surface-secondary text-secondary hover:text-text"><Settings size={20} /></button>
                 <div className="w-8 h-8 rounded-full bg-primary flex items-center justify-center text-black font-bold text-xs cursor-pointer hover:opacity-90">U</div>
@@ -368,7 +805,7 @@ const App: React.FC = () => {
             <div className="flex flex-col gap-4 h-full">
                 <div className="shrink-0">
                     <div className="mb-4">
-                        <FidelioRadar spotData={marketData} futuresData={futuresData} />
+                        <FidelioRadar radar={radar} />
                     </div>
                 </div>
                 <div className="grid grid-cols-1 lg:grid-cols-12 gap-4 flex-1 min-h-0">
@@ -376,13 +813,22 @@ const App: React.FC = () => {
                         <Watchlist symbols={watchlist} data={marketData} activeAlerts={priceAlerts} onAdd={addToWatchlist} onRemove={removeFromWatchlist} onSetAlert={openAlertModal} />
                     </div>
                     <div className="lg:col-span-8 flex flex-col h-full min-h-[400px]">
-                        <SignalFeed signals={signals} marketData={marketData} />
+                        <SignalFeed marketData={marketData} />
                     </div>
                 </div>
             </div>
           )}
 
-          {viewMode === 'spot-scanner' && <SpotScanner data={marketData} />}
+          {viewMode === 'spot-scanner' && (
+             <div className="h-full flex flex-col xl:flex-row gap-4">
+                <div className="flex-1 min-w-0 h-full">
+                    <SpotScanner analyzers={analyzers} flowSymbolCount={flowSymbolCount} onSelectSymbol={setBookSymbol} onHit={handleScannerHit} />
+                </div>
+                <div className="xl:w-80 shrink-0 h-full">
+                    <OrderBookPanel symbol={bookSymbol} book={orderBook} onSymbolChange={setBookSymbol} />
+                </div>
+             </div>
+          )}
 
           {viewMode === 'funding' && (
              <div className="h-full flex flex-col gap-4">
@@ -404,9 +850,37 @@ const App: React.FC = () => {
              </div>
           )}
 
-          {viewMode === 'signals-manager' && <SignalManager signals={signals} onDelete={handleDeleteSignal} onClearAll={handleClearAllSignals} />}
+          {viewMode === 'signals-manager' && <SignalManager onDelete={handleDeleteSignal} onClearAll={handleClearAllSignals} retention={signalRetention} onRetentionChange={setSignalRetention} />}
+          {viewMode === 'signal-analytics' && <SignalAnalytics />}
+          {viewMode === 'alerts' && (
+             <AlertManager
+                alerts={priceAlerts}
+                log={alertLog}
+                marketData={marketData}
+                futuresData={futuresData}
+                channels={channels}
+                onEdit={editAlert}
+                onToggle={toggleAlert}
+                onDuplicate={duplicateAlert}
+                onDelete={deleteAlert}
+                onClearLog={() => setAlertLog([])}
+             />
+          )}
+          {viewMode === 'backtest' && <Backtester strategyConfig={strategyConfig} />}
           {viewMode === 'fidelio-ai' && <FidelioAI spotData={marketData} futuresData={futuresData} />}
-          {viewMode === 'lab' && <WebhookManager onManualSignal={handleManualSignal} />}
+          {viewMode === 'lab' && (
+             <div className="flex flex-col gap-6">
+                <WebhookManager onManualSignal={handleManualSignal} receiverStatus={webhookStatus} receivedCount={webhookReceived} endpointStats={webhookStats} lastDelivery={lastWebhookDelivery} />
+                <MarketReplayPanel
+                    replay={replay ? { speed: replay.speed, progress: replayProgress } : null}
+                    onStartReplay={startReplay}
+                    onStopReplay={stopReplay}
+                    recorder={recordingStats}
+                    onToggleRecording={toggleRecording}
+                    onDownloadRecording={() => downloadRecording(recordingTextRef.current)}
+                />
+             </div>
+          )}
        </main>
 
        {/* Footer Ticker */}
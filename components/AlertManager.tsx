@@ -0,0 +1,245 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTrigger, FuturesTicker, NotificationChannel, PriceAlert, Ticker } from '../types';
+import { Card } from './ui/Card';
+import { Bell, BellOff, Copy, Pencil, Pause, Play, Trash2, History, X } from 'lucide-react';
+import { EXCHANGE_META, parseMarketKey } from '../services/exchanges';
+import { DEFAULT_ALERT_CHANNELS, PriceAlertStatus, TARGET_LABELS, alertStatus, alertValue, describeAlert, formatAlertValue } from '../services/priceAlerts';
+
+interface AlertManagerProps {
+  alerts: PriceAlert[];
+  log: AlertTrigger[];
+  marketData: Record<string, Ticker>;
+  futuresData: Record<string, FuturesTicker>;
+  channels: NotificationChannel[];
+  onEdit: (alert: PriceAlert) => void;
+  onToggle: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClearLog: () => void;
+}
+
+type StatusFilter = 'ALL' | 'ACTIVE' | 'PAUSED' | 'TRIGGERED' | 'EXPIRED';
+
+const STATUS_STYLES: Record<PriceAlertStatus, { label: string; className: string }> = {
+  ACTIVE: { label: 'Active', className: 'bg-success/10 text-success' },
+  WAITING: { label: 'Re-arming', className: 'bg-warning/10 text-warning' },
+  PAUSED: { label: 'Paused', className: 'bg-surface-highlight text-secondary' },
+  TRIGGERED: { label: 'Triggered', className: 'bg-primary/10 text-primary' },
+  EXPIRED: { label: 'Expired', className: 'bg-danger/10 text-danger' }
+};
+
+// Re-arming alerts are still live, so they show under Active
+const matchesFilter = (status: PriceAlertStatus, filter: StatusFilter) =>
+  filter === 'ALL' || status === filter || (filter === 'ACTIVE' && status === 'WAITING');
+
+const formatTime = (time: number) => new Date(time).toLocaleString(undefined, {
+  month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit'
+});
+
+const thClass = 'px-4 py-3 text-left text-xs font-semibold text-secondary uppercase tracking-wider';
+
+const MarketCell: React.FC<{ symbol: string }> = ({ symbol }) => {
+  const { exchange, symbol: market } = parseMarketKey(symbol);
+  return (
+    <div className="flex items-center gap-2">
+      <span className="font-bold text-sm text-text">{market}</span>
+      <span className={`px-1.5 py-0.5 rounded text-[9px] font-bold uppercase tracking-wider ${EXCHANGE_META[exchange].badge}`}>{EXCHANGE_META[exchange].short}</span>
+    </div>
+  );
+};
+
+const ActionButton: React.FC<{ title: string; onClick: () => void; danger?: boolean; children: React.ReactNode }> = ({ title, onClick, danger, children }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    title={title}
+    className={`p-1.5 rounded-lg transition-colors ${danger ? 'text-secondary hover:text-danger hover:bg-danger/10' : 'text-secondary hover:text-text hover:bg-surface-secondary'}`}
+  >
+    {children}
+  </button>
+);
+
+export const AlertManager: React.FC<AlertManagerProps> = ({ alerts, log, marketData, futuresData, channels, onEdit, onToggle, onDuplicate, onDelete, onClearLog }) => {
+  const [filter, setFilter] = useState<StatusFilter>('ALL');
+  const [logAlertId, setLogAlertId] = useState<string | null>(null);
+
+  const counts = useMemo(() => {
+    const result: Record<StatusFilter, number> = { ALL: alerts.length, ACTIVE: 0, PAUSED: 0, TRIGGERED: 0, EXPIRED: 0 };
+    alerts.forEach(alert => {
+      const status = alertStatus(alert);
+      result[status === 'WAITING' ? 'ACTIVE' : status]++;
+    });
+    return result;
+  }, [alerts]);
+
+  // Newest first
+  const rows = useMemo(
+    () => alerts.filter(alert => matchesFilter(alertStatus(alert), filter)).sort((a, b) => b.createdAt - a.createdAt),
+    [alerts, filter]
+  );
+  const entries = useMemo(() => logAlertId ? log.filter(entry => entry.alertId === logAlertId) : log, [log, logAlertId]);
+
+  const channelNames = (alert: PriceAlert) => {
+    const targets = alert.channels || DEFAULT_ALERT_CHANNELS;
+    return [
+      targets.inApp ? 'In-App' : null,
+      targets.browser ? 'Browser' : null,
+      ...(targets.external || []).map(id => channels.find(c => c.id === id)?.name)
+    ].filter(Boolean).join(', ') || 'None';
+  };
+
+  const remove = (id: string) => {
+    if (logAlertId === id) setLogAlertId(null);
+    onDelete(id);
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <Card noPadding>
+        <div className="p-5 border-b border-border bg-surface flex flex-col xl:flex-row gap-4 justify-between items-start xl:items-center">
+          <div>
+            <h2 className="text-xl font-bold text-text flex items-center gap-2">
+              <Bell className="text-brand" size={24} />
+              Price Alerts
+            </h2>
+            <p className="text-secondary text-sm mt-1">Edit, pause and review alerts. New alerts are set from the bell in the watchlist.</p>
+          </div>
+          <div className="bg-surface-secondary p-1 rounded-xl flex">
+            {(['ALL', 'ACTIVE', 'PAUSED', 'TRIGGERED', 'EXPIRED'] as StatusFilter[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setFilter(option)}
+                className={`px-3 py-1.5 rounded-lg text-xs font-semibold transition-all ${filter === option ? 'bg-surface text-text shadow-sm' : 'text-secondary hover:text-text'}`}
+              >
+                {option === 'ALL' ? 'All' : STATUS_STYLES[option].label} <span className="font-mono opacity-60">{counts[option]}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-border">
+            <thead className="bg-surface">
+              <tr>
+                <th className={thClass}>Market</th>
+                <th className={thClass}>Condition</th>
+                <th className={`${thClass} text-right`}>Now</th>
+                <th className={thClass}>Status</th>
+                <th className={`${thClass} hidden md:table-cell`}>Notify</th>
+                <th className={`${thClass} hidden lg:table-cell`}>Expires</th>
+                <th className={`${thClass} text-right`}>Triggers</th>
+                <th className={`${thClass} text-right`}>Action</th>
+              </tr>
+            </thead>
+            <tbody className="bg-surface divide-y divide-border">
+              {rows.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-6 py-12 text-center text-secondary">
+                    <div className="flex flex-col items-center justify-center gap-3">
+                      <BellOff size={32} className="opacity-20" />
+                      <p>{alerts.length === 0 ? 'No price alerts yet.' : 'No alerts match this filter.'}</p>
+                    </div>
+                  </td>
+                </tr>
+              ) : rows.map(alert => {
+                const status = alertStatus(alert);
+                const value = alertValue(alert, marketData, futuresData);
+                const live = status === 'ACTIVE' || status === 'WAITING';
+                return (
+                  <tr key={alert.id} className="hover:bg-surface-secondary/50 transition-colors">
+                    <td className="px-4 py-3 whitespace-nowrap"><MarketCell symbol={alert.symbol} /></td>
+                    <td className="px-4 py-3 text-sm text-text">
+                      {describeAlert(alert)}
+                      <div className="text-[11px] text-secondary">
+                        {TARGET_LABELS[alert.target || 'LAST']}{alert.recurring ? ' · recurring' : ''}{alert.rearmBy ? ` · re-arms after ${alert.rearmBy}${alert.target === 'FUNDING' ? ' pts' : '%'}` : ''}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-right text-sm font-mono text-text">{value !== undefined ? formatAlertValue(alert, value) : '-'}</td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider ${STATUS_STYLES[status].className}`}>{STATUS_STYLES[status].label}</span>
+                    </td>
+                    <td className="px-4 py-3 text-xs text-secondary hidden md:table-cell">{channelNames(alert)}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-xs font-mono text-secondary hidden lg:table-cell">{alert.expiresAt ? formatTime(alert.expiresAt) : 'Never'}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-right">
+                      <button
+                        type="button"
+                        onClick={() => setLogAlertId(logAlertId === alert.id ? null : alert.id)}
+                        className={`text-sm font-mono ${logAlertId === alert.id ? 'text-primary font-bold' : 'text-text hover:text-primary'}`}
+                        title={alert.lastTriggeredAt ? `Last ${formatTime(alert.lastTriggeredAt)}. Click to filter the log.` : 'Filter the log'}
+                      >
+                        {alert.triggerCount || 0}
+                      </button>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <div className="flex items-center justify-end gap-0.5">
+                        <ActionButton title={live ? 'Pause' : 'Resume'} onClick={() => onToggle(alert.id)}>
+                          {live ? <Pause size={14} /> : <Play size={14} />}
+                        </ActionButton>
+                        <ActionButton title="Edit" onClick={() => onEdit(alert)}><Pencil size={14} /></ActionButton>
+                        <ActionButton title="Duplicate" onClick={() => onDuplicate(alert.id)}><Copy size={14} /></ActionButton>
+                        <ActionButton title="Delete" onClick={() => remove(alert.id)} danger><Trash2 size={14} /></ActionButton>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      <Card noPadding>
+        <div className="px-5 py-3 border-b border-border bg-surface flex items-center justify-between gap-3">
+          <h3 className="font-sans text-[15px] font-semibold text-text tracking-tight flex items-center gap-2">
+            <History size={16} className="text-secondary" /> Trigger Log
+            {logAlertId && (
+              <button type="button" onClick={() => setLogAlertId(null)} className="ml-1 px-2 py-0.5 rounded-lg bg-surface-secondary text-[11px] font-semibold text-secondary hover:text-text flex items-center gap-1">
+                One alert <X size={11} />
+              </button>
+            )}
+          </h3>
+          <button
+            type="button"
+            onClick={onClearLog}
+            disabled={log.length === 0}
+            className="text-[11px] font-semibold text-danger hover:bg-danger/10 px-2 py-1 rounded-lg flex items-center gap-1 disabled:opacity-40"
+          >
+            <Trash2 size={12} /> Clear
+          </button>
+        </div>
+        <div className="overflow-auto max-h-[480px]">
+          <table className="min-w-full divide-y divide-border">
+            <thead className="bg-surface sticky top-0 z-10 shadow-sm">
+              <tr>
+                <th className={thClass}>Time</th>
+                <th className={thClass}>Market</th>
+                <th className={thClass}>Alert</th>
+                <th className={`${thClass} text-right`}>At</th>
+                <th className={thClass}>Notified</th>
+              </tr>
+            </thead>
+            <tbody className="bg-surface divide-y divide-border">
+              {entries.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-sm text-secondary">Nothing has triggered yet.</td>
+                </tr>
+              ) : entries.map(entry => (
+                <tr key={entry.id} className="hover:bg-surface-secondary/50 transition-colors">
+                  <td className="px-4 py-2.5 whitespace-nowrap text-xs font-mono text-secondary">{formatTime(entry.time)}</td>
+                  <td className="px-4 py-2.5 whitespace-nowrap"><MarketCell symbol={entry.symbol} /></td>
+                  <td className="px-4 py-2.5 text-sm text-text">{entry.description}</td>
+                  <td className="px-4 py-2.5 whitespace-nowrap text-right text-sm font-mono text-text">{formatAlertValue(entry, entry.value)}</td>
+                  <td className="px-4 py-2.5 text-xs">
+                    <span className="text-text">{entry.channels.length > 0 ? entry.channels.join(', ') : 'None'}</span>
+                    {entry.suppressed && <span className="text-warning ml-1.5">({entry.suppressed})</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+};
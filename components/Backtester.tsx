@@ -0,0 +1,406 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { KlineInterval } from '../types';
+import { Card } from './ui/Card';
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine, CartesianGrid } from 'recharts';
+import { FlaskConical, Play, Square, Upload, AlertTriangle, Filter } from 'lucide-react';
+import { ScannerPreset, SCANNER_PRESETS } from '../services/marketAnalysis';
+import { parseRecording, RecordedMessage } from '../services/marketRecorder';
+import { BacktestConfig, BacktestProgress, BacktestResult, BacktestStrategy, fundingFromRecording, runBacktest } from '../services/backtest';
+import { signalR } from '../services/signalAnalytics';
+import { baseAsset, resolveSymbol } from '../services/symbolRegistry';
+import { SignalStateBadge } from './ui/SignalStateBadge';
+import { virtualWindow } from './ui/virtualWindow';
+import { StrategyConfig, getStrategies } from '../services/strategies';
+
+interface BacktesterProps {
+  strategyConfig: StrategyConfig; // Parameters and cooldowns from Preferences
+}
+
+interface SavedConfig {
+  strategy: string; // Encoded, see encodeStrategy
+  symbols: string;
+  interval: KlineInterval;
+  from: string;
+  to: string;
+  feeBps: number;
+  slippageBps: number;
+  tradeSize: number;
+  initialCapital: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INTERVALS: KlineInterval[] = ['1m', '5m', '15m', '1h', '4h', '1d'];
+const ROW_HEIGHT = 37;
+
+const toDateInput = (ms: number) => new Date(ms - new Date(ms).getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+
+const DEFAULT_CONFIG: SavedConfig = {
+  strategy: 'INDICATOR:RMI_Oversold',
+  symbols: 'BTCUSDT, ETHUSDT',
+  interval: '15m',
+  from: toDateInput(Date.now() - 30 * DAY_MS),
+  to: toDateInput(Date.now()),
+  feeBps: 10,
+  slippageBps: 2,
+  tradeSize: 1000,
+  initialCapital: 10000
+};
+
+const encodeStrategy = (s: BacktestStrategy) => s.kind === 'INDICATOR' ? `INDICATOR:${s.name}` : s.kind === 'SCANNER' ? `SCANNER:${s.preset}` : 'DIVERGENCE';
+
+const decodeStrategy = (value: string): BacktestStrategy => {
+  const [kind, arg] = value.split(':');
+  if (kind === 'SCANNER') return { kind: 'SCANNER', preset: arg as ScannerPreset };
+  if (kind === 'DIVERGENCE') return { kind: 'DIVERGENCE' };
+  return { kind: 'INDICATOR', name: arg };
+};
+
+const PRESET_LABELS: Record<ScannerPreset, string> = {
+  DEFAULT: 'Default',
+  WHALE_ACCUMULATION: 'Whale Accumulation',
+  BREAKOUT: 'Breakout',
+  DIP_SNIPER: 'Dip Sniper'
+};
+
+const tooltipStyle = {
+  backgroundColor: 'var(--bg-surface-highlight)',
+  borderColor: 'var(--color-border)',
+  borderRadius: '8px',
+  fontSize: '11px',
+  padding: '6px 10px'
+};
+const axisTick = { fontSize: 9, fill: 'var(--color-text-secondary)' };
+
+const formatSigned = (value: number | null, digits = 2, suffix = '') =>
+  value === null ? '-' : `${value > 0 ? '+' : ''}${value.toFixed(digits)}${suffix}`;
+
+const tone = (value: number | null) => value === null || value === 0 ? 'text-text' : value > 0 ? 'text-success' : 'text-danger';
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return '-';
+  const minutes = ms / 60000;
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  if (minutes < 48 * 60) return `${(minutes / 60).toFixed(1)}h`;
+  return `${(minutes / 1440).toFixed(1)}d`;
+};
+
+const STAGE_LABELS: Record<BacktestProgress['stage'], string> = {
+  candles: 'loading candles',
+  funding: 'loading funding history',
+  simulating: 'simulating'
+};
+
+const inputClass = 'w-full bg-surface border border-border rounded-lg px-3 py-2 text-sm text-text focus:border-brand focus:outline-none';
+
+export const Backtester: React.FC<BacktesterProps> = ({ strategyConfig }) => {
+  const [config, setConfig] = useState<SavedConfig>(() => {
+    const saved = localStorage.getItem('fidelio_backtest_config');
+    return saved ? { ...DEFAULT_CONFIG, ...JSON.parse(saved) } : DEFAULT_CONFIG;
+  });
+  const [recording, setRecording] = useState<{ name: string; messages: RecordedMessage[]; symbols: number; frames: number } | null>(null);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<BacktestProgress | null>(null);
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [scroll, setScroll] = useState({ top: 0, height: 400 });
+  const runRef = useRef(0);
+
+  useEffect(() => {
+    localStorage.setItem('fidelio_backtest_config', JSON.stringify(config));
+  }, [config]);
+
+  // A run that outlives the view has nowhere to report to
+  useEffect(() => () => { runRef.current++; }, []);
+
+  const update = <K extends keyof SavedConfig>(key: K, value: SavedConfig[K]) => setConfig(prev => ({ ...prev, [key]: value }));
+
+  const strategy = decodeStrategy(config.strategy);
+  const indicatorNames = getStrategies().filter(p => p.inputs.includes('klines')).flatMap(p => p.emits);
+  const symbols = Array.from(new Set<string>(config.symbols.split(/[\s,]+/).filter(Boolean).map(s => resolveSymbol(s))));
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then(text => {
+      const { messages } = parseRecording(text);
+      const bySymbol = fundingFromRecording(messages);
+      setRecording({
+        name: file.name,
+        messages,
+        symbols: Object.keys(bySymbol).length,
+        frames: Object.values(bySymbol).reduce((n, points) => n + points.length, 0)
+      });
+    });
+    e.target.value = '';
+  };
+
+  const run = async () => {
+    const start = Date.parse(`${config.from}T00:00:00`);
+    const end = Math.min(Date.now(), Date.parse(`${config.to}T23:59:59.999`));
+    if (!Number.isFinite(start) || !Number.isFinite(end) || start >= end) {
+      setError('Pick a start date before the end date.');
+      return;
+    }
+    if (symbols.length === 0) {
+      setError('Add at least one symbol.');
+      return;
+    }
+
+    const backtest: BacktestConfig = {
+      strategy, symbols, interval: config.interval, start, end,
+      feeBps: config.feeBps, slippageBps: config.slippageBps,
+      tradeSize: config.tradeSize, initialCapital: config.initialCapital,
+      recording: strategy.kind === 'DIVERGENCE' ? recording?.messages : undefined,
+      strategies: strategyConfig
+    };
+    const id = ++runRef.current;
+    setRunning(true);
+    setError(null);
+    setResult(null);
+    try {
+      const next = await runBacktest(backtest, p => id === runRef.current && setProgress(p), () => id !== runRef.current);
+      if (id === runRef.current) setResult(next);
+    } catch (e) {
+      if (id === runRef.current) setError((e as Error).message);
+    } finally {
+      if (id === runRef.current) {
+        setRunning(false);
+        setProgress(null);
+      }
+    }
+  };
+
+  const cancel = () => {
+    runRef.current++;
+    setRunning(false);
+    setProgress(null);
+  };
+
+  const stats = result?.stats;
+  const equityData = (result?.equity || []).map(p => ({
+    time: new Date(p.time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+    equity: Number(p.equity.toFixed(2)),
+    drawdown: Number(p.drawdown.toFixed(2))
+  }));
+
+  const trades = result?.trades || [];
+  const view = virtualWindow(trades.length, ROW_HEIGHT, scroll.top, scroll.height);
+
+  const summary = result && stats ? [
+    { label: 'Trades', value: stats.trades.toLocaleString(), hint: `${result.signals} signals · ${result.unresolved} open at end` },
+    { label: 'Win Rate', value: stats.trades ? `${(stats.winRate * 100).toFixed(1)}%` : '-', hint: `${stats.wins}W / ${stats.losses}L` },
+    { label: 'Net Profit', value: formatSigned(result.netProfit), hint: `${formatSigned((result.netProfit / config.initialCapital) * 100, 2, '%')} of capital`, className: tone(result.netProfit) },
+    { label: 'Max Drawdown', value: result.maxDrawdown.toFixed(2), hint: `${result.maxDrawdownPct.toFixed(2)}% from peak`, className: result.maxDrawdown < 0 ? 'text-danger' : 'text-text' },
+    { label: 'Profit Factor', value: stats.profitFactor === null ? (stats.wins ? '∞' : '-') : stats.profitFactor.toFixed(2) },
+    { label: 'Expectancy', value: formatSigned(stats.trades ? stats.avgPnl : null, 2, '%'), hint: `${formatSigned(stats.avgR, 2, 'R')} avg R, net per trade`, className: tone(stats.avgPnl) },
+    { label: 'Avg Hold', value: formatDuration(stats.avgResolutionMs), hint: `${result.candles.toLocaleString()} candles` },
+  ] : [];
+
+  return (
+    <Card className="h-full flex flex-col" noPadding>
+      {/* Header */}
+      <div className="p-5 border-b border-border bg-surface flex flex-col xl:flex-row gap-4 justify-between items-start xl:items-center">
+        <div>
+            <h2 className="text-xl font-bold text-text flex items-center gap-2">
+                <FlaskConical className="text-brand" size={24} />
+                Backtester
+            </h2>
+            <p className="text-secondary text-sm mt-1">
+                Runs the live detectors over historical candles and simulates each signal with fees and slippage.
+            </p>
+        </div>
+        {running ? (
+            <button onClick={cancel} className="flex items-center gap-2 px-4 py-2 bg-danger/10 hover:bg-danger/20 text-danger rounded-lg text-sm font-bold transition-colors">
+                <Square size={14} fill="currentColor" /> Stop
+            </button>
+        ) : (
+            <button onClick={run} className="flex items-center gap-2 px-4 py-2 bg-brand hover:bg-brand/90 text-white rounded-lg text-sm font-bold shadow-lg shadow-brand/20 transition-all active:scale-[0.98]">
+                <Play size={14} /> Run Backtest
+            </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-auto p-5 space-y-5 bg-surface-secondary/10">
+        {/* Configuration */}
+        <div className="bg-surface rounded-xl border border-border p-4 grid grid-cols-2 md:grid-cols-4 xl:grid-cols-8 gap-4">
+            <div className="col-span-2">
+                <label className="text-xs text-muted block mb-1">Strategy</label>
+                <select value={config.strategy} onChange={e => update('strategy', e.target.value)} className={inputClass}>
+                    <optgroup label="Indicators">
+                        {indicatorNames.map(name => <option key={name} value={encodeStrategy({ kind: 'INDICATOR', name })}>{name}</option>)}
+                    </optgroup>
+                    <optgroup label="Derivatives">
+                        <option value={encodeStrategy({ kind: 'DIVERGENCE' })}>SmartMoney_Divergence</option>
+                    </optgroup>
+                    <optgroup label="Spot Sniper">
+                        {(Object.keys(SCANNER_PRESETS) as ScannerPreset[]).map(preset => (
+                            <option key={preset} value={encodeStrategy({ kind: 'SCANNER', preset })}>Spot Sniper: {PRESET_LABELS[preset]}</option>
+                        ))}
+                    </optgroup>
+                </select>
+            </div>
+            <div className="col-span-2">
+                <label className="text-xs text-muted block mb-1">Symbols</label>
+                <input type="text" value={config.symbols} onChange={e => update('symbols', e.target.value)} placeholder="BTCUSDT, ETHUSDT" className={`${inputClass} uppercase`} />
+            </div>
+            <div>
+                <label className="text-xs text-muted block mb-1">Interval</label>
+                <select value={config.interval} onChange={e => update('interval', e.target.value as KlineInterval)} className={inputClass}>
+                    {INTERVALS.map(i => <option key={i} value={i}>{i}</option>)}
+                </select>
+            </div>
+            <div>
+                <label className="text-xs text-muted block mb-1">From</label>
+                <input type="date" value={config.from} max={config.to} onChange={e => update('from', e.target.value)} className={inputClass} />
+            </div>
+            <div className="col-span-2 md:col-span-1">
+                <label className="text-xs text-muted block mb-1">To</label>
+                <input type="date" value={config.to} min={config.from} onChange={e => update('to', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+                <label className="text-xs text-muted block mb-1">Fee (bps/side)</label>
+                <input type="number" min={0} step={0.5} value={config.feeBps} onChange={e => update('feeBps', Math.max(0, Number(e.target.value)))} className={inputClass} />
+            </div>
+            <div>
+                <label className="text-xs text-muted block mb-1">Slippage (bps)</label>
+                <input type="number" min={0} step={0.5} value={config.slippageBps} onChange={e => update('slippageBps', Math.max(0, Number(e.target.value)))} className={inputClass} />
+            </div>
+            <div>
+                <label className="text-xs text-muted block mb-1">Trade Size</label>
+                <input type="number" min={1} value={config.tradeSize} onChange={e => update('tradeSize', Math.max(1, Number(e.target.value)))} className={inputClass} />
+            </div>
+            <div>
+                <label className="text-xs text-muted block mb-1">Capital</label>
+                <input type="number" min={1} value={config.initialCapital} onChange={e => update('initialCapital', Math.max(1, Number(e.target.value)))} className={inputClass} />
+            </div>
+            {strategy.kind === 'DIVERGENCE' && (
+                <div className="col-span-2 md:col-span-4 flex items-end gap-3">
+                    <label className="px-3 py-2 rounded-lg text-sm font-bold bg-surface-secondary text-text hover:bg-surface-highlight cursor-pointer flex items-center gap-2 shrink-0">
+                        <Upload size={14} /> Funding Recording
+                        <input type="file" accept=".ndjson,.jsonl,.txt" onChange={handleFile} className="hidden" />
+                    </label>
+                    <p className="text-xs text-muted">
+                        {recording
+                            ? <>{recording.name}: <span className="font-mono">{recording.frames.toLocaleString()}</span> mark price updates for {recording.symbols} symbols. <button onClick={() => setRecording(null)} className="text-primary hover:underline">Remove</button></>
+                            : 'Optional. A market recording replays live funding; otherwise settled 8h funding is used.'}
+                    </p>
+                </div>
+            )}
+        </div>
+
+        {running && progress && (
+            <div className="text-xs text-secondary font-mono">
+                {progress.symbol} ({progress.index + 1}/{symbols.length}): {STAGE_LABELS[progress.stage]}{progress.loaded ? ` ${progress.loaded.toLocaleString()}` : ''}…
+            </div>
+        )}
+
+        {error && <div className="text-xs text-danger bg-danger/10 border border-danger/20 rounded-lg px-3 py-2">{error}</div>}
+
+        {result && result.warnings.length > 0 && (
+            <div className="bg-amber-500/10 border border-amber-500/20 p-4 rounded-xl flex gap-3">
+                <AlertTriangle className="text-amber-500 shrink-0" size={18} />
+                <ul className="text-xs text-muted space-y-1">
+                    {result.warnings.map(w => <li key={w}>{w}</li>)}
+                </ul>
+            </div>
+        )}
+
+        {result && (
+            <>
+                <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-7 gap-3">
+                    {summary.map(item => (
+                        <div key={item.label} className="bg-surface p-3 rounded-xl border border-border">
+                            <div className="text-xs text-muted uppercase tracking-wider mb-1">{item.label}</div>
+                            <div className={`text-lg font-mono font-bold ${item.className || 'text-text'}`}>{item.value}</div>
+                            {item.hint && <div className="text-[10px] text-secondary font-mono">{item.hint}</div>}
+                        </div>
+                    ))}
+                </div>
+
+                <div className="bg-surface rounded-xl border border-border p-4">
+                    <div className="flex items-center justify-between mb-3">
+                        <h3 className="text-sm font-bold text-text">Equity & Drawdown</h3>
+                        <span className="text-[10px] text-secondary font-mono">
+                            {config.tradeSize.toLocaleString()} per trade · funding {result.fundingSource === 'RECORDED' ? 'recorded' : result.fundingSource === 'HISTORY' ? 'settled' : 'n/a'}
+                        </span>
+                    </div>
+                    {equityData.length === 0 ? (
+                        <div className="h-56 flex items-center justify-center text-xs text-secondary">No trades closed in this range.</div>
+                    ) : (
+                        <>
+                            <div className="h-56">
+                                <ResponsiveContainer width="100%" height="100%" minWidth={0}>
+                                    <AreaChart data={equityData} syncId="backtest" margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="var(--color-border)" opacity={0.3} />
+                                        <XAxis dataKey="time" hide />
+                                        <YAxis orientation="right" tick={axisTick} axisLine={false} tickLine={false} width={60} domain={['auto', 'auto']} />
+                                        <Tooltip contentStyle={tooltipStyle} itemStyle={{ color: 'var(--color-text)' }} formatter={(val: number) => [val.toFixed(2), 'Equity']} />
+                                        <ReferenceLine y={config.initialCapital} stroke="var(--color-text-secondary)" opacity={0.5} />
+                                        <Area type="monotone" dataKey="equity" stroke="var(--color-brand)" fill="var(--color-brand)" fillOpacity={0.15} strokeWidth={2} isAnimationActive={false} />
+                                    </AreaChart>
+                                </ResponsiveContainer>
+                            </div>
+                            <div className="h-24">
+                                <ResponsiveContainer width="100%" height="100%" minWidth={0}>
+                                    <AreaChart data={equityData} syncId="backtest" margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                                        <XAxis dataKey="time" tick={axisTick} axisLine={false} tickLine={false} minTickGap={30} />
+                                        <YAxis orientation="right" tick={axisTick} axisLine={false} tickLine={false} width={60} />
+                                        <Tooltip contentStyle={tooltipStyle} itemStyle={{ color: 'var(--color-text)' }} formatter={(val: number) => [val.toFixed(2), 'Drawdown']} />
+                                        <Area type="stepAfter" dataKey="drawdown" stroke="var(--color-danger)" fill="var(--color-danger)" fillOpacity={0.2} isAnimationActive={false} />
+                                    </AreaChart>
+                                </ResponsiveContainer>
+                            </div>
+                        </>
+                    )}
+                </div>
+
+                {/* Trades */}
+                <div className="bg-surface rounded-xl border border-border overflow-hidden">
+                    <div className="grid grid-cols-12 gap-2 px-4 py-2 bg-surface-secondary/50 border-b border-border text-[10px] font-bold text-secondary uppercase tracking-wider">
+                        <div className="col-span-2">Opened</div>
+                        <div className="col-span-1">Pair</div>
+                        <div className="col-span-1">Side</div>
+                        <div className="col-span-2 text-right">Entry → Exit</div>
+                        <div className="col-span-2">Outcome</div>
+                        <div className="col-span-1 text-right">Gross</div>
+                        <div className="col-span-1 text-right">Costs</div>
+                        <div className="col-span-1 text-right">Net</div>
+                        <div className="col-span-1 text-right">R</div>
+                    </div>
+                    {trades.length === 0 ? (
+                        <div className="flex flex-col items-center justify-center py-12 text-secondary gap-3 opacity-60">
+                            <Filter size={32} />
+                            <p className="text-xs">No trades.</p>
+                        </div>
+                    ) : (
+                        <div className="max-h-96 overflow-y-auto" onScroll={e => setScroll({ top: e.currentTarget.scrollTop, height: e.currentTarget.clientHeight })}>
+                            <div className="divide-y divide-border" style={{ paddingTop: view.padTop, paddingBottom: view.padBottom }}>
+                                {trades.slice(view.start, view.end).map(t => {
+                                    const isBuy = t.signal.side === 'BUY' || t.signal.side === 'LONG';
+                                    const r = signalR(t.signal);
+                                    return (
+                                        <div key={t.signal.id} style={{ height: ROW_HEIGHT }} className="grid grid-cols-12 gap-2 px-4 items-center text-xs font-mono">
+                                            <div className="col-span-2 text-secondary">{new Date(t.signal.time).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</div>
+                                            <div className="col-span-1 font-sans font-bold text-text">{baseAsset(t.signal.symbol)}</div>
+                                            <div className="col-span-1">
+                                                <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded uppercase ${isBuy ? 'text-success bg-success/10' : 'text-danger bg-danger/10'}`}>{t.signal.side}</span>
+                                            </div>
+                                            <div className="col-span-2 text-right text-text truncate">{t.entryPrice.toPrecision(6)} → {t.exitPrice.toPrecision(6)}</div>
+                                            <div className="col-span-2"><SignalStateBadge state={t.signal.lifecycle!.state} /></div>
+                                            <div className={`col-span-1 text-right ${tone(t.grossPnl)}`}>{formatSigned(t.grossPnl)}%</div>
+                                            <div className="col-span-1 text-right text-secondary" title={`Fees ${t.fees.toFixed(3)}%, funding ${t.funding.toFixed(3)}%`}>{(t.fees + t.funding).toFixed(2)}%</div>
+                                            <div className={`col-span-1 text-right font-bold ${tone(t.netPnl)}`}>{formatSigned(t.netPnl)}%</div>
+                                            <div className={`col-span-1 text-right ${tone(r)}`}>{formatSigned(r, 2)}</div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </>
+        )}
+      </div>
+    </Card>
+  );
+};
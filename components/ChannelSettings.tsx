@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { ChannelDelivery, ChannelDeliveryStatus, ChannelKind, NotificationChannel } from '../types';
+import { CHANNEL_KINDS, CHANNEL_LABELS, DEFAULT_TEMPLATES, TEMPLATE_FIELDS, channelError } from '../services/notificationChannels';
+import { Send, ChevronDown, ChevronRight, Trash, Plus, Zap } from 'lucide-react';
+
+interface ChannelSettingsProps {
+  channels: NotificationChannel[];
+  onChange: (channels: NotificationChannel[]) => void;
+  deliveries: ChannelDelivery[];
+  onTest: (channel: NotificationChannel) => void;
+}
+
+const inputClass = 'w-full bg-surface border border-border rounded-lg px-2.5 py-1.5 text-xs font-mono text-text focus:border-brand focus:outline-none';
+
+const STATUS_STYLES: Record<ChannelDeliveryStatus, string> = {
+  PENDING: 'bg-surface-highlight text-secondary',
+  RETRYING: 'bg-warning/10 text-warning',
+  SENT: 'bg-success/10 text-success',
+  FAILED: 'bg-danger/10 text-danger'
+};
+
+const formatHeaders = (headers?: Record<string, string>) =>
+  Object.entries(headers || {}).map(([k, v]) => `${k}: ${v}`).join('\n');
+
+// One `Name: value` per line
+const parseHeaders = (text: string) => Object.fromEntries(
+  text.split('\n')
+    .map(line => line.split(/:(.*)/s).map(part => part.trim()))
+    .filter(([name, value]) => name && value)
+    .map(([name, value]) => [name, value])
+);
+
+const field = (label: string, input: React.ReactNode, hint?: string) => (
+  <div>
+    <label className="text-[11px] text-muted block mb-1">{label}</label>
+    {input}
+    {hint && <p className="text-[10px] text-secondary mt-1">{hint}</p>}
+  </div>
+);
+
+export const ChannelSettings: React.FC<ChannelSettingsProps> = ({ channels, onChange, deliveries, onTest }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [headerText, setHeaderText] = useState('');
+
+  const update = (id: string, patch: Partial<NotificationChannel>) =>
+    onChange(channels.map(c => c.id === id ? { ...c, ...patch } : c));
+
+  const add = (kind: ChannelKind) => {
+    const channel: NotificationChannel = {
+      id: `ch_${Math.random().toString(36).substring(2, 9)}`,
+      name: `${CHANNEL_LABELS[kind]} ${channels.filter(c => c.kind === kind).length + 1}`,
+      kind,
+      enabled: true
+    };
+    onChange([...channels, channel]);
+    setExpanded(channel.id);
+  };
+
+  const toggle = (channel: NotificationChannel) => {
+    const open = expanded === channel.id;
+    setExpanded(open ? null : channel.id);
+    if (!open) setHeaderText(formatHeaders(channel.headers));
+  };
+
+  const text = (channel: NotificationChannel, key: 'name' | 'url' | 'botToken' | 'chatId' | 'baseUrl', placeholder?: string, type = 'text') => (
+    <input
+      type={type}
+      value={channel[key] || ''}
+      onChange={e => update(channel.id, { [key]: e.target.value })}
+      placeholder={placeholder}
+      className={inputClass}
+    />
+  );
+
+  return (
+    <div className="space-y-3 mb-6">
+      <div className="flex items-center justify-between ml-1">
+        <h3 className="text-sm font-semibold text-secondary uppercase tracking-wide flex items-center gap-2">
+          <Send size={14} /> Channels
+        </h3>
+        <div className="flex gap-1">
+          {CHANNEL_KINDS.map(kind => (
+            <button key={kind} type="button" onClick={() => add(kind)} className="text-[11px] font-semibold text-secondary hover:text-text flex items-center gap-0.5 px-1.5">
+              <Plus size={11} /> {CHANNEL_LABELS[kind]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-surface-secondary/50 p-2 rounded-2xl space-y-1">
+        {channels.length === 0 && <p className="text-xs text-secondary px-3 py-2.5">No channels yet. Rules can send to a Telegram chat, a Discord or Slack webhook, or any HTTP endpoint.</p>}
+        {channels.map(channel => {
+          const isOpen = expanded === channel.id;
+          const problem = channelError(channel);
+          return (
+            <div key={channel.id} className={`rounded-xl transition-all ${isOpen ? 'bg-surface shadow-sm' : ''}`}>
+              <div className="flex items-center gap-3 px-3 py-2.5">
+                <button type="button" onClick={() => toggle(channel)} className="flex-1 min-w-0 flex items-center gap-2 text-left">
+                  {isOpen ? <ChevronDown size={14} className="text-secondary shrink-0" /> : <ChevronRight size={14} className="text-secondary shrink-0" />}
+                  <span className={`text-sm font-semibold truncate ${channel.enabled ? 'text-text' : 'text-secondary'}`}>{channel.name}</span>
+                  <span className="px-1.5 py-0.5 rounded text-[9px] font-bold uppercase tracking-wider bg-primary/10 text-primary shrink-0">{CHANNEL_LABELS[channel.kind]}</span>
+                  {problem && <span className="text-[10px] text-danger truncate">{problem}</span>}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onTest(channel)}
+                  disabled={!!problem}
+                  className="text-[11px] font-semibold text-secondary hover:text-text flex items-center gap-1 disabled:opacity-40"
+                  title="Send a test message"
+                >
+                  <Zap size={12} /> Test
+                </button>
+                <button
+                  type="button"
+                  onClick={() => update(channel.id, { enabled: !channel.enabled })}
+                  className={`relative inline-flex h-5 w-9 shrink-0 rounded-full border-2 border-transparent transition-colors ${channel.enabled ? 'bg-success' : 'bg-surface-highlight'}`}
+                  title={channel.enabled ? 'Disable' : 'Enable'}
+                >
+                  <span className={`inline-block h-4 w-4 transform rounded-full bg-white shadow transition ${channel.enabled ? 'translate-x-4' : 'translate-x-0'}`} />
+                </button>
+              </div>
+
+              {isOpen && (
+                <div className="px-3 pb-3 space-y-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    {field('Name', text(channel, 'name'))}
+                    {channel.kind === 'TELEGRAM'
+                      ? field('Chat id', text(channel, 'chatId', '-1001234567890'))
+                      : field(channel.kind === 'HTTP' ? 'URL' : 'Webhook URL', text(channel, 'url', channel.kind === 'DISCORD' ? 'https://discord.com/api/webhooks/...' : channel.kind === 'SLACK' ? 'https://hooks.slack.com/services/...' : 'https://'))}
+                  </div>
+                  {channel.kind === 'TELEGRAM' && field('Bot token', text(channel, 'botToken', '123456:ABC...', 'password'), 'From @BotFather. Add the bot to the chat first.')}
+                  {channel.kind === 'HTTP' && field('Headers',
+                    <textarea
+                      value={headerText}
+                      onChange={e => setHeaderText(e.target.value)}
+                      onBlur={() => update(channel.id, { headers: parseHeaders(headerText) })}
+                      rows={2}
+                      placeholder={'Content-Type: application/json\nAuthorization: Bearer ...'}
+                      className={inputClass}
+                    />,
+                    'One per line. Without any, the body is sent as JSON.'
+                  )}
+                  {field(channel.kind === 'HTTP' ? 'Body template' : 'Message template',
+                    <textarea
+                      value={channel.template ?? DEFAULT_TEMPLATES[channel.kind]}
+                      onChange={e => update(channel.id, { template: e.target.value === DEFAULT_TEMPLATES[channel.kind] ? undefined : e.target.value })}
+                      rows={channel.kind === 'HTTP' ? 4 : 2}
+                      className={inputClass}
+                    />,
+                    `Placeholders: ${TEMPLATE_FIELDS.map(f => `{{${f}}}`).join(' ')}`
+                  )}
+                  {field('Base URL override', text(channel, 'baseUrl', channel.kind === 'TELEGRAM' ? 'https://api.telegram.org' : 'e.g. http://localhost:9000'), 'Sends to this origin instead, keeping the path. For testing against a stub server.')}
+                  <div className="flex justify-end">
+                    <button
+                      type="button"
+                      onClick={() => onChange(channels.filter(c => c.id !== channel.id))}
+                      className="text-[11px] font-semibold text-danger hover:bg-danger/10 px-2 py-1 rounded-lg flex items-center gap-1"
+                    >
+                      <Trash size={12} /> Remove
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {deliveries.length > 0 && (
+        <div className="space-y-1">
+          <span className="text-[11px] text-muted ml-1">Recent deliveries</span>
+          <div className="bg-surface-secondary/50 p-2 rounded-2xl max-h-48 overflow-y-auto space-y-1">
+            {deliveries.map(d => (
+              <div key={d.id} className="flex items-center gap-2 px-2 py-1 text-[11px]">
+                <span className={`px-1.5 py-0.5 rounded text-[9px] font-bold uppercase tracking-wider shrink-0 ${STATUS_STYLES[d.status]}`}>{d.status}</span>
+                <span className="font-semibold text-text shrink-0">{d.channelName}</span>
+                <span className="text-secondary truncate flex-1" title={d.error}>
+                  {d.ruleName ? `${d.ruleName}: ` : ''}{d.title}{d.error ? ` (${d.error})` : ''}
+                </span>
+                {d.attempts > 1 && <span className="text-muted shrink-0">×{d.attempts}</span>}
+                {d.status === 'SENT' && d.kind === 'SLACK' && <span className="text-muted shrink-0" title="Slack doesn't let the browser read its response">unconfirmed</span>}
+                <span className="text-muted font-mono shrink-0">{new Date(d.updatedAt).toLocaleTimeString()}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
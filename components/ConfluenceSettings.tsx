@@ -0,0 +1,83 @@
+import React from 'react';
+import { ConfluenceSource } from '../types';
+import { ConfluenceConfig, CONFLUENCE_SOURCES, CONFLUENCE_SOURCE_LABELS, DEFAULT_CONFLUENCE } from '../services/confluence';
+import { Layers, RotateCcw } from 'lucide-react';
+
+interface ConfluenceSettingsProps {
+  config: ConfluenceConfig;
+  onChange: (config: ConfluenceConfig) => void;
+}
+
+const inputClass = 'w-full bg-surface border border-border rounded-lg px-2.5 py-1.5 text-xs font-mono text-text focus:border-brand focus:outline-none';
+
+export const ConfluenceSettings: React.FC<ConfluenceSettingsProps> = ({ config, onChange }) => {
+  const update = <K extends keyof ConfluenceConfig>(key: K, value: ConfluenceConfig[K]) => onChange({ ...config, [key]: value });
+
+  const numberInput = (value: number, min: number, max: number, step: number, apply: (value: number) => void) => (
+    <input
+      type="number"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={e => {
+        const next = Number(e.target.value);
+        if (e.target.value !== '' && Number.isFinite(next)) apply(Math.min(max, Math.max(min, next)));
+      }}
+      className={inputClass}
+    />
+  );
+
+  return (
+    <div className="space-y-3 mb-6">
+      <div className="flex items-center justify-between ml-1">
+        <h3 className="text-sm font-semibold text-secondary uppercase tracking-wide flex items-center gap-2">
+          <Layers size={14} /> Confluence
+        </h3>
+        <button
+          type="button"
+          onClick={() => update('enabled', !config.enabled)}
+          className={`relative inline-flex h-5 w-9 shrink-0 rounded-full border-2 border-transparent transition-colors ${config.enabled ? 'bg-success' : 'bg-surface-highlight'}`}
+          title={config.enabled ? 'Disable' : 'Enable'}
+        >
+          <span className={`inline-block h-4 w-4 transform rounded-full bg-white shadow transition ${config.enabled ? 'translate-x-4' : 'translate-x-0'}`} />
+        </button>
+      </div>
+
+      <div className={`bg-surface-secondary/50 p-4 rounded-2xl space-y-4 ${config.enabled ? '' : 'opacity-50'}`}>
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <label className="text-[11px] text-muted block mb-1">Window (min)</label>
+            {numberInput(config.windowMinutes, 1, 240, 1, v => update('windowMinutes', v))}
+          </div>
+          <div>
+            <label className="text-[11px] text-muted block mb-1">Min source kinds</label>
+            {numberInput(config.minSources, 1, CONFLUENCE_SOURCES.length, 1, v => update('minSources', Math.round(v)))}
+          </div>
+          <div>
+            <label className="text-[11px] text-muted block mb-1">Min score (%)</label>
+            {numberInput(Math.round(config.minScore * 100), 0, 99, 5, v => update('minScore', v / 100))}
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-[11px] text-muted">Source weights</span>
+            <button type="button" onClick={() => update('weights', DEFAULT_CONFLUENCE.weights)} className="text-[11px] font-semibold text-secondary hover:text-text flex items-center gap-1">
+              <RotateCcw size={12} /> Defaults
+            </button>
+          </div>
+          <div className="grid grid-cols-5 gap-2">
+            {CONFLUENCE_SOURCES.map((source: ConfluenceSource) => (
+              <div key={source}>
+                <label className="text-[10px] text-secondary block mb-1 truncate">{CONFLUENCE_SOURCE_LABELS[source]}</label>
+                {numberInput(config.weights[source] ?? DEFAULT_CONFLUENCE.weights[source], 0, 2, 0.1, v => update('weights', { ...config.weights, [source]: v }))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+      <p className="text-[11px] text-secondary ml-1">Signals, radar anomalies and Spot Sniper hits on the same symbol and direction within the window combine into one confluence signal. A weight of 0 leaves a source out.</p>
+    </div>
+  );
+};
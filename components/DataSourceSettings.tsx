@@ -0,0 +1,98 @@
+import React from 'react';
+import { SimulatorConfig, SimulatorScenarioId, SIMULATOR_SCENARIOS, DEFAULT_SIMULATOR_CONFIG } from '../services/marketSimulator';
+import { BATCH_INTERVAL_OPTIONS } from '../services/marketPipeline';
+import { Database, Dices } from 'lucide-react';
+
+interface DataSourceSettingsProps {
+  simulator: SimulatorConfig | null; // null = live exchanges
+  onChange: (simulator: SimulatorConfig | null) => void;
+  batchIntervalMs: number; // How often live tickers are pushed to the screen
+  onBatchIntervalChange: (ms: number) => void;
+}
+
+export const DataSourceSettings: React.FC<DataSourceSettingsProps> = ({ simulator, onChange, batchIntervalMs, onBatchIntervalChange }) => {
+  const scenarioIds = Object.keys(SIMULATOR_SCENARIOS) as SimulatorScenarioId[];
+
+  return (
+    <div className="space-y-3 mb-6">
+      <h3 className="text-sm font-semibold text-secondary uppercase tracking-wide ml-1 flex items-center gap-2">
+        <Database size={14} /> Data Source
+      </h3>
+      <div className="bg-surface-secondary/50 p-2 rounded-2xl flex gap-2">
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          className={`flex-1 py-2.5 rounded-xl text-sm font-semibold transition-all ${!simulator ? 'bg-surface text-text shadow-sm' : 'text-secondary hover:text-text'}`}
+        >
+          Live Exchanges
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange(simulator || DEFAULT_SIMULATOR_CONFIG)}
+          className={`flex-1 py-2.5 rounded-xl text-sm font-semibold transition-all ${simulator ? 'bg-surface text-text shadow-sm' : 'text-secondary hover:text-text'}`}
+        >
+          Simulator
+        </button>
+      </div>
+
+      {!simulator && (
+        <div className="bg-surface-secondary/50 p-4 rounded-2xl space-y-2">
+          <div className="flex items-center justify-between gap-3">
+            <label className="text-[10px] font-bold text-secondary uppercase tracking-wider">Update Interval</label>
+            <div className="flex gap-1">
+              {BATCH_INTERVAL_OPTIONS.map(ms => (
+                <button
+                  key={ms}
+                  type="button"
+                  onClick={() => onBatchIntervalChange(ms)}
+                  className={`px-2.5 py-1 rounded-lg text-xs font-mono font-semibold transition-all ${batchIntervalMs === ms ? 'bg-surface text-text shadow-sm' : 'text-secondary hover:text-text'}`}
+                >
+                  {ms < 1000 ? `${ms}ms` : `${ms / 1000}s`}
+                </button>
+              ))}
+            </div>
+          </div>
+          <p className="text-[11px] text-secondary">Streams are parsed in a background worker and batched at this interval. Longer intervals are easier on slower machines.</p>
+        </div>
+      )}
+
+      {simulator && (
+        <div className="bg-surface-secondary/50 p-4 rounded-2xl space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            {scenarioIds.map(id => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => onChange({ ...simulator, scenario: id })}
+                className={`text-left p-3 rounded-xl border transition-all ${
+                  simulator.scenario === id ? 'border-primary bg-primary/5' : 'border-border hover:border-secondary'
+                }`}
+              >
+                <div className="text-sm font-semibold text-text">{SIMULATOR_SCENARIOS[id].label}</div>
+                <div className="text-[11px] text-secondary leading-tight mt-0.5">{SIMULATOR_SCENARIOS[id].description}</div>
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="text-[10px] font-bold text-secondary uppercase tracking-wider">Seed</label>
+            <input
+              type="number"
+              value={simulator.seed}
+              onChange={e => onChange({ ...simulator, seed: parseInt(e.target.value, 10) || 0 })}
+              className="flex-1 bg-surface border border-border rounded-lg px-3 py-1.5 text-sm font-mono text-text focus:border-primary focus:outline-none"
+            />
+            <button
+              type="button"
+              onClick={() => onChange({ ...simulator, seed: Math.floor(Math.random() * 1e6) })}
+              className="p-2 rounded-lg bg-surface border border-border text-secondary hover:text-text"
+              title="Random seed"
+            >
+              <Dices size={14} />
+            </button>
+          </div>
+          <p className="text-[11px] text-secondary">The same seed and scenario always produce the same market. No network needed.</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Exchange } from '../types';
+import { ALL_EXCHANGES, EXCHANGE_META, PRIMARY_EXCHANGE } from '../services/exchanges';
+import { Globe } from 'lucide-react';
+
+interface ExchangeSettingsProps {
+  enabled: Exchange[];
+  onChange: (exchanges: Exchange[]) => void;
+}
+
+export const ExchangeSettings: React.FC<ExchangeSettingsProps> = ({ enabled, onChange }) => {
+  const toggle = (id: Exchange) => {
+    if (enabled.includes(id)) {
+      // Always keep at least one venue streaming
+      if (enabled.length > 1) onChange(enabled.filter(e => e !== id));
+    } else {
+      onChange([...enabled, id]);
+    }
+  };
+
+  return (
+    <div className="space-y-3 mb-6">
+      <h3 className="text-sm font-semibold text-secondary uppercase tracking-wide ml-1 flex items-center gap-2">
+        <Globe size={14} /> Exchanges
+      </h3>
+      <div className="bg-surface-secondary/50 p-2 rounded-2xl flex gap-2">
+        {ALL_EXCHANGES.map(id => {
+          const isOn = enabled.includes(id);
+          return (
+            <button
+              key={id}
+              type="button"
+              onClick={() => toggle(id)}
+              className={`flex-1 py-2.5 rounded-xl text-sm font-semibold transition-all ${
+                isOn ? 'bg-surface text-text shadow-sm' : 'text-secondary hover:text-text'
+              }`}
+            >
+              {EXCHANGE_META[id].label}
+              {id === PRIMARY_EXCHANGE && <span className="block text-[9px] font-bold text-secondary uppercase tracking-wider">Full Market</span>}
+            </button>
+          );
+        })}
+      </div>
+      <p className="text-[11px] text-secondary ml-1">Bybit and OKX stream the default watchlist symbols only.</p>
+    </div>
+  );
+};
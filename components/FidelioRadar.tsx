@@ -1,43 +1,22 @@
 
 
-import React, { useMemo, useState, useEffect, useRef } from 'react';
-import { Ticker, FuturesTicker } from '../types';
+import React, { useMemo } from 'react';
+import { Anomaly, AnomalyType } from '../services/marketAnalysis';
 import { Radar, AlertCircle, TrendingUp, TrendingDown, Zap, Droplets, Activity, Gauge } from 'lucide-react';
+import { baseAsset } from '../services/symbolRegistry';
 
 interface FidelioRadarProps {
-  spotData: Record<string, Ticker>;
-  futuresData: Record<string, FuturesTicker>;
+  // Derived in the market worker; null until the first tickers arrive
+  radar: { sentiment: number; anomalies: Anomaly[] } | null;
 }
 
-type AnomalyType = 'PUMP' | 'DUMP' | 'DIV_BULL' | 'DIV_BEAR' | 'NEG_FUNDING' | 'VOLUME_SPIKE';
+export const FidelioRadar: React.FC<FidelioRadarProps> = ({ radar }) => {
+  const anomalies = radar?.anomalies || [];
 
-interface Anomaly {
-  id: string;
-  symbol: string;
-  type: AnomalyType;
-  value: number;
-  message: string;
-  severity: 'HIGH' | 'MEDIUM' | 'LOW';
-}
-
-export const FidelioRadar: React.FC<FidelioRadarProps> = ({ spotData, futuresData }) => {
-  // Internal state for volume spikes
-  const [spikes, setSpikes] = useState<Record<string, { ratio: number, timestamp: number }>>({});
-  const historyRef = useRef<Record<string, { vol: number, time: number }>>({});
-
-  // Market Sentiment Calculation
+  // Market Sentiment Label
   const sentiment = useMemo(() => {
-    let score = 50; // Neutral 50
-    const tickers = (Object.values(spotData) as Ticker[]).filter(t => t.symbol.endsWith('USDT'));
-    if (tickers.length === 0) return { score: 50, label: 'NEUTRAL', color: 'text-secondary' };
-
-    const gainers = tickers.filter(t => t.priceChangePercent > 0).length;
-    const losers = tickers.length - gainers;
-    const ratio = gainers / tickers.length; // 0 to 1
+    const score = radar?.sentiment ?? 50; // Neutral 50
 
-    // Map ratio to 0-100 score
-    score = ratio * 100;
-    
     let label = 'NEUTRAL';
     let color = 'text-secondary';
     
@@ -47,89 +26,7 @@ export const FidelioRadar: React.FC<FidelioRadarProps> = ({ spotData, futuresDat
     else if (score <= 40) { label = 'BEARISH'; color = 'text-danger'; }
 
     return { score, label, color };
-  }, [spotData]);
-
-  // Volume Spike Detection Logic
-  useEffect(() => {
-    const now = Date.now();
-    const newSpikes: Record<string, { ratio: number, timestamp: number }> = {};
-    let hasNewSpikes = false;
-
-    Object.values(spotData).forEach((t: Ticker) => {
-        if (!t.symbol.endsWith('USDT')) return;
-
-        const prev = historyRef.current[t.symbol];
-        if (prev) {
-            const timeDelta = now - prev.time;
-            if (timeDelta >= 1000) {
-                const volDelta = t.volume - prev.vol;
-                if (volDelta > 0) {
-                    const avgFlowRate = t.volume / (24 * 60 * 60 * 1000);
-                    const currentFlowRate = volDelta / timeDelta;
-                    if (avgFlowRate > 0) {
-                        const ratio = currentFlowRate / avgFlowRate;
-                        if (ratio >= 10) {
-                            newSpikes[t.symbol] = { ratio, timestamp: now };
-                            hasNewSpikes = true;
-                        }
-                    }
-                }
-                historyRef.current[t.symbol] = { vol: t.volume, time: now };
-            }
-        } else {
-            historyRef.current[t.symbol] = { vol: t.volume, time: now };
-        }
-    });
-
-    if (hasNewSpikes || Object.keys(spikes).length > 0) {
-        setSpikes(prev => {
-            const merged = { ...prev, ...newSpikes };
-            const filtered: typeof merged = {};
-            const RETENTION_MS = 5 * 60 * 1000; 
-            Object.entries(merged).forEach(([key, val]: [string, { ratio: number, timestamp: number }]) => {
-                if (now - val.timestamp < RETENTION_MS) filtered[key] = val;
-            });
-            return filtered;
-        });
-    }
-  }, [spotData]);
-
-  const anomalies = useMemo(() => {
-    const list: Anomaly[] = [];
-
-    // Check Spot Data
-    (Object.values(spotData) as Ticker[]).forEach(t => {
-      if (!t.symbol.endsWith('USDT')) return;
-      if (t.priceChangePercent > 5) list.push({ id: `pump-${t.symbol}`, symbol: t.symbol, type: 'PUMP', value: t.priceChangePercent, message: 'Rapid Price Surge', severity: 'MEDIUM' });
-      if (t.priceChangePercent < -5) list.push({ id: `dump-${t.symbol}`, symbol: t.symbol, type: 'DUMP', value: t.priceChangePercent, message: 'Sharp Decline', severity: 'MEDIUM' });
-    });
-
-    // Check Futures
-    (Object.values(futuresData) as FuturesTicker[]).forEach(f => {
-       const fundingPct = f.fundingRate * 100;
-       if (f.fundingRate < -0.0005) list.push({ id: `neg-fund-${f.symbol}`, symbol: f.symbol, type: 'NEG_FUNDING', value: fundingPct, message: 'Extreme Neg. Funding', severity: 'MEDIUM' });
-       
-       const spot = spotData[f.symbol];
-       if (spot) {
-           if (f.fundingRate <= -0.0003 && spot.priceChangePercent > 1.0) {
-               list.push({ id: `div-bull-${f.symbol}`, symbol: f.symbol, type: 'DIV_BULL', value: fundingPct, message: 'SHORT SQUEEZE SETUP', severity: 'HIGH' });
-           }
-           if (f.fundingRate >= 0.0003 && spot.priceChangePercent < -1.0) {
-                list.push({ id: `div-bear-${f.symbol}`, symbol: f.symbol, type: 'DIV_BEAR', value: fundingPct, message: 'LONG TRAP SETUP', severity: 'HIGH' });
-           }
-       }
-    });
-
-    Object.entries(spikes).forEach(([symbol, data]: [string, { ratio: number, timestamp: number }]) => {
-        list.push({ id: `vol-${symbol}-${data.timestamp}`, symbol, type: 'VOLUME_SPIKE', value: data.ratio, message: 'Volume Explosion', severity: data.ratio > 50 ? 'HIGH' : 'MEDIUM' });
-    });
-
-    return list.sort((a, b) => {
-        if (a.severity === 'HIGH' && b.severity !== 'HIGH') return -1;
-        if (b.severity === 'HIGH' && a.severity !== 'HIGH') return 1;
-        return 0;
-    }).slice(0, 4); 
-  }, [spotData, futuresData, spikes]);
+  }, [radar?.sentiment]);
 
   const getStyle = (type: AnomalyType) => {
       switch(type) {
@@ -183,7 +80,7 @@ export const FidelioRadar: React.FC<FidelioRadarProps> = ({ spotData, futuresDat
                 anomalies.map(item => {
                     const style = getStyle(item.type);
                     const Icon = style.icon;
-                    const symbolBase = item.symbol.replace('USDT', '');
+                    const symbolBase = baseAsset(item.symbol);
                     const iconUrl = `https://assets.coincap.io/assets/icons/${symbolBase.toLowerCase()}@2x.png`;
 
                     return (
@@ -1,8 +1,10 @@
 
 import React, { useMemo, useState, useEffect } from 'react';
-import { FuturesTicker } from '../types';
+import { FuturesTicker, Exchange } from '../types';
+import { EXCHANGE_META, exchangeOf, marketKey, tradingViewLink } from '../services/exchanges';
 import { Search, ArrowUpDown, ArrowUp, ArrowDown, Filter, Zap, TrendingUp, TrendingDown, Clock, ChevronDown, ChevronUp, LineChart, ExternalLink, BarChart2 } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine, CartesianGrid, Cell } from 'recharts';
+import { baseAsset } from '../services/symbolRegistry';
 
 interface FundingRatesProps {
   data: Record<string, FuturesTicker>;
@@ -97,6 +99,7 @@ export const FundingRates: React.FC<FundingRatesProps> = ({ data }) => {
     direction: 'desc' 
   });
   const [activeFilter, setActiveFilter] = useState<QuickFilter>('ALL');
+  const [venue, setVenue] = useState<Exchange | 'ALL'>('ALL');
   
   // Expanded Row State
   const [expandedSymbol, setExpandedSymbol] = useState<string | null>(null);
@@ -111,11 +114,11 @@ export const FundingRates: React.FC<FundingRatesProps> = ({ data }) => {
     }));
   };
 
-  const toggleExpand = (symbol: string, currentRate: number) => {
-      if (expandedSymbol === symbol) {
+  const toggleExpand = (key: string, currentRate: number) => {
+      if (expandedSymbol === key) {
           setExpandedSymbol(null);
       } else {
-          setExpandedSymbol(symbol);
+          setExpandedSymbol(key);
           setSelectedRateForChart(currentRate);
           // Default to 1h when opening
           setChartTimeframe('1h');
@@ -130,9 +133,16 @@ export const FundingRates: React.FC<FundingRatesProps> = ({ data }) => {
       }
   };
 
+  const venues = useMemo(() => Array.from(new Set((Object.values(data) as FuturesTicker[]).map(t => exchangeOf(t)))), [data]);
+  const isMultiVenue = venues.length > 1;
+
   const filteredAndSortedList = useMemo(() => {
     let list = Object.values(data) as FuturesTicker[];
 
+    if (venue !== 'ALL') {
+        list = list.filter(t => exchangeOf(t) === venue);
+    }
+
     if (searchTerm) {
         list = list.filter(t => t.symbol.toLowerCase().includes(searchTerm.toLowerCase()));
     }
@@ -152,7 +162,7 @@ export const FundingRates: React.FC<FundingRatesProps> = ({ data }) => {
       if (aValue > bValue) return sortConfig.direction === 'asc' ? 1 : -1;
       return 0;
     });
-  }, [data, searchTerm, sortConfig, activeFilter]);
+  }, [data, searchTerm, sortConfig, activeFilter, venue]);
 
   const SortIcon = ({ columnKey }: { columnKey: SortKey }) => {
     if (sortConfig.key !== columnKey) return <ArrowUpDown size={12} className="opacity-30 ml-1" />;
@@ -194,6 +204,16 @@ export const FundingRates: React.FC<FundingRatesProps> = ({ data }) => {
                 <FilterChip id="HIGH_FUNDING" label="High Funding" icon={TrendingUp} />
                 <FilterChip id="NEGATIVE" label="Negative (Squeeze)" icon={Zap} />
                 <FilterChip id="VOLATILE" label="Volatile" icon={TrendingDown} />
+                {isMultiVenue && (
+                    <select
+                        value={venue}
+                        onChange={(e) => setVenue(e.target.value as Exchange | 'ALL')}
+                        className="ml-auto bg-surface-secondary border border-transparent focus:border-primary rounded-full px-3 py-1.5 text-xs font-semibold text-text focus:outline-none cursor-pointer"
+                    >
+                        <option value="ALL">All Venues</option>
+                        {venues.map(v => <option key={v} value={v}>{EXCHANGE_META[v].label}</option>)}
+                    </select>
+                )}
             </div>
        </div>
 
@@ -217,23 +237,25 @@ export const FundingRates: React.FC<FundingRatesProps> = ({ data }) => {
        <div className="flex-1 overflow-y-auto overflow-x-hidden">
             <div className="divide-y divide-border">
                 {filteredAndSortedList.map(ticker => {
-                    const isExpanded = expandedSymbol === ticker.symbol;
+                    const key = marketKey(ticker.exchange, ticker.symbol);
+                    const venueMeta = EXCHANGE_META[exchangeOf(ticker)];
+                    const isExpanded = expandedSymbol === key;
                     const ratePct = ticker.fundingRate * 100;
                     const changePct = (ticker.sessionChange || 0) * 100;
-                    const symbolBase = ticker.symbol.replace('USDT', '');
+                    const symbolBase = baseAsset(ticker.symbol);
                     const iconUrl = `https://assets.coincap.io/assets/icons/${symbolBase.toLowerCase()}@2x.png`;
                     
                     const intensity = Math.min(Math.abs(ratePct) * 1000, 100);
                     const barColor = ratePct > 0 ? 'bg-warning' : 'bg-success';
                     
-                    const tvLink = `https://www.tradingview.com/chart/?symbol=BINANCE:${ticker.symbol}.P`;
+                    const tvLink = tradingViewLink(ticker.exchange, ticker.symbol, true);
                     const binanceLink = `https://www.binance.com/en/futures/${ticker.symbol}`;
 
                     return (
-                        <React.Fragment key={ticker.symbol}>
+                        <React.Fragment key={key}>
                             {/* Main Row */}
                             <div 
-                                onClick={() => toggleExpand(ticker.symbol, ticker.fundingRate)}
+                                onClick={() => toggleExpand(key, ticker.fundingRate)}
                                 className={`grid grid-cols-12 gap-2 px-5 py-3 transition-colors group items-center relative cursor-pointer ${
                                     isExpanded ? 'bg-surface-highlight' : 'hover:bg-surface-secondary'
                                 }`}
@@ -247,7 +269,10 @@ export const FundingRates: React.FC<FundingRatesProps> = ({ data }) => {
                                             <span className="text-sm font-bold text-text leading-none">{symbolBase}</span>
                                             {isExpanded ? <ChevronUp size={12} className="text-secondary"/> : <ChevronDown size={12} className="text-secondary opacity-0 group-hover:opacity-100"/>}
                                         </div>
-                                        <span className="text-[10px] text-secondary mt-1">Perpetual</span>
+                                        <span className="text-[10px] text-secondary mt-1">
+                                            Perpetual
+                                            {isMultiVenue && <span className={`ml-1.5 text-[8px] font-bold px-1 rounded ${venueMeta.badge}`}>{venueMeta.short}</span>}
+                                        </span>
                                     </div>
                                 </div>
 
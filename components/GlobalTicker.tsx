@@ -3,6 +3,7 @@ import React, { useState, useEffect, useRef } from 'react';
 import { Ticker, MarketIndex } from '../types';
 import { Pencil, X, Plus, GripVertical, TrendingUp, TrendingDown } from 'lucide-react';
 import { Modal } from './ui/Modal';
+import { resolveSymbol, formatPrice as formatMarketPrice } from '../services/symbolRegistry';
 
 interface GlobalTickerProps {
   spotData: Record<string, Ticker>;
@@ -40,20 +41,21 @@ export const GlobalTicker: React.FC<GlobalTickerProps> = ({ spotData, indicesDat
   const resolveData = (symbol: string) => {
     const index = indicesData.find(i => i.symbol === symbol);
     if (index) {
-        return { price: index.price, change: index.changePercent };
+        return { price: index.price, change: index.changePercent, isIndex: true };
     }
     
-    let searchKey = symbol;
-    if (!symbol.endsWith('USDT') && !symbol.includes('.')) searchKey += 'USDT';
-    
+    // Pins are either full markets (ETHBTC) or bare assets shown against USDT (SOL)
+    const searchKey = symbol.includes('.') ? symbol : resolveSymbol(symbol);
+
     const ticker = spotData[searchKey];
     if (ticker) {
-        return { price: ticker.lastPrice, change: ticker.priceChangePercent };
+        return { price: ticker.lastPrice, change: ticker.priceChangePercent, isIndex: false };
     }
     return null;
   };
 
-  const formatPrice = (symbol: string, price: number) => {
+  const formatPrice = (symbol: string, price: number, isIndex: boolean) => {
+      if (!isIndex) return formatMarketPrice(resolveSymbol(symbol), price); // Exchange tick precision
       if (symbol.includes('TOTAL')) {
           if (price >= 1_000_000_000_000) return `$${(price / 1_000_000_000_000).toFixed(3)}T`;
           if (price >= 1_000_000_000) return `$${(price / 1_000_000_000).toFixed(2)}B`;
@@ -75,7 +77,7 @@ export const GlobalTicker: React.FC<GlobalTickerProps> = ({ spotData, indicesDat
          >
             {pinned.map(sym => {
                 const data = resolveData(sym);
-                const priceDisplay = data ? formatPrice(sym, data.price) : '---';
+                const priceDisplay = data ? formatPrice(sym, data.price, data.isIndex) : '---';
                 const change = data?.change || 0;
                 const isPos = change >= 0;
                 const isDom = sym.includes('.D');
@@ -1,8 +1,10 @@
 
-import React, { useEffect, useRef } from 'react';
-import { Liquidation } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Liquidation, Exchange } from '../types';
 import { Card } from './ui/Card';
+import { EXCHANGE_META, exchangeOf, tradingViewLink } from '../services/exchanges';
 import { Skull, Droplets, LineChart, ExternalLink } from 'lucide-react';
+import { baseAsset } from '../services/symbolRegistry';
 
 interface LiquidationsFeedProps {
   liquidations: Liquidation[];
@@ -10,6 +12,10 @@ interface LiquidationsFeedProps {
 
 export const LiquidationsFeed: React.FC<LiquidationsFeedProps> = ({ liquidations }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
+  const [venue, setVenue] = useState<Exchange | 'ALL'>('ALL');
+
+  const venues = useMemo(() => Array.from(new Set(liquidations.map(l => exchangeOf(l)))), [liquidations]);
+  const visible = venue === 'ALL' ? liquidations : liquidations.filter(l => exchangeOf(l) === venue);
 
   // Auto-scroll to bottom like a terminal
   useEffect(() => {
@@ -36,7 +42,20 @@ export const LiquidationsFeed: React.FC<LiquidationsFeedProps> = ({ liquidations
     <Card 
         title="Live Liquidations" 
         className="h-full"
-        action={<Droplets size={14} className="text-secondary animate-pulse" />}
+        action={
+            <div className="flex items-center gap-2">
+                {venues.length > 1 && (['ALL', ...venues] as (Exchange | 'ALL')[]).map(v => (
+                    <button
+                        key={v}
+                        onClick={() => setVenue(v)}
+                        className={`text-[10px] font-bold uppercase tracking-wider ${venue === v ? 'text-primary' : 'text-secondary hover:text-text'}`}
+                    >
+                        {v === 'ALL' ? 'All' : EXCHANGE_META[v].short}
+                    </button>
+                ))}
+                <Droplets size={14} className="text-secondary animate-pulse" />
+            </div>
+        }
     >
       <div className="flex flex-col h-full bg-surface">
          {/* Header */}
@@ -49,20 +68,20 @@ export const LiquidationsFeed: React.FC<LiquidationsFeedProps> = ({ liquidations
 
          {/* Content */}
          <div ref={scrollRef} className="flex-1 overflow-y-auto overflow-x-hidden p-0 scroll-smooth">
-            {liquidations.length === 0 ? (
+            {visible.length === 0 ? (
                 <div className="flex flex-col items-center justify-center h-full text-secondary opacity-50 gap-2 p-4">
                     <Skull size={24} />
                     <span className="text-xs">Watching for REKTs...</span>
                 </div>
             ) : (
                 <div className="flex flex-col-reverse"> {/* Reverse to show newest at top logically, but we use scroll to bottom for terminal feel usually. Actually let's just map normally and scroll to top? Standard feed usually puts newest at top. Let's do newest at TOP. */}
-                     {liquidations.map((liq) => {
+                     {visible.map((liq) => {
                          const isLongLiq = liq.side === 'LONG';
                          const colorClass = isLongLiq ? 'text-danger' : 'text-success';
                          const bgClass = isLongLiq ? 'bg-danger/5 hover:bg-danger/10' : 'bg-success/5 hover:bg-success/10';
-                         const symbolBase = liq.symbol.replace('USDT', '');
+                         const symbolBase = baseAsset(liq.symbol);
                          
-                         const tvLink = `https://www.tradingview.com/chart/?symbol=BINANCE:${liq.symbol}.P`;
+                         const tvLink = tradingViewLink(liq.exchange, liq.symbol, true);
                          const binanceLink = `https://www.binance.com/en/futures/${liq.symbol}`;
 
                          return (
@@ -71,7 +90,10 @@ export const LiquidationsFeed: React.FC<LiquidationsFeedProps> = ({ liquidations
                                      {formatTime(liq.time)}
                                  </div>
                                  <div className="col-span-4 font-bold text-text flex items-center justify-between">
-                                     <span>{symbolBase}</span>
+                                     <span>
+                                         {symbolBase}
+                                         {venues.length > 1 && <span className="ml-1 text-[8px] text-secondary font-bold">{EXCHANGE_META[exchangeOf(liq)].short}</span>}
+                                     </span>
                                      <div className="hidden group-hover:flex items-center gap-1 bg-surface shadow-sm rounded border border-border px-1 absolute left-20 z-10">
                                          <a href={tvLink} target="_blank" rel="noopener noreferrer" className="p-0.5 hover:text-primary text-secondary"><LineChart size={12}/></a>
                                          <a href={binanceLink} target="_blank" rel="noopener noreferrer" className="p-0.5 hover:text-warning text-secondary"><ExternalLink size={12}/></a>
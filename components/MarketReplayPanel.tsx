@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Card } from './ui/Card';
+import { RecordedMessage, RecordingStats, parseRecording } from '../services/marketRecorder';
+import { ReplayProgress, ReplaySpeed, exchangesInRecording } from '../services/marketReplay';
+import { EXCHANGE_META } from '../services/exchanges';
+import { Circle, Square, Download, Upload, Play, Radio } from 'lucide-react';
+
+interface MarketReplayPanelProps {
+  replay: { speed: ReplaySpeed; progress: ReplayProgress | null } | null;
+  onStartReplay: (messages: RecordedMessage[], speed: ReplaySpeed) => void;
+  onStopReplay: () => void;
+  recorder: RecordingStats | null; // The recorder runs in the market worker, next to the sockets
+  onToggleRecording: () => void;
+  onDownloadRecording: () => void;
+}
+
+const SPEEDS: { value: ReplaySpeed; label: string }[] = [
+  { value: 1, label: '1x' },
+  { value: 10, label: '10x' },
+  { value: 'max', label: 'Max' },
+];
+
+const formatBytes = (bytes: number) => bytes > 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(0)} KB`;
+
+const formatDuration = (ms: number) => {
+  const s = Math.floor(ms / 1000);
+  return `${Math.floor(s / 60)}m ${(s % 60).toString().padStart(2, '0')}s`;
+};
+
+export const MarketReplayPanel: React.FC<MarketReplayPanelProps> = ({ replay, onStartReplay, onStopReplay, recorder: stats, onToggleRecording, onDownloadRecording }) => {
+  const [loaded, setLoaded] = useState<{ name: string; messages: RecordedMessage[]; skipped: number } | null>(null);
+  const [speed, setSpeed] = useState<ReplaySpeed>(10);
+
+  // Stats arrive with every worker update, so a cap-stopped recording shows up on its own
+  const recording = !!stats && !stats.stoppedAt;
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then(text => setLoaded({ name: file.name, ...parseRecording(text) }));
+    e.target.value = '';
+  };
+
+  const progress = replay?.progress;
+  const percent = progress && progress.total ? (progress.delivered / progress.total) * 100 : 0;
+
+  return (
+    <Card title="Market Recorder & Replay">
+      <div className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Recorder */}
+        <div className="space-y-4">
+          <div>
+            <h4 className="text-sm font-bold text-text mb-1">Record Live Streams</h4>
+            <p className="text-xs text-muted">Captures raw ticker, mark price and liquidation messages from every connected venue as NDJSON.</p>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={onToggleRecording}
+              disabled={!!replay}
+              className={`flex-1 py-2.5 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all disabled:opacity-40 ${
+                recording ? 'bg-danger/10 text-danger hover:bg-danger/20' : 'bg-surface-secondary text-text hover:bg-surface-highlight'
+              }`}
+            >
+              {recording ? <><Square size={14} fill="currentColor" /> Stop Recording</> : <><Circle size={14} className="text-danger" fill="currentColor" /> Start Recording</>}
+            </button>
+            <button
+              onClick={onDownloadRecording}
+              disabled={recording || !stats?.messages}
+              className="px-4 py-2.5 rounded-lg text-sm font-bold bg-surface-secondary text-text hover:bg-surface-highlight disabled:opacity-40 flex items-center gap-2"
+            >
+              <Download size={14} /> Download
+            </button>
+          </div>
+
+          {stats && (
+            <div className="grid grid-cols-3 gap-3">
+              <div className="bg-surface-highlight p-3 rounded-xl border border-border">
+                <div className="text-[10px] font-bold text-secondary uppercase tracking-wider mb-1">Messages</div>
+                <div className="font-mono text-sm text-text">{stats.messages.toLocaleString()}</div>
+              </div>
+              <div className="bg-surface-highlight p-3 rounded-xl border border-border">
+                <div className="text-[10px] font-bold text-secondary uppercase tracking-wider mb-1">Size</div>
+                <div className="font-mono text-sm text-text">{formatBytes(stats.bytes)}</div>
+              </div>
+              <div className="bg-surface-highlight p-3 rounded-xl border border-border">
+                <div className="text-[10px] font-bold text-secondary uppercase tracking-wider mb-1">Duration</div>
+                <div className="font-mono text-sm text-text">{formatDuration((stats.stoppedAt || Date.now()) - stats.startedAt)}</div>
+              </div>
+            </div>
+          )}
+          {stats?.truncated && <p className="text-xs text-warning">Recording stopped at the size limit.</p>}
+        </div>
+
+        {/* Replay */}
+        <div className="space-y-4">
+          <div>
+            <h4 className="text-sm font-bold text-text mb-1">Replay a Recording</h4>
+            <p className="text-xs text-muted">Replaces the live feeds with the recording. Scanner, radar and divergence signals run on the replayed data.</p>
+          </div>
+
+          <label className="flex items-center gap-2 px-3 py-2.5 rounded-lg border border-dashed border-border text-sm text-secondary hover:text-text cursor-pointer">
+            <Upload size={14} />
+            <span className="truncate">{loaded ? `${loaded.name} · ${loaded.messages.length.toLocaleString()} messages` : 'Choose .ndjson file'}</span>
+            <input type="file" accept=".ndjson,.jsonl,.json,.txt" onChange={handleFile} className="hidden" />
+          </label>
+          {loaded && (
+            <div className="flex items-center gap-2 text-[11px] text-secondary">
+              {exchangesInRecording(loaded.messages).map(id => (
+                <span key={id} className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${EXCHANGE_META[id].badge}`}>{EXCHANGE_META[id].short}</span>
+              ))}
+              {loaded.skipped > 0 && <span className="text-warning">{loaded.skipped} unreadable lines skipped</span>}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <div className="bg-surface-secondary/50 p-1 rounded-lg flex gap-1">
+              {SPEEDS.map(s => (
+                <button
+                  key={s.label}
+                  onClick={() => setSpeed(s.value)}
+                  disabled={!!replay}
+                  className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all ${speed === s.value ? 'bg-surface text-text shadow-sm' : 'text-secondary hover:text-text'}`}
+                >
+                  {s.label}
+                </button>
+              ))}
+            </div>
+            {replay ? (
+              <button onClick={onStopReplay} className="flex-1 py-2 rounded-lg text-sm font-bold bg-primary text-black hover:opacity-90 flex items-center justify-center gap-2">
+                <Radio size={14} /> Back to Live
+              </button>
+            ) : (
+              <button
+                onClick={() => loaded && onStartReplay(loaded.messages, speed)}
+                disabled={!loaded?.messages.length || recording}
+                className="flex-1 py-2 rounded-lg text-sm font-bold bg-surface-secondary text-text hover:bg-surface-highlight disabled:opacity-40 flex items-center justify-center gap-2"
+              >
+                <Play size={14} /> Start Replay
+              </button>
+            )}
+          </div>
+
+          {replay && (
+            <div className="space-y-1.5">
+              <div className="h-1.5 bg-surface-secondary rounded-full overflow-hidden">
+                <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+              </div>
+              <div className="flex justify-between text-[11px] font-mono text-secondary">
+                <span>{progress ? new Date(progress.position).toLocaleTimeString() : 'Starting...'}</span>
+                <span>{progress?.done ? 'Finished' : `${replay.speed === 'max' ? 'Max' : `${replay.speed}x`}`}</span>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+};
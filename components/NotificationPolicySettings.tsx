@@ -0,0 +1,139 @@
+import React from 'react';
+import { NotificationChannel, NotificationPolicy, NotificationThrottle, QuietHours } from '../types';
+import { DEFAULT_POLICY } from '../services/notificationThrottle';
+import { formatTime } from '../services/ruleExpression';
+import { BellOff, RotateCcw } from 'lucide-react';
+
+interface NotificationPolicySettingsProps {
+  policy: NotificationPolicy;
+  onChange: (policy: NotificationPolicy) => void;
+  channels: NotificationChannel[];
+}
+
+const inputClass = 'w-full bg-surface border border-border rounded-lg px-2.5 py-1.5 text-xs font-mono text-text focus:border-brand focus:outline-none';
+
+const DEFAULT_QUIET_HOURS: QuietHours = { enabled: false, start: 22 * 60, end: 7 * 60 };
+
+const timeToMinutes = (text: string) => {
+  const [h, m] = text.split(':').map(Number);
+  return h * 60 + m;
+};
+
+const SmallToggle: React.FC<{ on: boolean; onClick: () => void; title?: string }> = ({ on, onClick, title }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`relative inline-flex h-5 w-9 shrink-0 rounded-full border-2 border-transparent transition-colors ${on ? 'bg-success' : 'bg-surface-highlight'}`}
+    title={title}
+  >
+    <span className={`inline-block h-4 w-4 transform rounded-full bg-white shadow transition ${on ? 'translate-x-4' : 'translate-x-0'}`} />
+  </button>
+);
+
+const numberInput = (value: number, min: number, max: number, apply: (value: number) => void) => (
+  <input
+    type="number"
+    min={min}
+    max={max}
+    step={1}
+    value={value}
+    onChange={e => {
+      const next = Number(e.target.value);
+      if (e.target.value !== '' && Number.isFinite(next)) apply(Math.round(Math.min(max, Math.max(min, next))));
+    }}
+    className={inputClass}
+  />
+);
+
+// Rate limit, digest, dedup and critical for one notification source; also used per rule
+export const ThrottleEditor: React.FC<{ throttle: NotificationThrottle; onChange: (throttle: NotificationThrottle) => void }> = ({ throttle, onChange }) => {
+  const update = <K extends keyof NotificationThrottle>(key: K, value: NotificationThrottle[K]) => onChange({ ...throttle, [key]: value });
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label className="text-[11px] text-muted block mb-1">Max per window</label>
+          {numberInput(throttle.maxPerWindow, 0, 1000, v => update('maxPerWindow', v))}
+        </div>
+        <div>
+          <label className="text-[11px] text-muted block mb-1">Window (min)</label>
+          {numberInput(throttle.windowMinutes, 1, 240, v => update('windowMinutes', v))}
+        </div>
+        <div>
+          <label className="text-[11px] text-muted block mb-1">Dedup (min)</label>
+          {numberInput(throttle.dedupMinutes, 0, 1440, v => update('dedupMinutes', v))}
+        </div>
+      </div>
+      <div className="flex items-center gap-5">
+        <label className="flex items-center gap-2 text-xs text-text">
+          <SmallToggle on={throttle.digest} onClick={() => update('digest', !throttle.digest)} /> Digest
+        </label>
+        <label className="flex items-center gap-2 text-xs text-text">
+          <SmallToggle on={throttle.critical} onClick={() => update('critical', !throttle.critical)} /> Critical
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export const NotificationPolicySettings: React.FC<NotificationPolicySettingsProps> = ({ policy, onChange, channels }) => {
+  const update = <K extends keyof NotificationPolicy>(key: K, value: NotificationPolicy[K]) => onChange({ ...policy, [key]: value });
+
+  const quietTargets = [
+    { id: 'inApp', label: 'In-App' },
+    { id: 'browser', label: 'Browser' },
+    ...channels.map(c => ({ id: c.id, label: c.name }))
+  ];
+
+  const setQuiet = (id: string, patch: Partial<QuietHours>) =>
+    update('quietHours', { ...policy.quietHours, [id]: { ...DEFAULT_QUIET_HOURS, ...policy.quietHours[id], ...patch } });
+
+  return (
+    <div className="space-y-3 mb-6">
+      <div className="flex items-center justify-between ml-1">
+        <h3 className="text-sm font-semibold text-secondary uppercase tracking-wide flex items-center gap-2">
+          <BellOff size={14} /> Throttling & Quiet Hours
+        </h3>
+        <button type="button" onClick={() => onChange({ ...DEFAULT_POLICY, quietHours: policy.quietHours })} className="text-[11px] font-semibold text-secondary hover:text-text flex items-center gap-1">
+          <RotateCcw size={12} /> Defaults
+        </button>
+      </div>
+
+      <div className="bg-surface-secondary/50 p-4 rounded-2xl space-y-5">
+        <div>
+          <span className="text-[11px] text-muted block mb-2">Quiet hours per channel</span>
+          <div className="space-y-1.5">
+            {quietTargets.map(({ id, label }) => {
+              const quiet = { ...DEFAULT_QUIET_HOURS, ...policy.quietHours[id] };
+              return (
+                <div key={id} className="flex items-center gap-3">
+                  <SmallToggle on={quiet.enabled} onClick={() => setQuiet(id, { enabled: !quiet.enabled })} title={quiet.enabled ? 'Disable' : 'Enable'} />
+                  <span className={`text-xs font-semibold flex-1 truncate ${quiet.enabled ? 'text-text' : 'text-secondary'}`}>{label}</span>
+                  <input type="time" value={formatTime(quiet.start)} onChange={e => e.target.value && setQuiet(id, { start: timeToMinutes(e.target.value) })} className={`${inputClass} w-24`} disabled={!quiet.enabled} />
+                  <span className="text-[11px] text-secondary">to</span>
+                  <input type="time" value={formatTime(quiet.end)} onChange={e => e.target.value && setQuiet(id, { end: timeToMinutes(e.target.value) })} className={`${inputClass} w-24`} disabled={!quiet.enabled} />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div>
+          <span className="text-[11px] text-muted block mb-2">Detector toasts (divergence and confluence)</span>
+          <ThrottleEditor throttle={policy.signalToasts} onChange={t => update('signalToasts', t)} />
+        </div>
+
+        <div>
+          <span className="text-[11px] text-muted block mb-2">Price alerts</span>
+          <ThrottleEditor throttle={policy.priceAlerts} onChange={t => update('priceAlerts', t)} />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-text">Toasts on screen at once</span>
+          <div className="w-20">{numberInput(policy.maxToasts, 1, 20, v => update('maxToasts', v))}</div>
+        </div>
+      </div>
+      <p className="text-[11px] text-secondary ml-1">A max of 0 means no limit. With digest on, notifications over the limit arrive as one summary per symbol when the window ends. Without a limit, all of them do. Dedup drops repeats of the same symbol, side and strategy. Critical notifications are still sent during quiet hours.</p>
+    </div>
+  );
+};
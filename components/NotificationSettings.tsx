@@ -1,17 +1,237 @@
-import React, { useState } from 'react';
-import { NotificationRule, Side } from '../types';
-import { Plus, Trash, Bell, AlertTriangle } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { FuturesTicker, NotificationChannel, NotificationRule, NotificationThrottle, RuleCondition, RuleGroup, RuleNode, RuleOperator, RuleValue, Signal, Ticker } from '../types';
+import {
+  RULE_FIELDS, OPERATORS_BY_TYPE, RuleSyntaxError, ruleField, defaultCondition, emptyRule,
+  evaluateRule, formatRule, formatRuleNumber, formatTime, parseRule, parseRuleNumber
+} from '../services/ruleExpression';
+import { querySignals } from '../services/signalStore';
+import { NO_THROTTLE, describeThrottle } from '../services/notificationThrottle';
+import { ThrottleEditor } from './NotificationPolicySettings';
+import { Plus, Trash, Bell, AlertTriangle, FolderPlus, X, Play, Code } from 'lucide-react';
 
 interface NotificationSettingsProps {
   rules: NotificationRule[];
   setRules: React.Dispatch<React.SetStateAction<NotificationRule[]>>;
+  marketData: Record<string, Ticker>;
+  futuresData: Record<string, FuturesTicker>;
+  watchlist: string[];
+  channels: NotificationChannel[];
 }
 
-export const NotificationSettings: React.FC<NotificationSettingsProps> = ({ rules, setRules }) => {
-  const [symbol, setSymbol] = useState('');
-  const [side, setSide] = useState<Side | 'ANY'>('ANY');
+const DRY_RUN_SIGNALS = 200;
+const FIELD_GROUPS = ['Signal', 'Ticker', 'Watchlist', 'Time'];
+
+const selectClass = 'bg-surface border-none rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-primary/20 outline-none';
+const inputClass = `${selectClass} w-full min-w-0 font-mono`;
+
+// Carries a condition's value over to a new operator where it makes sense
+const valueForOperator = (c: RuleCondition, operator: RuleOperator): RuleValue => {
+  const wasList = c.operator === 'in' || c.operator === 'not in';
+  const first = Array.isArray(c.value) ? c.value[0] : c.value;
+  if (operator === 'in' || operator === 'not in') return wasList ? c.value : (first === '' ? [] : [String(first)]);
+  if (operator === 'between') return c.operator === 'between' ? c.value : [Number(first) || 0, Number(first) || 0];
+  return first ?? '';
+};
+
+const timeToMinutes = (text: string) => {
+  const [h, m] = text.split(':').map(Number);
+  return h * 60 + m;
+};
+
+// Accepts K/M/B suffixes and only commits parseable values
+const NumberField: React.FC<{ value: number; onChange: (value: number) => void }> = ({ value, onChange }) => {
+  const [text, setText] = useState(formatRuleNumber(value));
+  useEffect(() => {
+    if (parseRuleNumber(text) !== value) setText(formatRuleNumber(value));
+  }, [value]);
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={e => {
+        setText(e.target.value);
+        const next = parseRuleNumber(e.target.value);
+        if (next !== null) onChange(next);
+      }}
+      className={`${inputClass} ${parseRuleNumber(text) === null ? 'ring-2 ring-danger/40' : ''}`}
+    />
+  );
+};
+
+// Comma separated values, kept as typed until the list itself changes
+const ListField: React.FC<{ value: string[]; placeholder?: string; onChange: (value: string[]) => void }> = ({ value, placeholder, onChange }) => {
+  const [text, setText] = useState(value.join(', '));
+  const split = (t: string) => t.split(',').map(v => v.trim()).filter(Boolean);
+  useEffect(() => {
+    if (split(text).join(',') !== value.join(',')) setText(value.join(', '));
+  }, [value]);
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={e => {
+        setText(e.target.value);
+        onChange(split(e.target.value));
+      }}
+      placeholder={placeholder || 'Comma separated'}
+      className={inputClass}
+    />
+  );
+};
+
+const ConditionValue: React.FC<{ condition: RuleCondition; onChange: (value: RuleValue) => void }> = ({ condition, onChange }) => {
+  const field = ruleField(condition.field);
+  if (!field) return null;
+  const { operator, value } = condition;
+
+  if (field.type === 'boolean') {
+    return (
+      <select value={value ? 'true' : 'false'} onChange={e => onChange(e.target.value === 'true')} className={selectClass}>
+        <option value="true">Yes</option>
+        <option value="false">No</option>
+      </select>
+    );
+  }
+  if (field.type === 'number' || field.type === 'time') {
+    const single = (v: number, apply: (v: number) => void) => field.type === 'time'
+      ? <input type="time" value={formatTime(v)} onChange={e => e.target.value && apply(timeToMinutes(e.target.value))} className={inputClass} />
+      : <NumberField value={v} onChange={apply} />;
+    if (operator === 'between') {
+      const [lo, hi] = value as [number, number];
+      return (
+        <div className="flex items-center gap-1 flex-1 min-w-0">
+          {single(lo, v => onChange([v, hi]))}
+          <span className="text-[11px] text-secondary">and</span>
+          {single(hi, v => onChange([lo, v]))}
+        </div>
+      );
+    }
+    return single(value as number, onChange);
+  }
+  if (operator === 'in' || operator === 'not in') {
+    const list = value as string[];
+    if (field.type === 'enum') {
+      return (
+        <div className="flex flex-wrap gap-1 flex-1">
+          {field.options!.map(o => (
+            <button
+              key={o}
+              type="button"
+              onClick={() => onChange(list.includes(o) ? list.filter(v => v !== o) : [...list, o])}
+              className={`px-2 py-1 rounded-md text-[10px] font-semibold transition-colors ${list.includes(o) ? 'bg-text text-surface' : 'bg-surface text-secondary hover:text-text'}`}
+            >
+              {o}
+            </button>
+          ))}
+        </div>
+      );
+    }
+    return <ListField value={list} placeholder={field.hint} onChange={onChange} />;
+  }
+  if (field.type === 'enum') {
+    return (
+      <select value={String(value)} onChange={e => onChange(e.target.value)} className={selectClass}>
+        {field.options!.map(o => <option key={o} value={o}>{o}</option>)}
+      </select>
+    );
+  }
+  return <input type="text" value={String(value)} onChange={e => onChange(e.target.value)} placeholder={field.hint} className={inputClass} />;
+};
+
+const ConditionRow: React.FC<{ condition: RuleCondition; onChange: (node: RuleCondition) => void; onRemove: () => void }> = ({ condition, onChange, onRemove }) => {
+  const field = ruleField(condition.field);
+  return (
+    <div className="flex items-center gap-1.5">
+      <select value={condition.field} onChange={e => onChange(defaultCondition(e.target.value))} className={selectClass}>
+        {FIELD_GROUPS.map(group => (
+          <optgroup key={group} label={group}>
+            {RULE_FIELDS.filter(f => f.group === group).map(f => <option key={f.key} value={f.key}>{f.label}</option>)}
+          </optgroup>
+        ))}
+      </select>
+      {field && field.type !== 'boolean' && (
+        <select
+          value={condition.operator}
+          onChange={e => {
+            const operator = e.target.value as RuleOperator;
+            onChange({ ...condition, operator, value: valueForOperator(condition, operator) });
+          }}
+          className={selectClass}
+        >
+          {OPERATORS_BY_TYPE[field.type].map(op => <option key={op} value={op}>{op}</option>)}
+        </select>
+      )}
+      <ConditionValue condition={condition} onChange={value => onChange({ ...condition, value })} />
+      <button type="button" onClick={onRemove} className="text-secondary hover:text-danger p-1 shrink-0" title="Remove condition">
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
+
+const GroupEditor: React.FC<{ group: RuleGroup; onChange: (group: RuleGroup) => void; onRemove?: () => void }> = ({ group, onChange, onRemove }) => {
+  const setChild = (i: number, node: RuleNode) => onChange({ ...group, children: group.children.map((c, j) => j === i ? node : c) });
+  const removeChild = (i: number) => onChange({ ...group, children: group.children.filter((_, j) => j !== i) });
+
+  return (
+    <div className={`space-y-2 ${onRemove ? 'border-l-2 border-border pl-3 py-1' : ''}`}>
+      <div className="flex items-center gap-1.5">
+        <div className="flex bg-surface rounded-lg p-0.5">
+          {(['AND', 'OR'] as const).map(c => (
+            <button
+              key={c}
+              type="button"
+              onClick={() => onChange({ ...group, combinator: c })}
+              className={`px-2 py-0.5 rounded-md text-[10px] font-bold transition-colors ${group.combinator === c ? 'bg-text text-surface' : 'text-secondary hover:text-text'}`}
+            >
+              {c}
+            </button>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange({ ...group, negate: !group.negate })}
+          className={`px-2 py-1 rounded-lg text-[10px] font-bold transition-colors ${group.negate ? 'bg-danger/10 text-danger' : 'bg-surface text-secondary hover:text-text'}`}
+          title="Match when this group does not"
+        >
+          NOT
+        </button>
+        <span className="text-[11px] text-secondary flex-1">{group.combinator === 'AND' ? 'All of' : 'Any of'}</span>
+        {onRemove && (
+          <button type="button" onClick={onRemove} className="text-secondary hover:text-danger p-1" title="Remove group">
+            <Trash size={13} />
+          </button>
+        )}
+      </div>
+
+      {group.children.map((child, i) => child.kind === 'condition'
+        ? <ConditionRow key={i} condition={child} onChange={node => setChild(i, node)} onRemove={() => removeChild(i)} />
+        : <GroupEditor key={i} group={child} onChange={node => setChild(i, node)} onRemove={() => removeChild(i)} />
+      )}
+
+      <div className="flex gap-3">
+        <button type="button" onClick={() => onChange({ ...group, children: [...group.children, defaultCondition('strategy')] })} className="text-[11px] font-semibold text-secondary hover:text-text flex items-center gap-1">
+          <Plus size={12} /> Condition
+        </button>
+        <button type="button" onClick={() => onChange({ ...group, children: [...group.children, { ...emptyRule(), combinator: group.combinator === 'AND' ? 'OR' : 'AND' }] })} className="text-[11px] font-semibold text-secondary hover:text-text flex items-center gap-1">
+          <FolderPlus size={12} /> Group
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const NotificationSettings: React.FC<NotificationSettingsProps> = ({ rules, setRules, marketData, futuresData, watchlist, channels }) => {
+  const [name, setName] = useState('');
+  const [draft, setDraft] = useState<RuleGroup>(emptyRule);
+  const [expression, setExpression] = useState('');
+  const [expressionError, setExpressionError] = useState<string | null>(null);
+  const [dryRun, setDryRun] = useState<{ scanned: number; matches: Signal[] } | null>(null);
+  const [dryRunning, setDryRunning] = useState(false);
   const [inApp, setInApp] = useState(true);
   const [browser, setBrowser] = useState(false);
+  const [external, setExternal] = useState<string[]>([]);
+  const [throttle, setThrottle] = useState<NotificationThrottle>(NO_THROTTLE);
   const [permission, setPermission] = useState(Notification.permission);
 
   const requestPermission = async () => {
@@ -20,22 +240,51 @@ export const NotificationSettings: React.FC<NotificationSettingsProps> = ({ rule
     if (perm === 'granted') setBrowser(true);
   };
 
+  // The builder and the expression text edit the same rule
+  const updateDraft = (next: RuleGroup) => {
+    setDraft(next);
+    setExpression(formatRule(next));
+    setExpressionError(null);
+    setDryRun(null);
+  };
+
+  const applyExpression = () => {
+    try {
+      updateDraft(parseRule(expression));
+    } catch (e) {
+      if (!(e instanceof RuleSyntaxError)) throw e;
+      setExpressionError(`${e.message} (at ${e.position + 1})`);
+    }
+  };
+
+  // Replays recent history through the draft; ticker fields use current market data
+  const runDryRun = async () => {
+    setDryRunning(true);
+    const { signals } = await querySignals({}, DRY_RUN_SIGNALS);
+    setDryRun({
+      scanned: signals.length,
+      matches: signals.filter(signal => evaluateRule(draft, { signal, tickers: marketData, futures: futuresData, watchlist }))
+    });
+    setDryRunning(false);
+  };
+
   const handleAddRule = () => {
+    const text = formatRule(draft);
     const newRule: NotificationRule = {
       id: Math.random().toString(36).substring(7),
-      name: `${side === 'ANY' ? 'Any Side' : side} ${symbol ? `on ${symbol}` : 'on Any Symbol'}`,
-      condition: {
-        symbol: symbol.toUpperCase(),
-        side: side,
-      },
+      name: name.trim() || text || 'All Signals',
+      condition: draft,
       channels: {
         inApp,
         browser: browser && permission === 'granted',
+        external: external.filter(id => channels.some(c => c.id === id)),
       },
+      throttle,
     };
     setRules([...rules, newRule]);
-    setSymbol('');
-    setSide('ANY');
+    setName('');
+    setThrottle(NO_THROTTLE);
+    updateDraft(emptyRule());
   };
 
   const handleDeleteRule = (id: string) => {
@@ -57,14 +306,14 @@ export const NotificationSettings: React.FC<NotificationSettingsProps> = ({ rule
 
   return (
     <div className="space-y-6">
-      
+
       {permission !== 'granted' && (
         <div className="bg-warning/10 p-4 rounded-xl flex items-start gap-3">
           <AlertTriangle className="text-warning shrink-0" size={18} />
           <div>
             <h4 className="text-sm font-bold text-warning">Enable Notifications</h4>
             <p className="text-xs text-text/80 mt-1 mb-2">Allow browser alerts for background updates.</p>
-            <button 
+            <button
               onClick={requestPermission}
               className="text-xs font-semibold text-warning underline hover:no-underline"
             >
@@ -77,25 +326,60 @@ export const NotificationSettings: React.FC<NotificationSettingsProps> = ({ rule
       <div className="space-y-4">
         <h3 className="text-sm font-semibold text-secondary uppercase tracking-wide ml-1">New Rule</h3>
         <div className="bg-surface-secondary/50 p-4 rounded-2xl space-y-4">
-            <div className="grid grid-cols-2 gap-4">
-                <input 
-                    type="text" 
-                    value={symbol}
-                    onChange={(e) => setSymbol(e.target.value)}
-                    placeholder="Symbol (Optional)"
-                    className="bg-surface border-none rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-primary/20 outline-none"
-                />
-                <select 
-                    value={side}
-                    onChange={(e) => setSide(e.target.value as Side | 'ANY')}
-                    className="bg-surface border-none rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-primary/20 outline-none"
+            <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name (Optional)"
+                className="w-full bg-surface border-none rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-primary/20 outline-none"
+            />
+
+            <GroupEditor group={draft} onChange={updateDraft} />
+
+            <div>
+                <div className="flex items-center gap-1.5 text-[11px] text-muted mb-1 ml-1"><Code size={12} /> Expression</div>
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        value={expression}
+                        onChange={(e) => { setExpression(e.target.value); setExpressionError(null); }}
+                        onKeyDown={(e) => e.key === 'Enter' && applyExpression()}
+                        placeholder="strategy in (RMI_*, SmartMoney_*) AND confidence >= 0.8 AND watchlist AND volume24h > 50M"
+                        className="flex-1 min-w-0 bg-surface border-none rounded-xl px-4 py-3 text-xs font-mono focus:ring-2 focus:ring-primary/20 outline-none"
+                    />
+                    <button onClick={applyExpression} className="px-3 rounded-xl bg-surface text-xs font-semibold text-secondary hover:text-text">Apply</button>
+                </div>
+                {expressionError && <p className="text-[11px] text-danger mt-1 ml-1">{expressionError}</p>}
+            </div>
+
+            <div className="space-y-2">
+                <button
+                    onClick={runDryRun}
+                    disabled={dryRunning}
+                    className="text-xs font-semibold text-secondary hover:text-text flex items-center gap-1.5 disabled:opacity-50"
                 >
-                    <option value="ANY">Any Side</option>
-                    <option value="BUY">Buy</option>
-                    <option value="SELL">Sell</option>
-                </select>
+                    <Play size={12} /> {dryRunning ? 'Checking...' : `Dry run on last ${DRY_RUN_SIGNALS} signals`}
+                </button>
+                {dryRun && (
+                    <div className="bg-surface rounded-xl p-3">
+                        <div className="text-[11px] text-secondary mb-2">
+                            {dryRun.matches.length} of {dryRun.scanned} signals would have matched. Ticker fields use current values.
+                        </div>
+                        <div className="max-h-40 overflow-y-auto space-y-1">
+                            {dryRun.matches.map(s => (
+                                <div key={s.id} className="flex items-center gap-2 text-[11px] font-mono">
+                                    <span className="text-muted w-28 shrink-0">{new Date(s.time).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+                                    <span className="font-semibold text-text w-20 truncate">{s.symbol}</span>
+                                    <span className={s.side === 'BUY' || s.side === 'LONG' ? 'text-success' : 'text-danger'}>{s.side}</span>
+                                    <span className="text-secondary truncate flex-1">{s.strategy}</span>
+                                    {s.confidence !== undefined && <span className="text-secondary">{(s.confidence * 100).toFixed(0)}%</span>}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
             </div>
-            
+
             <div className="flex items-center justify-between py-2 px-1">
                 <div className="text-sm font-medium">Show In-App</div>
                 <ToggleSwitch checked={inApp} onChange={setInApp} />
@@ -104,8 +388,32 @@ export const NotificationSettings: React.FC<NotificationSettingsProps> = ({ rule
                 <div className="text-sm font-medium">Browser Alert</div>
                 <ToggleSwitch checked={browser} onChange={setBrowser} disabled={permission === 'denied'} />
             </div>
+            <div className="py-2 px-1 border-t border-border/50">
+                <div className="text-sm font-medium mb-2">Channels</div>
+                {channels.length === 0 ? (
+                    <p className="text-xs text-secondary">Add Telegram, Discord, Slack or HTTP channels under Channels to send rule matches there.</p>
+                ) : (
+                    <div className="flex flex-wrap gap-1.5">
+                        {channels.map(c => (
+                            <button
+                                key={c.id}
+                                type="button"
+                                onClick={() => setExternal(external.includes(c.id) ? external.filter(id => id !== c.id) : [...external, c.id])}
+                                className={`px-2.5 py-1 rounded-lg text-xs font-semibold transition-colors ${external.includes(c.id) ? 'bg-text text-surface' : 'bg-surface text-secondary hover:text-text'} ${c.enabled ? '' : 'opacity-50'}`}
+                            >
+                                {c.name}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="py-2 px-1 border-t border-border/50">
+                <div className="text-sm font-medium mb-2">Throttling</div>
+                <ThrottleEditor throttle={throttle} onChange={setThrottle} />
+            </div>
 
-            <button 
+            <button
                 onClick={handleAddRule}
                 className="w-full bg-text text-surface font-semibold py-3 rounded-xl text-sm transition-transform active:scale-[0.98]"
             >
@@ -118,8 +426,17 @@ export const NotificationSettings: React.FC<NotificationSettingsProps> = ({ rule
         <h3 className="text-sm font-semibold text-secondary uppercase tracking-wide ml-1">Active Rules</h3>
         {rules.map(rule => (
             <div key={rule.id} className="flex items-center justify-between p-4 bg-surface border border-border rounded-xl">
-                <div className="font-medium text-text text-sm">{rule.name}</div>
-                <button 
+                <div className="min-w-0">
+                    <div className="font-medium text-text text-sm flex items-center gap-1.5"><Bell size={13} className="text-secondary" /> {rule.name}</div>
+                    <div className="text-[11px] font-mono text-secondary mt-1 break-words">{formatRule(rule.condition) || 'Every signal'}</div>
+                    {describeThrottle(rule.throttle) && <div className="text-[11px] text-secondary mt-1">{describeThrottle(rule.throttle)}</div>}
+                    {rule.channels.external && rule.channels.external.length > 0 && (
+                        <div className="text-[11px] text-secondary mt-1">
+                            Sends to {rule.channels.external.map(id => channels.find(c => c.id === id)?.name).filter(Boolean).join(', ') || 'removed channels'}
+                        </div>
+                    )}
+                </div>
+                <button
                     onClick={() => handleDeleteRule(rule.id)}
                     className="text-danger hover:bg-danger/10 p-2 rounded-full transition-colors"
                 >
@@ -130,4 +447,4 @@ export const NotificationSettings: React.FC<NotificationSettingsProps> = ({ rule
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
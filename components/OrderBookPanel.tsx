@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { BookLevel } from '../types';
+import { BookView, IMBALANCE_BAND_PCT } from '../services/marketAnalysis';
+import { Card } from './ui/Card';
+import { BookOpen, BrickWall, Loader2 } from 'lucide-react';
+import { baseAsset, quoteAsset, formatPrice, resolveSymbol } from '../services/symbolRegistry';
+
+interface OrderBookPanelProps {
+  symbol: string;
+  book: BookView | null | undefined; // undefined while syncing, null when the source has no book
+  onSymbolChange: (symbol: string) => void;
+}
+
+const formatValue = (val: number) => {
+  if (val >= 1000000) return `${(val / 1000000).toFixed(2)}M`;
+  if (val >= 1000) return `${(val / 1000).toFixed(1)}K`;
+  return val.toFixed(0);
+};
+
+const formatAge = (ms: number) => {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m ${s % 60}s`;
+  return `${Math.floor(s / 3600)}h ${Math.floor((s % 3600) / 60)}m`;
+};
+
+export const OrderBookPanel: React.FC<OrderBookPanelProps> = ({ symbol, book, onSymbolChange }) => {
+  const [input, setInput] = useState(baseAsset(symbol));
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => setInput(baseAsset(symbol)), [symbol]);
+
+  // Wall ages tick between book updates
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (input.trim()) onSymbolChange(resolveSymbol(input));
+  };
+
+  const view = book && book.symbol === symbol ? book : null;
+  const quote = quoteAsset(symbol) || 'USDT';
+  const maxQty = view ? Math.max(...view.bids.map(([, q]) => q), ...view.asks.map(([, q]) => q), 0) : 0;
+
+  const renderLevel = ([price, qty]: BookLevel, side: 'BID' | 'ASK') => (
+    <div key={`${side}-${price}`} className="relative grid grid-cols-2 px-4 py-[3px] text-[11px] font-mono">
+      <div
+        className={`absolute inset-y-0 right-0 ${side === 'BID' ? 'bg-success/10' : 'bg-danger/10'}`}
+        style={{ width: `${maxQty > 0 ? (qty / maxQty) * 100 : 0}%` }}
+      />
+      <span className={`relative ${side === 'BID' ? 'text-success' : 'text-danger'}`}>{formatPrice(symbol, price)}</span>
+      <span className="relative text-right text-text">{qty.toLocaleString(undefined, { maximumFractionDigits: 4 })}</span>
+    </div>
+  );
+
+  return (
+    <Card
+      title="Order Book"
+      className="h-full"
+      action={
+        <form onSubmit={submit} className="flex items-center gap-2">
+          <input
+            value={input}
+            onChange={(e) => setInput(e.target.value.toUpperCase())}
+            className="w-20 bg-surface-secondary rounded px-2 py-1 text-xs font-bold text-text border border-border focus:border-primary outline-none uppercase"
+            placeholder="BTC"
+          />
+          <BookOpen size={14} className="text-secondary" />
+        </form>
+      }
+    >
+      {book === null ? (
+        <div className="flex flex-col items-center justify-center h-full p-6 text-center text-secondary gap-2">
+          <BookOpen size={24} className="opacity-40" />
+          <p className="text-xs">Order book depth needs live Binance data.</p>
+        </div>
+      ) : !view ? (
+        <div className="flex items-center justify-center h-full p-6 text-secondary gap-2 text-xs">
+          <Loader2 size={14} className="animate-spin" /> Syncing {baseAsset(symbol)} book...
+        </div>
+      ) : (
+        <div className="flex flex-col">
+          {/* Spread & Imbalance */}
+          <div className="px-4 py-3 border-b border-border space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <div className="text-[10px] font-bold text-secondary uppercase tracking-wider">Spread</div>
+                <div className="text-sm font-mono font-bold text-text">{formatPrice(symbol, view.stats.spread)}</div>
+                <div className="text-[10px] text-secondary">{view.stats.spreadBps.toFixed(2)} bps</div>
+              </div>
+              <div className="text-right">
+                <div className="text-[10px] font-bold text-secondary uppercase tracking-wider">Mid</div>
+                <div className="text-sm font-mono font-bold text-text">{formatPrice(symbol, view.stats.mid)}</div>
+                <div className="text-[10px] text-secondary">{quote}</div>
+              </div>
+            </div>
+            <div>
+              <div className="flex justify-between text-[10px] font-bold mb-1">
+                <span className="text-success">{view.stats.imbalance.toFixed(0)}% Bids</span>
+                <span className="text-secondary uppercase tracking-wider">±{IMBALANCE_BAND_PCT}% depth</span>
+                <span className="text-danger">{(100 - view.stats.imbalance).toFixed(0)}% Asks</span>
+              </div>
+              <div className="h-1.5 w-full bg-surface-secondary rounded-full overflow-hidden flex">
+                <div className="h-full bg-success transition-all duration-300" style={{ width: `${view.stats.imbalance}%` }} />
+                <div className="h-full bg-danger transition-all duration-300" style={{ width: `${100 - view.stats.imbalance}%` }} />
+              </div>
+              <div className="flex justify-between text-[10px] text-secondary mt-1 font-mono">
+                <span>{formatValue(view.stats.bidValue)} {quote}</span>
+                <span>{formatValue(view.stats.askValue)} {quote}</span>
+              </div>
+            </div>
+          </div>
+
+          {/* Ladder */}
+          <div className="py-1 border-b border-border">
+            {[...view.asks].reverse().map(level => renderLevel(level, 'ASK'))}
+            <div className="px-4 py-1 text-[10px] font-bold text-secondary uppercase tracking-wider bg-surface-secondary/50">
+              {formatPrice(symbol, view.stats.bestBid)} / {formatPrice(symbol, view.stats.bestAsk)}
+            </div>
+            {view.bids.map(level => renderLevel(level, 'BID'))}
+          </div>
+
+          {/* Walls */}
+          <div className="px-4 py-3">
+            <div className="flex items-center gap-2 text-[10px] font-bold text-secondary uppercase tracking-wider mb-2">
+              <BrickWall size={12} /> Resting Walls
+            </div>
+            {view.walls.length === 0 ? (
+              <p className="text-xs text-secondary">No outsized levels near the price.</p>
+            ) : (
+              <div className="space-y-1.5">
+                {view.walls.map(w => (
+                  <div key={`${w.side}-${w.price}`} className="flex items-center justify-between text-xs">
+                    <div className="flex items-center gap-2">
+                      <span className={`px-1.5 py-0.5 rounded text-[9px] font-bold ${w.side === 'BID' ? 'bg-success/10 text-success' : 'bg-danger/10 text-danger'}`}>{w.side}</span>
+                      <span className="font-mono text-text">{formatPrice(symbol, w.price)}</span>
+                      <span className="text-[10px] text-secondary">{w.distancePct >= 0 ? '+' : ''}{w.distancePct.toFixed(2)}%</span>
+                    </div>
+                    <div className="text-right">
+                      <div className="font-mono font-bold text-text">{formatValue(w.value)} <span className="text-[10px] text-secondary">{w.multiple.toFixed(0)}x</span></div>
+                      <div className="text-[10px] text-secondary">{formatAge(now - w.since)}</div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -4,6 +4,7 @@ import { Holding, Ticker } from '../types';
 import { Card } from './ui/Card';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
 import { Wallet, History, Plus, X, Trash2 } from 'lucide-react';
+import { baseAsset } from '../services/symbolRegistry';
 
 interface PortfolioProps {
   holdings: Holding[];
@@ -102,7 +103,7 @@ export const Portfolio: React.FC<PortfolioProps> = ({ holdings, data }) => {
   }, [holdings, data]);
 
   const chartData = metrics.items.map(i => ({
-    name: i.symbol.replace('USDT', ''),
+    name: baseAsset(i.symbol),
     value: i.value
   }));
 
@@ -189,7 +190,7 @@ export const Portfolio: React.FC<PortfolioProps> = ({ holdings, data }) => {
                 <div className="w-full space-y-2 pr-1 overflow-y-auto max-h-[200px] scrollbar-thin">
                     {metrics.items.map((item, index) => {
                         const color = COLORS[index % COLORS.length];
-                        const symbolBase = item.symbol.replace('USDT', '');
+                        const symbolBase = baseAsset(item.symbol);
                         const iconUrl = `https://assets.coincap.io/assets/icons/${symbolBase.toLowerCase()}@2x.png`;
 
                         return (
@@ -1,80 +1,268 @@
-import React, { useState, useEffect } from 'react';
-import { Bell, TrendingUp, TrendingDown } from 'lucide-react';
+import React, { useState } from 'react';
+import { NotificationChannel, PriceAlertCondition, PriceAlertTarget } from '../types';
+import { parseMarketKey } from '../services/exchanges';
+import { getSymbolInfo, quoteAsset, pricePrecision, formatPrice, isUsdStable } from '../services/symbolRegistry';
+import { DEFAULT_ALERT_CHANNELS, PriceAlertDraft, TARGET_LABELS } from '../services/priceAlerts';
 
 interface SetAlertModalProps {
-  symbol: string;
+  symbol: string; // Market key
   currentPrice: number;
-  onSave: (price: number, condition: 'ABOVE' | 'BELOW') => void;
+  markPrice?: number; // Only when the market has a perpetual
+  fundingRate?: number; // 0.0001 = 0.01%
+  channels: NotificationChannel[];
+  initial?: PriceAlertDraft; // Editing an existing alert
+  onSave: (draft: PriceAlertDraft) => void;
   onCancel: () => void;
 }
 
-export const SetAlertModal: React.FC<SetAlertModalProps> = ({ symbol, currentPrice, onSave, onCancel }) => {
-  const [targetPrice, setTargetPrice] = useState<string>(currentPrice.toString());
-  const [condition, setCondition] = useState<'ABOVE' | 'BELOW'>('ABOVE');
+const CONDITION_LABELS: Record<PriceAlertCondition, string> = {
+  ABOVE: 'Above',
+  BELOW: 'Below',
+  CROSS: 'Cross',
+  MOVE: 'Move %',
+  TRAILING: 'Trailing'
+};
+
+const EXPIRY_OPTIONS: { label: string; ms: number | null }[] = [
+  { label: 'Never', ms: null },
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '4 hours', ms: 4 * 60 * 60 * 1000 },
+  { label: '24 hours', ms: 24 * 60 * 60 * 1000 },
+  { label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+];
+
+const inputClass = 'w-full bg-surface-secondary border-none rounded-xl px-4 py-3 text-sm font-semibold text-text focus:ring-2 focus:ring-primary/20 transition-all outline-none';
+const labelClass = 'text-xs font-semibold text-secondary uppercase tracking-wide ml-1';
+
+// Value for a datetime-local input, which takes local time without a zone
+const toLocalInput = (time: number) => new Date(time - new Date(time).getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+
+// iOS Segmented Control
+const Segmented = <T extends string>({ options, value, onChange, labels, disabled = [] }: { options: T[]; value: T; onChange: (value: T) => void; labels: Record<T, string>; disabled?: T[] }) => (
+  <div className="bg-surface-secondary p-1 rounded-xl flex">
+    {options.map(option => (
+      <button
+        key={option}
+        type="button"
+        disabled={disabled.includes(option)}
+        onClick={() => onChange(option)}
+        className={`flex-1 flex items-center justify-center gap-2 py-2.5 rounded-lg text-sm font-semibold transition-all shadow-sm disabled:opacity-40 ${
+          value === option
+            ? 'bg-surface text-text'
+            : 'bg-transparent text-secondary shadow-none hover:text-text'
+        }`}
+      >
+        {labels[option]}
+      </button>
+    ))}
+  </div>
+);
+
+export const SetAlertModal: React.FC<SetAlertModalProps> = ({ symbol, currentPrice, markPrice, fundingRate, channels, initial, onSave, onCancel }) => {
+  const market = parseMarketKey(symbol).symbol;
+  const decimals = pricePrecision(market, currentPrice);
+  const tickSize = getSymbolInfo(market)?.tickSize;
+  // USD-stable quotes show as $, anything else (BTC, ETH pairs) by its ticker
+  const quote = quoteAsset(market);
+  const isUsdQuote = !quote || isUsdStable(quote);
+
+  const initialTarget = initial?.target || 'LAST';
+  const [target, setTarget] = useState<PriceAlertTarget>(initialTarget);
+  const [condition, setCondition] = useState<PriceAlertCondition>(initial?.condition || 'ABOVE');
+  const [targetPrice, setTargetPrice] = useState<string>((initial?.targetPrice ?? currentPrice).toFixed(initialTarget === 'FUNDING' ? 4 : decimals));
+  const [movePercent, setMovePercent] = useState(String(initial?.movePercent ?? 2));
+  const [moveMinutes, setMoveMinutes] = useState(String(initial?.moveMinutes ?? 15));
+  const [trailFrom, setTrailFrom] = useState<'HIGH' | 'LOW'>(initial?.trailFrom || 'HIGH');
+  const [recurring, setRecurring] = useState(!!initial?.recurring);
+  const [rearmBy, setRearmBy] = useState(String(initial?.rearmBy ?? (initialTarget === 'FUNDING' ? 0.005 : 0.5)));
+  // An existing expiry keeps its time rather than restarting a preset
+  const [expiry, setExpiry] = useState<string>(initial?.expiresAt ? 'Custom' : 'Never');
+  const [customExpiry, setCustomExpiry] = useState(initial?.expiresAt ? toLocalInput(initial.expiresAt) : '');
+  const [targets, setTargets] = useState(initial?.channels || DEFAULT_ALERT_CHANNELS);
+
+  const isFunding = target === 'FUNDING';
+  const isLevel = condition === 'ABOVE' || condition === 'BELOW' || condition === 'CROSS';
+  const current = target === 'MARK' ? markPrice : isFunding && fundingRate !== undefined ? fundingRate * 100 : currentPrice;
+
+  const changeTarget = (next: PriceAlertTarget) => {
+    setTarget(next);
+    if (next === 'FUNDING') {
+      setTargetPrice(((fundingRate ?? 0) * 100).toFixed(4));
+      setRearmBy('0.005');
+      if (!isLevel) setCondition('ABOVE'); // Percent moves of a rate don't mean much
+    } else {
+      setTargetPrice((next === 'MARK' && markPrice ? markPrice : currentPrice).toFixed(decimals));
+      setRearmBy('0.5');
+    }
+  };
+
+  const expiresAt = () => {
+    if (expiry === 'Custom') return customExpiry ? new Date(customExpiry).getTime() : undefined;
+    const option = EXPIRY_OPTIONS.find(o => o.label === expiry);
+    return option?.ms ? Date.now() + option.ms : undefined;
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const price = parseFloat(targetPrice);
-    if (isNaN(price) || price <= 0) return;
-    onSave(price, condition);
+    const common = {
+      condition,
+      target,
+      recurring,
+      expiresAt: expiresAt(),
+      channels: { ...targets, external: targets.external?.filter(id => channels.some(c => c.id === id)) }
+    };
+    if (isLevel) {
+      const parsed = parseFloat(targetPrice);
+      if (isNaN(parsed) || (!isFunding && parsed <= 0)) return;
+      // Snap to the market's tick so the alert can actually be hit
+      const level = !isFunding && tickSize ? parseFloat((Math.round(parsed / tickSize) * tickSize).toFixed(decimals)) : parsed;
+      const band = parseFloat(rearmBy);
+      onSave({ ...common, targetPrice: level, rearmBy: recurring && band > 0 ? band : undefined });
+      return;
+    }
+    const pct = parseFloat(movePercent);
+    const minutes = parseInt(moveMinutes, 10);
+    if (!(pct > 0) || (condition === 'MOVE' && !(minutes > 0))) return;
+    onSave({
+      ...common,
+      targetPrice: current ?? currentPrice,
+      movePercent: pct,
+      ...(condition === 'MOVE' ? { moveMinutes: minutes } : { trailFrom })
+    });
   };
 
+  const external = targets.external || [];
+  const toggleExternal = (id: string) =>
+    setTargets({ ...targets, external: external.includes(id) ? external.filter(e => e !== id) : [...external, id] });
+
+  const chip = (key: string, label: string, on: boolean, onClick: () => void, dim = false) => (
+    <button
+      key={key}
+      type="button"
+      onClick={onClick}
+      className={`px-2.5 py-1 rounded-lg text-xs font-semibold transition-colors ${on ? 'bg-text text-surface' : 'bg-surface-secondary text-secondary hover:text-text'} ${dim ? 'opacity-50' : ''}`}
+    >
+      {label}
+    </button>
+  );
+
   return (
     <div className="space-y-6 pt-2">
       <div className="text-center">
-         <h3 className="text-3xl font-display font-bold text-text tracking-tight">${currentPrice.toLocaleString()}</h3>
-         <p className="text-secondary text-sm font-medium">Current Price</p>
+         {isFunding
+           ? <h3 className="text-3xl font-display font-bold text-text tracking-tight">{current !== undefined ? `${current.toFixed(4)}%` : '-'}</h3>
+           : <h3 className="text-3xl font-display font-bold text-text tracking-tight">{isUsdQuote ? '$' : ''}{current !== undefined ? formatPrice(market, current) : '-'}{!isUsdQuote && <span className="text-lg text-secondary ml-1.5">{quote}</span>}</h3>}
+         <p className="text-secondary text-sm font-medium">{target === 'MARK' ? 'Mark Price' : isFunding ? 'Funding Rate' : 'Current Price'}</p>
       </div>
 
-      <form onSubmit={handleSubmit} className="space-y-6">
-        <div className="space-y-1">
-          <label className="text-xs font-semibold text-secondary uppercase tracking-wide ml-1">Trigger Price</label>
-          <div className="relative">
-            <span className="absolute left-4 top-1/2 -translate-y-1/2 text-text font-semibold">$</span>
-            <input
-              type="number"
-              step="any"
-              value={targetPrice}
-              onChange={(e) => setTargetPrice(e.target.value)}
-              className="w-full bg-surface-secondary border-none rounded-xl px-4 pl-8 py-4 text-xl font-semibold text-text focus:ring-2 focus:ring-primary/20 transition-all outline-none"
-              autoFocus
-            />
+      <form onSubmit={handleSubmit} className="space-y-5">
+        <Segmented
+          options={['LAST', 'MARK', 'FUNDING'] as PriceAlertTarget[]}
+          value={target}
+          onChange={changeTarget}
+          labels={TARGET_LABELS}
+          disabled={markPrice === undefined ? ['MARK', 'FUNDING'] : []}
+        />
+
+        <Segmented
+          options={['ABOVE', 'BELOW', 'CROSS', 'MOVE', 'TRAILING'] as PriceAlertCondition[]}
+          value={condition}
+          onChange={setCondition}
+          labels={CONDITION_LABELS}
+          disabled={isFunding ? ['MOVE', 'TRAILING'] : []}
+        />
+
+        {isLevel ? (
+          <div className="space-y-1">
+            <label className={labelClass}>{isFunding ? 'Funding Rate (%)' : 'Trigger Price'}</label>
+            <div className="relative">
+              {!isFunding && <span className="absolute left-4 top-1/2 -translate-y-1/2 text-text font-semibold">{isUsdQuote ? '$' : ''}</span>}
+              {!isFunding && !isUsdQuote && <span className="absolute right-4 top-1/2 -translate-y-1/2 text-secondary font-semibold text-sm">{quote}</span>}
+              <input
+                type="number"
+                step={isFunding ? 0.0001 : tickSize ?? 'any'}
+                value={targetPrice}
+                onChange={(e) => setTargetPrice(e.target.value)}
+                className="w-full bg-surface-secondary border-none rounded-xl px-4 pl-8 py-4 text-xl font-semibold text-text focus:ring-2 focus:ring-primary/20 transition-all outline-none"
+                autoFocus
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className={labelClass}>{condition === 'MOVE' ? 'Move (±%)' : 'Pullback (%)'}</label>
+              <input type="number" min={0.01} step={0.1} value={movePercent} onChange={(e) => setMovePercent(e.target.value)} className={inputClass} autoFocus />
+            </div>
+            {condition === 'MOVE' ? (
+              <div className="space-y-1">
+                <label className={labelClass}>Within (min)</label>
+                <input type="number" min={1} step={1} value={moveMinutes} onChange={(e) => setMoveMinutes(e.target.value)} className={inputClass} />
+              </div>
+            ) : (
+              <div className="space-y-1">
+                <label className={labelClass}>Follow</label>
+                <select value={trailFrom} onChange={(e) => setTrailFrom(e.target.value as 'HIGH' | 'LOW')} className={inputClass}>
+                  <option value="HIGH">High (fires on a drop)</option>
+                  <option value="LOW">Low (fires on a rise)</option>
+                </select>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <label className={labelClass}>Expires</label>
+            <select value={expiry} onChange={(e) => setExpiry(e.target.value)} className={inputClass}>
+              {EXPIRY_OPTIONS.map(o => <option key={o.label} value={o.label}>{o.label}</option>)}
+              <option value="Custom">Custom</option>
+            </select>
           </div>
+          {expiry === 'Custom' && (
+            <div className="space-y-1">
+              <label className={labelClass}>At</label>
+              <input type="datetime-local" value={customExpiry} onChange={(e) => setCustomExpiry(e.target.value)} className={inputClass} />
+            </div>
+          )}
         </div>
 
-        {/* iOS Segmented Control */}
-        <div className="bg-surface-secondary p-1 rounded-xl flex">
-          <button
-            type="button"
-            onClick={() => setCondition('ABOVE')}
-            className={`flex-1 flex items-center justify-center gap-2 py-2.5 rounded-lg text-sm font-semibold transition-all shadow-sm ${
-              condition === 'ABOVE'
-                ? 'bg-surface text-text'
-                : 'bg-transparent text-secondary shadow-none hover:text-text'
-            }`}
-          >
-            Above
-          </button>
+        <div className="flex items-center justify-between px-1">
+          <div>
+            <div className="text-sm font-medium text-text">Recurring</div>
+            <div className="text-[11px] text-secondary">{isLevel ? 'Re-arms once the value moves back past the level' : 'Keeps watching after it fires'}</div>
+          </div>
           <button
             type="button"
-            onClick={() => setCondition('BELOW')}
-            className={`flex-1 flex items-center justify-center gap-2 py-2.5 rounded-lg text-sm font-semibold transition-all shadow-sm ${
-              condition === 'BELOW'
-                ? 'bg-surface text-text'
-                : 'bg-transparent text-secondary shadow-none hover:text-text'
-            }`}
+            onClick={() => setRecurring(!recurring)}
+            className={`relative inline-flex h-5 w-9 shrink-0 rounded-full border-2 border-transparent transition-colors ${recurring ? 'bg-success' : 'bg-surface-highlight'}`}
           >
-            Below
+            <span className={`inline-block h-4 w-4 transform rounded-full bg-white shadow transition ${recurring ? 'translate-x-4' : 'translate-x-0'}`} />
           </button>
         </div>
+        {recurring && isLevel && (
+          <div className="space-y-1">
+            <label className={labelClass}>Re-arm after moving back ({isFunding ? 'points' : '%'})</label>
+            <input type="number" min={0} step={isFunding ? 0.001 : 0.1} value={rearmBy} onChange={(e) => setRearmBy(e.target.value)} className={inputClass} />
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <label className={labelClass}>Notify</label>
+          <div className="flex flex-wrap gap-1.5">
+            {chip('inApp', 'In-App', targets.inApp, () => setTargets({ ...targets, inApp: !targets.inApp }))}
+            {chip('browser', 'Browser', targets.browser, () => setTargets({ ...targets, browser: !targets.browser }))}
+            {channels.map(c => chip(c.id, c.name, external.includes(c.id), () => toggleExternal(c.id), !c.enabled))}
+          </div>
+        </div>
 
-        <button 
+        <button
             type="submit"
             className="w-full bg-primary hover:bg-primary/90 text-white py-4 rounded-xl text-[17px] font-semibold transition-all shadow-lg shadow-primary/20 active:scale-[0.98]"
         >
-            Create Alert
+            {initial ? 'Save Alert' : 'Create Alert'}
         </button>
       </form>
     </div>
   );
-};
\ No newline at end of file
+};
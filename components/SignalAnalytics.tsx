@@ -0,0 +1,312 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Signal } from '../types';
+import { Card } from './ui/Card';
+import { AreaChart, Area, BarChart, Bar, Cell, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine, CartesianGrid } from 'recharts';
+import { BarChart3, Calendar, Filter } from 'lucide-react';
+import { subscribeSignalStore } from '../services/signalStore';
+import { AnalyticsGroup, PerformanceStats, EQUITY_TRADE_SIZE, computeStats, groupStats, loadTrackedSignals } from '../services/signalAnalytics';
+
+type RangePreset = '7d' | '30d' | '90d' | 'all' | 'custom';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RANGE_PRESETS: { id: RangePreset; label: string; days?: number }[] = [
+  { id: '7d', label: '7D', days: 7 },
+  { id: '30d', label: '30D', days: 30 },
+  { id: '90d', label: '90D', days: 90 },
+  { id: 'all', label: 'All' },
+  { id: 'custom', label: 'Custom' },
+];
+
+const GROUPS: { id: AnalyticsGroup; label: string }[] = [
+  { id: 'strategy', label: 'Strategy' },
+  { id: 'symbol', label: 'Symbol' },
+  { id: 'source', label: 'Source' },
+];
+
+const ALL_KEY = '__all__';
+const RELOAD_DELAY_MS = 5000;
+
+const tooltipStyle = {
+  backgroundColor: 'var(--bg-surface-highlight)',
+  borderColor: 'var(--color-border)',
+  borderRadius: '8px',
+  fontSize: '11px',
+  padding: '6px 10px'
+};
+const axisTick = { fontSize: 9, fill: 'var(--color-text-secondary)' };
+
+const toDateInput = (ms: number) => new Date(ms - new Date(ms).getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return '-';
+  const minutes = ms / 60000;
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  if (minutes < 48 * 60) return `${(minutes / 60).toFixed(1)}h`;
+  return `${(minutes / 1440).toFixed(1)}d`;
+};
+
+const formatSigned = (value: number | null, digits = 2, suffix = '') =>
+  value === null ? '-' : `${value > 0 ? '+' : ''}${value.toFixed(digits)}${suffix}`;
+
+const tone = (value: number | null) => value === null || value === 0 ? 'text-text' : value > 0 ? 'text-success' : 'text-danger';
+
+export const SignalAnalytics: React.FC = () => {
+  const [range, setRange] = useState<RangePreset>('30d');
+  const [customFrom, setCustomFrom] = useState(() => toDateInput(Date.now() - 30 * DAY_MS));
+  const [customTo, setCustomTo] = useState(() => toDateInput(Date.now()));
+  const [group, setGroup] = useState<AnalyticsGroup>('strategy');
+  const [selectedKey, setSelectedKey] = useState<string>(ALL_KEY);
+  const [signals, setSignals] = useState<Signal[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const bounds = useMemo(() => {
+    if (range === 'custom') {
+      const from = Date.parse(`${customFrom}T00:00:00`);
+      const to = Date.parse(`${customTo}T23:59:59.999`);
+      return { from: Number.isFinite(from) ? from : undefined, to: Number.isFinite(to) ? to : undefined };
+    }
+    const days = RANGE_PRESETS.find(r => r.id === range)?.days;
+    return { from: days ? Date.now() - days * DAY_MS : undefined, to: undefined };
+  }, [range, customFrom, customTo]);
+
+  // Reload when the range changes and as signals resolve
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      setLoading(true);
+      loadTrackedSignals(bounds.from, bounds.to).then(list => {
+        if (cancelled) return;
+        setSignals(list);
+        setLoading(false);
+      });
+    };
+    load();
+    // Each load scans the whole range, so coalesce bursts of store changes
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribe = subscribeSignalStore(() => {
+      if (!timer) timer = setTimeout(() => { timer = null; load(); }, RELOAD_DELAY_MS);
+    });
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [bounds]);
+
+  const rows = useMemo(() => groupStats(signals, group), [signals, group]);
+  const overall = useMemo(() => computeStats('All', signals), [signals]);
+  const selected: PerformanceStats = rows.find(r => r.key === selectedKey) ?? overall;
+
+  useEffect(() => {
+    setSelectedKey(ALL_KEY);
+  }, [group]);
+
+  const equityData = selected.equity.map(p => ({
+    time: new Date(p.time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+    equity: Number(p.equity.toFixed(2))
+  }));
+  const hourData = selected.byHour.map(h => ({ hour: `${String(h.hour).padStart(2, '0')}h`, avgPnl: Number(h.avgPnl.toFixed(3)), trades: h.trades, wins: h.wins }));
+  const finalEquity = selected.equity.length ? selected.equity[selected.equity.length - 1].equity : 0;
+
+  const summary = [
+    { label: 'Trades', value: selected.trades.toLocaleString(), hint: `${selected.open} open` },
+    { label: 'Win Rate', value: selected.trades ? `${(selected.winRate * 100).toFixed(1)}%` : '-', hint: `${selected.wins}W / ${selected.losses}L` },
+    { label: 'Avg R', value: formatSigned(selected.avgR, 2, 'R'), className: tone(selected.avgR) },
+    { label: 'Expectancy', value: formatSigned(selected.trades ? selected.avgPnl : null, 2, '%'), hint: 'per trade', className: tone(selected.avgPnl) },
+    { label: 'Profit Factor', value: selected.profitFactor === null ? (selected.wins ? '∞' : '-') : selected.profitFactor.toFixed(2) },
+    { label: 'Avg Resolution', value: formatDuration(selected.avgResolutionMs) },
+  ];
+
+  return (
+    <Card className="h-full flex flex-col" noPadding>
+      {/* Header & Range */}
+      <div className="p-5 border-b border-border bg-surface flex flex-col xl:flex-row gap-4 justify-between items-start xl:items-center">
+        <div>
+            <h2 className="text-xl font-bold text-text flex items-center gap-2">
+                <BarChart3 className="text-brand" size={24} />
+                Strategy Analytics
+            </h2>
+            <p className="text-secondary text-sm mt-1">
+                Performance of resolved signals over the stored history.
+                {loading && <span className="ml-1 font-mono">Loading…</span>}
+            </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+            <div className="flex space-x-2 bg-surface-highlight p-1 rounded-lg w-fit">
+                {GROUPS.map(g => (
+                    <button
+                        key={g.id}
+                        onClick={() => setGroup(g.id)}
+                        className={`px-3 py-1.5 rounded-md text-xs font-medium transition-all ${group === g.id ? 'bg-surface text-text shadow-sm' : 'text-muted hover:text-text'}`}
+                    >
+                        {g.label}
+                    </button>
+                ))}
+            </div>
+
+            <div className="flex space-x-2 bg-surface-highlight p-1 rounded-lg w-fit">
+                {RANGE_PRESETS.map(r => (
+                    <button
+                        key={r.id}
+                        onClick={() => setRange(r.id)}
+                        className={`px-3 py-1.5 rounded-md text-xs font-medium transition-all ${range === r.id ? 'bg-surface text-text shadow-sm' : 'text-muted hover:text-text'}`}
+                    >
+                        {r.label}
+                    </button>
+                ))}
+            </div>
+
+            {range === 'custom' && (
+                <div className="flex items-center gap-2 text-secondary">
+                    <Calendar size={16} />
+                    <input
+                        type="date"
+                        value={customFrom}
+                        max={customTo}
+                        onChange={(e) => setCustomFrom(e.target.value)}
+                        className="bg-surface-secondary border border-transparent focus:border-primary rounded-lg px-2 py-1.5 text-xs text-text focus:outline-none"
+                    />
+                    <span className="text-xs">to</span>
+                    <input
+                        type="date"
+                        value={customTo}
+                        min={customFrom}
+                        onChange={(e) => setCustomTo(e.target.value)}
+                        className="bg-surface-secondary border border-transparent focus:border-primary rounded-lg px-2 py-1.5 text-xs text-text focus:outline-none"
+                    />
+                </div>
+            )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-5 space-y-5 bg-surface-secondary/10">
+        {/* Summary for the selected row (or everything) */}
+        <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+                <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider bg-primary/10 text-primary">
+                    {selectedKey === ALL_KEY ? 'All signals' : selected.key}
+                </span>
+                {selectedKey !== ALL_KEY && (
+                    <button onClick={() => setSelectedKey(ALL_KEY)} className="text-xs text-secondary hover:text-text">Show all</button>
+                )}
+            </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-3">
+            {summary.map(item => (
+                <div key={item.label} className="bg-surface p-3 rounded-xl border border-border">
+                    <div className="text-xs text-muted uppercase tracking-wider mb-1">{item.label}</div>
+                    <div className={`text-lg font-mono font-bold ${item.className || 'text-text'}`}>{item.value}</div>
+                    {item.hint && <div className="text-[10px] text-secondary font-mono">{item.hint}</div>}
+                </div>
+            ))}
+        </div>
+
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-5">
+            <div className="bg-surface rounded-xl border border-border p-4">
+                <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-sm font-bold text-text">Equity Curve</h3>
+                    <span className="text-[10px] text-secondary font-mono">
+                        {EQUITY_TRADE_SIZE.toLocaleString()} per trade · <span className={tone(finalEquity)}>{formatSigned(finalEquity)}</span>
+                    </span>
+                </div>
+                <div className="h-56">
+                    {equityData.length === 0 ? (
+                        <div className="h-full flex items-center justify-center text-xs text-secondary">No resolved signals in this range.</div>
+                    ) : (
+                        <ResponsiveContainer width="100%" height="100%" minWidth={0}>
+                            <AreaChart data={equityData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="var(--color-border)" opacity={0.3} />
+                                <XAxis dataKey="time" tick={axisTick} axisLine={false} tickLine={false} minTickGap={30} />
+                                <YAxis orientation="right" tick={axisTick} axisLine={false} tickLine={false} width={50} />
+                                <Tooltip contentStyle={tooltipStyle} itemStyle={{ color: 'var(--color-text)' }} formatter={(val: number) => [val.toFixed(2), 'Equity']} />
+                                <ReferenceLine y={0} stroke="var(--color-text-secondary)" opacity={0.5} />
+                                <Area type="monotone" dataKey="equity" stroke="var(--color-brand)" fill="var(--color-brand)" fillOpacity={0.15} strokeWidth={2} isAnimationActive={false} />
+                            </AreaChart>
+                        </ResponsiveContainer>
+                    )}
+                </div>
+            </div>
+
+            <div className="bg-surface rounded-xl border border-border p-4">
+                <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-sm font-bold text-text">Avg PnL by Hour of Day</h3>
+                    <span className="text-[10px] text-secondary font-mono">Local time the signal fired</span>
+                </div>
+                <div className="h-56">
+                    <ResponsiveContainer width="100%" height="100%" minWidth={0}>
+                        <BarChart data={hourData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="var(--color-border)" opacity={0.3} />
+                            <XAxis dataKey="hour" tick={axisTick} axisLine={false} tickLine={false} minTickGap={8} />
+                            <YAxis orientation="right" tick={axisTick} axisLine={false} tickLine={false} tickFormatter={(val) => `${val}%`} width={50} />
+                            <Tooltip
+                                cursor={{ fill: 'var(--bg-surface-secondary)', opacity: 0.4 }}
+                                contentStyle={tooltipStyle}
+                                itemStyle={{ color: 'var(--color-text)' }}
+                                formatter={(val: number, _name, item) => [`${val.toFixed(2)}% over ${item.payload.trades} (${item.payload.wins}W)`, 'Avg PnL']}
+                            />
+                            <ReferenceLine y={0} stroke="var(--color-text-secondary)" opacity={0.5} />
+                            <Bar dataKey="avgPnl" radius={[2, 2, 0, 0]}>
+                                {hourData.map((entry, index) => (
+                                    <Cell key={`cell-${index}`} fill={entry.avgPnl >= 0 ? 'var(--color-success)' : 'var(--color-danger)'} fillOpacity={0.8} />
+                                ))}
+                            </Bar>
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
+            </div>
+        </div>
+
+        {/* Breakdown */}
+        <div className="bg-surface rounded-xl border border-border overflow-hidden">
+            <table className="min-w-full divide-y divide-border">
+                <thead className="bg-surface">
+                    <tr>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-secondary uppercase tracking-wider">{GROUPS.find(g => g.id === group)!.label}</th>
+                        <th className="px-4 py-3 text-right text-xs font-semibold text-secondary uppercase tracking-wider">Trades</th>
+                        <th className="px-4 py-3 text-right text-xs font-semibold text-secondary uppercase tracking-wider">Win Rate</th>
+                        <th className="px-4 py-3 text-right text-xs font-semibold text-secondary uppercase tracking-wider">Avg R</th>
+                        <th className="px-4 py-3 text-right text-xs font-semibold text-secondary uppercase tracking-wider">Expectancy</th>
+                        <th className="px-4 py-3 text-right text-xs font-semibold text-secondary uppercase tracking-wider">Profit Factor</th>
+                        <th className="px-4 py-3 text-right text-xs font-semibold text-secondary uppercase tracking-wider hidden md:table-cell">Avg Resolution</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                    {rows.length === 0 ? (
+                        <tr>
+                            <td colSpan={7} className="px-6 py-12 text-center text-secondary">
+                                <div className="flex flex-col items-center justify-center gap-3">
+                                    <Filter size={32} className="opacity-20" />
+                                    <p>No tracked signals in this range.</p>
+                                </div>
+                            </td>
+                        </tr>
+                    ) : rows.map(row => (
+                        <tr
+                            key={row.key}
+                            onClick={() => setSelectedKey(prev => prev === row.key ? ALL_KEY : row.key)}
+                            className={`cursor-pointer transition-colors ${selectedKey === row.key ? 'bg-primary/5' : 'hover:bg-surface-secondary/50'}`}
+                        >
+                            <td className="px-4 py-3 whitespace-nowrap">
+                                <div className="text-xs font-medium text-text bg-surface-secondary px-2 py-1 rounded w-fit border border-border">{row.key}</div>
+                            </td>
+                            <td className="px-4 py-3 text-right text-sm font-mono text-text">
+                                {row.trades}
+                                {row.open > 0 && <span className="text-xs text-secondary ml-1">+{row.open} open</span>}
+                            </td>
+                            <td className="px-4 py-3 text-right text-sm font-mono text-text">{row.trades ? `${(row.winRate * 100).toFixed(1)}%` : '-'}</td>
+                            <td className={`px-4 py-3 text-right text-sm font-mono ${tone(row.avgR)}`}>{formatSigned(row.avgR, 2, 'R')}</td>
+                            <td className={`px-4 py-3 text-right text-sm font-mono ${tone(row.avgPnl)}`}>{formatSigned(row.trades ? row.avgPnl : null, 2, '%')}</td>
+                            <td className="px-4 py-3 text-right text-sm font-mono text-text">{row.profitFactor === null ? (row.wins ? '∞' : '-') : row.profitFactor.toFixed(2)}</td>
+                            <td className="px-4 py-3 text-right text-sm font-mono text-secondary hidden md:table-cell">{formatDuration(row.avgResolutionMs)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+      </div>
+    </Card>
+  );
+};
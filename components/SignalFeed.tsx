@@ -1,46 +1,94 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { Signal, Ticker } from '../types';
 import { Card } from './ui/Card';
-import { Search, Filter, ChevronDown, ChevronUp, Zap, Activity, ExternalLink, LineChart, CheckCircle2 } from 'lucide-react';
+import { Search, Filter, ChevronDown, ChevronUp, Zap, Activity, ExternalLink, LineChart, CheckCircle2, Layers } from 'lucide-react';
+import { baseAsset, quoteAsset } from '../services/symbolRegistry';
+import { SignalCursor, querySignals, countSignals, subscribeSignalStore } from '../services/signalStore';
+import { virtualWindow, nearEnd } from './ui/virtualWindow';
+import { signalPnl } from '../services/signalLifecycle';
+import { SignalStateBadge } from './ui/SignalStateBadge';
+import { CONFLUENCE_SOURCE_LABELS } from '../services/confluence';
 
 interface SignalFeedProps {
-  signals: Signal[];
   marketData: Record<string, Ticker>;
 }
 
-type Tab = 'ALL' | 'SPOT' | 'FUTURES' | 'HIGH_CONF' | 'WORKING';
+type Tab = 'ALL' | 'SPOT' | 'FUTURES' | 'CONFLUENCE' | 'HIGH_CONF' | 'WORKING';
 
-export const SignalFeed: React.FC<SignalFeedProps> = ({ signals, marketData }) => {
+const PAGE_SIZE = 100;
+const ROW_HEIGHT = 45;
+const EXPANDED_HEIGHT = 160; // Details panel under an expanded row
+const AUTO_PAGE_LIMIT = 2000;
+
+export const SignalFeed: React.FC<SignalFeedProps> = ({ marketData }) => {
   const [activeTab, setActiveTab] = useState<Tab>('ALL');
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
 
-  // Helper to calculate PnL based on current market price
+  // Newest signals from the store; older pages load as the list scrolls
+  const [signals, setSignals] = useState<Signal[]>([]);
+  const [next, setNext] = useState<SignalCursor | null>(null);
+  const [storedCount, setStoredCount] = useState(0);
+  const [scroll, setScroll] = useState({ top: 0, height: 400 });
+  const loadingRef = useRef(false);
+  const generationRef = useRef(0);
+  const loadedRef = useRef(0);
+  const search = searchTerm.trim() || undefined;
+
+  useEffect(() => {
+    const reload = (keepLoaded: boolean) => {
+      const generation = ++generationRef.current;
+      loadingRef.current = true;
+      querySignals({ search }, keepLoaded ? Math.max(PAGE_SIZE, loadedRef.current) : PAGE_SIZE).then(page => {
+        if (generation !== generationRef.current) return;
+        loadingRef.current = false;
+        loadedRef.current = page.signals.length;
+        setSignals(page.signals);
+        setNext(page.next);
+      });
+      countSignals({ search }).then(count => generation === generationRef.current && setStoredCount(count));
+    };
+    const timer = setTimeout(() => reload(false), 150);
+    const unsubscribe = subscribeSignalStore(() => reload(true));
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [search]);
+
+  const loadMore = () => {
+    if (!next || loadingRef.current) return;
+    const generation = generationRef.current;
+    loadingRef.current = true;
+    querySignals({ search }, PAGE_SIZE, next).then(page => {
+      if (generation !== generationRef.current) return;
+      loadingRef.current = false;
+      setSignals(prev => {
+        loadedRef.current = prev.length + page.signals.length;
+        return [...prev, ...page.signals];
+      });
+      setNext(page.next);
+    });
+  };
+
+  // Resolved signals keep the PnL they closed at; open ones follow the market price
   const getPnL = (sig: Signal) => {
+      if (sig.lifecycle?.pnl !== undefined) return sig.lifecycle.pnl;
       const ticker = marketData[sig.symbol];
-      if (!ticker) return 0;
-      
-      const currentPrice = ticker.lastPrice;
-      const entryPrice = sig.price;
-      const rawChange = ((currentPrice - entryPrice) / entryPrice) * 100;
-      
-      // If LONG/BUY, PnL is rawChange. If SHORT/SELL, PnL is inverted.
-      return (sig.side === 'BUY' || sig.side === 'LONG') ? rawChange : -rawChange;
+      if (!ticker || sig.side === 'CLOSE') return 0;
+      return signalPnl(sig, ticker.lastPrice);
   };
 
+  const isWinning = (sig: Signal) => sig.lifecycle?.state === 'TP_HIT' || getPnL(sig) >= 2.0;
+
   const workingSignalsCount = useMemo(() => {
-      return signals.filter(s => getPnL(s) >= 2.0).length;
+      return signals.filter(isWinning).length;
   }, [signals, marketData]);
 
   const filteredSignals = useMemo(() => {
+    // Search runs in the store query; tabs filter the loaded pages
     return signals.filter(sig => {
-      // 1. Search Filter
-      const searchMatch = sig.symbol.toLowerCase().includes(searchTerm.toLowerCase()) || 
-                          sig.strategy.toLowerCase().includes(searchTerm.toLowerCase());
-      if (!searchMatch) return false;
-
-      // 2. Tab Filter
       if (activeTab === 'ALL') return true;
       
       const isFutures = sig.strategy === 'SmartMoney_Divergence' || 
@@ -49,15 +97,30 @@ export const SignalFeed: React.FC<SignalFeedProps> = ({ signals, marketData }) =
 
       if (activeTab === 'FUTURES') return isFutures;
       if (activeTab === 'SPOT') return !isFutures;
+      if (activeTab === 'CONFLUENCE') return !!sig.confluence;
       if (activeTab === 'HIGH_CONF') return (sig.confidence || 0) >= 0.8;
       
       if (activeTab === 'WORKING') {
-          return getPnL(sig) >= 2.0;
+          return isWinning(sig);
       }
       
       return true;
     });
-  }, [signals, searchTerm, activeTab, marketData]);
+  }, [signals, activeTab, marketData]);
+
+  const expandedIndex = filteredSignals.findIndex(s => s.id === expandedId);
+  const view = virtualWindow(filteredSignals.length, ROW_HEIGHT, scroll.top, scroll.height, EXPANDED_HEIGHT, expandedIndex);
+
+  // A narrow tab can leave the window short of rows, so keep paging (within reason) until it fills
+  useEffect(() => {
+    if (view.end >= filteredSignals.length && signals.length < AUTO_PAGE_LIMIT) loadMore();
+  }, [view.end, filteredSignals.length, next]);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const el = e.currentTarget;
+    setScroll({ top: el.scrollTop, height: el.clientHeight });
+    if (nearEnd(el, 20, ROW_HEIGHT)) loadMore();
+  };
 
   const toggleExpand = (id: string) => {
     setExpandedId(prev => prev === id ? null : id);
@@ -85,7 +148,7 @@ export const SignalFeed: React.FC<SignalFeedProps> = ({ signals, marketData }) =
                         <Zap className="text-brand" size={18} fill="currentColor" />
                         <h3 className="font-bold text-text text-sm">Signal Intel</h3>
                         <span className="text-[10px] bg-surface-highlight text-secondary px-1.5 py-0.5 rounded-full font-mono">
-                            {signals.length}
+                            {storedCount.toLocaleString()}
                         </span>
                     </div>
 
@@ -112,7 +175,7 @@ export const SignalFeed: React.FC<SignalFeedProps> = ({ signals, marketData }) =
 
             {/* Tabs */}
             <div className="flex px-4 gap-4 overflow-x-auto scrollbar-hide">
-                {(['ALL', 'SPOT', 'FUTURES', 'HIGH_CONF', 'WORKING'] as Tab[]).map(tab => (
+                {(['ALL', 'SPOT', 'FUTURES', 'CONFLUENCE', 'HIGH_CONF', 'WORKING'] as Tab[]).map(tab => (
                     <button
                         key={tab}
                         onClick={() => setActiveTab(tab)}
@@ -141,35 +204,39 @@ export const SignalFeed: React.FC<SignalFeedProps> = ({ signals, marketData }) =
         </div>
 
         {/* Signal List */}
-        <div className="flex-1 overflow-y-auto bg-surface relative">
+        <div className="flex-1 overflow-y-auto bg-surface relative" onScroll={handleScroll}>
             {filteredSignals.length === 0 ? (
                 <div className="flex flex-col items-center justify-center h-full text-secondary gap-3 opacity-60">
                     <Filter size={32} />
                     <p className="text-xs">No signals found for this filter.</p>
                 </div>
             ) : (
-                <div className="divide-y divide-border">
-                    {filteredSignals.map(sig => {
+                <div className="divide-y divide-border" style={{ paddingTop: view.padTop, paddingBottom: view.padBottom }}>
+                    {filteredSignals.slice(view.start, view.end).map(sig => {
                         const isExpanded = expandedId === sig.id;
                         const isBuy = sig.side === 'BUY' || sig.side === 'LONG';
-                        const symbolBase = sig.symbol.replace('USDT', '');
+                        const symbolBase = baseAsset(sig.symbol);
                         const iconUrl = `https://assets.coincap.io/assets/icons/${symbolBase.toLowerCase()}@2x.png`;
                         const confidence = sig.confidence || 0.5;
                         const pnl = getPnL(sig);
+                        const life = sig.lifecycle;
+                        const resolved = !!life && life.state !== 'OPEN';
+                        const conf = sig.confluence;
                         
                         // Links
                         const isFutures = sig.strategy.includes('Funding') || sig.strategy.includes('Divergence');
                         const tvLink = `https://www.tradingview.com/chart/?symbol=BINANCE:${sig.symbol}${isFutures ? '.P' : ''}`;
                         const binanceLink = isFutures 
                             ? `https://www.binance.com/en/futures/${sig.symbol}`
-                            : `https://www.binance.com/en/trade/${symbolBase}_USDT`;
+                            : `https://www.binance.com/en/trade/${symbolBase}_${quoteAsset(sig.symbol) || 'USDT'}`;
 
                         return (
                             <React.Fragment key={sig.id}>
                                 <div 
                                     onClick={() => toggleExpand(sig.id)}
+                                    style={{ height: ROW_HEIGHT }}
                                     className={`grid grid-cols-12 gap-2 px-4 py-3 cursor-pointer transition-colors hover:bg-surface-secondary/40 items-center group ${
-                                        isExpanded ? 'bg-surface-secondary/20' : ''
+                                        isExpanded ? 'bg-surface-secondary/20' : conf ? 'bg-brand/5' : ''
                                     }`}
                                 >
                                     {/* Time */}
@@ -196,14 +263,22 @@ export const SignalFeed: React.FC<SignalFeedProps> = ({ signals, marketData }) =
 
                                     {/* Strategy */}
                                     <div className="col-span-3">
-                                        <div className="text-[10px] font-medium text-text truncate bg-surface-secondary px-1.5 py-0.5 rounded border border-border w-fit max-w-full">
-                                            {sig.strategy}
-                                        </div>
+                                        {conf ? (
+                                            <div className="text-[10px] font-bold text-brand truncate bg-brand/10 px-1.5 py-0.5 rounded border border-brand/30 w-fit max-w-full flex items-center gap-1" title={conf.contributors.map(c => c.label).join(', ')}>
+                                                <Layers size={10} className="shrink-0" /> Confluence ×{conf.contributors.length}
+                                            </div>
+                                        ) : (
+                                            <div className="text-[10px] font-medium text-text truncate bg-surface-secondary px-1.5 py-0.5 rounded border border-border w-fit max-w-full">
+                                                {sig.strategy}
+                                            </div>
+                                        )}
                                     </div>
 
                                     {/* Strength / PnL */}
                                     <div className="col-span-2 flex items-center justify-end gap-2">
-                                        {pnl >= 2.0 ? (
+                                        {resolved ? (
+                                            <SignalStateBadge state={life!.state} title={`${pnl >= 0 ? '+' : ''}${pnl.toFixed(2)}%`} />
+                                        ) : pnl >= 2.0 ? (
                                             <span className="text-[10px] font-bold text-success bg-success/10 px-1.5 py-0.5 rounded">
                                                 +{pnl.toFixed(2)}%
                                             </span>
@@ -223,18 +298,53 @@ export const SignalFeed: React.FC<SignalFeedProps> = ({ signals, marketData }) =
 
                                 {/* Expanded Details */}
                                 {isExpanded && (
-                                    <div className="col-span-12 px-4 py-3 bg-surface-highlight/30 border-b border-border/50 flex flex-col gap-3 animate-enter">
-                                        <div className="flex items-start gap-3">
-                                            <div className="bg-surface-secondary p-1.5 rounded-lg text-primary shrink-0">
-                                                <Activity size={16} />
+                                    <div style={{ height: EXPANDED_HEIGHT }} className="col-span-12 px-4 py-3 bg-surface-highlight/30 border-b border-border/50 flex flex-col gap-3 overflow-y-auto animate-enter">
+                                        {conf ? (
+                                            <div className="flex items-start gap-3">
+                                                <div className="bg-brand/10 p-1.5 rounded-lg text-brand shrink-0">
+                                                    <Layers size={16} />
+                                                </div>
+                                                <div className="flex-1 min-w-0">
+                                                    <h4 className="text-xs font-bold text-text mb-1">
+                                                        Confluence score <span className="font-mono text-brand">{(conf.score * 100).toFixed(0)}%</span>
+                                                        <span className="text-secondary font-normal"> · {conf.contributors.length} inputs within {Math.round(conf.windowMs / 60000)}m</span>
+                                                    </h4>
+                                                    <div className="flex flex-wrap gap-1.5">
+                                                        {conf.contributors.map(c => (
+                                                            <span key={`${c.source}:${c.label}`} className="text-[10px] bg-surface-secondary border border-border rounded px-1.5 py-0.5 text-secondary">
+                                                                <span className="font-bold text-text">{CONFLUENCE_SOURCE_LABELS[c.source]}</span> {c.label} <span className="font-mono">{(c.confidence * 100).toFixed(0)}%</span> <span className="font-mono opacity-70">{formatTime(new Date(c.time).toISOString())}</span>
+                                                            </span>
+                                                        ))}
+                                                    </div>
+                                                </div>
                                             </div>
-                                            <div className="flex-1">
-                                                <h4 className="text-xs font-bold text-text mb-1">Analysis Note</h4>
-                                                <p className="text-xs text-secondary leading-relaxed">
-                                                    {sig.note || 'No specific algorithmic notes provided for this signal.'}
-                                                </p>
+                                        ) : (
+                                            <div className="flex items-start gap-3">
+                                                <div className="bg-surface-secondary p-1.5 rounded-lg text-primary shrink-0">
+                                                    <Activity size={16} />
+                                                </div>
+                                                <div className="flex-1">
+                                                    <h4 className="text-xs font-bold text-text mb-1">Analysis Note</h4>
+                                                    <p className="text-xs text-secondary leading-relaxed">
+                                                        {sig.note || 'No specific algorithmic notes provided for this signal.'}
+                                                    </p>
+                                                </div>
                                             </div>
-                                        </div>
+                                        )}
+
+                                        {life && (
+                                            <div className="flex items-center gap-4 text-[10px] text-secondary">
+                                                <SignalStateBadge state={life.state} />
+                                                <span>TP: <span className="font-mono text-text">{sig.takeProfit !== undefined ? `$${sig.takeProfit.toPrecision(6)}` : '---'}</span></span>
+                                                <span>SL: <span className="font-mono text-text">{sig.stopLoss !== undefined ? `$${sig.stopLoss.toPrecision(6)}` : '---'}</span></span>
+                                                {sig.levelsFrom === 'ATR' && <span className="opacity-60">ATR levels</span>}
+                                                <span>MFE: <span className="font-mono text-success">+{life.mfe.toFixed(2)}%</span></span>
+                                                <span>MAE: <span className="font-mono text-danger">{life.mae.toFixed(2)}%</span></span>
+                                                {life.resolvedAt && (
+                                                    <span>Resolved: <span className="font-mono text-text">{formatTime(life.resolvedAt)}</span></span>
+                                                )}
+                                            </div>
+                                        )}
 
                                         <div className="flex items-center justify-between pt-2 border-t border-border/50">
                                             <div className="flex items-center gap-4 text-[10px] text-secondary">
@@ -242,8 +352,8 @@ export const SignalFeed: React.FC<SignalFeedProps> = ({ signals, marketData }) =
                                                     Entry: <span className="font-mono text-text">${sig.price}</span>
                                                 </span>
                                                 <span className="flex items-center gap-1">
-                                                    Current: <span className={`font-mono font-bold ${pnl > 0 ? 'text-success' : 'text-danger'}`}>
-                                                        ${marketData[sig.symbol]?.lastPrice || '---'}
+                                                    {resolved ? 'Exit' : 'Current'}: <span className={`font-mono font-bold ${pnl > 0 ? 'text-success' : 'text-danger'}`}>
+                                                        ${resolved ? life!.exitPrice : marketData[sig.symbol]?.lastPrice || '---'}
                                                     </span>
                                                 </span>
                                                 <span className="flex items-center gap-1">
@@ -1,40 +1,113 @@
 
-import React, { useState, useMemo } from 'react';
-import { Signal, Side } from '../types';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Signal, SignalState } from '../types';
 import { Card } from './ui/Card';
-import { Search, Trash2, Filter, AlertCircle, ArrowUpRight, ArrowDownRight, Zap, Download } from 'lucide-react';
+import { Search, Trash2, Filter, ArrowUpRight, ArrowDownRight, Zap, Download, Archive } from 'lucide-react';
+import { baseAsset } from '../services/symbolRegistry';
+import {
+  SignalQuery, SignalCursor, RetentionPolicy,
+  querySignals, countSignals, listSignalValues, subscribeSignalStore
+} from '../services/signalStore';
+import { virtualWindow, nearEnd } from './ui/virtualWindow';
+import { SignalStateBadge, SIGNAL_STATE_LABELS } from './ui/SignalStateBadge';
 
 interface SignalManagerProps {
-  signals: Signal[];
   onDelete: (id: string) => void;
   onClearAll: () => void;
+  retention: RetentionPolicy;
+  onRetentionChange: (policy: RetentionPolicy) => void;
 }
 
-export const SignalManager: React.FC<SignalManagerProps> = ({ signals, onDelete, onClearAll }) => {
+const PAGE_SIZE = 200;
+const ROW_HEIGHT = 65;
+const EXPORT_PAGE_SIZE = 2000;
+
+const RETENTION_AGES = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'Forever', days: 0 },
+];
+
+const RETENTION_COUNTS = [
+  { label: '10k signals', count: 10000 },
+  { label: '50k signals', count: 50000 },
+  { label: '250k signals', count: 250000 },
+  { label: 'No limit', count: 0 },
+];
+
+export const SignalManager: React.FC<SignalManagerProps> = ({ onDelete, onClearAll, retention, onRetentionChange }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [sideFilter, setSideFilter] = useState<'ALL' | 'LONG' | 'SHORT'>('ALL');
   const [strategyFilter, setStrategyFilter] = useState<string>('ALL');
+  const [sourceFilter, setSourceFilter] = useState<string>('ALL');
+  const [stateFilter, setStateFilter] = useState<SignalState | 'ALL'>('ALL');
 
-  // Extract unique strategies for the filter dropdown
-  const uniqueStrategies = useMemo(() => {
-    const strats = new Set(signals.map(s => s.strategy));
-    return ['ALL', ...Array.from(strats)];
-  }, [signals]);
+  // Pages loaded from the signal store, newest first
+  const [rows, setRows] = useState<Signal[]>([]);
+  const [next, setNext] = useState<SignalCursor | null>(null);
+  const [total, setTotal] = useState<number | null>(null);
+  const [strategies, setStrategies] = useState<string[]>([]);
+  const [sources, setSources] = useState<string[]>([]);
+  const [scroll, setScroll] = useState({ top: 0, height: 600 });
+  const loadingRef = useRef(false);
+  const generationRef = useRef(0);
+  const loadedRef = useRef(0);
 
-  const filteredSignals = useMemo(() => {
-    return signals.filter(sig => {
-      const matchesSearch = sig.symbol.toLowerCase().includes(searchTerm.toLowerCase()) || 
-                            sig.note?.toLowerCase().includes(searchTerm.toLowerCase());
-      
-      const matchesSide = sideFilter === 'ALL' 
-        ? true 
-        : (sideFilter === 'LONG' ? (sig.side === 'BUY' || sig.side === 'LONG') : (sig.side === 'SELL' || sig.side === 'SHORT'));
+  const query = useMemo<SignalQuery>(() => ({
+    search: searchTerm.trim() || undefined,
+    direction: sideFilter === 'ALL' ? undefined : sideFilter,
+    strategy: strategyFilter === 'ALL' ? undefined : strategyFilter,
+    source: sourceFilter === 'ALL' ? undefined : sourceFilter,
+    state: stateFilter === 'ALL' ? undefined : stateFilter
+  }), [searchTerm, sideFilter, strategyFilter, sourceFilter, stateFilter]);
 
-      const matchesStrategy = strategyFilter === 'ALL' ? true : sig.strategy === strategyFilter;
+  // Reload from the top (keeping as many rows as were loaded) on filter changes and new signals
+  useEffect(() => {
+    const reload = (keepLoaded: boolean) => {
+      const generation = ++generationRef.current;
+      loadingRef.current = true;
+      querySignals(query, keepLoaded ? Math.max(PAGE_SIZE, loadedRef.current) : PAGE_SIZE).then(page => {
+        if (generation !== generationRef.current) return;
+        loadingRef.current = false;
+        loadedRef.current = page.signals.length;
+        setRows(page.signals);
+        setNext(page.next);
+      });
+      countSignals(query).then(count => generation === generationRef.current && setTotal(count));
+      listSignalValues('strategy').then(setStrategies);
+      listSignalValues('source').then(setSources);
+    };
+    const timer = setTimeout(() => reload(false), 150); // Typing in search
+    const unsubscribe = subscribeSignalStore(() => reload(true));
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [query]);
 
-      return matchesSearch && matchesSide && matchesStrategy;
+  const loadMore = () => {
+    if (!next || loadingRef.current) return;
+    const generation = generationRef.current;
+    loadingRef.current = true;
+    querySignals(query, PAGE_SIZE, next).then(page => {
+      if (generation !== generationRef.current) return;
+      loadingRef.current = false;
+      setRows(prev => {
+        loadedRef.current = prev.length + page.signals.length;
+        return [...prev, ...page.signals];
+      });
+      setNext(page.next);
     });
-  }, [signals, searchTerm, sideFilter, strategyFilter]);
+  };
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const el = e.currentTarget;
+    setScroll({ top: el.scrollTop, height: el.clientHeight });
+    if (nearEnd(el, 20, ROW_HEIGHT)) loadMore();
+  };
+
+  const view = virtualWindow(rows.length, ROW_HEIGHT, scroll.top, scroll.height);
 
   const formatTime = (isoStr: string) => {
     return new Date(isoStr).toLocaleString(undefined, {
@@ -42,20 +115,33 @@ export const SignalManager: React.FC<SignalManagerProps> = ({ signals, onDelete,
     });
   };
 
-  const exportCSV = () => {
-    const headers = ['Time', 'Symbol', 'Side', 'Price', 'Strategy', 'Note'];
-    const rows = filteredSignals.map(s => [
-        s.time, s.symbol, s.side, s.price, s.strategy, s.note || ''
-    ]);
-    const csvContent = "data:text/csv;charset=utf-8," 
-        + [headers.join(','), ...rows.map(e => e.join(','))].join('\n');
-    const encodedUri = encodeURI(csvContent);
+  // Everything matching the filters, not just the loaded pages
+  const exportCSV = async () => {
+    const all: Signal[] = [];
+    let cursor: SignalCursor | null = null;
+    do {
+      const page = await querySignals(query, EXPORT_PAGE_SIZE, cursor);
+      all.push(...page.signals);
+      cursor = page.next;
+    } while (cursor);
+
+    const quote = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+    const optional = (value: number | undefined) => value === undefined ? '' : value;
+    const headers = ['Time', 'Symbol', 'Side', 'Price', 'Strategy', 'Source', 'Note', 'TP', 'SL', 'State', 'PnL %', 'MFE %', 'MAE %'];
+    const csvRows = all.map(s => [
+        s.time, s.symbol, s.side, s.price, s.strategy, s.source || '', s.note || '',
+        optional(s.takeProfit), optional(s.stopLoss), s.lifecycle?.state || '',
+        optional(s.lifecycle?.pnl), optional(s.lifecycle?.mfe), optional(s.lifecycle?.mae)
+    ].map(quote));
+    const blob = new Blob([[headers.join(','), ...csvRows.map(e => e.join(','))].join('\n')], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
+    link.setAttribute("href", url);
     link.setAttribute("download", `signals_export_${Date.now()}.csv`);
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    URL.revokeObjectURL(url);
   };
 
   return (
@@ -69,6 +155,7 @@ export const SignalManager: React.FC<SignalManagerProps> = ({ signals, onDelete,
             </h2>
             <p className="text-secondary text-sm mt-1">
                 Manage, analyze, and audit all generated trading signals.
+                {total !== null && <span className="ml-1 font-mono">{total.toLocaleString()} matching.</span>}
             </p>
         </div>
 
@@ -101,14 +188,53 @@ export const SignalManager: React.FC<SignalManagerProps> = ({ signals, onDelete,
                 onChange={(e) => setStrategyFilter(e.target.value)}
                 className="bg-surface-secondary border border-transparent focus:border-primary rounded-lg px-3 py-2 text-sm font-medium text-text focus:outline-none cursor-pointer max-w-[150px]"
              >
-                {uniqueStrategies.map(s => (
+                {['ALL', ...strategies].map(s => (
                     <option key={s} value={s}>{s === 'ALL' ? 'All Strategies' : s}</option>
                 ))}
              </select>
 
+             <select 
+                value={sourceFilter}
+                onChange={(e) => setSourceFilter(e.target.value)}
+                className="bg-surface-secondary border border-transparent focus:border-primary rounded-lg px-3 py-2 text-sm font-medium text-text focus:outline-none cursor-pointer max-w-[150px]"
+             >
+                {['ALL', ...sources].map(s => (
+                    <option key={s} value={s}>{s === 'ALL' ? 'All Sources' : s}</option>
+                ))}
+             </select>
+
+             <select 
+                value={stateFilter}
+                onChange={(e) => setStateFilter(e.target.value as SignalState | 'ALL')}
+                className="bg-surface-secondary border border-transparent focus:border-primary rounded-lg px-3 py-2 text-sm font-medium text-text focus:outline-none cursor-pointer max-w-[150px]"
+             >
+                <option value="ALL">All States</option>
+                {(Object.keys(SIGNAL_STATE_LABELS) as SignalState[]).map(s => (
+                    <option key={s} value={s}>{SIGNAL_STATE_LABELS[s]}</option>
+                ))}
+             </select>
+
              {/* Actions */}
              <div className="h-8 w-[1px] bg-border mx-1 hidden sm:block"></div>
              
+             <div className="flex items-center gap-1 text-secondary" title="Retention: older signals are deleted automatically">
+                <Archive size={16} />
+                <select
+                    value={retention.maxAgeDays}
+                    onChange={(e) => onRetentionChange({ ...retention, maxAgeDays: Number(e.target.value) })}
+                    className="bg-surface-secondary border border-transparent focus:border-primary rounded-lg px-2 py-2 text-xs font-medium text-text focus:outline-none cursor-pointer"
+                >
+                    {RETENTION_AGES.map(a => <option key={a.days} value={a.days}>{a.label}</option>)}
+                </select>
+                <select
+                    value={retention.maxCount}
+                    onChange={(e) => onRetentionChange({ ...retention, maxCount: Number(e.target.value) })}
+                    className="bg-surface-secondary border border-transparent focus:border-primary rounded-lg px-2 py-2 text-xs font-medium text-text focus:outline-none cursor-pointer"
+                >
+                    {RETENTION_COUNTS.map(c => <option key={c.count} value={c.count}>{c.label}</option>)}
+                </select>
+             </div>
+
              <button 
                 onClick={exportCSV}
                 className="p-2 text-secondary hover:text-text hover:bg-surface-secondary rounded-lg transition-colors"
@@ -128,7 +254,7 @@ export const SignalManager: React.FC<SignalManagerProps> = ({ signals, onDelete,
       </div>
 
       {/* Table */}
-      <div className="flex-1 overflow-auto bg-surface-secondary/10">
+      <div className="flex-1 overflow-auto bg-surface-secondary/10" onScroll={handleScroll}>
         <table className="min-w-full divide-y divide-border">
             <thead className="bg-surface sticky top-0 z-10 shadow-sm">
                 <tr>
@@ -137,28 +263,30 @@ export const SignalManager: React.FC<SignalManagerProps> = ({ signals, onDelete,
                     <th className="px-6 py-3 text-left text-xs font-semibold text-secondary uppercase tracking-wider">Side</th>
                     <th className="px-6 py-3 text-right text-xs font-semibold text-secondary uppercase tracking-wider">Price</th>
                     <th className="px-6 py-3 text-left text-xs font-semibold text-secondary uppercase tracking-wider">Strategy</th>
+                    <th className="px-6 py-3 text-left text-xs font-semibold text-secondary uppercase tracking-wider">Status</th>
                     <th className="px-6 py-3 text-left text-xs font-semibold text-secondary uppercase tracking-wider hidden md:table-cell">Context</th>
                     <th className="px-4 py-3 text-right text-xs font-semibold text-secondary uppercase tracking-wider">Action</th>
                 </tr>
             </thead>
             <tbody className="bg-surface divide-y divide-border">
-                {filteredSignals.length === 0 ? (
+                {rows.length === 0 ? (
                     <tr>
-                        <td colSpan={7} className="px-6 py-12 text-center text-secondary">
+                        <td colSpan={8} className="px-6 py-12 text-center text-secondary">
                             <div className="flex flex-col items-center justify-center gap-3">
                                 <Filter size={32} className="opacity-20" />
                                 <p>No signals found matching criteria.</p>
                             </div>
                         </td>
                     </tr>
-                ) : (
-                    filteredSignals.map((sig) => {
+                ) : (<>
+                    {view.padTop > 0 && <tr style={{ height: view.padTop }} />}
+                    {rows.slice(view.start, view.end).map((sig) => {
                         const isLong = sig.side === 'BUY' || sig.side === 'LONG';
-                        const symbolBase = sig.symbol.replace('USDT', '');
+                        const symbolBase = baseAsset(sig.symbol);
                         const iconUrl = `https://assets.coincap.io/assets/icons/${symbolBase.toLowerCase()}@2x.png`;
 
                         return (
-                            <tr key={sig.id} className="hover:bg-surface-secondary/50 transition-colors group">
+                            <tr key={sig.id} style={{ height: ROW_HEIGHT }} className="hover:bg-surface-secondary/50 transition-colors group">
                                 <td className="px-6 py-4 whitespace-nowrap text-xs font-mono text-secondary">
                                     {formatTime(sig.time)}
                                 </td>
@@ -190,6 +318,18 @@ export const SignalManager: React.FC<SignalManagerProps> = ({ signals, onDelete,
                                         {sig.strategy}
                                     </div>
                                 </td>
+                                <td className="px-6 py-4 whitespace-nowrap">
+                                    {sig.lifecycle ? (
+                                        <div className="flex items-center gap-2">
+                                            <SignalStateBadge state={sig.lifecycle.state} />
+                                            {sig.lifecycle.pnl !== undefined && (
+                                                <span className={`text-xs font-mono font-bold ${sig.lifecycle.pnl >= 0 ? 'text-success' : 'text-danger'}`}>
+                                                    {sig.lifecycle.pnl >= 0 ? '+' : ''}{sig.lifecycle.pnl.toFixed(2)}%
+                                                </span>
+                                            )}
+                                        </div>
+                                    ) : <span className="text-xs text-secondary">-</span>}
+                                </td>
                                 <td className="px-6 py-4 hidden md:table-cell">
                                     <div className="text-xs text-secondary max-w-[200px] truncate" title={sig.note}>
                                         {sig.note || '-'}
@@ -206,8 +346,9 @@ export const SignalManager: React.FC<SignalManagerProps> = ({ signals, onDelete,
                                 </td>
                             </tr>
                         );
-                    })
-                )}
+                    })}
+                    {view.padBottom > 0 && <tr style={{ height: view.padBottom }} />}
+                </>)}
             </tbody>
         </table>
       </div>
@@ -1,36 +1,22 @@
 import React, { useMemo, useState, useEffect, useRef } from 'react';
-import { Ticker } from '../types';
+import { AnalyzerState, ScannerRules, ScannerPreset, SCANNER_PRESETS, matchesScannerRules } from '../services/marketAnalysis';
 import { Card } from './ui/Card';
 import { 
     Crosshair, Filter, ArrowUp, ArrowDown, Activity, Zap, 
     BarChart2, Settings, Play, Pause, RefreshCw, Save, ChevronRight, ChevronLeft, Sliders, Trash2, Clock,
     LineChart, ExternalLink
 } from 'lucide-react';
+import { baseAsset, quoteAsset } from '../services/symbolRegistry';
 
 interface SpotScannerProps {
-  data: Record<string, Ticker>;
+  analyzers: Record<string, AnalyzerState>; // Computed in the market worker from every ticker batch
+  flowSymbolCount: number; // Symbols with real taker flow, the rest use the tick rule
+  onSelectSymbol?: (symbol: string) => void; // Open the row in the order book panel
+  onHit?: (analysis: AnalyzerState, preset: ScannerPreset) => void; // A symbol started matching the rules
 }
 
 // --- Data Structures ---
 
-interface AnalyzerState {
-  symbol: string;
-  price: number;
-  priceChangePercent: number;
-  
-  // Accumulated Flow
-  buyVolume: number;
-  sellVolume: number;
-  totalVolumeWindow: number; // Quote Volume (USDT)
-  
-  // Metrics
-  pressure: number; // 0 to 100
-  rvol: number; // Relative Volume Multiplier
-  netFlow: number; // Net USDT
-  
-  updatedAt: number;
-}
-
 // Wrapper for the UI list to handle "Sticky" behavior
 interface DetectedSignal extends AnalyzerState {
     status: 'ACTIVE' | 'COOLDOWN';
@@ -38,211 +24,80 @@ interface DetectedSignal extends AnalyzerState {
     firstDetectedAt: number;
 }
 
-interface ScannerRules {
-  minRvol: number;
-  minPressure: number;
-  maxPressure: number;
-  minFlowUsdt: number; // Minimum 1m Volume in USDT to filter dust
-  minPriceChange: number;
-  maxPriceChange: number;
-}
-
-type PresetName = 'DEFAULT' | 'WHALE_ACCUMULATION' | 'BREAKOUT' | 'DIP_SNIPER';
-
 const RETENTION_MS = 45000; // Keep signals for 45 seconds after they stop meeting criteria
 
-// Stablecoins to ignore to reduce noise
-const IGNORED_COINS = ['USDC', 'FDUSD', 'TUSD', 'BUSD', 'DAI', 'USDP', 'USDE', 'EURI', 'EUR', 'AEUR'];
-
-const PRESETS: Record<PresetName, ScannerRules> = {
-    DEFAULT: {
-        minRvol: 1.5,
-        minPressure: 0,
-        maxPressure: 100,
-        minFlowUsdt: 5000,
-        minPriceChange: -100,
-        maxPriceChange: 100
-    },
-    WHALE_ACCUMULATION: {
-        minRvol: 3.0,
-        minPressure: 65, // Strong Buying
-        maxPressure: 100,
-        minFlowUsdt: 50000, // Significant Volume
-        minPriceChange: -2, // Price hasn't pumped yet (or is slightly down)
-        maxPriceChange: 2   // Catching before the pump
-    },
-    BREAKOUT: {
-        minRvol: 4.0,
-        minPressure: 60,
-        maxPressure: 100,
-        minFlowUsdt: 20000,
-        minPriceChange: 1, // Already moving up
-        maxPriceChange: 15
-    },
-    DIP_SNIPER: {
-        minRvol: 2.5,
-        minPressure: 55, // Absorption starting
-        maxPressure: 100,
-        minFlowUsdt: 10000,
-        minPriceChange: -20, // Creating a bottom
-        maxPriceChange: -2
-    }
-};
-
-export const SpotScanner: React.FC<SpotScannerProps> = ({ data }) => {
-  // Raw Analysis State
-  const [analyzers, setAnalyzers] = useState<Record<string, AnalyzerState>>({});
-  
+export const SpotScanner: React.FC<SpotScannerProps> = ({ analyzers, flowSymbolCount, onSelectSymbol, onHit }) => {
   // Persistence State (The list displayed to user)
   const [detectedSignals, setDetectedSignals] = useState<Record<string, DetectedSignal>>({});
 
   // Cockpit State
   const [isPaused, setIsPaused] = useState(false);
   const [showConfig, setShowConfig] = useState(true);
-  const [activePreset, setActivePreset] = useState<PresetName>('DEFAULT');
-  const [rules, setRules] = useState<ScannerRules>(PRESETS.DEFAULT);
-  
-  // Refs
-  const prevDataRef = useRef<Record<string, { vol: number, price: number, time: number }>>({});
+  const [activePreset, setActivePreset] = useState<ScannerPreset>('DEFAULT');
+  const [rules, setRules] = useState<ScannerRules>(SCANNER_PRESETS.DEFAULT);
+  const matchingRef = useRef<Set<string>>(new Set());
 
-  // --- Core Algorithm (Data Processing) ---
+  // Report symbols as they start matching (for confluence), not on every batch
   useEffect(() => {
     if (isPaused) return;
-
-    const now = Date.now();
-    const updates: Record<string, AnalyzerState> = {};
-    let hasUpdates = false;
-
-    Object.values(data).forEach((t: Ticker) => {
-       if (!t.symbol.endsWith('USDT')) return;
-
-       // Filter out Stablecoins
-       const symbolBase = t.symbol.replace('USDT', '');
-       if (IGNORED_COINS.includes(symbolBase)) return;
-
-       const prev = prevDataRef.current[t.symbol];
-       const currentAnalyzer = analyzers[t.symbol] || {
-           symbol: t.symbol,
-           price: t.lastPrice,
-           priceChangePercent: t.priceChangePercent,
-           buyVolume: 0,
-           sellVolume: 0,
-           totalVolumeWindow: 0,
-           pressure: 50,
-           rvol: 0,
-           netFlow: 0,
-           updatedAt: now
-       };
-
-       if (prev) {
-           const timeDelta = now - prev.time;
-           
-           // Process tick (>500ms debounce for metric calculation)
-           if (timeDelta > 500) {
-               const volDelta = t.volume - prev.vol; // Change in Quote Volume
-               const priceDelta = t.lastPrice - prev.price;
-               
-               if (volDelta > 0) {
-                   const isBuy = priceDelta > 0 || (priceDelta === 0 && t.lastPrice >= prev.price); // Simple tick rule
-
-                   // Decay to keep window fresh (~1-2 minute rolling window effect)
-                   const DECAY = 0.90; 
-                   const newBuyVol = (currentAnalyzer.buyVolume * DECAY) + (isBuy ? volDelta : 0);
-                   const newSellVol = (currentAnalyzer.sellVolume * DECAY) + (!isBuy ? volDelta : 0);
-                   const total = newBuyVol + newSellVol;
-
-                   // Metrics
-                   const pressure = total > 0 ? (newBuyVol / total) * 100 : 50;
-                   
-                   // RVOL Logic
-                   // Avg daily ms flow = volume / 86,400,000
-                   const avgRate = t.volume / 86400000; 
-                   const currentRate = volDelta / timeDelta;
-                   const rvol = avgRate > 0 ? currentRate / avgRate : 0;
-
-                   updates[t.symbol] = {
-                       ...currentAnalyzer,
-                       price: t.lastPrice,
-                       priceChangePercent: t.priceChangePercent,
-                       buyVolume: newBuyVol,
-                       sellVolume: newSellVol,
-                       totalVolumeWindow: total,
-                       pressure,
-                       rvol,
-                       netFlow: newBuyVol - newSellVol,
-                       updatedAt: now
-                   };
-                   hasUpdates = true;
-               }
-           }
-       }
-
-       if (!prev || (now - prev.time > 500)) {
-           prevDataRef.current[t.symbol] = { vol: t.volume, price: t.lastPrice, time: now };
-       }
+    const matching = new Set(matchingRef.current);
+    Object.values(analyzers).forEach((analysis: AnalyzerState) => {
+        if (!matchesScannerRules(analysis, rules)) {
+            matching.delete(analysis.symbol);
+        } else if (!matching.has(analysis.symbol)) {
+            matching.add(analysis.symbol);
+            onHit?.(analysis, activePreset);
+        }
     });
+    matchingRef.current = matching;
+  }, [analyzers, isPaused, rules]);
 
-    if (hasUpdates) {
-        setAnalyzers(prev => {
-            const nextAnalyzers = { ...prev, ...updates };
-            
-            // --- SIGNAL LIFECYCLE MANAGEMENT (Retention Logic) ---
-            setDetectedSignals(currentSignals => {
-                const nextSignals = { ...currentSignals };
-                const loopTime = Date.now();
-                let signalListChanged = false;
-
-                // 1. Check all Analyzers against Rules
-                Object.values(nextAnalyzers).forEach((analysis: AnalyzerState) => {
-                    // Rule Check
-                    let isMatch = true;
-                    if (analysis.totalVolumeWindow < rules.minFlowUsdt) isMatch = false;
-                    else if (analysis.rvol < rules.minRvol) isMatch = false;
-                    else if (analysis.pressure < rules.minPressure) isMatch = false;
-                    else if (analysis.pressure > rules.maxPressure) isMatch = false;
-                    else if (analysis.priceChangePercent < rules.minPriceChange) isMatch = false;
-                    else if (analysis.priceChangePercent > rules.maxPriceChange) isMatch = false;
-
-                    const existing = nextSignals[analysis.symbol];
-
-                    if (isMatch) {
-                        // NEW or CONTINUING Signal -> Set ACTIVE
-                        nextSignals[analysis.symbol] = {
-                            ...analysis,
-                            status: 'ACTIVE',
-                            lastActiveAt: loopTime,
-                            firstDetectedAt: existing ? existing.firstDetectedAt : loopTime
-                        };
-                        signalListChanged = true;
-                    } else if (existing) {
-                        // NO MATCH, but exists -> COOLDOWN or REMOVE
-                        if (loopTime - existing.lastActiveAt < RETENTION_MS) {
-                            // Keep updating data, but mark as COOLDOWN
-                            nextSignals[analysis.symbol] = {
-                                ...analysis, // Update price/vol/pressure
-                                status: 'COOLDOWN',
-                                lastActiveAt: existing.lastActiveAt, // Don't refresh timer
-                                firstDetectedAt: existing.firstDetectedAt
-                            };
-                            signalListChanged = true;
-                        } else {
-                            // Expired
-                            delete nextSignals[analysis.symbol];
-                            signalListChanged = true;
-                        }
-                    }
-                });
-
-                // 2. Cleanup orphaned signals (if analyzer data is gone/stale)
-                // (Optional: usually handled by expiration above)
-
-                return signalListChanged ? nextSignals : currentSignals;
-            });
-
-            return nextAnalyzers;
+  // --- SIGNAL LIFECYCLE MANAGEMENT (Retention Logic) ---
+  useEffect(() => {
+    if (isPaused) return;
+
+    setDetectedSignals(currentSignals => {
+        const nextSignals = { ...currentSignals };
+        const loopTime = Date.now();
+        let signalListChanged = false;
+
+        // 1. Check all Analyzers against Rules
+        Object.values(analyzers).forEach((analysis: AnalyzerState) => {
+            const isMatch = matchesScannerRules(analysis, rules);
+
+            const existing = nextSignals[analysis.symbol];
+
+            if (isMatch) {
+                // NEW or CONTINUING Signal -> Set ACTIVE
+                nextSignals[analysis.symbol] = {
+                    ...analysis,
+                    status: 'ACTIVE',
+                    lastActiveAt: loopTime,
+                    firstDetectedAt: existing ? existing.firstDetectedAt : loopTime
+                };
+                signalListChanged = true;
+            } else if (existing) {
+                // NO MATCH, but exists -> COOLDOWN or REMOVE
+                if (loopTime - existing.lastActiveAt < RETENTION_MS) {
+                    // Keep updating data, but mark as COOLDOWN
+                    nextSignals[analysis.symbol] = {
+                        ...analysis, // Update price/vol/pressure
+                        status: 'COOLDOWN',
+                        lastActiveAt: existing.lastActiveAt, // Don't refresh timer
+                        firstDetectedAt: existing.firstDetectedAt
+                    };
+                    signalListChanged = true;
+                } else {
+                    // Expired
+                    delete nextSignals[analysis.symbol];
+                    signalListChanged = true;
+                }
+            }
         });
-    }
-  }, [data, isPaused, rules]); // Re-run logic when Rules change to immediately filter/unfilter
+
+        return signalListChanged ? nextSignals : currentSignals;
+    });
+  }, [analyzers, isPaused, rules]); // Re-run logic when Rules change to immediately filter/unfilter
 
   // --- Display Sorting ---
   const sortedSignals = useMemo(() => {
@@ -259,9 +114,9 @@ export const SpotScanner: React.FC<SpotScannerProps> = ({ data }) => {
   }, [detectedSignals]);
 
   // --- Handlers ---
-  const applyPreset = (name: PresetName) => {
+  const applyPreset = (name: ScannerPreset) => {
       setActivePreset(name);
-      setRules(PRESETS[name]);
+      setRules(SCANNER_PRESETS[name]);
       // Optional: Clear existing signals when switching strategies? 
       // User might prefer to keep them, so we leave them to decay naturally or verify against new rules.
   };
@@ -369,6 +224,23 @@ export const SpotScanner: React.FC<SpotScannerProps> = ({ data }) => {
                             </div>
                         </div>
 
+                        {/* Book Imbalance */}
+                        <div>
+                            <div className="flex justify-between mb-2">
+                                <span className="text-xs font-medium text-text">Min Book Bids %</span>
+                                <span className="text-xs font-mono font-bold text-primary">{rules.minImbalance > 0 ? `${rules.minImbalance}%` : 'Off'}</span>
+                            </div>
+                            <input 
+                                type="range" min="0" max="90" step="5" 
+                                value={rules.minImbalance} 
+                                onChange={(e) => handleRuleChange('minImbalance', parseFloat(e.target.value))}
+                                className="w-full h-1.5 bg-surface-secondary rounded-lg appearance-none cursor-pointer accent-primary"
+                            />
+                            {rules.minImbalance > 0 && (
+                                <p className="text-[10px] text-secondary mt-1">Resting bids within 1% of price. Only the busiest symbols stream depth.</p>
+                            )}
+                        </div>
+
                          {/* Price Change Range */}
                         <div>
                             <div className="flex justify-between mb-2">
@@ -416,6 +288,7 @@ export const SpotScanner: React.FC<SpotScannerProps> = ({ data }) => {
                         </h2>
                         <p className="text-xs text-secondary hidden sm:block">
                             Real-time flow analysis with signal retention.
+                            {flowSymbolCount > 0 && <span className="ml-1">Taker flow from trades on top {flowSymbolCount}, estimated elsewhere.</span>}
                         </p>
                     </div>
                  </div>
@@ -466,7 +339,7 @@ export const SpotScanner: React.FC<SpotScannerProps> = ({ data }) => {
                     ) : (
                         <div className="divide-y divide-border">
                             {sortedSignals.map(item => {
-                                const symbolBase = item.symbol.replace('USDT', '');
+                                const symbolBase = baseAsset(item.symbol);
                                 const iconUrl = `https://assets.coincap.io/assets/icons/${symbolBase.toLowerCase()}@2x.png`;
                                 const buyPct = item.pressure;
                                 const sellPct = 100 - buyPct;
@@ -485,10 +358,10 @@ export const SpotScanner: React.FC<SpotScannerProps> = ({ data }) => {
                                 const isAccumulation = item.pressure > 70 && Math.abs(item.priceChangePercent) < 2;
 
                                 const tvLink = `https://www.tradingview.com/chart/?symbol=BINANCE:${item.symbol}`;
-                                const binanceLink = `https://www.binance.com/en/trade/${symbolBase}_USDT`;
+                                const binanceLink = `https://www.binance.com/en/trade/${symbolBase}_${quoteAsset(item.symbol) || 'USDT'}`;
 
                                 return (
-                                    <div key={item.symbol} className={`relative grid grid-cols-12 gap-2 px-4 py-2.5 transition-all items-center group overflow-hidden ${
+                                    <div key={item.symbol} onClick={() => onSelectSymbol?.(item.symbol)} className={`relative grid grid-cols-12 gap-2 px-4 py-2.5 transition-all items-center group overflow-hidden ${onSelectSymbol ? 'cursor-pointer' : ''} ${
                                         isActive ? (isBreakout ? 'bg-success/10' : 'hover:bg-surface-secondary/40') : 'opacity-60 grayscale-[0.3] hover:opacity-80'
                                     }`}>
                                         
@@ -553,6 +426,9 @@ export const SpotScanner: React.FC<SpotScannerProps> = ({ data }) => {
                                         <div className="col-span-4 pl-4 pr-2">
                                             <div className="flex justify-between text-[9px] font-bold mb-1 opacity-70">
                                                 <span className={buyPct > 50 ? 'text-success' : 'text-secondary'}>{buyPct.toFixed(0)}% Buy</span>
+                                                <span className="text-secondary uppercase tracking-wider" title={item.flowSource === 'TRADES' ? 'Measured from aggregated trades' : 'Estimated with the tick rule'}>
+                                                    {item.flowSource === 'TRADES' ? 'Tape' : 'Est.'}
+                                                </span>
                                                 <span className={sellPct > 50 ? 'text-danger' : 'text-secondary'}>{sellPct.toFixed(0)}% Sell</span>
                                             </div>
                                             <div className="h-1.5 w-full bg-surface-secondary rounded-full overflow-hidden flex relative">
@@ -567,6 +443,11 @@ export const SpotScanner: React.FC<SpotScannerProps> = ({ data }) => {
                                                     style={{ width: `${sellPct}%`, opacity: sellPct > 50 ? 1 : 0.4 }} 
                                                 />
                                             </div>
+                                            {item.bookImbalance !== null && (
+                                                <div className="text-[9px] text-secondary mt-1" title="Bid share of resting depth within 1% of price">
+                                                    Book <span className={item.bookImbalance > 50 ? 'text-success font-bold' : 'text-danger font-bold'}>{item.bookImbalance.toFixed(0)}%</span> bids
+                                                </div>
+                                            )}
                                         </div>
 
                                         {/* RVOL */}
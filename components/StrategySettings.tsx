@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { StrategyConfig, StrategyInput, StrategyParamValue, StrategyPlugin, getStrategies, resolveSettings } from '../services/strategies';
+import { Cpu, ChevronDown, ChevronRight, RotateCcw } from 'lucide-react';
+
+interface StrategySettingsProps {
+  config: StrategyConfig;
+  onChange: (config: StrategyConfig) => void;
+}
+
+const INPUT_LABELS: Record<StrategyInput, string> = {
+  klines: 'Candles',
+  markPrice: 'Funding'
+};
+
+const inputClass = 'w-full bg-surface border border-border rounded-lg px-2.5 py-1.5 text-xs font-mono text-text focus:border-brand focus:outline-none';
+
+export const StrategySettings: React.FC<StrategySettingsProps> = ({ config, onChange }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const plugins = getStrategies();
+
+  const update = (plugin: StrategyPlugin, patch: Partial<{ enabled: boolean; cooldown: number; params: Record<string, StrategyParamValue> }>) => {
+    const current = config[plugin.id] || {};
+    onChange({
+      ...config,
+      [plugin.id]: { ...current, ...patch, params: patch.params ? { ...current.params, ...patch.params } : current.params }
+    });
+  };
+
+  const reset = (plugin: StrategyPlugin) => {
+    const next = { ...config };
+    delete next[plugin.id];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3 mb-6">
+      <h3 className="text-sm font-semibold text-secondary uppercase tracking-wide ml-1 flex items-center gap-2">
+        <Cpu size={14} /> Strategies
+      </h3>
+      <div className="bg-surface-secondary/50 p-2 rounded-2xl space-y-1">
+        {plugins.map(plugin => {
+          const settings = resolveSettings(plugin, config);
+          const isOpen = expanded === plugin.id;
+          return (
+            <div key={plugin.id} className={`rounded-xl transition-all ${isOpen ? 'bg-surface shadow-sm' : ''}`}>
+              <div className="flex items-center gap-3 px-3 py-2.5">
+                <button type="button" onClick={() => setExpanded(isOpen ? null : plugin.id)} className="flex-1 min-w-0 flex items-center gap-2 text-left">
+                  {isOpen ? <ChevronDown size={14} className="text-secondary shrink-0" /> : <ChevronRight size={14} className="text-secondary shrink-0" />}
+                  <span className={`text-sm font-semibold truncate ${settings.enabled ? 'text-text' : 'text-secondary'}`}>{plugin.label}</span>
+                  {plugin.inputs.map(input => (
+                    <span key={input} className="px-1.5 py-0.5 rounded text-[9px] font-bold uppercase tracking-wider bg-primary/10 text-primary shrink-0">{INPUT_LABELS[input]}</span>
+                  ))}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => update(plugin, { enabled: !settings.enabled })}
+                  className={`relative inline-flex h-5 w-9 shrink-0 rounded-full border-2 border-transparent transition-colors ${settings.enabled ? 'bg-success' : 'bg-surface-highlight'}`}
+                  title={settings.enabled ? 'Disable' : 'Enable'}
+                >
+                  <span className={`inline-block h-4 w-4 transform rounded-full bg-white shadow transition ${settings.enabled ? 'translate-x-4' : 'translate-x-0'}`} />
+                </button>
+              </div>
+
+              {isOpen && (
+                <div className="px-3 pb-3 space-y-3">
+                  <p className="text-[11px] text-secondary">{plugin.description}</p>
+                  <div className="grid grid-cols-2 gap-3">
+                    {plugin.params.map(param => (
+                      <div key={param.key} className={param.type === 'boolean' ? 'col-span-2' : ''}>
+                        {param.type === 'boolean' ? (
+                          <label className="flex items-center gap-2 text-xs text-text cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={settings.params[param.key] as boolean}
+                              onChange={e => update(plugin, { params: { [param.key]: e.target.checked } })}
+                              className="accent-primary"
+                            />
+                            {param.label}
+                          </label>
+                        ) : (
+                          <>
+                            <label className="text-[11px] text-muted block mb-1">{param.label}{param.unit ? ` (${param.unit})` : ''}</label>
+                            <input
+                              type="number"
+                              min={param.min}
+                              max={param.max}
+                              step={param.step}
+                              value={settings.params[param.key] as number}
+                              onChange={e => {
+                                const value = Number(e.target.value);
+                                if (e.target.value === '' || !Number.isFinite(value)) return;
+                                update(plugin, { params: { [param.key]: Math.min(param.max ?? Infinity, Math.max(param.min ?? -Infinity, value)) } });
+                              }}
+                              className={inputClass}
+                            />
+                            {param.hint && <p className="text-[10px] text-secondary mt-1">{param.hint}</p>}
+                          </>
+                        )}
+                      </div>
+                    ))}
+                    <div>
+                      <label className="text-[11px] text-muted block mb-1">Cooldown ({plugin.cooldownUnit})</label>
+                      <input
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={settings.cooldown}
+                        onChange={e => e.target.value !== '' && update(plugin, { cooldown: Math.max(0, Number(e.target.value)) })}
+                        className={inputClass}
+                      />
+                      <p className="text-[10px] text-secondary mt-1">Per symbol{plugin.cooldownUnit === 'bars' ? ' and timeframe' : ''}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-[10px] text-secondary font-mono truncate">Emits {plugin.emits.join(', ')}</span>
+                    {config[plugin.id] && (
+                      <button type="button" onClick={() => reset(plugin)} className="text-[11px] font-semibold text-secondary hover:text-text flex items-center gap-1 shrink-0">
+                        <RotateCcw size={12} /> Defaults
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-[11px] text-secondary ml-1">Candle strategies run on the Binance watchlist symbols (5m and 15m). Funding strategies run on every streamed perpetual.</p>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { StreamStatus } from '../types';
+
+interface StreamStatusBadgeProps {
+  streams: Record<string, StreamStatus>;
+}
+
+const STATUS_STYLE: Record<StreamStatus, { dot: string; label: string }> = {
+  connecting: { dot: 'bg-secondary animate-pulse', label: 'Connecting' },
+  live: { dot: 'bg-success', label: 'Live' },
+  stale: { dot: 'bg-warning', label: 'Stale' },
+  reconnecting: { dot: 'bg-danger animate-pulse', label: 'Reconnecting' },
+};
+
+// Worst status wins so a single frozen feed is visible at a glance
+const SEVERITY: StreamStatus[] = ['live', 'connecting', 'stale', 'reconnecting'];
+
+export const StreamStatusBadge: React.FC<StreamStatusBadgeProps> = ({ streams }) => {
+  const entries = Object.entries(streams) as [string, StreamStatus][];
+  const overall = entries.reduce<StreamStatus>((worst, [, status]) => (
+    SEVERITY.indexOf(status) > SEVERITY.indexOf(worst) ? status : worst
+  ), 'live');
+
+  return (
+    <div className="hidden lg:flex items-center gap-2 text-[12px] font-medium px-2 py-1 rounded bg-surface-secondary text-secondary group relative">
+      <div className={`w-1.5 h-1.5 rounded-full ${entries.length ? STATUS_STYLE[overall].dot : STATUS_STYLE.connecting.dot}`} />
+      {entries.length ? STATUS_STYLE[overall].label : '...'}
+
+      {/* Per-stream breakdown */}
+      <div className="hidden group-hover:flex flex-col gap-1.5 absolute top-full right-0 mt-2 bg-surface border border-border rounded-lg shadow-xl p-3 min-w-[200px] z-50">
+        {entries.map(([name, status]) => (
+          <div key={name} className="flex items-center justify-between gap-4">
+            <span className="text-[11px] font-mono text-text">{name}</span>
+            <span className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider">
+              <span className={`w-1.5 h-1.5 rounded-full ${STATUS_STYLE[status].dot}`} />
+              {STATUS_STYLE[status].label}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 import React, { useMemo, useState } from 'react';
-import { Ticker, PriceAlert } from '../types';
+import { Ticker, PriceAlert, Exchange } from '../types';
 import { Card } from './ui/Card';
+import { EXCHANGE_META, exchangeOf, marketKey, parseMarketKey, tradingViewLink } from '../services/exchanges';
+import { baseAsset, quoteAsset, formatPrice } from '../services/symbolRegistry';
 import { Plus, Trash2, Bell, Search, LineChart, ExternalLink, LayoutGrid, List } from 'lucide-react';
 
 interface WatchlistProps {
@@ -16,11 +18,28 @@ type Tab = 'favorites' | 'all' | 'movers';
 type ViewMode = 'list' | 'heatmap';
 type SortField = 'symbol' | 'lastPrice' | 'priceChangePercent' | 'volume';
 
+// Quote markets offered in All Pairs / Top Movers, when the feed has them
+const QUOTE_FILTERS = ['USDT', 'FDUSD', 'USDC', 'BTC', 'ETH', 'BNB'];
+
 export const Watchlist: React.FC<WatchlistProps> = ({ symbols, data, activeAlerts = [], onRemove, onAdd, onSetAlert }) => {
   const [activeTab, setActiveTab] = useState<Tab>('favorites');
   const [viewMode, setViewMode] = useState<ViewMode>('list');
   const [search, setSearch] = useState('');
   const [sort, setSort] = useState<{ field: SortField; dir: 'asc' | 'desc' }>({ field: 'priceChangePercent', dir: 'desc' });
+  const [venue, setVenue] = useState<Exchange | 'ALL'>('ALL');
+  const [quote, setQuote] = useState('USDT');
+
+  // Venue chips only make sense once more than one exchange is streaming
+  const venues = useMemo(() => {
+      const set = new Set((Object.values(data) as Ticker[]).map(t => exchangeOf(t)));
+      return Array.from(set);
+  }, [data]);
+  const isMultiVenue = venues.length > 1;
+
+  const quotes = useMemo(() => {
+      const set = new Set((Object.values(data) as Ticker[]).map(t => quoteAsset(t.symbol)));
+      return QUOTE_FILTERS.filter(q => set.has(q));
+  }, [data]);
   
   // Handlers
   const handleSort = (field: SortField) => {
@@ -36,16 +55,19 @@ export const Watchlist: React.FC<WatchlistProps> = ({ symbols, data, activeAlert
 
       // 1. Source Selection
       if (activeTab === 'favorites') {
-          list = symbols.map(s => data[s] || { symbol: s, lastPrice: 0, priceChangePercent: 0, volume: 0, updatedAt: 0 } as Ticker);
+          list = symbols.map(s => data[s] || { ...parseMarketKey(s), lastPrice: 0, priceChangePercent: 0, volume: 0, updatedAt: 0 } as Ticker);
       } else {
           // All or Movers (Movers is just sorted All)
-          list = Object.values(data).filter(t => t.symbol.endsWith('USDT'));
+          list = (Object.values(data) as Ticker[]).filter(t => quoteAsset(t.symbol) === quote);
       }
 
       // 2. Filter
       if (search) {
           list = list.filter(t => t.symbol.includes(search.toUpperCase()));
       }
+      if (venue !== 'ALL') {
+          list = list.filter(t => exchangeOf(t) === venue);
+      }
 
       // 3. Sort
       return list.sort((a, b) => {
@@ -63,10 +85,10 @@ export const Watchlist: React.FC<WatchlistProps> = ({ symbols, data, activeAlert
           return 0;
       });
 
-  }, [symbols, data, activeTab, search, sort]);
+  }, [symbols, data, activeTab, search, sort, venue, quote]);
 
 
-  const hasAlert = (symbol: string) => activeAlerts.some(a => a.symbol === symbol && a.isActive);
+  const hasAlert = (key: string) => activeAlerts.some(a => a.symbol === key && a.isActive);
 
   return (
     <Card className="h-full flex flex-col" title="Market Overview" noPadding>
@@ -124,6 +146,36 @@ export const Watchlist: React.FC<WatchlistProps> = ({ symbols, data, activeAlert
              Top Movers
            </button>
         </div>
+
+        {/* Quote Filter */}
+        {activeTab !== 'favorites' && quotes.length > 1 && (
+            <div className="flex gap-1.5 -mt-1">
+                {quotes.map(q => (
+                    <button
+                        key={q}
+                        onClick={() => setQuote(q)}
+                        className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider transition-colors ${quote === q ? 'bg-primary/10 text-primary' : 'text-secondary hover:text-text'}`}
+                    >
+                        {q}
+                    </button>
+                ))}
+            </div>
+        )}
+
+        {/* Venue Filter */}
+        {isMultiVenue && (
+            <div className="flex gap-1.5 -mt-1">
+                {(['ALL', ...venues] as (Exchange | 'ALL')[]).map(v => (
+                    <button
+                        key={v}
+                        onClick={() => setVenue(v)}
+                        className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider transition-colors ${venue === v ? 'bg-primary/10 text-primary' : 'text-secondary hover:text-text'}`}
+                    >
+                        {v === 'ALL' ? 'All Venues' : EXCHANGE_META[v].label}
+                    </button>
+                ))}
+            </div>
+        )}
       </div>
 
       {/* Content Area */}
@@ -140,14 +192,17 @@ export const Watchlist: React.FC<WatchlistProps> = ({ symbols, data, activeAlert
                 <div className="divide-y divide-border/50">
                     {displayData.map((ticker: any) => {
                         const isPositive = ticker.priceChangePercent >= 0;
-                        const symbolBase = ticker.symbol.replace('USDT', '');
+                        const symbolBase = baseAsset(ticker.symbol);
+                        const symbolQuote = quoteAsset(ticker.symbol);
+                        const key = marketKey(ticker.exchange, ticker.symbol);
+                        const venueMeta = EXCHANGE_META[exchangeOf(ticker)];
                         const iconUrl = `https://assets.coincap.io/assets/icons/${symbolBase.toLowerCase()}@2x.png`;
-                        const tvLink = `https://www.tradingview.com/chart/?symbol=BINANCE:${ticker.symbol}`;
-                        const binanceLink = `https://www.binance.com/en/trade/${symbolBase}_USDT`;
-                        const hasActiveAlert = hasAlert(ticker.symbol);
+                        const tvLink = tradingViewLink(ticker.exchange, ticker.symbol);
+                        const binanceLink = `https://www.binance.com/en/trade/${symbolBase}_${symbolQuote || 'USDT'}`;
+                        const hasActiveAlert = hasAlert(key);
 
                         return (
-                            <div key={ticker.symbol} className="grid grid-cols-12 gap-2 px-4 py-2.5 hover:bg-surface-secondary/50 items-center group cursor-default transition-colors relative">
+                            <div key={key} className="grid grid-cols-12 gap-2 px-4 py-2.5 hover:bg-surface-secondary/50 items-center group cursor-default transition-colors relative">
                                 <div className="col-span-5 flex items-center gap-3">
                                     <div className="w-5 h-5 rounded-full bg-surface-secondary shrink-0 overflow-hidden">
                                         <img src={iconUrl} className="w-full h-full object-cover" onError={(e) => e.currentTarget.style.display = 'none'} />
@@ -155,12 +210,14 @@ export const Watchlist: React.FC<WatchlistProps> = ({ symbols, data, activeAlert
                                     <div className="flex flex-col">
                                         <div className="flex items-center gap-1.5">
                                             <span className="text-sm font-bold text-text leading-none">{symbolBase}</span>
+                                            {symbolQuote && symbolQuote !== 'USDT' && <span className="text-[10px] font-medium text-secondary leading-none">/{symbolQuote}</span>}
+                                            {isMultiVenue && <span className={`text-[8px] font-bold px-1 rounded ${venueMeta.badge}`}>{venueMeta.short}</span>}
                                             {hasActiveAlert && <Bell size={10} className="text-warning fill-warning" />}
                                         </div>
                                     </div>
                                 </div>
                                 <div className="col-span-4 text-right font-mono text-sm text-text">
-                                    {ticker.lastPrice < 1 ? ticker.lastPrice.toFixed(4) : ticker.lastPrice.toLocaleString(undefined, {maximumFractionDigits: 2})}
+                                    {formatPrice(ticker.symbol, ticker.lastPrice)}
                                 </div>
                                 <div className="col-span-3 text-right">
                                     <span className={`text-xs font-bold px-1.5 py-0.5 rounded ${isPositive ? 'text-success bg-success/10' : 'text-danger bg-danger/10'}`}>
@@ -173,9 +230,9 @@ export const Watchlist: React.FC<WatchlistProps> = ({ symbols, data, activeAlert
                                     <a href={tvLink} target="_blank" rel="noopener noreferrer" className="p-1.5 hover:bg-surface-secondary rounded text-secondary hover:text-text"><LineChart size={14}/></a>
                                     <a href={binanceLink} target="_blank" rel="noopener noreferrer" className="p-1.5 hover:bg-surface-secondary rounded text-secondary hover:text-warning"><ExternalLink size={14}/></a>
                                     <div className="w-[1px] h-3 bg-border mx-0.5" />
-                                    <button onClick={() => onSetAlert?.(ticker.symbol)} className="p-1.5 hover:bg-surface-secondary rounded text-secondary hover:text-primary"><Bell size={14}/></button>
-                                    {activeTab === 'favorites' && <button onClick={() => onRemove?.(ticker.symbol)} className="p-1.5 hover:bg-surface-secondary rounded text-secondary hover:text-danger"><Trash2 size={14}/></button>}
-                                    {activeTab !== 'favorites' && <button onClick={() => onAdd?.(ticker.symbol)} className="p-1.5 hover:bg-surface-secondary rounded text-secondary hover:text-success"><Plus size={14}/></button>}
+                                    <button onClick={() => onSetAlert?.(key)} className="p-1.5 hover:bg-surface-secondary rounded text-secondary hover:text-primary"><Bell size={14}/></button>
+                                    {activeTab === 'favorites' && <button onClick={() => onRemove?.(key)} className="p-1.5 hover:bg-surface-secondary rounded text-secondary hover:text-danger"><Trash2 size={14}/></button>}
+                                    {activeTab !== 'favorites' && <button onClick={() => onAdd?.(key)} className="p-1.5 hover:bg-surface-secondary rounded text-secondary hover:text-success"><Plus size={14}/></button>}
                                 </div>
                             </div>
                         );
@@ -198,17 +255,20 @@ export const Watchlist: React.FC<WatchlistProps> = ({ symbols, data, activeAlert
                         : `rgba(246, 70, 93, ${0.1 + (intensity * 0.9)})`; // Red
                     
                     const textColor = intensity > 0.6 ? '#FFFFFF' : 'var(--color-text)'; // White text for dark blocks
+                    const key = marketKey(ticker.exchange, ticker.symbol);
                     const subTextColor = intensity > 0.6 ? 'rgba(255,255,255,0.8)' : 'var(--color-text-secondary)';
 
                     return (
                         <div 
-                            key={ticker.symbol}
+                            key={key}
                             className="aspect-square rounded-lg flex flex-col items-center justify-center p-2 text-center transition-transform hover:scale-105 cursor-pointer relative group overflow-hidden border border-transparent hover:border-text/20"
                             style={{ backgroundColor: bgColor }}
-                            onClick={() => window.open(`https://www.tradingview.com/chart/?symbol=BINANCE:${ticker.symbol}`, '_blank')}
+                            onClick={() => window.open(tradingViewLink(ticker.exchange, ticker.symbol), '_blank')}
                         >
                             <div className="font-bold text-xs truncate w-full" style={{ color: textColor }}>
-                                {ticker.symbol.replace('USDT', '')}
+                                {baseAsset(ticker.symbol)}
+                                {quoteAsset(ticker.symbol) !== 'USDT' && <span className="opacity-60 text-[8px] ml-0.5">/{quoteAsset(ticker.symbol)}</span>}
+                                {isMultiVenue && <span className="opacity-60 text-[8px] ml-1">{EXCHANGE_META[exchangeOf(ticker)].short}</span>}
                             </div>
                             <div className="font-mono text-[10px] mt-0.5" style={{ color: subTextColor }}>
                                 {isPositive ? '+' : ''}{pct.toFixed(2)}%
@@ -216,8 +276,8 @@ export const Watchlist: React.FC<WatchlistProps> = ({ symbols, data, activeAlert
                             {/* Hover Add/Remove */}
                             <div className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 transition-opacity">
                                 {activeTab === 'favorites' 
-                                    ? <button onClick={(e) => {e.stopPropagation(); onRemove?.(ticker.symbol)}} className="bg-black/20 hover:bg-black/40 text-white rounded p-0.5"><Trash2 size={10}/></button> 
-                                    : <button onClick={(e) => {e.stopPropagation(); onAdd?.(ticker.symbol)}} className="bg-black/20 hover:bg-black/40 text-white rounded p-0.5"><Plus size={10}/></button>
+                                    ? <button onClick={(e) => {e.stopPropagation(); onRemove?.(key)}} className="bg-black/20 hover:bg-black/40 text-white rounded p-0.5"><Trash2 size={10}/></button> 
+                                    : <button onClick={(e) => {e.stopPropagation(); onAdd?.(key)}} className="bg-black/20 hover:bg-black/40 text-white rounded p-0.5"><Plus size={10}/></button>
                                 }
                             </div>
                         </div>
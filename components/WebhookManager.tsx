@@ -1,46 +1,282 @@
-import React, { useState } from 'react';
-import { Signal, Side } from '../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Signal, Side, StreamStatus, WebhookEndpoint, WebhookEndpointStats, WebhookAuthMode, PayloadTemplate, WebhookField, WebhookDelivery, WebhookDeliverySummary } from '../types';
 import { Card } from './ui/Card';
-import { Terminal, Copy, Check, Play, Settings, ShieldAlert, AlertTriangle } from 'lucide-react';
+import { Terminal, Copy, Check, Play, Settings, ShieldAlert, AlertTriangle, Plus, Eye, EyeOff, RotateCw, Trash2, Save, XCircle, CheckCircle2, RefreshCw, Inbox, KeyRound } from 'lucide-react';
+import { resolveSymbol } from '../services/symbolRegistry';
+import { TEMPLATE_PRESETS, TRADINGVIEW_TEMPLATE, WEBHOOK_FIELDS, isReplayable, parseSide, parseWebhookBody, validateTemplate } from '../services/webhookSignal';
+import {
+  GRACE_PERIODS, SIGNATURE_HEADER, endpointUrl, getWebhookToken, setWebhookToken,
+  listWebhookEndpoints, createWebhookEndpoint, updateWebhookEndpoint, rotateWebhookSecret, deleteWebhookEndpoint,
+  listWebhookDeliveries, replayWebhookDelivery, dismissWebhookDelivery
+} from '../services/webhookClient';
 
 interface WebhookManagerProps {
   onManualSignal: (signal: Signal) => void;
+  receiverStatus: StreamStatus | null; // Dashboard's connection to the local webhook receiver
+  receivedCount: number; // Webhook signals received this session
+  endpointStats: Record<string, WebhookEndpointStats>; // Pushed by the receiver as alerts arrive
+  lastDelivery: WebhookDeliverySummary | null; // Latest request the receiver logged
 }
 
-export const WebhookManager: React.FC<WebhookManagerProps> = ({ onManualSignal }) => {
-  const [activeTab, setActiveTab] = useState<'config' | 'manual'>('config');
-  const [copied, setCopied] = useState(false);
-  
-  // Mock Webhook URL
-  const webhookUrl = `https://api.fidelio.ai/v1/webhooks/wh_${Math.random().toString(36).substring(7)}`;
-  const secret = `sk_live_${Math.random().toString(36).substring(2, 15)}`;
+const formatAgo = (ts: number) => {
+  const s = Math.max(0, Math.floor((Date.now() - ts) / 1000));
+  if (s < 60) return `${s}s ago`;
+  if (s < 3600) return `${Math.floor(s / 60)}m ago`;
+  if (s < 86400) return `${Math.floor(s / 3600)}h ago`;
+  return new Date(ts).toLocaleDateString();
+};
+
+// 'key=value' per line, as typed in the mapping editor
+const parsePairs = (text: string) =>
+  Object.fromEntries(
+    text.split('\n')
+      .map(line => line.split('=').map(part => part.trim()))
+      .filter(([key, value]) => key && value)
+      .map(([key, value]) => [key, value])
+  );
+
+const formatPairs = (pairs?: Record<string, string>) =>
+  Object.entries(pairs || {}).map(([key, value]) => `${key}=${value}`).join('\n');
+
+const STAGE_LABELS: Record<NonNullable<WebhookDelivery['stage']>, string> = {
+  PARSE: 'Unreadable body',
+  AUTH: 'Auth failed',
+  VALIDATE: 'Invalid fields'
+};
+
+export const WebhookManager: React.FC<WebhookManagerProps> = ({ onManualSignal, receiverStatus, receivedCount, endpointStats, lastDelivery }) => {
+  const [activeTab, setActiveTab] = useState<'config' | 'mapping' | 'log' | 'manual'>('config');
+  const [copied, setCopied] = useState<'url' | 'secret' | null>(null);
+  const receiverLive = receiverStatus === 'live';
+
+  // Endpoints live on the receiver (`npm run webhooks`), loaded whenever it (re)connects
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [endpointError, setEndpointError] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [showSecret, setShowSecret] = useState(false);
+  const [graceMs, setGraceMs] = useState(GRACE_PERIODS[2].ms);
+  const [tokenInput, setTokenInput] = useState(getWebhookToken);
+
+  // The feed reconnects as the token's user; endpoints reload once it's live
+  const handleSaveToken = (e: React.FormEvent) => {
+    e.preventDefault();
+    setWebhookToken(tokenInput);
+    setEndpoints([]);
+    setSelectedId(null);
+    setEndpointError(null);
+  };
+
+  useEffect(() => {
+    if (!receiverLive) return;
+    listWebhookEndpoints()
+      .then(list => {
+        setEndpoints(list);
+        setEndpointError(null);
+      })
+      .catch(e => setEndpointError(`Could not load endpoints: ${e.message}`));
+  }, [receiverLive]);
+
+  const selected = endpoints.find(e => e.id === selectedId) || endpoints[0];
+  const webhookUrl = selected ? endpointUrl(selected.id) : '';
+  const statsFor = (endpoint: WebhookEndpoint) => endpointStats[endpoint.id] || endpoint.stats;
+
+  useEffect(() => setShowSecret(false), [selected?.id]);
+
+  // Payload mapping draft, reloaded from whichever endpoint is selected
+  const [mappingFormat, setMappingFormat] = useState<PayloadTemplate['format']>('JSON');
+  const [mappingPaths, setMappingPaths] = useState<PayloadTemplate['paths']>({});
+  const [mappingPattern, setMappingPattern] = useState('');
+  const [defaultsText, setDefaultsText] = useState('');
+  const [aliasesText, setAliasesText] = useState('');
+  const [testBody, setTestBody] = useState(TEMPLATE_PRESETS[0].sample);
+
+  const loadTemplate = (template: PayloadTemplate) => {
+    setMappingFormat(template.format);
+    setMappingPaths(template.paths);
+    setMappingPattern(template.pattern || '');
+    setDefaultsText(formatPairs(template.defaults));
+    setAliasesText(formatPairs(template.sideAliases));
+  };
+
+  useEffect(() => loadTemplate(selected?.template || TRADINGVIEW_TEMPLATE), [selected?.id, selected?.template]);
+
+  const draftTemplate = useMemo<PayloadTemplate>(() => {
+    const sideAliases: Record<string, Side> = {};
+    Object.entries(parsePairs(aliasesText)).forEach(([alias, value]) => {
+      const side = parseSide(value);
+      if (side) sideAliases[alias] = side;
+    });
+    const defaults = parsePairs(defaultsText);
+    return {
+      format: mappingFormat,
+      paths: mappingFormat === 'JSON' ? mappingPaths : {},
+      pattern: mappingFormat === 'TEXT' ? mappingPattern : undefined,
+      defaults: Object.fromEntries(Object.entries(defaults).filter(([field]) => WEBHOOK_FIELDS.includes(field as WebhookField))),
+      sideAliases
+    };
+  }, [mappingFormat, mappingPaths, mappingPattern, defaultsText, aliasesText]);
+
+  const templateErrors = useMemo(() => validateTemplate(draftTemplate), [draftTemplate]);
+  const testResult = useMemo(() => parseWebhookBody(testBody, draftTemplate), [testBody, draftTemplate]);
+  const testSignal = 'signal' in testResult.result ? testResult.result.signal : null;
+  const testErrors = [...templateErrors, ...('errors' in testResult.result ? testResult.result.errors : [])];
+
+  // HMAC endpoints authenticate the raw body, so only the body secret can be previewed
+  const testSecret = selected?.auth === 'SECRET' && testResult.payload
+    ? testResult.payload.secret === undefined ? 'missing'
+      : String(testResult.payload.secret) === selected.secret || String(testResult.payload.secret) === selected.previousSecret ? 'valid' : 'invalid'
+    : null;
+
+  const applyPreset = (id: string) => {
+    const preset = TEMPLATE_PRESETS.find(p => p.id === id);
+    if (!preset) return;
+    loadTemplate(preset.template);
+    setTestBody(selected ? preset.sample.replace('sk_live_...', selected.secret) : preset.sample);
+  };
+
+  // Runs an endpoint request and swaps the result into the list
+  const mutate = async (request: () => Promise<WebhookEndpoint>) => {
+    try {
+      const updated = await request();
+      setEndpoints(prev => prev.some(e => e.id === updated.id) ? prev.map(e => (e.id === updated.id ? updated : e)) : [...prev, updated]);
+      setSelectedId(updated.id);
+      setEndpointError(null);
+    } catch (e) {
+      setEndpointError((e as Error).message);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    mutate(() => createWebhookEndpoint(newName.trim()));
+    setNewName('');
+  };
+
+  const handleRotate = () => {
+    if (!selected) return;
+    if (!window.confirm(`Generate a new secret for "${selected.name}"?`)) return;
+    mutate(() => rotateWebhookSecret(selected.id, graceMs));
+  };
+
+  const handleAuthChange = (auth: WebhookAuthMode) => {
+    if (selected && selected.auth !== auth) mutate(() => updateWebhookEndpoint(selected.id, { auth }));
+  };
+
+  const handleSaveTemplate = () => {
+    if (selected && templateErrors.length === 0) mutate(() => updateWebhookEndpoint(selected.id, { template: draftTemplate }));
+  };
+
+  const handleResetTemplate = () => {
+    if (selected) mutate(() => updateWebhookEndpoint(selected.id, { template: null }));
+  };
+
+  // Delivery log, refreshed as the receiver reports new requests
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [logEndpoint, setLogEndpoint] = useState('');
+  const [deadLettersOnly, setDeadLettersOnly] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState('');
+  const [replayMessage, setReplayMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const loadDeliveries = () => {
+    listWebhookDeliveries({ endpointId: logEndpoint || undefined, deadLetter: deadLettersOnly })
+      .then(list => {
+        setDeliveries(list);
+        setEndpointError(null);
+      })
+      .catch(e => setEndpointError(`Could not load the delivery log: ${e.message}`));
+  };
+
+  useEffect(() => {
+    if (activeTab === 'log' && receiverLive) loadDeliveries();
+  }, [activeTab, receiverLive, logEndpoint, deadLettersOnly, lastDelivery?.id]);
+
+  const expanded = deliveries.find(d => d.id === expandedId);
+  const expandedEndpoint = endpoints.find(e => e.id === expanded?.endpointId);
+  const editPreview = useMemo(
+    () => (expanded ? parseWebhookBody(editBody, expandedEndpoint?.template).result : null),
+    [expanded?.id, editBody, expandedEndpoint?.template]
+  );
+
+  const endpointName = (id: string | null) => endpoints.find(e => e.id === id)?.name ?? (id ? 'Deleted endpoint' : 'Legacy /webhook');
+
+  const toggleDelivery = (delivery: WebhookDelivery) => {
+    setExpandedId(expandedId === delivery.id ? null : delivery.id);
+    setEditBody(delivery.body);
+    setReplayMessage(null);
+  };
+
+  const handleReplay = async (delivery: WebhookDelivery) => {
+    try {
+      const { delivery: replayed } = await replayWebhookDelivery(delivery.id, editBody === delivery.body ? undefined : editBody);
+      setReplayMessage(replayed.signal
+        ? { ok: true, text: `Replayed as ${replayed.signal.side} ${replayed.signal.symbol} @ ${replayed.signal.price}` }
+        : { ok: false, text: `Still rejected: ${replayed.errors.join('; ')}` });
+      loadDeliveries();
+    } catch (e) {
+      setReplayMessage({ ok: false, text: (e as Error).message });
+    }
+  };
+
+  const handleDismiss = async (delivery: WebhookDelivery) => {
+    try {
+      const updated = await dismissWebhookDelivery(delivery.id);
+      setDeliveries(prev => deadLettersOnly ? prev.filter(d => d.id !== delivery.id) : prev.map(d => (d.id === updated.id ? updated : d)));
+      setExpandedId(null);
+    } catch (e) {
+      setEndpointError((e as Error).message);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !window.confirm(`Delete endpoint "${selected.name}"? Alerts sent to it will be rejected.`)) return;
+    try {
+      await deleteWebhookEndpoint(selected.id);
+      setEndpoints(prev => prev.filter(e => e.id !== selected.id));
+      setSelectedId(null);
+    } catch (e) {
+      setEndpointError((e as Error).message);
+    }
+  };
 
   // Manual Form State
   const [manualSymbol, setManualSymbol] = useState('');
   const [manualSide, setManualSide] = useState<Side>('BUY');
   const [manualPrice, setManualPrice] = useState('');
   const [manualStrategy, setManualStrategy] = useState('Manual_Override');
+  const [manualTakeProfit, setManualTakeProfit] = useState('');
+  const [manualStopLoss, setManualStopLoss] = useState('');
 
-  const copyToClipboard = (text: string) => {
+  const copyToClipboard = (text: string, field: 'url' | 'secret') => {
     navigator.clipboard.writeText(text);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
+    setCopied(field);
+    setTimeout(() => setCopied(null), 2000);
   };
 
   const handleInject = (e: React.FormEvent) => {
     e.preventDefault();
     if (!manualSymbol || !manualPrice) return;
+    const takeProfit = parseFloat(manualTakeProfit);
+    const stopLoss = parseFloat(manualStopLoss);
+    const levels = Number.isFinite(takeProfit) || Number.isFinite(stopLoss) ? {
+        takeProfit: Number.isFinite(takeProfit) ? takeProfit : undefined,
+        stopLoss: Number.isFinite(stopLoss) ? stopLoss : undefined,
+        levelsFrom: 'SOURCE' as const
+    } : {}; // Left empty, levels come from ATR
 
     const signal: Signal = {
         id: `man_${Date.now()}`,
         strategy: manualStrategy,
-        symbol: manualSymbol.toUpperCase().includes('USDT') ? manualSymbol.toUpperCase() : `${manualSymbol.toUpperCase()}USDT`,
+        symbol: resolveSymbol(manualSymbol),
         side: manualSide,
         price: parseFloat(manualPrice),
         time: new Date().toISOString(),
         note: 'Manually injected via Signal Hub',
         source: 'MANUAL',
-        confidence: 0.99
+        confidence: 0.99,
+        ...levels
     };
 
     onManualSignal(signal);
@@ -48,17 +284,27 @@ export const WebhookManager: React.FC<WebhookManagerProps> = ({ onManualSignal }
     // Reset minimal fields
     setManualSymbol('');
     setManualPrice('');
+    setManualTakeProfit('');
+    setManualStopLoss('');
   };
 
   const tradingViewJson = `{
-  "secret": "${secret}",
+  "secret": "${selected?.secret || ''}",
   "symbol": "{{ticker}}",
   "side": "{{strategy.order.action}}",
   "price": {{strategy.order.price}},
+  "tp": {{plot("Take Profit")}},
+  "sl": {{plot("Stop Loss")}},
   "time": "{{time}}",
   "strategy": "TV_Alert_V1"
 }`;
 
+  const signingExample = `import hmac, hashlib, json, requests
+
+body = json.dumps({"symbol": "BTCUSDT", "side": "buy", "price": 65000, "strategy": "My_Bot"})
+sig = hmac.new(SECRET.encode(), body.encode(), hashlib.sha256).hexdigest()
+requests.post("${webhookUrl}", data=body, headers={"${SIGNATURE_HEADER}": "sha256=" + sig})`;
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 h-full">
         {/* Left Panel: Configuration */}
@@ -71,6 +317,18 @@ export const WebhookManager: React.FC<WebhookManagerProps> = ({ onManualSignal }
                     >
                         Webhook Configuration
                     </button>
+                    <button 
+                        onClick={() => setActiveTab('mapping')}
+                        className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${activeTab === 'mapping' ? 'bg-surface text-text shadow-sm' : 'text-muted hover:text-text'}`}
+                    >
+                        Payload Mapping
+                    </button>
+                    <button 
+                        onClick={() => setActiveTab('log')}
+                        className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${activeTab === 'log' ? 'bg-surface text-text shadow-sm' : 'text-muted hover:text-text'}`}
+                    >
+                        Delivery Log
+                    </button>
                     <button 
                         onClick={() => setActiveTab('manual')}
                         className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${activeTab === 'manual' ? 'bg-surface text-text shadow-sm' : 'text-muted hover:text-text'}`}
@@ -81,37 +339,411 @@ export const WebhookManager: React.FC<WebhookManagerProps> = ({ onManualSignal }
 
                 {activeTab === 'config' ? (
                     <div className="space-y-6 animate-in fade-in slide-in-from-bottom-2">
-                        <div className="bg-brand/5 border border-brand/20 p-4 rounded-xl">
-                            <h4 className="text-sm font-bold text-brand mb-2 flex items-center gap-2">
-                                <Terminal size={16} /> Endpoint Configuration
-                            </h4>
-                            <div className="space-y-4">
-                                <div>
-                                    <label className="text-xs text-muted block mb-1">Webhook URL</label>
-                                    <div className="flex gap-2">
-                                        <code className="flex-1 bg-surface border border-border p-2 rounded text-xs font-mono text-text block overflow-hidden text-ellipsis">
-                                            {webhookUrl}
-                                        </code>
-                                        <button onClick={() => copyToClipboard(webhookUrl)} className="p-2 bg-surface hover:bg-surface-highlight border border-border rounded text-muted hover:text-text transition-colors">
-                                            {copied ? <Check size={14} className="text-primary" /> : <Copy size={14} />}
+                        {/* Endpoint List */}
+                        <div className="space-y-2">
+                            {endpointError && (
+                                <div className="text-xs text-danger bg-danger/10 border border-danger/20 p-3 rounded-lg">
+                                    {endpointError}
+                                </div>
+                            )}
+                            <form onSubmit={handleSaveToken} className="flex gap-2">
+                                <input
+                                    type="password"
+                                    value={tokenInput}
+                                    onChange={e => setTokenInput(e.target.value)}
+                                    placeholder="Admin token"
+                                    autoComplete="off"
+                                    className="flex-1 bg-surface border border-border rounded-lg px-3 py-2 text-sm font-mono text-text focus:border-brand focus:outline-none"
+                                />
+                                <button type="submit" className="px-3 py-2 bg-surface-highlight border border-border rounded-lg text-muted hover:text-text transition-colors flex items-center gap-1 text-xs font-bold">
+                                    <KeyRound size={14} /> {tokenInput.trim() === getWebhookToken() ? 'Saved' : 'Use'}
+                                </button>
+                            </form>
+                            {!getWebhookToken() && (
+                                <p className="text-xs text-muted">The receiver prints its admin token when it starts (<code className="text-brand">npm run webhooks</code>). It stays in this browser only.</p>
+                            )}
+                            {getWebhookToken() && !receiverLive && endpoints.length === 0 && (
+                                <p className="text-xs text-muted">Endpoints are stored by the receiver. Start it with <code className="text-brand">npm run webhooks</code> to manage them.</p>
+                            )}
+                            {endpoints.map(endpoint => {
+                                const stats = statsFor(endpoint);
+                                return (
+                                    <button
+                                        key={endpoint.id}
+                                        onClick={() => setSelectedId(endpoint.id)}
+                                        className={`w-full text-left p-3 rounded-xl border transition-colors ${selected?.id === endpoint.id ? 'border-brand bg-brand/5' : 'border-border hover:bg-surface-highlight'}`}
+                                    >
+                                        <div className="flex items-center justify-between">
+                                            <span className="text-sm font-bold text-text">{endpoint.name}</span>
+                                            <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider bg-primary/10 text-primary">{endpoint.auth === 'HMAC' ? 'HMAC' : 'Secret'}</span>
+                                        </div>
+                                        <div className="flex items-center gap-3 mt-1 text-[10px] text-muted">
+                                            <span className="text-success font-bold">{stats.accepted} accepted</span>
+                                            <span className={stats.rejected > 0 ? 'text-danger font-bold' : ''}>{stats.rejected} rejected</span>
+                                            <span className="ml-auto">{stats.lastReceivedAt ? `Last ${formatAgo(stats.lastReceivedAt)}` : 'Nothing received yet'}</span>
+                                        </div>
+                                    </button>
+                                );
+                            })}
+                            <form onSubmit={handleCreate} className="flex gap-2">
+                                <input
+                                    type="text"
+                                    value={newName}
+                                    onChange={e => setNewName(e.target.value)}
+                                    placeholder="New endpoint name"
+                                    className="flex-1 bg-surface border border-border rounded-lg px-3 py-2 text-sm text-text focus:border-brand focus:outline-none"
+                                />
+                                <button type="submit" className="px-3 py-2 bg-surface-highlight border border-border rounded-lg text-muted hover:text-text transition-colors flex items-center gap-1 text-xs font-bold">
+                                    <Plus size={14} /> Add
+                                </button>
+                            </form>
+                        </div>
+
+                        {selected && (
+                            <div className="bg-brand/5 border border-brand/20 p-4 rounded-xl">
+                                <h4 className="text-sm font-bold text-brand mb-2 flex items-center gap-2">
+                                    <Terminal size={16} /> {selected.name}
+                                </h4>
+                                <div className="space-y-4">
+                                    <div>
+                                        <label className="text-xs text-muted block mb-1">Webhook URL</label>
+                                        <div className="flex gap-2">
+                                            <code className="flex-1 bg-surface border border-border p-2 rounded text-xs font-mono text-text block overflow-hidden text-ellipsis">
+                                                {webhookUrl}
+                                            </code>
+                                            <button onClick={() => copyToClipboard(webhookUrl, 'url')} className="p-2 bg-surface hover:bg-surface-highlight border border-border rounded text-muted hover:text-text transition-colors">
+                                                {copied === 'url' ? <Check size={14} className="text-primary" /> : <Copy size={14} />}
+                                            </button>
+                                        </div>
+                                    </div>
+                                    <div>
+                                        <label className="text-xs text-muted block mb-1">Secret Key</label>
+                                        <div className="flex gap-2">
+                                            <code className="flex-1 bg-surface border border-border p-2 rounded text-xs font-mono text-text block overflow-hidden text-ellipsis">
+                                                {showSecret ? selected.secret : `${selected.secret.slice(0, 8)}${'•'.repeat(16)}`}
+                                            </code>
+                                            <button onClick={() => setShowSecret(!showSecret)} className="p-2 bg-surface hover:bg-surface-highlight border border-border rounded text-muted hover:text-text transition-colors">
+                                                {showSecret ? <EyeOff size={14} /> : <Eye size={14} />}
+                                            </button>
+                                            <button onClick={() => copyToClipboard(selected.secret, 'secret')} className="p-2 bg-surface hover:bg-surface-highlight border border-border rounded text-muted hover:text-text transition-colors">
+                                                {copied === 'secret' ? <Check size={14} className="text-primary" /> : <Copy size={14} />}
+                                            </button>
+                                        </div>
+                                        {selected.previousSecretExpiresAt && selected.previousSecretExpiresAt > Date.now() && (
+                                            <p className="text-[10px] text-warning mt-1">
+                                                Previous secret still accepted until {new Date(selected.previousSecretExpiresAt).toLocaleString()}.
+                                            </p>
+                                        )}
+                                    </div>
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        <span className="text-xs text-muted">Rotate, keeping the old secret for</span>
+                                        <select
+                                            value={graceMs}
+                                            onChange={e => setGraceMs(Number(e.target.value))}
+                                            className="bg-surface border border-border rounded px-2 py-1 text-xs text-text focus:border-brand focus:outline-none"
+                                        >
+                                            {GRACE_PERIODS.map(g => <option key={g.ms} value={g.ms}>{g.label}</option>)}
+                                        </select>
+                                        <button onClick={handleRotate} className="px-3 py-1 bg-surface hover:bg-surface-highlight border border-border rounded text-xs font-bold text-text flex items-center gap-1">
+                                            <RotateCw size={12} /> Rotate
+                                        </button>
+                                    </div>
+                                    <div className="flex items-center justify-between gap-2">
+                                        <div className="flex space-x-2 bg-surface-highlight p-1 rounded-lg w-fit">
+                                            {(['SECRET', 'HMAC'] as WebhookAuthMode[]).map(mode => (
+                                                <button
+                                                    key={mode}
+                                                    onClick={() => handleAuthChange(mode)}
+                                                    className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${selected.auth === mode ? 'bg-surface text-text shadow-sm' : 'text-muted hover:text-text'}`}
+                                                >
+                                                    {mode === 'SECRET' ? 'Secret in body' : 'HMAC-SHA256'}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <button onClick={handleDelete} className="p-2 rounded text-muted hover:text-danger hover:bg-danger/10 transition-colors" title="Delete endpoint">
+                                            <Trash2 size={14} />
                                         </button>
                                     </div>
                                 </div>
-                                <div>
-                                    <label className="text-xs text-muted block mb-1">Secret Key</label>
-                                    <code className="bg-surface border border-border p-2 rounded text-xs font-mono text-text block w-full">
-                                        {secret}
-                                    </code>
-                                </div>
+                            </div>
+                        )}
+
+                        {selected && (selected.auth === 'SECRET' && selected.template ? (
+                            <div>
+                                <h4 className="text-sm font-bold text-text mb-2">Custom Payload</h4>
+                                <p className="text-xs text-muted">
+                                    This endpoint reads {selected.template.format === 'TEXT' ? 'plain-text' : 'JSON'} bodies with its own mapping.
+                                    Use the Payload Mapping tab to see which fields it expects and to test a sample alert.
+                                </p>
+                            </div>
+                        ) : selected.auth === 'SECRET' ? (
+                            <div>
+                                <h4 className="text-sm font-bold text-text mb-2">TradingView JSON Template</h4>
+                                <p className="text-xs text-muted mb-3">Paste this into the "Message" field of your TradingView alert.</p>
+                                <pre className="bg-surface-highlight p-4 rounded-xl border border-border text-xs font-mono text-muted overflow-x-auto whitespace-pre-wrap selection:bg-brand/20">
+                                    {tradingViewJson}
+                                </pre>
+                            </div>
+                        ) : (
+                            <div>
+                                <h4 className="text-sm font-bold text-text mb-2">Signed Requests</h4>
+                                <p className="text-xs text-muted mb-3">
+                                    Sign the raw body with the secret and send it as <code className="text-brand">{SIGNATURE_HEADER}</code>.
+                                    The body itself carries no secret. TradingView can't sign requests, so use this for your own scripts and bots.
+                                </p>
+                                <pre className="bg-surface-highlight p-4 rounded-xl border border-border text-xs font-mono text-muted overflow-x-auto whitespace-pre-wrap selection:bg-brand/20">
+                                    {signingExample}
+                                </pre>
+                            </div>
+                        ))}
+                    </div>
+                ) : activeTab === 'mapping' ? (
+                    <div className="space-y-5 animate-in fade-in slide-in-from-bottom-2">
+                        <p className="text-xs text-muted">
+                            {selected
+                                ? <>How <strong className="text-text">{selected.name}</strong> turns an incoming body into a signal. {selected.template ? 'Custom mapping saved.' : 'Currently the TradingView JSON default.'}</>
+                                : 'Add an endpoint to save a mapping. You can still try templates against a sample payload here.'}
+                        </p>
+
+                        <div className="flex flex-wrap items-center gap-2">
+                            <select
+                                value=""
+                                onChange={e => applyPreset(e.target.value)}
+                                className="bg-surface border border-border rounded px-2 py-1 text-xs text-text focus:border-brand focus:outline-none"
+                            >
+                                <option value="" disabled>Start from a preset...</option>
+                                {TEMPLATE_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                            </select>
+                            <div className="flex space-x-2 bg-surface-highlight p-1 rounded-lg w-fit">
+                                {(['JSON', 'TEXT'] as PayloadTemplate['format'][]).map(format => (
+                                    <button
+                                        key={format}
+                                        onClick={() => setMappingFormat(format)}
+                                        className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${mappingFormat === format ? 'bg-surface text-text shadow-sm' : 'text-muted hover:text-text'}`}
+                                    >
+                                        {format === 'JSON' ? 'JSON paths' : 'Text regex'}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {mappingFormat === 'JSON' ? (
+                            <div className="grid grid-cols-2 gap-2">
+                                {WEBHOOK_FIELDS.map(field => (
+                                    <div key={field}>
+                                        <label className="text-[10px] text-muted uppercase tracking-wider block mb-1">{field}</label>
+                                        <input
+                                            type="text"
+                                            value={mappingPaths[field] || ''}
+                                            onChange={e => setMappingPaths(prev => ({ ...prev, [field]: e.target.value }))}
+                                            placeholder={`$.${field}`}
+                                            className="w-full bg-surface border border-border rounded-lg px-2 py-1.5 text-xs font-mono text-text focus:border-brand focus:outline-none"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        ) : (
+                            <div>
+                                <label className="text-xs text-muted block mb-1">Pattern, with named groups such as <code className="text-brand">{'(?<symbol>...)'}</code></label>
+                                <input
+                                    type="text"
+                                    value={mappingPattern}
+                                    onChange={e => setMappingPattern(e.target.value)}
+                                    className="w-full bg-surface border border-border rounded-lg px-3 py-2 text-xs font-mono text-text focus:border-brand focus:outline-none"
+                                />
+                            </div>
+                        )}
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="text-xs text-muted block mb-1">Defaults (field=value)</label>
+                                <textarea
+                                    value={defaultsText}
+                                    onChange={e => setDefaultsText(e.target.value)}
+                                    rows={3}
+                                    placeholder="strategy=My_Bot"
+                                    className="w-full bg-surface border border-border rounded-lg px-3 py-2 text-xs font-mono text-text focus:border-brand focus:outline-none"
+                                />
+                            </div>
+                            <div>
+                                <label className="text-xs text-muted block mb-1">Side aliases (value=side)</label>
+                                <textarea
+                                    value={aliasesText}
+                                    onChange={e => setAliasesText(e.target.value)}
+                                    rows={3}
+                                    placeholder="enter_long=LONG"
+                                    className="w-full bg-surface border border-border rounded-lg px-3 py-2 text-xs font-mono text-text focus:border-brand focus:outline-none"
+                                />
                             </div>
                         </div>
 
                         <div>
-                            <h4 className="text-sm font-bold text-text mb-2">TradingView JSON Template</h4>
-                            <p className="text-xs text-muted mb-3">Paste this into the "Message" field of your TradingView alert.</p>
-                            <pre className="bg-surface-highlight p-4 rounded-xl border border-border text-xs font-mono text-muted overflow-x-auto whitespace-pre-wrap selection:bg-brand/20">
-                                {tradingViewJson}
-                            </pre>
+                            <label className="text-xs text-muted block mb-1">Test payload</label>
+                            <textarea
+                                value={testBody}
+                                onChange={e => setTestBody(e.target.value)}
+                                rows={5}
+                                className="w-full bg-surface border border-border rounded-lg px-3 py-2 text-xs font-mono text-text focus:border-brand focus:outline-none"
+                            />
+                        </div>
+
+                        <div className="bg-surface-highlight p-4 rounded-xl border border-border space-y-2">
+                            {testErrors.map(error => (
+                                <div key={error} className="flex items-center gap-2 text-xs text-danger">
+                                    <XCircle size={14} className="shrink-0" /> {error}
+                                </div>
+                            ))}
+                            {testSignal && (
+                                <>
+                                    <div className="flex items-center gap-2 text-xs text-success font-bold">
+                                        <CheckCircle2 size={14} /> Parsed signal
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs font-mono">
+                                        {(['symbol', 'side', 'price', 'takeProfit', 'stopLoss', 'strategy', 'confidence', 'exchange', 'timeframe', 'time', 'note'] as (keyof Signal)[])
+                                            .filter(key => testSignal[key] !== undefined)
+                                            .map(key => (
+                                                <div key={key} className="flex justify-between gap-2 min-w-0">
+                                                    <span className="text-muted">{key}</span>
+                                                    <span className="text-text truncate">{String(testSignal[key])}</span>
+                                                </div>
+                                            ))}
+                                    </div>
+                                </>
+                            )}
+                            {testSecret && (
+                                <div className={`text-xs ${testSecret === 'valid' ? 'text-success' : 'text-warning'}`}>
+                                    {testSecret === 'valid' ? 'Secret matches this endpoint.' : testSecret === 'missing' ? 'No secret in the payload, the receiver will reject it.' : "Secret doesn't match this endpoint, the receiver will reject it."}
+                                </div>
+                            )}
+                        </div>
+
+                        {selected && (
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={handleSaveTemplate}
+                                    disabled={templateErrors.length > 0}
+                                    className="flex-1 py-2 bg-brand hover:bg-brand/90 disabled:opacity-50 text-white rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all"
+                                >
+                                    <Save size={14} /> Save Mapping
+                                </button>
+                                {selected.template && (
+                                    <button onClick={handleResetTemplate} className="px-3 py-2 bg-surface-highlight border border-border rounded-lg text-muted hover:text-text transition-colors text-xs font-bold">
+                                        Reset to TradingView JSON
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                ) : activeTab === 'log' ? (
+                    <div className="space-y-4 animate-in fade-in slide-in-from-bottom-2">
+                        <div className="flex flex-wrap items-center gap-2">
+                            <select
+                                value={logEndpoint}
+                                onChange={e => setLogEndpoint(e.target.value)}
+                                className="bg-surface border border-border rounded px-2 py-1 text-xs text-text focus:border-brand focus:outline-none"
+                            >
+                                <option value="">All endpoints</option>
+                                {endpoints.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+                            </select>
+                            <div className="flex space-x-2 bg-surface-highlight p-1 rounded-lg w-fit">
+                                {[false, true].map(dead => (
+                                    <button
+                                        key={String(dead)}
+                                        onClick={() => setDeadLettersOnly(dead)}
+                                        className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${deadLettersOnly === dead ? 'bg-surface text-text shadow-sm' : 'text-muted hover:text-text'}`}
+                                    >
+                                        {dead ? 'Dead letters' : 'All requests'}
+                                    </button>
+                                ))}
+                            </div>
+                            <button onClick={loadDeliveries} disabled={!receiverLive} className="ml-auto p-2 rounded text-muted hover:text-text hover:bg-surface-highlight disabled:opacity-50 transition-colors" title="Refresh">
+                                <RefreshCw size={14} />
+                            </button>
+                        </div>
+
+                        {endpointError && (
+                            <div className="text-xs text-danger bg-danger/10 border border-danger/20 p-3 rounded-lg">
+                                {endpointError}
+                            </div>
+                        )}
+                        {!receiverLive && (
+                            <p className="text-xs text-muted">The log is kept by the receiver. Start it with <code className="text-brand">npm run webhooks</code> to inspect deliveries.</p>
+                        )}
+                        {receiverLive && deliveries.length === 0 && (
+                            <div className="flex flex-col items-center gap-2 py-8 text-muted text-xs">
+                                <Inbox size={24} />
+                                {deadLettersOnly ? 'No rejected alerts waiting.' : 'Nothing received yet.'}
+                            </div>
+                        )}
+
+                        <div className="space-y-2">
+                            {deliveries.map(delivery => {
+                                const rejected = delivery.status === 'REJECTED';
+                                const settled = delivery.resolvedBy ? 'Fixed by replay' : delivery.dismissedAt ? 'Dismissed' : null;
+                                return (
+                                    <div key={delivery.id} className={`rounded-xl border ${expandedId === delivery.id ? 'border-brand' : 'border-border'}`}>
+                                        <button onClick={() => toggleDelivery(delivery)} className="w-full text-left p-3 hover:bg-surface-highlight rounded-xl transition-colors">
+                                            <div className="flex items-center gap-2 text-xs">
+                                                <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider ${rejected ? 'bg-danger/10 text-danger' : 'bg-primary/10 text-primary'}`}>
+                                                    {rejected ? delivery.httpStatus : 'OK'}
+                                                </span>
+                                                <span className="font-bold text-text truncate">{endpointName(delivery.endpointId)}</span>
+                                                {delivery.replayOf && <span className="text-[10px] text-muted uppercase tracking-wider">Replay</span>}
+                                                <span className="ml-auto text-[10px] text-muted font-mono">{new Date(delivery.receivedAt).toLocaleString()}</span>
+                                            </div>
+                                            <div className="mt-1 text-[10px] text-muted truncate">
+                                                {rejected
+                                                    ? <><span className="text-danger font-bold">{delivery.stage ? STAGE_LABELS[delivery.stage] : 'Rejected'}:</span> {delivery.errors.join('; ')}{settled && <span className="ml-2 text-success">{settled}</span>}</>
+                                                    : delivery.signal && `${delivery.signal.side} ${delivery.signal.symbol} @ ${delivery.signal.price} (${delivery.signal.strategy})`}
+                                            </div>
+                                        </button>
+
+                                        {expandedId === delivery.id && (
+                                            <div className="px-3 pb-3 space-y-3">
+                                                <div>
+                                                    <label className="text-xs text-muted block mb-1">{rejected && !settled ? 'Raw body, edit to fix and resubmit' : 'Raw body'}</label>
+                                                    <textarea
+                                                        value={editBody}
+                                                        onChange={e => setEditBody(e.target.value)}
+                                                        rows={5}
+                                                        className="w-full bg-surface border border-border rounded-lg px-3 py-2 text-xs font-mono text-text focus:border-brand focus:outline-none"
+                                                    />
+                                                </div>
+                                                {delivery.payload && (
+                                                    <div className="text-[10px] font-mono text-muted break-all">
+                                                        Parsed fields: {JSON.stringify({ ...delivery.payload, secret: delivery.payload.secret !== undefined ? '•••' : undefined })}
+                                                    </div>
+                                                )}
+                                                {editPreview && editBody !== delivery.body && (
+                                                    <div className={`text-xs ${'errors' in editPreview ? 'text-danger' : 'text-success'}`}>
+                                                        {'errors' in editPreview ? `Edited body: ${editPreview.errors.join('; ')}` : 'Edited body parses.'}
+                                                    </div>
+                                                )}
+                                                {replayMessage && (
+                                                    <div className={`text-xs ${replayMessage.ok ? 'text-success' : 'text-danger'}`}>{replayMessage.text}</div>
+                                                )}
+                                                <div className="flex gap-2">
+                                                    {isReplayable(delivery) && (
+                                                        <button onClick={() => handleReplay(delivery)} className="flex-1 py-2 bg-brand hover:bg-brand/90 text-white rounded-lg text-xs font-bold flex items-center justify-center gap-2 transition-all">
+                                                            <Play size={12} /> {editBody === delivery.body ? 'Replay' : 'Resubmit Fixed Payload'}
+                                                        </button>
+                                                    )}
+                                                    {rejected && !settled && (
+                                                        <button onClick={() => handleDismiss(delivery)} className="px-3 py-2 bg-surface-highlight border border-border rounded-lg text-muted hover:text-text transition-colors text-xs font-bold">
+                                                            Dismiss
+                                                        </button>
+                                                    )}
+                                                </div>
+                                                <p className="text-[10px] text-muted">
+                                                    {isReplayable(delivery)
+                                                        ? 'Replays skip the secret check and use the endpoint\'s current mapping. Secrets in the body are redacted.'
+                                                        : 'This request never passed the secret or signature check, so it can\'t be replayed. Fix it at the source and send it again.'}
+                                                </p>
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
                         </div>
                     </div>
                 ) : (
@@ -172,6 +804,29 @@ export const WebhookManager: React.FC<WebhookManagerProps> = ({ onManualSignal }
                             </div>
                          </div>
 
+                         <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="text-xs text-muted block mb-1">Take Profit (optional)</label>
+                                <input 
+                                    type="number" 
+                                    value={manualTakeProfit}
+                                    onChange={e => setManualTakeProfit(e.target.value)}
+                                    placeholder="ATR-based"
+                                    className="w-full bg-surface border border-border rounded-lg px-3 py-2 text-sm text-text focus:border-brand focus:outline-none"
+                                />
+                            </div>
+                            <div>
+                                <label className="text-xs text-muted block mb-1">Stop Loss (optional)</label>
+                                <input 
+                                    type="number" 
+                                    value={manualStopLoss}
+                                    onChange={e => setManualStopLoss(e.target.value)}
+                                    placeholder="ATR-based"
+                                    className="w-full bg-surface border border-border rounded-lg px-3 py-2 text-sm text-text focus:border-brand focus:outline-none"
+                                />
+                            </div>
+                         </div>
+
                          <button 
                             type="submit"
                             className="w-full py-3 bg-brand hover:bg-brand/90 text-white rounded-lg font-bold flex items-center justify-center gap-2 shadow-lg shadow-brand/20 transition-all active:scale-[0.98]"
@@ -189,17 +844,24 @@ export const WebhookManager: React.FC<WebhookManagerProps> = ({ onManualSignal }
                 <div className="p-4 grid grid-cols-2 gap-4">
                     <div className="bg-surface-highlight p-3 rounded-xl border border-border">
                         <div className="text-xs text-muted uppercase tracking-wider mb-1">Webhook Status</div>
-                        <div className="flex items-center gap-2 text-primary font-medium">
-                            <span className="relative flex h-2 w-2">
-                                <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-emerald-400 opacity-75"></span>
-                                <span className="relative inline-flex rounded-full h-2 w-2 bg-emerald-500"></span>
-                            </span>
-                            Active
-                        </div>
+                        {receiverLive ? (
+                            <div className="flex items-center gap-2 text-primary font-medium">
+                                <span className="relative flex h-2 w-2">
+                                    <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-emerald-400 opacity-75"></span>
+                                    <span className="relative inline-flex rounded-full h-2 w-2 bg-emerald-500"></span>
+                                </span>
+                                Active
+                            </div>
+                        ) : (
+                            <div className="flex items-center gap-2 text-muted font-medium" title="Start it with npm run webhooks">
+                                <span className="relative inline-flex rounded-full h-2 w-2 bg-danger"></span>
+                                {receiverStatus === 'connecting' ? 'Connecting' : 'Offline'}
+                            </div>
+                        )}
                     </div>
                      <div className="bg-surface-highlight p-3 rounded-xl border border-border">
-                        <div className="text-xs text-muted uppercase tracking-wider mb-1">Uptime</div>
-                        <div className="text-text font-mono">99.98%</div>
+                        <div className="text-xs text-muted uppercase tracking-wider mb-1">Received</div>
+                        <div className="text-text font-mono">{receivedCount.toLocaleString()} this session</div>
                     </div>
                 </div>
             </Card>
@@ -217,6 +879,7 @@ export const WebhookManager: React.FC<WebhookManagerProps> = ({ onManualSignal }
                     </div>
                     
                     <ol className="space-y-4 text-sm text-muted list-decimal list-inside marker:text-brand">
+                        <li>Start the receiver with <code className="text-brand">npm run webhooks</code> and expose it to TradingView (e.g. through a tunnel), then add an endpoint.</li>
                         <li>Open TradingView and go to your chart.</li>
                         <li>Create a new Alert (Alt+A).</li>
                         <li>In the <strong>Webhook URL</strong> field, paste the URL from the configuration panel.</li>
@@ -0,0 +1,29 @@
+import React from 'react';
+import { SignalState } from '../../types';
+
+export const SIGNAL_STATE_LABELS: Record<SignalState, string> = {
+  OPEN: 'Open',
+  TP_HIT: 'TP Hit',
+  SL_HIT: 'SL Hit',
+  EXPIRED: 'Expired',
+  CLOSED: 'Closed'
+};
+
+const STATE_CLASSES: Record<SignalState, string> = {
+  OPEN: 'text-primary bg-primary/10',
+  TP_HIT: 'text-success bg-success/10',
+  SL_HIT: 'text-danger bg-danger/10',
+  EXPIRED: 'text-secondary bg-surface-secondary',
+  CLOSED: 'text-warning bg-warning/10'
+};
+
+interface SignalStateBadgeProps {
+  state: SignalState;
+  title?: string;
+}
+
+export const SignalStateBadge: React.FC<SignalStateBadgeProps> = ({ state, title }) => (
+  <span title={title} className={`text-[10px] font-bold px-1.5 py-0.5 rounded uppercase whitespace-nowrap ${STATE_CLASSES[state]}`}>
+    {SIGNAL_STATE_LABELS[state]}
+  </span>
+);
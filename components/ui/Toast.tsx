@@ -5,12 +5,13 @@ import { X, CheckCircle2, AlertTriangle, Info } from 'lucide-react';
 interface ToastContainerProps {
   toasts: ToastMessage[];
   onDismiss: (id: string) => void;
+  limit?: number; // Newest toasts shown at once
 }
 
-export const ToastContainer: React.FC<ToastContainerProps> = ({ toasts, onDismiss }) => {
+export const ToastContainer: React.FC<ToastContainerProps> = ({ toasts, onDismiss, limit = 4 }) => {
   return (
     <div className="fixed top-6 left-1/2 -translate-x-1/2 z-50 flex flex-col gap-2 w-full max-w-[90vw] sm:max-w-md pointer-events-none">
-      {toasts.map((toast) => (
+      {toasts.slice(-Math.max(1, limit)).map((toast) => (
         <ToastItem key={toast.id} toast={toast} onDismiss={onDismiss} />
       ))}
     </div>
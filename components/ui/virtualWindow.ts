@@ -0,0 +1,37 @@
+// --- Virtual Window ---
+// Which rows of a long fixed-height list are on screen, and the spacer heights
+// that stand in for the rest. `extra` is height added by an expanded row
+// (at `extraIndex`) so the list doesn't jump when it scrolls out of view.
+
+export interface VirtualWindow {
+  start: number;
+  end: number; // Exclusive
+  padTop: number;
+  padBottom: number;
+}
+
+export const OVERSCAN_ROWS = 8;
+
+export const virtualWindow = (
+  count: number,
+  rowHeight: number,
+  scrollTop: number,
+  viewportHeight: number,
+  extra = 0,
+  extraIndex = -1
+): VirtualWindow => {
+  // Once the expanded row has scrolled past, its extra height sits above every visible row
+  const extraAbove = extraIndex >= 0 && scrollTop > (extraIndex + 1) * rowHeight + extra ? extra : 0;
+  const start = Math.max(0, Math.floor((scrollTop - extraAbove) / rowHeight) - OVERSCAN_ROWS);
+  const end = Math.min(count, Math.ceil((scrollTop - extraAbove + viewportHeight) / rowHeight) + OVERSCAN_ROWS);
+  return {
+    start,
+    end,
+    padTop: start * rowHeight + (extraIndex >= 0 && extraIndex < start ? extra : 0),
+    padBottom: (count - end) * rowHeight + (extraIndex >= end ? extra : 0)
+  };
+};
+
+// Close enough to the bottom that the next page should be loading
+export const nearEnd = (el: HTMLElement, rows = OVERSCAN_ROWS * 2, rowHeight = 48) =>
+  el.scrollHeight - el.scrollTop - el.clientHeight < rows * rowHeight;
@@ -0,0 +1,78 @@
+import { randomBytes } from 'node:crypto';
+import { WebhookDelivery, WebhookDeliverySummary } from '../types';
+import { readJsonFile, createJsonWriter } from './jsonFile';
+
+// --- Webhook Delivery Log ---
+// Every request that reaches an alert route, accepted or not, newest first.
+// Rejections that haven't been fixed by a replay or dismissed form the
+// dead-letter list, and are the last thing trimmed when the log is full.
+
+const MAX_DELIVERIES = 500;
+
+export const REDACTED = '[redacted]';
+
+// Shorter strings would match too much of an unrelated body
+const MIN_REDACT_LENGTH = 8;
+
+// Hides each secret wherever it appears in the body, whatever the template
+export const redactSecrets = (raw: string, secrets: (string | undefined)[]) =>
+  secrets
+    .filter((s): s is string => !!s && s.length >= MIN_REDACT_LENGTH)
+    .reduce((body, secret) => body.split(secret).join(REDACTED), raw);
+
+export const isDeadLetter = (d: WebhookDelivery) => d.status === 'REJECTED' && !d.resolvedBy && !d.dismissedAt;
+
+export const summarizeDelivery = ({ id, endpointId, receivedAt, status, stage, errors }: WebhookDelivery): WebhookDeliverySummary =>
+  ({ id, endpointId, receivedAt, status, stage, errors });
+
+export const createDeliveryLog = (file: string, limit = MAX_DELIVERIES) => {
+  let deliveries = readJsonFile<WebhookDelivery[]>(file, []);
+  const { save, flush } = createJsonWriter(file, () => deliveries);
+
+  // Drop the oldest settled entries first, then the oldest dead letters
+  const trim = () => {
+    let excess = deliveries.length - limit;
+    if (excess <= 0) return;
+    const kept: WebhookDelivery[] = [];
+    for (let i = deliveries.length - 1; i >= 0; i--) {
+      if (excess > 0 && !isDeadLetter(deliveries[i])) excess--;
+      else kept.unshift(deliveries[i]);
+    }
+    deliveries = kept.slice(0, limit);
+  };
+
+  const patch = (id: string, changes: Partial<WebhookDelivery>) => {
+    const index = deliveries.findIndex(d => d.id === id);
+    if (index < 0) return undefined;
+    deliveries[index] = { ...deliveries[index], ...changes };
+    save();
+    return deliveries[index];
+  };
+
+  return {
+    get: (id: string) => deliveries.find(d => d.id === id),
+
+    list: (filter: { endpointIds: (string | null)[]; endpointId?: string; deadLetter?: boolean; limit?: number }) =>
+      deliveries
+        .filter(d => filter.endpointIds.includes(d.endpointId))
+        .filter(d => !filter.endpointId || d.endpointId === filter.endpointId)
+        .filter(d => !filter.deadLetter || isDeadLetter(d))
+        .slice(0, filter.limit ?? 200),
+
+    record: (entry: Omit<WebhookDelivery, 'id'>): WebhookDelivery => {
+      const delivery: WebhookDelivery = { id: `dl_${randomBytes(9).toString('base64url')}`, ...entry };
+      deliveries.unshift(delivery);
+      trim();
+      save();
+      return delivery;
+    },
+
+    resolve: (id: string, resolvedBy: string) => patch(id, { resolvedBy }),
+
+    dismiss: (id: string, now = Date.now()) => patch(id, { dismissedAt: now }),
+
+    flush
+  };
+};
+
+export type DeliveryLog = ReturnType<typeof createDeliveryLog>;
@@ -0,0 +1,45 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+// --- JSON File Persistence ---
+// The receiver keeps its state in small JSON files. Reads tolerate a missing
+// file; writes are debounced and go through a temp file so a crash mid-write
+// never truncates what was there.
+
+const SAVE_DEBOUNCE_MS = 500;
+
+export const readJsonFile = <T>(file: string, fallback: T): T => {
+  try {
+    return JSON.parse(readFileSync(file, 'utf8'));
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== 'ENOENT') console.error(`Could not read ${file}, starting empty`, e);
+    return fallback;
+  }
+};
+
+export const createJsonWriter = (file: string, snapshot: () => unknown) => {
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const saveNow = () => {
+    saveTimer = null;
+    try {
+      mkdirSync(dirname(file), { recursive: true });
+      writeFileSync(`${file}.tmp`, JSON.stringify(snapshot(), null, 2));
+      renameSync(`${file}.tmp`, file);
+    } catch (e) {
+      console.error(`Write to ${file} failed`, e);
+    }
+  };
+
+  return {
+    save: () => {
+      if (!saveTimer) saveTimer = setTimeout(saveNow, SAVE_DEBOUNCE_MS);
+    },
+    flush: () => {
+      if (saveTimer) {
+        clearTimeout(saveTimer);
+        saveNow();
+      }
+    }
+  };
+};
@@ -0,0 +1,453 @@
+import http from 'node:http';
+import { join } from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { WebhookAuthMode, WebhookEndpoint, PayloadTemplate, Side, WebhookDelivery, WebhookDeliveryStage } from '../types';
+import { parseWebhookBody, validateTemplate, isReplayable, WebhookPayload, WEBHOOK_FIELDS } from '../services/webhookSignal';
+import { loadSymbolRegistry } from '../services/symbolRegistry';
+import { createWebhookStore, authenticate, safeEqual, SIGNATURE_HEADER, DEFAULT_GRACE_MS } from './webhookStore';
+import { readJsonFile, createJsonWriter } from './jsonFile';
+import { createDeliveryLog, isDeadLetter, summarizeDelivery, redactSecrets, REDACTED } from './deliveryLog';
+
+// --- Webhook Receiver ---
+// Accepts alerts on per-user endpoints, maps them with the endpoint's payload
+// template (TradingView JSON by default), checks the secret or HMAC signature,
+// normalizes them into Signals and pushes them to the owning user's open
+// dashboards over Server-Sent Events. Every request is logged so rejected
+// alerts can be inspected, fixed and replayed from the Lab.
+//
+// Everything but the alert routes and /health needs an admin token, which
+// also decides whose endpoints the caller sees. Dashboards can't send headers
+// on an EventSource, so they trade the token for a one-time stream ticket.
+//
+//   POST /webhook/:id                   alert body, JSON or text depending on the template
+//   POST /webhook                       legacy single endpoint, only with WEBHOOK_SECRET set
+//   GET  /events?ticket=<ticket>        SSE stream of the user's `signal`, `endpoint` (stats) and `delivery` events
+//   POST /api/stream-ticket             one-time ticket for /events
+//   GET  /health                        status and counters
+//   GET|POST /api/endpoints             list / create the caller's endpoints
+//   PATCH|DELETE /api/endpoints/:id     rename, switch auth mode, set template, delete
+//   POST /api/endpoints/:id/rotate      new secret, old one valid for `graceMs`
+//   GET  /api/deliveries                delivery log, `?endpoint=<id>&deadLetter=1`
+//   POST /api/deliveries/:id/replay     resubmit, optionally with an edited `body`
+//   DELETE /api/deliveries/:id          dismiss from the dead-letter list
+//
+// Configured from the environment or .env.local: WEBHOOK_PORT (8787),
+// WEBHOOK_HOST (127.0.0.1, put a tunnel in front for TradingView),
+// WEBHOOK_DATA_DIR (server/data), WEBHOOK_APP_ORIGIN (the dashboard's origins
+// allowed by CORS), WEBHOOK_ADMIN_TOKEN (the default user's token, generated
+// into the data dir when unset), WEBHOOK_USER_TOKENS (`user=token,...` for
+// more users) and WEBHOOK_SECRET.
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local, plain environment only
+}
+
+const PORT = Number(process.env.WEBHOOK_PORT) || 8787;
+const HOST = process.env.WEBHOOK_HOST || '127.0.0.1';
+const DATA_DIR = process.env.WEBHOOK_DATA_DIR || join('server', 'data');
+const APP_ORIGINS = (process.env.WEBHOOK_APP_ORIGIN || 'http://localhost:3000,http://127.0.0.1:3000')
+  .split(',').map(o => o.trim().replace(/\/$/, '')).filter(Boolean);
+const LEGACY_SECRET = process.env.WEBHOOK_SECRET || '';
+const MAX_BODY_BYTES = 64 * 1024;
+const KEEPALIVE_MS = 15000; // Proxies drop idle SSE connections
+const DEFAULT_USER = 'local';
+const TICKET_TTL_MS = 60000;
+
+const store = createWebhookStore(join(DATA_DIR, 'webhooks.json'));
+const deliveryLog = createDeliveryLog(join(DATA_DIR, 'deliveries.json'));
+const clients = new Map<http.ServerResponse, string>(); // SSE stream -> user id
+const tickets = new Map<string, { userId: string; expiresAt: number }>();
+const counters = { accepted: 0, rejected: 0, lastReceivedAt: 0 };
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// --- Admin Tokens ---
+
+// user id -> token. Without any configured, the default user gets a generated
+// token that is kept in the data dir so it survives restarts.
+const loadAdminTokens = (): Record<string, string> => {
+  const tokens: Record<string, string> = {};
+  (process.env.WEBHOOK_USER_TOKENS || '').split(',').forEach(pair => {
+    const [user, token] = pair.split('=').map(part => part?.trim());
+    if (user && token) tokens[user] = token;
+  });
+  if (process.env.WEBHOOK_ADMIN_TOKEN) tokens[DEFAULT_USER] = process.env.WEBHOOK_ADMIN_TOKEN;
+  if (Object.keys(tokens).length > 0) return tokens;
+
+  const file = join(DATA_DIR, 'admin-token.json');
+  const saved = readJsonFile<{ token?: string }>(file, {});
+  if (saved.token) return { [DEFAULT_USER]: saved.token };
+  const token = `adm_${randomBytes(24).toString('base64url')}`;
+  const writer = createJsonWriter(file, () => ({ token }));
+  writer.save();
+  writer.flush();
+  return { [DEFAULT_USER]: token };
+};
+
+const ADMIN_TOKENS = loadAdminTokens();
+
+// CORS only for the dashboard; alert senders post server to server and don't need it
+const corsHeaders = (req: http.IncomingMessage): Record<string, string> => {
+  const origin = req.headers.origin;
+  if (!origin || !APP_ORIGINS.includes(origin)) return {};
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Vary': 'Origin'
+  };
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: http.IncomingMessage) => new Promise<string>((resolve, reject) => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const readJson = async (req: http.IncomingMessage): Promise<Record<string, unknown>> => {
+  const raw = await readBody(req);
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    throw new HttpError(400, 'Body is not valid JSON');
+  }
+};
+
+// Only to the streams of the user the event belongs to
+const sendEvent = (userId: string, event: string, data: unknown) => {
+  const frame = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  clients.forEach((owner, res) => {
+    if (owner === userId) res.write(frame);
+  });
+};
+
+const clientCount = (userId: string) => [...clients.values()].filter(owner => owner === userId).length;
+
+// Alerts on the legacy /webhook belong to the default user
+const ownerOf = (endpointId: string | null) => endpointId ? store.get(endpointId)?.userId : DEFAULT_USER;
+
+// --- Alerts ---
+
+const STAGE_STATUS: Record<WebhookDeliveryStage, number> = { PARSE: 400, AUTH: 401, VALIDATE: 422 };
+
+// Runs a body through the template, the credential check and validation, logs
+// the outcome with its secrets redacted and broadcasts the signal. Replays come
+// from an admin with an edited body that no longer matches its signature, so
+// they skip the check; only deliveries that passed it once are replayed.
+const processAlert = (
+  endpointId: string | null,
+  raw: string,
+  template: PayloadTemplate | undefined,
+  check: ((payload: WebhookPayload | undefined) => string | null) | null,
+  replayOf?: string
+): WebhookDelivery => {
+  const receivedAt = Date.now();
+  const { payload, result } = parseWebhookBody(raw, template, receivedAt);
+
+  let stage: WebhookDeliveryStage | undefined;
+  let errors: string[] = [];
+  const authError = payload && check ? check(payload) : null;
+  if (!payload) {
+    stage = 'PARSE';
+    errors = 'errors' in result ? result.errors : [];
+  } else if (authError) {
+    stage = 'AUTH';
+    errors = [authError];
+  } else if ('errors' in result) {
+    stage = 'VALIDATE';
+    errors = result.errors;
+  }
+  const signal = !stage && 'signal' in result ? result.signal : undefined;
+
+  // The endpoint's secrets (current and rotated out) and whatever was presented as one
+  const endpoint = endpointId ? store.get(endpointId) : undefined;
+  const presented = typeof payload?.secret === 'string' ? payload.secret : undefined;
+  const body = redactSecrets(raw, endpoint ? [endpoint.secret, endpoint.previousSecret, presented] : [LEGACY_SECRET, presented]);
+
+  const delivery = deliveryLog.record({
+    endpointId, receivedAt, body,
+    status: stage ? 'REJECTED' : 'ACCEPTED',
+    httpStatus: stage ? STAGE_STATUS[stage] : 200,
+    stage, errors, signal, replayOf,
+    payload: payload && payload.secret !== undefined ? { ...payload, secret: REDACTED } : payload
+  });
+
+  const owner = ownerOf(endpointId);
+  if (!replayOf) {
+    counters.lastReceivedAt = receivedAt;
+    counters[stage ? 'rejected' : 'accepted']++;
+    const stats = endpointId ? store.recordDelivery(endpointId, !stage, receivedAt) : undefined;
+    if (stats && owner) sendEvent(owner, 'endpoint', { id: endpointId, stats });
+  }
+  if (owner) {
+    if (signal) sendEvent(owner, 'signal', signal);
+    sendEvent(owner, 'delivery', summarizeDelivery(delivery));
+  }
+  return delivery;
+};
+
+const respondToAlert = (res: http.ServerResponse, delivery: WebhookDelivery) => {
+  if (delivery.signal) sendJson(res, 200, { ok: true, id: delivery.signal.id, delivered: clientCount(ownerOf(delivery.endpointId) || DEFAULT_USER) });
+  else sendJson(res, delivery.httpStatus, { ok: false, error: delivery.errors.join('; ') });
+};
+
+const handleEndpointWebhook = async (id: string, req: http.IncomingMessage, res: http.ServerResponse) => {
+  const endpoint = store.get(id);
+  if (!endpoint) throw new HttpError(404, 'Unknown endpoint');
+  const raw = await readBody(req);
+  const signature = req.headers[SIGNATURE_HEADER];
+  respondToAlert(res, processAlert(
+    id, raw, endpoint.template,
+    payload => authenticate(store.get(id) || endpoint, raw, payload, Array.isArray(signature) ? signature[0] : signature)
+  ));
+};
+
+const legacyCheck = (payload: WebhookPayload | undefined) => {
+  const candidate = payload?.secret;
+  if (typeof candidate !== 'string') return 'Missing secret';
+  return safeEqual(candidate, LEGACY_SECRET) ? null : 'Invalid secret';
+};
+
+const handleLegacyWebhook = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  if (!LEGACY_SECRET) throw new HttpError(404, 'Use /webhook/<endpoint id>');
+  const raw = await readBody(req);
+  respondToAlert(res, processAlert(null, raw, undefined, legacyCheck));
+};
+
+// --- Endpoint Management ---
+
+// The user whose token the caller presents; every token is compared so the match doesn't leak through timing
+const userOf = (req: http.IncomingMessage): string => {
+  const presented = req.headers.authorization || '';
+  let match: string | undefined;
+  Object.entries(ADMIN_TOKENS).forEach(([user, token]) => {
+    if (safeEqual(presented, `Bearer ${token}`)) match = user;
+  });
+  if (!match) throw new HttpError(presented ? 403 : 401, 'This needs an admin token');
+  return match;
+};
+
+const parseAuthMode = (value: unknown): WebhookAuthMode | undefined =>
+  value === 'SECRET' || value === 'HMAC' ? value : undefined;
+
+const SIDE_VALUES: Side[] = ['BUY', 'SELL', 'LONG', 'SHORT', 'CLOSE'];
+
+const stringRecord = (value: unknown, keys?: string[]) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>)
+      .filter(([k, v]) => typeof v === 'string' && v.trim() && (!keys || keys.includes(k)))
+      .map(([k, v]) => [k, (v as string).trim()])
+  );
+};
+
+// null clears the template (back to TradingView JSON); anything else must compile
+const parseTemplate = (value: unknown): PayloadTemplate | null => {
+  if (value === null) return null;
+  if (!value || typeof value !== 'object') throw new HttpError(400, 'Template must be an object');
+  const body = value as Record<string, unknown>;
+  if (body.format !== 'JSON' && body.format !== 'TEXT') throw new HttpError(400, 'Template format must be JSON or TEXT');
+  const aliases = stringRecord(body.sideAliases);
+  const template: PayloadTemplate = {
+    format: body.format,
+    paths: stringRecord(body.paths, WEBHOOK_FIELDS),
+    pattern: typeof body.pattern === 'string' && body.pattern ? body.pattern : undefined,
+    defaults: stringRecord(body.defaults, WEBHOOK_FIELDS),
+    sideAliases: Object.fromEntries(
+      Object.entries(aliases).filter(([, side]) => SIDE_VALUES.includes(side as Side))
+    ) as Record<string, Side>
+  };
+  const errors = validateTemplate(template);
+  if (errors.length > 0) throw new HttpError(400, errors.join('; '));
+  return template;
+};
+
+const handleApi = async (req: http.IncomingMessage, res: http.ServerResponse, segments: string[]) => {
+  const userId = userOf(req);
+  const [, , id, action] = segments; // api / endpoints / :id / :action
+
+  if (!id) {
+    if (req.method === 'GET') return sendJson(res, 200, store.list(userId));
+    if (req.method === 'POST') {
+      const body = await readJson(req);
+      const name = typeof body.name === 'string' && body.name.trim() ? body.name.trim() : 'TradingView';
+      return sendJson(res, 201, store.create(userId, name, parseAuthMode(body.auth)));
+    }
+    throw new HttpError(405, 'Method not allowed');
+  }
+
+  const endpoint = store.get(id);
+  if (!endpoint || endpoint.userId !== userId) throw new HttpError(404, 'Unknown endpoint');
+
+  let updated: WebhookEndpoint | undefined;
+  if (action === 'rotate' && req.method === 'POST') {
+    const body = await readJson(req);
+    const graceMs = typeof body.graceMs === 'number' && body.graceMs >= 0 ? body.graceMs : DEFAULT_GRACE_MS;
+    updated = store.rotate(id, graceMs);
+  } else if (!action && req.method === 'PATCH') {
+    const body = await readJson(req);
+    updated = store.update(id, {
+      ...(typeof body.name === 'string' && body.name.trim() ? { name: body.name.trim() } : {}),
+      ...(parseAuthMode(body.auth) ? { auth: parseAuthMode(body.auth) } : {}),
+      ...(body.template !== undefined ? { template: parseTemplate(body.template) ?? undefined } : {})
+    });
+  } else if (!action && req.method === 'DELETE') {
+    store.remove(id);
+    return sendJson(res, 200, { ok: true });
+  } else {
+    throw new HttpError(405, 'Method not allowed');
+  }
+  sendJson(res, 200, updated);
+};
+
+// --- Delivery Log ---
+
+// The caller's endpoints, plus the legacy /webhook for the default user
+const ownedEndpointIds = (userId: string): (string | null)[] => [
+  ...store.list(userId).map(e => e.id),
+  ...(userId === DEFAULT_USER ? [null] : [])
+];
+
+const handleDeliveries = async (req: http.IncomingMessage, res: http.ServerResponse, segments: string[]) => {
+  const owned = ownedEndpointIds(userOf(req));
+  const [, , id, action] = segments; // api / deliveries / :id / :action
+
+  if (!id) {
+    if (req.method !== 'GET') throw new HttpError(405, 'Method not allowed');
+    const query = new URL(req.url || '/', 'http://localhost').searchParams;
+    return sendJson(res, 200, deliveryLog.list({
+      endpointIds: owned,
+      endpointId: query.get('endpoint') || undefined,
+      deadLetter: query.get('deadLetter') === '1',
+      limit: Number(query.get('limit')) || undefined
+    }));
+  }
+
+  const original = deliveryLog.get(id);
+  if (!original || !owned.includes(original.endpointId)) throw new HttpError(404, 'Unknown delivery');
+
+  if (action === 'replay' && req.method === 'POST') {
+    if (!isReplayable(original)) throw new HttpError(409, 'Only deliveries that passed the secret or signature check can be replayed; resend it from the source');
+    const body = await readJson(req);
+    const raw = typeof body.body === 'string' ? body.body : original.body;
+    const endpoint = original.endpointId ? store.get(original.endpointId) : undefined;
+    if (original.endpointId && !endpoint) throw new HttpError(410, 'Endpoint was deleted');
+    // Replays run through the endpoint's current template, so a fixed mapping applies too
+    const delivery = processAlert(original.endpointId, raw, endpoint?.template, null, original.id);
+    const updated = delivery.signal && isDeadLetter(original) ? deliveryLog.resolve(original.id, delivery.id) : original;
+    return sendJson(res, 200, { delivery, original: updated });
+  }
+  if (!action && req.method === 'DELETE') return sendJson(res, 200, deliveryLog.dismiss(id));
+  throw new HttpError(405, 'Method not allowed');
+};
+
+// --- Server ---
+
+const handleStreamTicket = (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const userId = userOf(req);
+  const now = Date.now();
+  tickets.forEach((t, key) => {
+    if (t.expiresAt <= now) tickets.delete(key);
+  });
+  const ticket = randomBytes(18).toString('base64url');
+  tickets.set(ticket, { userId, expiresAt: now + TICKET_TTL_MS });
+  sendJson(res, 200, { ticket });
+};
+
+const handleEvents = (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const ticket = new URL(req.url || '/', 'http://localhost').searchParams.get('ticket') || '';
+  const grant = tickets.get(ticket);
+  tickets.delete(ticket);
+  if (!grant || grant.expiresAt <= Date.now()) throw new HttpError(401, 'Invalid or expired stream ticket');
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  });
+  res.write('retry: 3000\n\n');
+  clients.set(res, grant.userId);
+
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEPALIVE_MS);
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    clients.delete(res);
+  });
+};
+
+const route = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const segments = (req.url || '/').split('?')[0].split('/').filter(Boolean);
+  const [head, second] = segments;
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+  } else if (head === 'webhook' && req.method === 'POST') {
+    await (second ? handleEndpointWebhook(second, req, res) : handleLegacyWebhook(req, res));
+  } else if (head === 'events' && req.method === 'GET') {
+    handleEvents(req, res);
+  } else if (head === 'health' && req.method === 'GET') {
+    sendJson(res, 200, { ok: true, clients: clients.size, ...counters });
+  } else if (head === 'api' && second === 'stream-ticket' && req.method === 'POST') {
+    handleStreamTicket(req, res);
+  } else if (head === 'api' && second === 'endpoints') {
+    await handleApi(req, res, segments);
+  } else if (head === 'api' && second === 'deliveries') {
+    await handleDeliveries(req, res, segments);
+  } else {
+    throw new HttpError(404, 'Not found');
+  }
+};
+
+const server = http.createServer((req, res) => {
+  Object.entries(corsHeaders(req)).forEach(([name, value]) => res.setHeader(name, value));
+  route(req, res).catch(e => {
+    if (res.headersSent) return;
+    if (e instanceof HttpError) {
+      sendJson(res, e.status, { ok: false, error: e.message });
+    } else {
+      console.error("Webhook request failed", e);
+      sendJson(res, 500, { ok: false, error: 'Internal error' });
+    }
+  });
+});
+
+// Full exchangeInfo so symbols outside the bundled snapshot resolve correctly
+loadSymbolRegistry();
+
+server.listen(PORT, HOST, () => {
+  console.log(`Webhook receiver on http://${HOST}:${PORT} (POST /webhook/<id>, GET /events)`);
+  if (!process.env.WEBHOOK_ADMIN_TOKEN && !process.env.WEBHOOK_USER_TOKENS) {
+    console.log(`Admin token for the dashboard: ${ADMIN_TOKENS[DEFAULT_USER]} (from ${join(DATA_DIR, 'admin-token.json')})`);
+  }
+  console.log(`Dashboard origins allowed: ${APP_ORIGINS.join(', ')}`);
+});
+
+const shutdown = () => {
+  store.flush();
+  deliveryLog.flush();
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
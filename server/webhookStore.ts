@@ -0,0 +1,124 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { WebhookEndpoint, WebhookAuthMode, PayloadTemplate } from '../types';
+import { WebhookPayload } from '../services/webhookSignal';
+import { readJsonFile, createJsonWriter } from './jsonFile';
+
+// --- Webhook Endpoint Store ---
+// Named endpoints per user, each with its own secret, kept in a JSON file next
+// to the receiver. Counters change on every alert, so writes are debounced.
+
+export const DEFAULT_GRACE_MS = 24 * 60 * 60 * 1000;
+
+export const SIGNATURE_HEADER = 'x-fidelio-signature';
+
+export const generateSecret = () => `sk_live_${randomBytes(18).toString('base64url')}`;
+
+const generateId = () => `wh_${randomBytes(9).toString('base64url')}`;
+
+// Compare digests so neither the length nor the content leaks through timing
+export const safeEqual = (a: string, b: string) =>
+  timingSafeEqual(createHash('sha256').update(a).digest(), createHash('sha256').update(b).digest());
+
+// The current secret, plus the previous one while its grace period lasts
+const validSecrets = (endpoint: WebhookEndpoint, now: number) => {
+  const secrets = [endpoint.secret];
+  if (endpoint.previousSecret && (endpoint.previousSecretExpiresAt ?? 0) > now) secrets.push(endpoint.previousSecret);
+  return secrets;
+};
+
+export const signBody = (secret: string, rawBody: string) =>
+  `sha256=${createHmac('sha256', secret).update(rawBody).digest('hex')}`;
+
+// Checks whichever credential the endpoint expects; null when it is valid.
+// `payload` is the body after the endpoint's template, so the secret can live anywhere.
+export const authenticate = (
+  endpoint: WebhookEndpoint,
+  rawBody: string,
+  payload: WebhookPayload | undefined,
+  signature: string | undefined,
+  now = Date.now()
+): string | null => {
+  const secrets = validSecrets(endpoint, now);
+  if (endpoint.auth === 'HMAC') {
+    if (!signature) return 'Missing signature header';
+    return secrets.some(secret => safeEqual(signBody(secret, rawBody), signature.trim().toLowerCase())) ? null : 'Invalid signature';
+  }
+  const candidate = payload?.secret;
+  if (typeof candidate !== 'string') return 'Missing secret';
+  return secrets.some(secret => safeEqual(secret, candidate)) ? null : 'Invalid secret';
+};
+
+export const createWebhookStore = (file: string) => {
+  const endpoints: Record<string, WebhookEndpoint> = Object.fromEntries(
+    readJsonFile<WebhookEndpoint[]>(file, []).map(e => [e.id, e])
+  );
+  const { save, flush } = createJsonWriter(file, () => Object.values(endpoints));
+
+  return {
+    get: (id: string): WebhookEndpoint | undefined => endpoints[id],
+
+    list: (userId: string) =>
+      Object.values(endpoints).filter(e => e.userId === userId).sort((a, b) => a.createdAt - b.createdAt),
+
+    create: (userId: string, name: string, auth: WebhookAuthMode = 'SECRET'): WebhookEndpoint => {
+      const endpoint: WebhookEndpoint = {
+        id: generateId(), userId, name, auth,
+        secret: generateSecret(),
+        createdAt: Date.now(),
+        stats: { accepted: 0, rejected: 0 }
+      };
+      endpoints[endpoint.id] = endpoint;
+      save();
+      return endpoint;
+    },
+
+    update: (id: string, patch: { name?: string; auth?: WebhookAuthMode; template?: PayloadTemplate }) => {
+      const endpoint = endpoints[id];
+      if (!endpoint) return undefined;
+      endpoints[id] = { ...endpoint, ...patch };
+      save();
+      return endpoints[id];
+    },
+
+    // The old secret keeps working for `graceMs` so senders can be updated without dropping alerts
+    rotate: (id: string, graceMs = DEFAULT_GRACE_MS, now = Date.now()) => {
+      const endpoint = endpoints[id];
+      if (!endpoint) return undefined;
+      endpoints[id] = {
+        ...endpoint,
+        secret: generateSecret(),
+        previousSecret: graceMs > 0 ? endpoint.secret : undefined,
+        previousSecretExpiresAt: graceMs > 0 ? now + graceMs : undefined,
+        rotatedAt: now
+      };
+      save();
+      return endpoints[id];
+    },
+
+    remove: (id: string) => {
+      const existed = !!endpoints[id];
+      delete endpoints[id];
+      if (existed) save();
+      return existed;
+    },
+
+    recordDelivery: (id: string, accepted: boolean, now = Date.now()) => {
+      const endpoint = endpoints[id];
+      if (!endpoint) return undefined;
+      const stats = { ...endpoint.stats, lastReceivedAt: now };
+      if (accepted) {
+        stats.accepted++;
+        stats.lastAcceptedAt = now;
+      } else {
+        stats.rejected++;
+      }
+      endpoints[id] = { ...endpoint, stats };
+      save();
+      return stats;
+    },
+
+    flush
+  };
+};
+
+export type WebhookStore = ReturnType<typeof createWebhookStore>;
@@ -0,0 +1,377 @@
+import { Candle, FundingRatePoint, KlineInterval, KlineMarket, Signal, Ticker } from '../types';
+import { createStrategyEvaluator } from './strategyEngine';
+import { ScannerPreset, SCANNER_PRESETS, createDivergenceDetector, createFlowAnalyzer, matchesScannerRules } from './marketAnalysis';
+import { parseMarkPriceFrame } from './marketData';
+import { RecordedMessage } from './marketRecorder';
+import { INTERVAL_MS, fetchKlineRange, fetchFundingHistory } from './klineService';
+import { createATR } from './indicators';
+import { openLifecycle, advanceLifecycle, levelsFromAtr, signalPnl, isLongSide } from './signalLifecycle';
+import { PerformanceStats, computeStats } from './signalAnalytics';
+import { quoteToUsd } from './symbolRegistry';
+import { StrategyConfig, getStrategies, strategyEmitting } from './strategies';
+
+// --- Backtester ---
+// Runs historical candles (and funding) through the same detectors as the live
+// feeds: the indicator evaluator, the SmartMoney divergence detector and the
+// Spot Sniper flow analyzer with its preset rules. Each signal is then walked
+// forward bar by bar with the live lifecycle rules. Fills pay slippage on both
+// sides and a fee on entry and exit; perpetual trades also pay settled funding.
+
+export type BacktestStrategy =
+  | { kind: 'INDICATOR'; name: string } // A Signal.strategy emitted by a candle plugin
+  | { kind: 'DIVERGENCE' }
+  | { kind: 'SCANNER'; preset: ScannerPreset };
+
+export interface BacktestConfig {
+  strategy: BacktestStrategy;
+  symbols: string[];
+  interval: KlineInterval;
+  start: number;
+  end: number;
+  feeBps: number; // Per side
+  slippageBps: number; // Per fill
+  tradeSize: number; // Quote currency per trade
+  initialCapital: number;
+  recording?: RecordedMessage[]; // Recorded mark price frames, preferred over settled funding for detection
+  strategies?: StrategyConfig; // Plugin parameters and cooldowns; the tested plugin runs even if switched off live
+}
+
+export interface BacktestTrade {
+  signal: Signal; // Resolved, with the fill prices and the net result in its lifecycle
+  entryPrice: number;
+  exitPrice: number;
+  grossPnl: number; // %, before costs
+  fees: number; // %
+  funding: number; // %, positive when paid
+  netPnl: number;
+}
+
+export interface BacktestEquityPoint {
+  time: number;
+  equity: number;
+  drawdown: number; // Below the running peak, <= 0
+}
+
+export interface BacktestResult {
+  trades: BacktestTrade[];
+  signals: number; // Detected, including those skipped while a position was open
+  unresolved: number; // Still open when the data ran out
+  candles: number;
+  stats: PerformanceStats;
+  equity: BacktestEquityPoint[];
+  netProfit: number;
+  maxDrawdown: number;
+  maxDrawdownPct: number;
+  fundingSource: 'RECORDED' | 'HISTORY' | null; // null for spot strategies
+  warnings: string[];
+}
+
+export interface BacktestProgress {
+  symbol: string;
+  index: number; // Of config.symbols
+  stage: 'candles' | 'funding' | 'simulating';
+  loaded?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INDICATOR_WARMUP_CANDLES = 200; // Matches the live engine's warm-up
+const MAX_CANDLES_PER_SYMBOL = 50000;
+
+export const backtestStrategyName = (strategy: BacktestStrategy) =>
+  strategy.kind === 'INDICATOR' ? strategy.name : strategy.kind === 'DIVERGENCE' ? 'SmartMoney_Divergence' : `SpotSniper_${strategy.preset}`;
+
+const marketFor = (strategy: BacktestStrategy): KlineMarket => strategy.kind === 'DIVERGENCE' ? 'futures' : 'spot';
+
+// Warm-up before `start` so indicators and the 24h rolling volume are settled
+const warmupMs = (strategy: BacktestStrategy, interval: KlineInterval) =>
+  strategy.kind === 'SCANNER' ? DAY_MS : INDICATOR_WARMUP_CANDLES * INTERVAL_MS[interval];
+
+// --- Recorded Funding ---
+
+// Mark price and funding per symbol from the Binance futures frames of a recording
+export const fundingFromRecording = (messages: RecordedMessage[]): Record<string, FundingRatePoint[]> => {
+  const bySymbol: Record<string, FundingRatePoint[]> = {};
+  messages.forEach(m => {
+    if (m.stream !== 'binance:futures') return;
+    try {
+      Object.values(parseMarkPriceFrame(m.data)).forEach(u => {
+        const points = bySymbol[u.symbol!] || (bySymbol[u.symbol!] = []);
+        points.push({ time: m.t, fundingRate: u.fundingRate!, markPrice: u.markPrice });
+      });
+    } catch {
+      // Partial or foreign frames are skipped, as in replay
+    }
+  });
+  return bySymbol;
+};
+
+// --- Detection (shared detectors) ---
+
+// ATR(14) as of each candle's close
+const atrSeries = (candles: Candle[]) => {
+  const atr = createATR(14);
+  return candles.map(c => atr.update(c));
+};
+
+// Last closed candle at or before `time`
+const candleIndexAt = (candles: Candle[], time: number) => {
+  let lo = 0;
+  let hi = candles.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (candles[mid].closeTime <= time) {
+      found = mid;
+      lo = mid + 1;
+    } else hi = mid - 1;
+  }
+  return found;
+};
+
+const withAtrLevels = (signal: Signal, atr: number | null | undefined): Signal =>
+  atr ? { ...signal, ...levelsFromAtr(signal, atr), levelsFrom: 'ATR' } : signal;
+
+// Only the plugin under test runs, with the user's parameters and cooldown
+const onlyStrategy = (name: string, config: StrategyConfig = {}): StrategyConfig => {
+  const target = strategyEmitting(name);
+  return Object.fromEntries(getStrategies().map(p => [p.id, { ...config[p.id], enabled: p === target }]));
+};
+
+const detectIndicator = (name: string, symbol: string, interval: KlineInterval, candles: Candle[], start: number, config?: StrategyConfig) => {
+  const evaluator = createStrategyEvaluator(onlyStrategy(name, config));
+  return candles
+    .flatMap(c => evaluator.ingest(symbol, interval, c, c.openTime >= start))
+    .filter(s => s.strategy === name);
+};
+
+const detectDivergence = (symbol: string, candles: Candle[], atr: (number | null)[], start: number, recorded: FundingRatePoint[] | undefined, settled: FundingRatePoint[], config?: StrategyConfig) => {
+  const detector = createDivergenceDetector(onlyStrategy('SmartMoney_Divergence', config));
+  let current = {};
+  const signals: Signal[] = [];
+  const feed = (time: number, markPrice: number, fundingRate: number) => {
+    const { merged, signals: found } = detector.update(current, { [symbol]: { symbol, exchange: 'BINANCE', markPrice, fundingRate } }, time);
+    current = { ...current, ...merged };
+    if (time < start) return;
+    found.forEach(s => signals.push(withAtrLevels(s, atr[candleIndexAt(candles, time)])));
+  };
+
+  if (recorded?.length) {
+    // What the live detector saw, one update per recorded frame
+    recorded.forEach(p => p.markPrice && feed(p.time, p.markPrice, p.fundingRate));
+  } else {
+    // Only the settled rate is known, so funding steps at each settlement
+    let f = -1;
+    candles.forEach(c => {
+      while (f + 1 < settled.length && settled[f + 1].time <= c.closeTime) f++;
+      if (f >= 0) feed(c.closeTime, c.close, settled[f].fundingRate);
+    });
+  }
+  return signals;
+};
+
+const detectScanner = (preset: ScannerPreset, symbol: string, interval: KlineInterval, candles: Candle[], atr: (number | null)[], start: number) => {
+  const analyzer = createFlowAnalyzer();
+  const rules = SCANNER_PRESETS[preset];
+  const toUsd = (quote: string) => quoteToUsd(quote, {});
+  const dayCandles = Math.max(1, Math.round(DAY_MS / INTERVAL_MS[interval]));
+  const signals: Signal[] = [];
+  let rollingVolume = 0;
+  let wasMatch = false;
+
+  candles.forEach((c, i) => {
+    // A ticker per bar: 24h rolling quote volume and change, with the bar's taker flow as trades
+    rollingVolume += c.quoteVolume - (i >= dayCandles ? candles[i - dayCandles].quoteVolume : 0);
+    const dayOpen = candles[Math.max(0, i - dayCandles + 1)].open;
+    const takerBuy = Number.isFinite(c.takerBuyQuoteVolume) ? c.takerBuyQuoteVolume! : c.close >= c.open ? c.quoteVolume : 0;
+    analyzer.addTrades({ [symbol]: { symbol, buyVolume: takerBuy, sellVolume: c.quoteVolume - takerBuy, trades: 0, lastPrice: c.close, time: c.closeTime } }, c.closeTime);
+    const ticker: Ticker = { symbol, exchange: 'BINANCE', lastPrice: c.close, priceChangePercent: (c.close / dayOpen - 1) * 100, volume: rollingVolume, updatedAt: c.closeTime };
+    const analysis = analyzer.update([ticker], toUsd, c.closeTime)[symbol];
+    if (!analysis) return;
+
+    const isMatch = matchesScannerRules(analysis, rules);
+    if (isMatch && !wasMatch && c.openTime >= start) {
+      signals.push(withAtrLevels({
+        id: `scan_${preset}_${symbol}_${c.openTime}`,
+        strategy: `SpotSniper_${preset}`,
+        symbol,
+        side: 'BUY',
+        price: c.close,
+        time: new Date(c.closeTime).toISOString(),
+        note: `RVOL ${analysis.rvol.toFixed(1)}x, pressure ${analysis.pressure.toFixed(0)}%, 24h ${analysis.priceChangePercent.toFixed(2)}%`,
+        confidence: 0.7,
+        source: 'ALGO_SCANNER',
+        exchange: 'BINANCE',
+        timeframe: interval
+      }, atr[i]));
+    }
+    wasMatch = isMatch;
+  });
+  return signals;
+};
+
+// --- Trade Simulation ---
+
+// Funding paid over a holding period, in % of the position (longs pay positive rates)
+const fundingPaid = (long: boolean, from: number, to: number, settled: FundingRatePoint[]) =>
+  settled.filter(p => p.time > from && p.time <= to).reduce((sum, p) => sum + p.fundingRate * 100 * (long ? 1 : -1), 0);
+
+// One position per symbol: signals that fire while one is open are skipped
+const simulateTrades = (signals: Signal[], candles: Candle[], config: BacktestConfig, settled: FundingRatePoint[]) => {
+  const slip = config.slippageBps / 10000;
+  const fees = (config.feeBps / 100) * 2;
+  const trades: BacktestTrade[] = [];
+  let unresolved = 0;
+  let busyUntil = -Infinity;
+
+  signals.forEach(signal => {
+    const opened = Date.parse(signal.time);
+    if (opened < busyUntil) return;
+    const long = isLongSide(signal.side);
+    let tracked = openLifecycle({ ...signal, price: signal.price * (1 + (long ? slip : -slip)), source: 'BACKTEST' }, opened);
+
+    // Within a bar the adverse extreme is assumed to come first, like the live stop-first check
+    for (let i = candleIndexAt(candles, opened) + 1; i < candles.length && tracked.lifecycle!.state === 'OPEN'; i++) {
+      const c = candles[i];
+      for (const price of long ? [c.low, c.high, c.close] : [c.high, c.low, c.close]) {
+        tracked = advanceLifecycle(tracked, price, c.closeTime);
+        if (tracked.lifecycle!.state !== 'OPEN') break;
+      }
+    }
+
+    const life = tracked.lifecycle!;
+    if (life.state === 'OPEN') {
+      unresolved++;
+      busyUntil = Infinity;
+      return;
+    }
+    const exitPrice = life.exitPrice! * (1 - (long ? slip : -slip));
+    const grossPnl = signalPnl(tracked, exitPrice);
+    const funding = fundingPaid(long, opened, Date.parse(life.resolvedAt!), settled);
+    const netPnl = grossPnl - fees - funding;
+    trades.push({
+      signal: { ...tracked, lifecycle: { ...life, exitPrice, pnl: netPnl } },
+      entryPrice: tracked.price,
+      exitPrice,
+      grossPnl,
+      fees,
+      funding,
+      netPnl
+    });
+    busyUntil = Date.parse(life.resolvedAt!);
+  });
+
+  return { trades, unresolved };
+};
+
+const equityCurve = (trades: BacktestTrade[], config: BacktestConfig) => {
+  let equity = config.initialCapital;
+  let peak = equity;
+  let maxDrawdown = 0;
+  let maxDrawdownPct = 0;
+  const points = trades.map(t => {
+    equity += config.tradeSize * t.netPnl / 100;
+    peak = Math.max(peak, equity);
+    const drawdown = equity - peak;
+    maxDrawdown = Math.min(maxDrawdown, drawdown);
+    maxDrawdownPct = Math.min(maxDrawdownPct, peak > 0 ? (drawdown / peak) * 100 : 0);
+    return { time: Date.parse(t.signal.lifecycle!.resolvedAt!), equity, drawdown };
+  });
+  return { points, maxDrawdown, maxDrawdownPct, netProfit: equity - config.initialCapital };
+};
+
+// --- Runner ---
+
+export const runBacktest = async (
+  config: BacktestConfig,
+  onProgress?: (progress: BacktestProgress) => void,
+  isCancelled: () => boolean = () => false
+): Promise<BacktestResult> => {
+  const { strategy, interval, start, end } = config;
+  const market = marketFor(strategy);
+  const recorded = config.recording ? fundingFromRecording(config.recording) : {};
+  const warnings: string[] = [];
+  const trades: BacktestTrade[] = [];
+  let signalCount = 0;
+  let unresolved = 0;
+  let candleCount = 0;
+  let usedRecording = false;
+
+  if (strategy.kind === 'SCANNER' && SCANNER_PRESETS[strategy.preset].minImbalance > 0) {
+    warnings.push('This preset needs live order book depth, which candles do not have, so it never matches.');
+  }
+
+  for (const [index, symbol] of config.symbols.entries()) {
+    if (isCancelled()) break;
+    onProgress?.({ symbol, index, stage: 'candles' });
+    let candles: Candle[];
+    try {
+      candles = await fetchKlineRange(market, symbol, interval, start - warmupMs(strategy, interval), end, {
+        maxCandles: MAX_CANDLES_PER_SYMBOL,
+        onPage: loaded => onProgress?.({ symbol, index, stage: 'candles', loaded })
+      });
+    } catch (e) {
+      warnings.push(`${symbol}: ${(e as Error).message}`);
+      continue;
+    }
+    candles = candles.filter(c => c.isClosed);
+    if (candles.length === 0) {
+      warnings.push(`${symbol}: no ${market} candles in this range.`);
+      continue;
+    }
+    if (candles[candles.length - 1].closeTime < end - INTERVAL_MS[interval] && candles.length >= MAX_CANDLES_PER_SYMBOL) {
+      warnings.push(`${symbol}: stopped at ${MAX_CANDLES_PER_SYMBOL.toLocaleString()} candles, use a longer interval for the full range.`);
+    }
+    candleCount += candles.filter(c => c.openTime >= start).length;
+
+    let settled: FundingRatePoint[] = [];
+    if (market === 'futures') {
+      onProgress?.({ symbol, index, stage: 'funding' });
+      try {
+        settled = await fetchFundingHistory(symbol, start - warmupMs(strategy, interval), end);
+      } catch (e) {
+        warnings.push(`${symbol}: funding history unavailable (${(e as Error).message}), funding costs are left out.`);
+      }
+    }
+
+    onProgress?.({ symbol, index, stage: 'simulating' });
+    const atr = atrSeries(candles);
+    let signals: Signal[];
+    if (strategy.kind === 'INDICATOR') signals = detectIndicator(strategy.name, symbol, interval, candles, start, config.strategies);
+    else if (strategy.kind === 'SCANNER') signals = detectScanner(strategy.preset, symbol, interval, candles, atr, start);
+    else {
+      const points = recorded[symbol]?.filter(p => p.time >= start - warmupMs(strategy, interval) && p.time <= end);
+      if (points?.length) usedRecording = true;
+      signals = detectDivergence(symbol, candles, atr, start, points, settled, config.strategies);
+    }
+
+    signals = signals
+      .filter(s => Date.parse(s.time) <= end)
+      .map(s => ({ ...s, id: `bt_${s.id}` }))
+      .sort((a, b) => Date.parse(a.time) - Date.parse(b.time));
+    signalCount += signals.length;
+
+    const simulated = simulateTrades(signals, candles, config, settled);
+    trades.push(...simulated.trades);
+    unresolved += simulated.unresolved;
+  }
+
+  if (strategy.kind === 'DIVERGENCE' && !usedRecording) {
+    warnings.push('No recorded mark prices for these symbols, so detection used settled funding, which only changes every 8 hours. Load a recording for a closer match to live.');
+  }
+
+  trades.sort((a, b) => Date.parse(a.signal.lifecycle!.resolvedAt!) - Date.parse(b.signal.lifecycle!.resolvedAt!));
+  const curve = equityCurve(trades, config);
+  return {
+    trades,
+    signals: signalCount,
+    unresolved,
+    candles: candleCount,
+    stats: computeStats(backtestStrategyName(strategy), trades.map(t => t.signal), config.tradeSize),
+    equity: curve.points,
+    netProfit: curve.netProfit,
+    maxDrawdown: curve.maxDrawdown,
+    maxDrawdownPct: curve.maxDrawdownPct,
+    fundingSource: market === 'futures' ? (usedRecording ? 'RECORDED' : 'HISTORY') : null,
+    warnings
+  };
+};
@@ -0,0 +1,212 @@
+import { ConfluenceContributor, ConfluenceSource, Exchange, Signal } from '../types';
+import { AnalyzerState, Anomaly, AnomalyType } from './marketAnalysis';
+
+// --- Signal Confluence ---
+// Groups what the feeds say about a symbol (strategy signals, radar anomalies,
+// Spot Sniper hits and external alerts) per direction within a time window.
+// When enough independent source kinds agree, it emits one 'Confluence'
+// signal. The score treats each contributor as independent evidence, so it
+// rises with every agreeing input: 1 - Π(1 - confidence × weight).
+
+export type ConfluenceDirection = 'LONG' | 'SHORT';
+
+export interface ConfluenceConfig {
+  enabled: boolean;
+  windowMinutes: number;
+  minSources: number; // Distinct source kinds that must agree
+  minScore: number; // 0..1
+  weights: Record<ConfluenceSource, number>;
+}
+
+export interface ConfluenceObservation {
+  id: string; // The same input seen twice is only counted once
+  symbol: string;
+  direction: ConfluenceDirection | null; // null backs either direction, e.g. a volume spike
+  source: ConfluenceSource;
+  label: string;
+  confidence: number;
+  time: number;
+  price?: number;
+  exchange?: Exchange;
+  signalId?: string;
+}
+
+export const CONFLUENCE_SOURCES: ConfluenceSource[] = ['INDICATOR', 'FUNDING', 'RADAR', 'SCANNER', 'EXTERNAL'];
+
+export const CONFLUENCE_SOURCE_LABELS: Record<ConfluenceSource, string> = {
+  INDICATOR: 'Indicators',
+  FUNDING: 'Funding',
+  RADAR: 'Radar',
+  SCANNER: 'Spot Sniper',
+  EXTERNAL: 'Webhooks'
+};
+
+export const DEFAULT_CONFLUENCE: ConfluenceConfig = {
+  enabled: true,
+  windowMinutes: 15,
+  minSources: 2,
+  minScore: 0.6,
+  weights: { INDICATOR: 1, FUNDING: 1.2, RADAR: 0.6, SCANNER: 0.8, EXTERNAL: 1 }
+};
+
+const MAX_CONTRIBUTOR_CONFIDENCE = 0.95; // One input can't make a certainty on its own
+
+// --- Observations ---
+
+const SOURCE_BY_SIGNAL: Record<string, ConfluenceSource> = {
+  ALGO_INDICATOR: 'INDICATOR',
+  ALGO: 'FUNDING',
+  WEBHOOK: 'EXTERNAL',
+  MANUAL: 'EXTERNAL'
+};
+
+export const observationFromSignal = (s: Signal): ConfluenceObservation | null => {
+  const source = s.source ? SOURCE_BY_SIGNAL[s.source] : undefined;
+  if (!source || s.side === 'CLOSE') return null;
+  const time = Date.parse(s.time);
+  return {
+    id: s.id,
+    symbol: s.symbol,
+    direction: s.side === 'BUY' || s.side === 'LONG' ? 'LONG' : 'SHORT',
+    source,
+    label: s.strategy,
+    confidence: s.confidence ?? 0.5,
+    time: Number.isFinite(time) ? time : Date.now(),
+    price: s.price,
+    exchange: s.exchange,
+    signalId: s.id
+  };
+};
+
+const ANOMALY_DIRECTION: Record<AnomalyType, ConfluenceDirection | null> = {
+  PUMP: 'LONG',
+  DUMP: 'SHORT',
+  DIV_BULL: 'LONG',
+  DIV_BEAR: 'SHORT',
+  NEG_FUNDING: 'LONG', // Crowded shorts
+  VOLUME_SPIKE: null
+};
+
+const SEVERITY_CONFIDENCE: Record<Anomaly['severity'], number> = { HIGH: 0.8, MEDIUM: 0.6, LOW: 0.4 };
+
+export const observationFromAnomaly = (a: Anomaly, time: number, price?: number): ConfluenceObservation => ({
+  id: `${a.id}@${time}`,
+  symbol: a.symbol,
+  direction: ANOMALY_DIRECTION[a.type],
+  source: 'RADAR',
+  label: a.message,
+  confidence: SEVERITY_CONFIDENCE[a.severity],
+  time,
+  price
+});
+
+// Spot Sniper only looks for buy-side pressure
+export const observationFromScannerHit = (a: AnalyzerState, preset: string, time: number): ConfluenceObservation => ({
+  id: `scan_${a.symbol}@${time}`,
+  symbol: a.symbol,
+  direction: 'LONG',
+  source: 'SCANNER',
+  label: `Spot Sniper ${preset}`,
+  confidence: Math.min(1, a.pressure / 100),
+  time,
+  price: a.price
+});
+
+// --- Engine ---
+
+export const confluenceScore = (contributors: ConfluenceContributor[], weights: Record<ConfluenceSource, number>) =>
+  1 - contributors.reduce((miss, c) => miss * (1 - Math.min(MAX_CONTRIBUTOR_CONFIDENCE, c.confidence * weights[c.source])), 1);
+
+export const createConfluenceEngine = (initial: ConfluenceConfig = DEFAULT_CONFLUENCE) => {
+  let config = initial;
+  let recent: ConfluenceObservation[] = [];
+  let lastEmitted: Record<string, number> = {}; // symbol:direction -> time
+  let activeAnomalies = new Set<string>();
+
+  const windowMs = () => config.windowMinutes * 60 * 1000;
+
+  // Strongest input per source kind and label, oldest first
+  const contributorsFor = (symbol: string, direction: ConfluenceDirection): ConfluenceContributor[] => {
+    const best: Record<string, ConfluenceObservation> = {};
+    recent.forEach(o => {
+      if (o.symbol !== symbol || (o.direction !== direction && o.direction !== null)) return;
+      if (!(config.weights[o.source] > 0)) return; // Weight 0 switches a source kind off
+      const key = `${o.source}:${o.label}`;
+      if (!best[key] || o.confidence > best[key].confidence) best[key] = o;
+    });
+    return Object.values(best)
+      .sort((a, b) => a.time - b.time)
+      .map(o => ({ source: o.source, label: o.label, confidence: o.confidence, time: o.time, signalId: o.signalId }));
+  };
+
+  const evaluate = (symbol: string, direction: ConfluenceDirection, now: number): Signal | null => {
+    const group = recent.filter(o => o.symbol === symbol && (o.direction === direction || o.direction === null));
+    // Direction-neutral inputs back a setup but can't form one on their own
+    if (!group.some(o => o.direction === direction)) return null;
+
+    const contributors = contributorsFor(symbol, direction);
+    const kinds = new Set(contributors.map(c => c.source));
+    if (kinds.size < config.minSources) return null;
+    const score = confluenceScore(contributors, config.weights);
+    if (score < config.minScore) return null;
+
+    const key = `${symbol}:${direction}`;
+    if (lastEmitted[key] !== undefined && now - lastEmitted[key] < windowMs()) return null;
+    const priced = [...group].reverse().find(o => o.price);
+    if (!priced) return null;
+    lastEmitted[key] = now;
+
+    return {
+      id: `conf_${symbol}_${direction}_${now}`,
+      strategy: 'Confluence',
+      symbol,
+      side: direction,
+      price: priced.price!,
+      time: new Date(now).toISOString(),
+      note: `${kinds.size} source kinds agree within ${config.windowMinutes}m: ${contributors.map(c => c.label).join(', ')}`,
+      confidence: score,
+      source: 'CONFLUENCE',
+      exchange: [...group].reverse().find(o => o.exchange)?.exchange,
+      confluence: { score, windowMs: windowMs(), contributors }
+    };
+  };
+
+  const observe = (observations: ConfluenceObservation[], now = Date.now()): Signal[] => {
+    if (!config.enabled || observations.length === 0) return [];
+    const seen = new Set(recent.map(o => o.id));
+    const added = observations.filter(o => !seen.has(o.id));
+    recent = [...recent, ...added].filter(o => now - o.time < windowMs());
+
+    const touched = new Set<string>();
+    added.forEach(o => {
+      (o.direction ? [o.direction] : ['LONG', 'SHORT']).forEach(d => touched.add(`${o.symbol}|${d}`));
+    });
+    const out: Signal[] = [];
+    touched.forEach(key => {
+      const [symbol, direction] = key.split('|');
+      const signal = evaluate(symbol, direction as ConfluenceDirection, now);
+      if (signal) out.push(signal);
+    });
+    return out;
+  };
+
+  // The radar re-sends its list every batch; only anomalies that just appeared count
+  const observeAnomalies = (anomalies: Anomaly[], priceOf: (symbol: string) => number | undefined, now = Date.now()): Signal[] => {
+    const fresh = anomalies.filter(a => !activeAnomalies.has(a.id));
+    activeAnomalies = new Set(anomalies.map(a => a.id));
+    return observe(fresh.map(a => observationFromAnomaly(a, now, priceOf(a.symbol))), now);
+  };
+
+  return {
+    observe,
+    observeAnomalies,
+    setConfig: (next: ConfluenceConfig) => { config = next; },
+    reset: () => {
+      recent = [];
+      lastEmitted = {};
+      activeAnomalies = new Set();
+    }
+  };
+};
+
+export type ConfluenceEngine = ReturnType<typeof createConfluenceEngine>;
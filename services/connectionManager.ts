@@ -0,0 +1,177 @@
+import { StreamStatus } from '../types';
+
+// --- Managed WebSocket with Reconnect & Stale Detection ---
+
+// Minimal surface we need from a socket, so the browser WebSocket can be swapped
+// for other transports (tests, replays) without touching the stream parsers.
+export interface SocketLike {
+  onopen: ((event: Pick<Event, 'type'>) => void) | null;
+  onmessage: ((event: { data: string }) => void) | null;
+  onclose: ((event: Pick<CloseEvent, 'code' | 'reason'>) => void) | null;
+  onerror: ((event: Pick<Event, 'type'>) => void) | null;
+  send: (data: string) => void;
+  close: () => void;
+}
+
+export type SocketFactory = (url: string, name: string) => SocketLike;
+
+export const browserSocketFactory: SocketFactory = (url) => new WebSocket(url);
+
+// Observer for every data frame on every managed socket (used by the recorder)
+type MessageTap = (name: string, data: string) => void;
+let messageTap: MessageTap | null = null;
+
+export const setMessageTap = (tap: MessageTap | null) => {
+  messageTap = tap;
+};
+
+export interface ManagedSocketOptions {
+  name: string; // e.g. 'binance:spot', used for status reporting
+  url: string;
+  onMessage: (data: string) => void;
+  onOpen?: (send: (data: string) => void) => void; // Re-sent on every reconnect (subscriptions)
+  onStatus?: (status: StreamStatus) => void;
+  staleAfterMs?: number; // No message for this long => 'stale'
+  heartbeat?: {
+    intervalMs: number;
+    payload: string; // Sent while open, e.g. '{"op":"ping"}'
+    isReply: (data: string) => boolean; // Pongs keep the socket alive but don't count as data
+  };
+  minBackoffMs?: number;
+  maxBackoffMs?: number;
+  socketFactory?: SocketFactory;
+}
+
+export interface ManagedSocket {
+  send: (data: string) => boolean;
+  close: () => void;
+}
+
+const DEFAULT_STALE_MS = 10000;
+const DEFAULT_MIN_BACKOFF_MS = 1000;
+const DEFAULT_MAX_BACKOFF_MS = 30000;
+
+// Exponential backoff with jitter: attempt 0 => ~1s, doubling up to the cap.
+// Jitter spreads reconnects so all streams don't hammer the exchange at once.
+export const computeBackoff = (attempt: number, minMs = DEFAULT_MIN_BACKOFF_MS, maxMs = DEFAULT_MAX_BACKOFF_MS) => {
+  const ceiling = Math.min(maxMs, minMs * Math.pow(2, attempt));
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
+
+export const createManagedSocket = (options: ManagedSocketOptions): ManagedSocket => {
+  const {
+    url, onMessage, onOpen, onStatus, heartbeat,
+    staleAfterMs = DEFAULT_STALE_MS,
+    minBackoffMs = DEFAULT_MIN_BACKOFF_MS,
+    maxBackoffMs = DEFAULT_MAX_BACKOFF_MS,
+    socketFactory = browserSocketFactory
+  } = options;
+
+  let ws: SocketLike | null = null;
+  let isOpen = false;
+  let closedByUser = false;
+  let attempt = 0;
+  let status: StreamStatus | null = null;
+  let lastMessageAt = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let staleTimer: ReturnType<typeof setInterval> | null = null;
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  const setStatus = (next: StreamStatus) => {
+    if (status === next) return;
+    status = next;
+    onStatus?.(next);
+  };
+
+  const send = (data: string) => {
+    if (!ws || !isOpen) return false;
+    ws.send(data);
+    return true;
+  };
+
+  const teardownSocket = () => {
+    if (heartbeatTimer) clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+    if (!ws) return;
+    const old = ws;
+    ws = null;
+    isOpen = false;
+    old.onopen = old.onmessage = old.onclose = old.onerror = null;
+    try { old.close(); } catch (e) { /* already closed */ }
+  };
+
+  const scheduleReconnect = () => {
+    if (closedByUser || reconnectTimer) return;
+    teardownSocket();
+    setStatus('reconnecting');
+    const delay = computeBackoff(attempt, minBackoffMs, maxBackoffMs);
+    attempt++;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = () => {
+    if (closedByUser) return;
+    try {
+      ws = socketFactory(url, options.name);
+    } catch (e) {
+      console.error(`[${options.name}] Socket creation failed`, e);
+      scheduleReconnect();
+      return;
+    }
+
+    // Give the handshake the same window as a stale feed before giving up on it
+    lastMessageAt = Date.now();
+
+    ws.onopen = () => {
+      isOpen = true;
+      onOpen?.(send);
+      if (heartbeat) heartbeatTimer = setInterval(() => send(heartbeat.payload), heartbeat.intervalMs);
+    };
+
+    ws.onmessage = (event) => {
+      if (heartbeat && heartbeat.isReply(String(event.data))) return;
+      lastMessageAt = Date.now();
+      attempt = 0; // Only a delivered message proves the connection is healthy
+      setStatus('live');
+      messageTap?.(options.name, event.data);
+      onMessage(event.data);
+    };
+
+    ws.onerror = () => {
+      // onclose always follows onerror, reconnect is handled there
+    };
+
+    ws.onclose = () => {
+      scheduleReconnect();
+    };
+  };
+
+  staleTimer = setInterval(() => {
+    if (closedByUser || reconnectTimer) return;
+    const silentFor = Date.now() - lastMessageAt;
+    if (silentFor > staleAfterMs * 3) {
+      // Socket looks open but nothing is flowing: force a fresh connection
+      scheduleReconnect();
+    } else if (silentFor > staleAfterMs && status === 'live') {
+      setStatus('stale');
+    }
+  }, Math.max(250, Math.floor(staleAfterMs / 2)));
+
+  setStatus('connecting');
+  connect();
+
+  return {
+    send,
+    close: () => {
+      closedByUser = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      if (staleTimer) clearInterval(staleTimer);
+      reconnectTimer = null;
+      staleTimer = null;
+      teardownSocket();
+    }
+  };
+};
@@ -0,0 +1,232 @@
+import { OrderBook, BookLevel, StreamStatus } from '../types';
+import { createManagedSocket } from './connectionManager';
+import { getKlineEndpoints } from './klineService';
+import { FeedOptions, Disconnect, TradeSubscription, DEFAULT_BATCH_INTERVAL_MS, createBatcher, chunk } from './exchanges/common';
+
+// --- Binance Order Book Depth ---
+// Two ways to follow a book:
+// - `@depth20@100ms` pushes the top 20 levels as a full snapshot each time.
+//   Stateless, so it is cheap to follow for many symbols (Spot Sniper).
+// - `@depth@100ms` pushes diffs that are applied to a REST snapshot, giving a
+//   deep local book for one symbol (the order book panel).
+
+type LevelPayload = [string, string]; // [price, quantity]
+
+type PartialDepthPayload = {
+  lastUpdateId: number;
+  bids: LevelPayload[];
+  asks: LevelPayload[];
+};
+
+type DepthUpdatePayload = {
+  e: 'depthUpdate';
+  E: number; // Event time
+  s: string; // Symbol
+  U: number; // First update ID in event
+  u: number; // Final update ID in event
+  b: LevelPayload[];
+  a: LevelPayload[];
+};
+
+const SNAPSHOT_LIMIT = 1000; // Levels per side fetched from REST
+const SNAPSHOT_RETRY_MS = 3000;
+const MAX_BUFFERED_UPDATES = 1000; // Diffs held while the snapshot is in flight
+const BOOK_EMIT_LEVELS = 200; // Levels per side handed on from the local book
+
+const parseLevels = (levels: LevelPayload[]): BookLevel[] =>
+  levels.map(([p, q]) => [parseFloat(p), parseFloat(q)] as BookLevel);
+
+// --- Partial Book (depth20) ---
+
+export const connectToPartialDepth = (
+  onBooks: (books: Record<string, OrderBook>) => void,
+  onStatus?: (status: StreamStatus) => void,
+  options: FeedOptions = {}
+): TradeSubscription => {
+  let symbols = new Set<string>();
+  let requestId = 0;
+  const streamName = (symbol: string) => `${symbol.toLowerCase()}@depth20@100ms`;
+  // Each push replaces the last one for the symbol, only the newest book is flushed
+  const batcher = createBatcher<OrderBook>(onBooks, options.batchIntervalMs ?? DEFAULT_BATCH_INTERVAL_MS);
+
+  const request = (send: (data: string) => boolean | void, method: 'SUBSCRIBE' | 'UNSUBSCRIBE', list: string[]) => {
+    chunk(list.map(streamName), 200).forEach(params => send(JSON.stringify({ method, params, id: ++requestId })));
+  };
+
+  // The combined endpoint wraps each payload with its stream name, which is
+  // the only place the symbol appears for partial depth
+  const socket = createManagedSocket({
+    name: 'binance:depth',
+    url: 'wss://stream.binance.com:9443/stream',
+    onStatus,
+    socketFactory: options.socketFactory,
+    staleAfterMs: 5000,
+    onOpen: (send) => request(send, 'SUBSCRIBE', Array.from(symbols)),
+    onMessage: (raw) => {
+      try {
+        const msg: { stream?: string; data?: PartialDepthPayload } = JSON.parse(raw);
+        if (!msg.stream || !msg.data) return; // Subscription acks
+        const symbol = msg.stream.split('@')[0].toUpperCase();
+        batcher.push(symbol, {
+          symbol,
+          bids: parseLevels(msg.data.bids),
+          asks: parseLevels(msg.data.asks),
+          lastUpdateId: msg.data.lastUpdateId,
+          time: Date.now()
+        });
+      } catch (e) {
+        console.error("Depth WS Parse Error", e);
+      }
+    }
+  });
+
+  return {
+    setSymbols: (next) => {
+      const nextSet = new Set(next);
+      const added = next.filter(s => !symbols.has(s));
+      const removed = Array.from(symbols).filter(s => !nextSet.has(s));
+      symbols = nextSet;
+      if (removed.length) request(socket.send, 'UNSUBSCRIBE', removed);
+      if (added.length) request(socket.send, 'SUBSCRIBE', added);
+    },
+    close: () => {
+      socket.close();
+      batcher.cancel();
+    }
+  };
+};
+
+// --- Local Book (diff depth + snapshot) ---
+
+const fetchDepthSnapshot = async (symbol: string): Promise<PartialDepthPayload> => {
+  const res = await fetch(`${getKlineEndpoints().spotRest}/api/v3/depth?symbol=${symbol}&limit=${SNAPSHOT_LIMIT}`);
+  if (!res.ok) throw new Error(`depth ${symbol}: HTTP ${res.status}`);
+  return res.json();
+};
+
+const sortedLevels = (levels: Map<number, number>, descending: boolean): BookLevel[] =>
+  Array.from(levels.entries())
+    .sort((a, b) => (descending ? b[0] - a[0] : a[0] - b[0]))
+    .slice(0, BOOK_EMIT_LEVELS);
+
+// Follows Binance's sync procedure: buffer diffs, fetch a snapshot, drop diffs
+// it already contains, then apply the rest in order. Any gap in update IDs
+// means a missed message, so the book is thrown away and synced again.
+export const connectToOrderBook = (
+  symbol: string,
+  onBook: (book: OrderBook) => void,
+  onStatus?: (status: StreamStatus) => void,
+  options: FeedOptions = {}
+): Disconnect => {
+  let bids = new Map<number, number>();
+  let asks = new Map<number, number>();
+  let lastUpdateId = 0;
+  let synced = false;
+  let syncing = false;
+  let retryAt = 0;
+  let generation = 0; // Bumped on every resync so late snapshots are ignored
+  let closed = false;
+  let buffer: DepthUpdatePayload[] = [];
+  let emitTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const emit = () => {
+    emitTimer = null;
+    if (!synced) return;
+    onBook({ symbol, bids: sortedLevels(bids, true), asks: sortedLevels(asks, false), lastUpdateId, time: Date.now() });
+  };
+
+  const scheduleEmit = () => {
+    if (!emitTimer) emitTimer = setTimeout(emit, options.batchIntervalMs ?? DEFAULT_BATCH_INTERVAL_MS);
+  };
+
+  const resync = () => {
+    generation++;
+    synced = false;
+    syncing = false;
+    buffer = [];
+    bids = new Map();
+    asks = new Map();
+  };
+
+  const applyLevels = (side: Map<number, number>, levels: LevelPayload[]) => {
+    levels.forEach(([p, q]) => {
+      const qty = parseFloat(q);
+      if (qty === 0) side.delete(parseFloat(p));
+      else side.set(parseFloat(p), qty);
+    });
+  };
+
+  // Returns false when the update doesn't follow on from the book
+  const applyUpdate = (event: DepthUpdatePayload) => {
+    if (event.u <= lastUpdateId) return true; // Already in the snapshot
+    if (event.U > lastUpdateId + 1) return false;
+    applyLevels(bids, event.b);
+    applyLevels(asks, event.a);
+    lastUpdateId = event.u;
+    return true;
+  };
+
+  const sync = async () => {
+    syncing = true;
+    const current = generation;
+    try {
+      const snapshot = await fetchDepthSnapshot(symbol);
+      if (closed || current !== generation) return;
+      bids = new Map(parseLevels(snapshot.bids));
+      asks = new Map(parseLevels(snapshot.asks));
+      lastUpdateId = snapshot.lastUpdateId;
+
+      const pending = buffer;
+      buffer = [];
+      syncing = false;
+      if (!pending.every(applyUpdate)) {
+        resync(); // Snapshot is older than the first buffered diff, try again
+        return;
+      }
+      synced = true;
+      scheduleEmit();
+    } catch (e) {
+      if (current !== generation) return;
+      console.error(`Depth snapshot failed for ${symbol}`, e);
+      resync();
+      retryAt = Date.now() + SNAPSHOT_RETRY_MS;
+    }
+  };
+
+  const socket = createManagedSocket({
+    name: 'binance:book',
+    url: `wss://stream.binance.com:9443/ws/${symbol.toLowerCase()}@depth@100ms`,
+    onStatus,
+    socketFactory: options.socketFactory,
+    staleAfterMs: 10000, // Thin books can go quiet for a few seconds
+    onOpen: () => resync(), // Anything missed while disconnected breaks the chain
+    onMessage: (raw) => {
+      try {
+        const event: DepthUpdatePayload = JSON.parse(raw);
+        if (event.e !== 'depthUpdate') return;
+
+        if (!synced) {
+          buffer.push(event);
+          if (buffer.length > MAX_BUFFERED_UPDATES) buffer.shift();
+          if (!syncing && Date.now() >= retryAt) sync();
+          return;
+        }
+        if (!applyUpdate(event)) {
+          resync();
+          buffer.push(event);
+          sync();
+          return;
+        }
+        scheduleEmit();
+      } catch (e) {
+        console.error("Book WS Parse Error", e);
+      }
+    }
+  });
+
+  return () => {
+    closed = true;
+    socket.close();
+    if (emitTimer) clearTimeout(emitTimer);
+  };
+};
@@ -0,0 +1,154 @@
+import { Ticker, FuturesTicker, Liquidation } from '../../types';
+import { DEFAULT_WATCHLIST } from '../../constants';
+import { createManagedSocket } from '../connectionManager';
+import { ExchangeAdapter, FeedOptions, createBatcher, chunk, marketKey, MIN_LIQUIDATION_VALUE } from './common';
+
+// --- Bybit v5 Public Streams ---
+// Bybit has no "all market" ticker stream, so we subscribe per symbol.
+
+type BybitMessage<T> = {
+  topic?: string;
+  type?: 'snapshot' | 'delta';
+  ts?: number;
+  data?: T;
+};
+
+type BybitSpotTicker = {
+  symbol: string;
+  lastPrice: string;
+  price24hPcnt: string; // Fraction, 0.0123 = 1.23%
+  turnover24h: string; // Quote volume
+};
+
+type BybitLinearTicker = {
+  symbol: string;
+  markPrice?: string;
+  indexPrice?: string;
+  fundingRate?: string;
+  nextFundingTime?: string; // ms as string
+};
+
+type BybitLiquidation = {
+  T: number; // Time
+  s: string; // Symbol
+  S: 'Buy' | 'Sell'; // Position side that was liquidated (Buy = long)
+  v: string; // Size
+  p: string; // Bankruptcy price
+};
+
+const SPOT_URL = 'wss://stream.bybit.com/v5/public/spot';
+const LINEAR_URL = 'wss://stream.bybit.com/v5/public/linear';
+
+const HEARTBEAT = {
+  intervalMs: 20000,
+  payload: JSON.stringify({ op: 'ping' }),
+  isReply: (data: string) => data.includes('"pong"')
+};
+
+const subscribe = (topics: string[]) => (send: (data: string) => void) => {
+  // Spot accepts at most 10 args per request
+  chunk(topics, 10).forEach(args => send(JSON.stringify({ op: 'subscribe', args })));
+};
+
+export const createBybitAdapter = (symbols: string[] = DEFAULT_WATCHLIST, options: FeedOptions = {}): ExchangeAdapter => ({
+  id: 'BYBIT',
+  label: 'Bybit',
+
+  connectSpot: (onTickers, onStatus) => {
+    const batcher = createBatcher<Ticker>(onTickers, options.batchIntervalMs);
+    const socket = createManagedSocket({
+      name: 'bybit:spot',
+      url: SPOT_URL,
+      onStatus,
+      socketFactory: options.socketFactory,
+      heartbeat: HEARTBEAT,
+      onOpen: subscribe(symbols.map(s => `tickers.${s}`)),
+      onMessage: (raw) => {
+        try {
+          const msg: BybitMessage<BybitSpotTicker> = JSON.parse(raw);
+          if (!msg.topic?.startsWith('tickers.') || !msg.data) return;
+          const t = msg.data;
+          batcher.push(marketKey('BYBIT', t.symbol), {
+            symbol: t.symbol,
+            exchange: 'BYBIT',
+            lastPrice: parseFloat(t.lastPrice),
+            priceChangePercent: parseFloat(t.price24hPcnt) * 100,
+            volume: parseFloat(t.turnover24h),
+            updatedAt: msg.ts || Date.now()
+          });
+        } catch (e) {
+          console.error("Bybit Spot WS Parse Error", e);
+        }
+      }
+    });
+    return () => { socket.close(); batcher.cancel(); };
+  },
+
+  connectFutures: (onFutures, onStatus) => {
+    const batcher = createBatcher<Partial<FuturesTicker>>(onFutures, options.batchIntervalMs);
+    const socket = createManagedSocket({
+      name: 'bybit:futures',
+      url: LINEAR_URL,
+      onStatus,
+      socketFactory: options.socketFactory,
+      heartbeat: HEARTBEAT,
+      onOpen: subscribe(symbols.map(s => `tickers.${s}`)),
+      onMessage: (raw) => {
+        try {
+          const msg: BybitMessage<BybitLinearTicker> = JSON.parse(raw);
+          if (!msg.topic?.startsWith('tickers.') || !msg.data) return;
+          const t = msg.data;
+          // Deltas only carry changed fields, leave the rest undefined so App merges them
+          const update: Partial<FuturesTicker> = { symbol: t.symbol, exchange: 'BYBIT' };
+          if (t.markPrice !== undefined) update.markPrice = parseFloat(t.markPrice);
+          if (t.indexPrice !== undefined) update.indexPrice = parseFloat(t.indexPrice);
+          if (t.fundingRate !== undefined) update.fundingRate = parseFloat(t.fundingRate);
+          if (t.nextFundingTime !== undefined) update.nextFundingTime = parseInt(t.nextFundingTime, 10);
+          batcher.push(marketKey('BYBIT', t.symbol), update, (prev, next) => ({ ...prev, ...next }));
+        } catch (e) {
+          console.error("Bybit Futures WS Parse Error", e);
+        }
+      }
+    });
+    return () => { socket.close(); batcher.cancel(); };
+  },
+
+  connectLiquidations: (onLiquidation, onStatus) => {
+    const socket = createManagedSocket({
+      name: 'bybit:liquidations',
+      url: LINEAR_URL,
+      onStatus,
+      socketFactory: options.socketFactory,
+      heartbeat: HEARTBEAT,
+      staleAfterMs: 120000,
+      onOpen: subscribe(symbols.map(s => `allLiquidation.${s}`)),
+      onMessage: (raw) => {
+        try {
+          const msg: BybitMessage<BybitLiquidation[]> = JSON.parse(raw);
+          if (!msg.topic?.startsWith('allLiquidation.') || !Array.isArray(msg.data)) return;
+          msg.data.forEach(o => {
+            const price = parseFloat(o.p);
+            const amount = parseFloat(o.v);
+            const value = price * amount;
+            if (value < MIN_LIQUIDATION_VALUE) return;
+
+            const liq: Liquidation = {
+              id: `bybit_${o.s}_${o.T}_${Math.random().toString(36).substring(7)}`,
+              symbol: o.s,
+              exchange: 'BYBIT',
+              side: o.S === 'Buy' ? 'LONG' : 'SHORT',
+              price,
+              amount,
+              value,
+              time: o.T
+            };
+            onLiquidation(liq);
+          });
+        } catch (e) {
+          console.error("Bybit Liquidation WS Parse Error", e);
+        }
+      }
+    });
+    return () => socket.close();
+  }
+});
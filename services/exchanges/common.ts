@@ -0,0 +1,103 @@
+import { Ticker, FuturesTicker, Liquidation, StreamStatus, Exchange, TradeFlow, OrderBook } from '../../types';
+import { SocketFactory } from '../connectionManager';
+
+// --- Common Feed Interface ---
+
+export type Disconnect = () => void;
+
+// Trade streams are per symbol, so callers choose (and change) what to follow
+export interface TradeSubscription {
+  setSymbols: (symbols: string[]) => void;
+  close: Disconnect;
+}
+
+export type ConnectTrades = (onFlow: (flows: Record<string, TradeFlow>) => void, onStatus?: (status: StreamStatus) => void) => TradeSubscription;
+
+// Top-of-book snapshots for many symbols, same subscription model as trades
+export type ConnectDepth = (onBooks: (books: Record<string, OrderBook>) => void, onStatus?: (status: StreamStatus) => void) => TradeSubscription;
+
+// Full local book for one symbol, kept in sync from diff updates
+export type ConnectOrderBook = (symbol: string, onBook: (book: OrderBook) => void, onStatus?: (status: StreamStatus) => void) => Disconnect;
+
+// A source of normalized market data. Live exchanges, replays and the simulator
+// all implement this so App.tsx doesn't care where the numbers come from.
+export interface MarketFeed {
+  connectSpot: (onTickers: (tickers: Record<string, Ticker>) => void, onStatus?: (status: StreamStatus) => void) => Disconnect;
+  connectFutures: (onFutures: (updates: Record<string, Partial<FuturesTicker>>) => void, onStatus?: (status: StreamStatus) => void) => Disconnect;
+  connectLiquidations: (onLiquidation: (liq: Liquidation) => void, onStatus?: (status: StreamStatus) => void) => Disconnect;
+  connectTrades?: ConnectTrades; // Optional: only venues with a taker-side trade stream
+  connectDepth?: ConnectDepth; // Optional: partial book streams
+  connectOrderBook?: ConnectOrderBook; // Optional: needs a REST snapshot, so live only
+}
+
+export interface ExchangeAdapter extends MarketFeed {
+  id: Exchange;
+  label: string;
+}
+
+// Transport and pacing overrides, so replays can drive the same parsers as live data
+export interface FeedOptions {
+  socketFactory?: SocketFactory;
+  batchIntervalMs?: number; // How often batched updates are flushed, 1000ms live
+}
+
+export const DEFAULT_BATCH_INTERVAL_MS = 1000;
+
+export const PRIMARY_EXCHANGE: Exchange = 'BINANCE';
+
+export const EXCHANGE_META: Record<Exchange, { label: string; short: string; tvPrefix: string; badge: string }> = {
+  BINANCE: { label: 'Binance', short: 'BIN', tvPrefix: 'BINANCE', badge: 'text-warning bg-warning/10' },
+  BYBIT: { label: 'Bybit', short: 'BYB', tvPrefix: 'BYBIT', badge: 'text-orange-500 bg-orange-500/10' },
+  OKX: { label: 'OKX', short: 'OKX', tvPrefix: 'OKX', badge: 'text-text bg-surface-highlight' },
+};
+
+// Market data records are keyed by this. Binance keeps the bare symbol so every
+// existing lookup (`marketData[signal.symbol]`) keeps working; other venues are
+// namespaced to avoid collisions (e.g. 'BYBIT:BTCUSDT').
+export const marketKey = (exchange: Exchange | undefined, symbol: string) =>
+  !exchange || exchange === PRIMARY_EXCHANGE ? symbol : `${exchange}:${symbol}`;
+
+export const parseMarketKey = (key: string): { exchange: Exchange; symbol: string } => {
+  const [prefix, rest] = key.split(':');
+  return rest && prefix in EXCHANGE_META ? { exchange: prefix as Exchange, symbol: rest } : { exchange: PRIMARY_EXCHANGE, symbol: key };
+};
+
+export const exchangeOf = (item: { exchange?: Exchange }): Exchange => item.exchange || PRIMARY_EXCHANGE;
+
+export const tradingViewLink = (exchange: Exchange | undefined, symbol: string, perpetual = false) =>
+  `https://www.tradingview.com/chart/?symbol=${EXCHANGE_META[exchange || PRIMARY_EXCHANGE].tvPrefix}:${symbol}${perpetual ? '.P' : ''}`;
+
+// Per-symbol streams arrive one message at a time; collect them and flush to
+// React at a fixed cadence like the Binance array streams do.
+export const createBatcher = <T>(flush: (batch: Record<string, T>) => void, intervalMs = DEFAULT_BATCH_INTERVAL_MS) => {
+  let pending: Record<string, T> = {};
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  return {
+    push: (key: string, value: T, merge?: (prev: T, next: T) => T) => {
+      pending[key] = merge && pending[key] ? merge(pending[key], value) : value;
+      if (!timer) {
+        timer = setTimeout(() => {
+          const batch = pending;
+          pending = {};
+          timer = null;
+          flush(batch);
+        }, intervalMs);
+      }
+    },
+    cancel: () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      pending = {};
+    }
+  };
+};
+
+// Split a subscription list into exchange-friendly request sizes
+export const chunk = <T>(items: T[], size: number): T[][] => {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+};
+
+export const MIN_LIQUIDATION_VALUE = 500; // Filter tiny liquidations to reduce noise
@@ -0,0 +1,38 @@
+import { Exchange } from '../../types';
+import { connectToBinance, connectToBinanceFutures, connectToLiquidations, connectToAggTrades } from '../marketData';
+import { connectToPartialDepth, connectToOrderBook } from '../depthService';
+import { ExchangeAdapter, FeedOptions } from './common';
+import { createBybitAdapter } from './bybit';
+import { createOkxAdapter } from './okx';
+
+export * from './common';
+
+// --- Adapter Registry ---
+
+export const createBinanceAdapter = (options: FeedOptions = {}): ExchangeAdapter => ({
+  id: 'BINANCE',
+  label: 'Binance',
+  connectSpot: (onTickers, onStatus) => connectToBinance(onTickers, onStatus, options),
+  connectFutures: (onFutures, onStatus) => connectToBinanceFutures(onFutures, onStatus, options),
+  connectLiquidations: (onLiquidation, onStatus) => connectToLiquidations(onLiquidation, onStatus, options),
+  connectTrades: (onFlow, onStatus) => connectToAggTrades(onFlow, onStatus, options),
+  connectDepth: (onBooks, onStatus) => connectToPartialDepth(onBooks, onStatus, options),
+  // Replays have no REST snapshot to sync diffs against
+  connectOrderBook: options.socketFactory ? undefined : (symbol, onBook, onStatus) => connectToOrderBook(symbol, onBook, onStatus, options),
+});
+
+export const createExchangeAdapter = (id: Exchange, options: FeedOptions = {}): ExchangeAdapter => {
+  switch (id) {
+    case 'BYBIT': return createBybitAdapter(undefined, options);
+    case 'OKX': return createOkxAdapter(undefined, options);
+    default: return createBinanceAdapter(options);
+  }
+};
+
+export const EXCHANGE_ADAPTERS: Record<Exchange, ExchangeAdapter> = {
+  BINANCE: createBinanceAdapter(),
+  BYBIT: createBybitAdapter(),
+  OKX: createOkxAdapter(),
+};
+
+export const ALL_EXCHANGES = Object.keys(EXCHANGE_ADAPTERS) as Exchange[];
@@ -0,0 +1,228 @@
+import { Ticker, FuturesTicker, Liquidation } from '../../types';
+import { DEFAULT_WATCHLIST } from '../../constants';
+import { createManagedSocket } from '../connectionManager';
+import { ExchangeAdapter, FeedOptions, createBatcher, marketKey, MIN_LIQUIDATION_VALUE } from './common';
+
+// --- OKX v5 Public Streams ---
+// OKX uses dashed instrument ids ('BTC-USDT', 'BTC-USDT-SWAP'); we normalize
+// them to the Binance-style symbols the rest of the app uses.
+
+type OkxTicker = { instId: string; last: string; open24h: string; volCcy24h: string; ts: string };
+type OkxMarkPrice = { instId: string; markPx: string; ts: string };
+type OkxFundingRate = { instId: string; fundingRate: string; fundingTime: string };
+type OkxIndexTicker = { instId: string; idxPx: string };
+type OkxLiquidationOrder = {
+  instId: string;
+  details: { side: 'buy' | 'sell'; posSide: 'long' | 'short' | 'net'; bkPx: string; sz: string; ts: string }[];
+};
+
+// Data rows by channel
+type OkxChannels = {
+  'tickers': OkxTicker;
+  'mark-price': OkxMarkPrice;
+  'funding-rate': OkxFundingRate;
+  'index-tickers': OkxIndexTicker;
+  'liquidation-orders': OkxLiquidationOrder;
+};
+type OkxChannel = keyof OkxChannels;
+
+type OkxPush = {
+  [C in OkxChannel]: { arg: { channel: C; instId?: string; instType?: string }; data: OkxChannels[C][] };
+}[OkxChannel];
+
+// Subscription acks and errors, which carry no data
+type OkxEvent = { event: 'subscribe' | 'unsubscribe' | 'error'; arg?: { channel: string }; code?: string; msg?: string };
+
+type OkxMessage = OkxPush | OkxEvent;
+
+// The rows of a push on `channel`, null for anything else
+const channelData = <C extends OkxChannel>(msg: OkxMessage, channel: C): OkxChannels[C][] | null =>
+  'data' in msg && msg.arg.channel === channel && Array.isArray(msg.data) ? msg.data as OkxChannels[C][] : null;
+
+const PUBLIC_URL = 'wss://ws.okx.com:8443/ws/v5/public';
+const MAX_QUEUED_LIQUIDATIONS = 500; // Held while the instruments load
+const INSTRUMENTS_URL = 'https://www.okx.com/api/v5/public/instruments?instType=SWAP';
+
+const HEARTBEAT = {
+  intervalMs: 25000,
+  payload: 'ping',
+  isReply: (data: string) => data === 'pong'
+};
+
+export const toOkxInstId = (symbol: string, swap = false) => {
+  const base = symbol.endsWith('USDT') ? symbol.slice(0, -4) : symbol;
+  return `${base}-USDT${swap ? '-SWAP' : ''}`;
+};
+
+export const fromOkxInstId = (instId: string) => instId.replace('-SWAP', '').replace('-', '');
+
+// Swap sizes are in contracts, contract value differs per instrument
+let contractValues: Promise<Record<string, number>> | null = null;
+const loadContractValues = () => {
+  if (!contractValues) {
+    contractValues = fetch(INSTRUMENTS_URL)
+      .then(res => res.json())
+      .then((json: { data?: { instId: string; ctVal: string }[] }) => {
+        const map: Record<string, number> = {};
+        (json.data || []).forEach(i => { map[i.instId] = parseFloat(i.ctVal); });
+        return map;
+      })
+      .catch(e => {
+        console.error("OKX instruments fetch failed", e);
+        contractValues = null; // Retry on next connect
+        return {};
+      });
+  }
+  return contractValues;
+};
+
+const subscribe = (args: Record<string, string>[]) => (send: (data: string) => void) => {
+  send(JSON.stringify({ op: 'subscribe', args }));
+};
+
+export const createOkxAdapter = (symbols: string[] = DEFAULT_WATCHLIST, options: FeedOptions = {}): ExchangeAdapter => ({
+  id: 'OKX',
+  label: 'OKX',
+
+  connectSpot: (onTickers, onStatus) => {
+    const batcher = createBatcher<Ticker>(onTickers, options.batchIntervalMs);
+    const socket = createManagedSocket({
+      name: 'okx:spot',
+      url: PUBLIC_URL,
+      onStatus,
+      socketFactory: options.socketFactory,
+      heartbeat: HEARTBEAT,
+      onOpen: subscribe(symbols.map(s => ({ channel: 'tickers', instId: toOkxInstId(s) }))),
+      onMessage: (raw) => {
+        try {
+          const msg: OkxMessage = JSON.parse(raw);
+          channelData(msg, 'tickers')?.forEach(t => {
+            const symbol = fromOkxInstId(t.instId);
+            const last = parseFloat(t.last);
+            const open = parseFloat(t.open24h);
+            batcher.push(marketKey('OKX', symbol), {
+              symbol,
+              exchange: 'OKX',
+              lastPrice: last,
+              priceChangePercent: open > 0 ? ((last - open) / open) * 100 : 0,
+              volume: parseFloat(t.volCcy24h), // Quote currency volume for spot
+              updatedAt: parseInt(t.ts, 10)
+            });
+          });
+        } catch (e) {
+          console.error("OKX Spot WS Parse Error", e);
+        }
+      }
+    });
+    return () => { socket.close(); batcher.cancel(); };
+  },
+
+  connectFutures: (onFutures, onStatus) => {
+    const batcher = createBatcher<Partial<FuturesTicker>>(onFutures, options.batchIntervalMs);
+    const merge = (prev: Partial<FuturesTicker>, next: Partial<FuturesTicker>) => ({ ...prev, ...next });
+    const push = (symbol: string, fields: Partial<FuturesTicker>) =>
+      batcher.push(marketKey('OKX', symbol), { symbol, exchange: 'OKX', ...fields }, merge);
+
+    const socket = createManagedSocket({
+      name: 'okx:futures',
+      url: PUBLIC_URL,
+      onStatus,
+      socketFactory: options.socketFactory,
+      heartbeat: HEARTBEAT,
+      onOpen: subscribe([
+        ...symbols.map(s => ({ channel: 'mark-price', instId: toOkxInstId(s, true) })),
+        ...symbols.map(s => ({ channel: 'funding-rate', instId: toOkxInstId(s, true) })),
+        ...symbols.map(s => ({ channel: 'index-tickers', instId: toOkxInstId(s) })),
+      ]),
+      onMessage: (raw) => {
+        try {
+          const msg: OkxMessage = JSON.parse(raw);
+          channelData(msg, 'mark-price')?.forEach(d => push(fromOkxInstId(d.instId), { markPrice: parseFloat(d.markPx) }));
+          channelData(msg, 'funding-rate')?.forEach(d => push(fromOkxInstId(d.instId), {
+            fundingRate: parseFloat(d.fundingRate),
+            nextFundingTime: parseInt(d.fundingTime, 10)
+          }));
+          channelData(msg, 'index-tickers')?.forEach(d => push(fromOkxInstId(d.instId), { indexPrice: parseFloat(d.idxPx) }));
+        } catch (e) {
+          console.error("OKX Futures WS Parse Error", e);
+        }
+      }
+    });
+    return () => { socket.close(); batcher.cancel(); };
+  },
+
+  connectLiquidations: (onLiquidation, onStatus) => {
+    // Orders can't be sized until the contract values load; they wait in `queued` until then
+    let ctVals: Record<string, number> | null = null;
+    let queued: OkxLiquidationOrder[] = [];
+    let closed = false;
+
+    const emit = (order: OkxLiquidationOrder) => {
+      const ctVal = ctVals?.[order.instId];
+      if (!ctVal) return; // Not a listed swap (yet)
+      const symbol = fromOkxInstId(order.instId);
+
+      order.details.forEach(d => {
+        const price = parseFloat(d.bkPx);
+        const amount = parseFloat(d.sz) * ctVal;
+        const value = price * amount;
+        if (value < MIN_LIQUIDATION_VALUE) return;
+
+        // In net mode the liquidation order side tells us the position: sell closes a long
+        const isLong = d.posSide === 'long' || (d.posSide === 'net' && d.side === 'sell');
+        const liq: Liquidation = {
+          id: `okx_${symbol}_${d.ts}_${Math.random().toString(36).substring(7)}`,
+          symbol,
+          exchange: 'OKX',
+          side: isLong ? 'LONG' : 'SHORT',
+          price,
+          amount,
+          value,
+          time: parseInt(d.ts, 10)
+        };
+        onLiquidation(liq);
+      });
+    };
+
+    // A failed fetch resolves empty; the next (re)connect tries again
+    const loadInstruments = () => {
+      loadContractValues().then(map => {
+        if (closed || ctVals || Object.keys(map).length === 0) return;
+        ctVals = map;
+        const pending = queued;
+        queued = [];
+        pending.forEach(emit);
+      });
+    };
+
+    const socket = createManagedSocket({
+      name: 'okx:liquidations',
+      url: PUBLIC_URL,
+      onStatus,
+      socketFactory: options.socketFactory,
+      heartbeat: HEARTBEAT,
+      staleAfterMs: 120000,
+      onOpen: send => {
+        if (!ctVals) loadInstruments();
+        subscribe([{ channel: 'liquidation-orders', instType: 'SWAP' }])(send);
+      },
+      onMessage: (raw) => {
+        try {
+          const msg: OkxMessage = JSON.parse(raw);
+          channelData(msg, 'liquidation-orders')?.forEach(order => {
+            if (!order.instId.endsWith('-USDT-SWAP')) return;
+            if (ctVals) emit(order);
+            else queued = [...queued, order].slice(-MAX_QUEUED_LIQUIDATIONS);
+          });
+        } catch (e) {
+          console.error("OKX Liquidation WS Parse Error", e);
+        }
+      }
+    });
+    return () => {
+      closed = true;
+      queued = [];
+      socket.close();
+    };
+  }
+});
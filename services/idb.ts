@@ -0,0 +1,38 @@
+// --- IndexedDB Helpers ---
+// Thin promise wrappers; each service owns its own database and schema.
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+export const promisifyRequest = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+// Opens (and caches) a database. `upgrade` receives the old version so schemas can migrate step by step.
+const connections: Record<string, Promise<IDBDatabase>> = {};
+
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number, tx: IDBTransaction) => void
+): Promise<IDBDatabase> => {
+  if (!connections[name]) {
+    connections[name] = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(name, version);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion, request.transaction!);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error(`${name} upgrade blocked by another open tab`));
+    }).catch(e => {
+      delete connections[name]; // Allow a retry later
+      throw e;
+    });
+  }
+  return connections[name];
+};
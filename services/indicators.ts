@@ -0,0 +1,208 @@
+import { Candle } from '../types';
+
+// --- Incremental Indicator Library ---
+// Every indicator keeps only the state it needs and updates in O(1) per bar.
+// `update(input, commit)` returns the value including `input`; state only
+// advances when `commit` is true, so the still-forming live candle can be
+// re-evaluated on every tick and committed once it closes.
+
+export interface Indicator<TIn, TOut> {
+  update: (input: TIn, commit?: boolean) => TOut | null;
+}
+
+// --- Moving Averages ---
+
+export const createSMA = (period: number): Indicator<number, number> => {
+  const window: number[] = [];
+  let sum = 0;
+
+  return {
+    update: (value, commit = true) => {
+      const full = window.length >= period;
+      const nextSum = sum + value - (full ? window[0] : 0);
+      const count = full ? period : window.length + 1;
+      if (commit) {
+        window.push(value);
+        sum = nextSum;
+        if (window.length > period) window.shift();
+      }
+      return count >= period ? nextSum / period : null;
+    }
+  };
+};
+
+export const createEMA = (period: number): Indicator<number, number> => {
+  const k = 2 / (period + 1);
+  let ema: number | null = null;
+  let seedSum = 0;
+  let seedCount = 0;
+
+  return {
+    update: (value, commit = true) => {
+      let next: number | null;
+      if (ema !== null) {
+        next = value * k + ema * (1 - k);
+      } else if (seedCount + 1 >= period) {
+        next = (seedSum + value) / period; // Seed with the SMA of the first window
+      } else {
+        next = null;
+      }
+      if (commit) {
+        if (ema === null) { seedSum += value; seedCount++; }
+        if (next !== null) ema = next;
+      }
+      return next;
+    }
+  };
+};
+
+// Wilder's smoothing (RMA), the average RSI and ATR are built on
+const createRMA = (period: number): Indicator<number, number> => {
+  let avg: number | null = null;
+  let seedSum = 0;
+  let seedCount = 0;
+
+  return {
+    update: (value, commit = true) => {
+      let next: number | null;
+      if (avg !== null) next = (avg * (period - 1) + value) / period;
+      else if (seedCount + 1 >= period) next = (seedSum + value) / period;
+      else next = null;
+      if (commit) {
+        if (avg === null) { seedSum += value; seedCount++; }
+        if (next !== null) avg = next;
+      }
+      return next;
+    }
+  };
+};
+
+// --- Oscillators ---
+
+// Relative Momentum Index: RSI measured over `momentum` bars instead of one.
+// With momentum = 1 it is exactly RSI.
+export const createRMI = (period = 14, momentum = 5): Indicator<number, number> => {
+  const closes: number[] = [];
+  const gains = createRMA(period);
+  const losses = createRMA(period);
+
+  return {
+    update: (close, commit = true) => {
+      const ref = closes.length >= momentum ? closes[closes.length - momentum] : null;
+      let result: number | null = null;
+      if (ref !== null) {
+        const change = close - ref;
+        const gain = gains.update(Math.max(change, 0), commit);
+        const loss = losses.update(Math.max(-change, 0), commit);
+        if (gain !== null && loss !== null) result = loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+      }
+      if (commit) {
+        closes.push(close);
+        if (closes.length > momentum) closes.shift();
+      }
+      return result;
+    }
+  };
+};
+
+export const createRSI = (period = 14): Indicator<number, number> => createRMI(period, 1);
+
+export interface MACDValue {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export const createMACD = (fast = 12, slow = 26, signalPeriod = 9): Indicator<number, MACDValue> => {
+  const fastEma = createEMA(fast);
+  const slowEma = createEMA(slow);
+  const signalEma = createEMA(signalPeriod);
+
+  return {
+    update: (close, commit = true) => {
+      const f = fastEma.update(close, commit);
+      const s = slowEma.update(close, commit);
+      if (f === null || s === null) return null;
+      const macd = f - s;
+      const signal = signalEma.update(macd, commit);
+      return signal === null ? null : { macd, signal, histogram: macd - signal };
+    }
+  };
+};
+
+// --- Volatility ---
+
+export interface BollingerValue {
+  middle: number;
+  upper: number;
+  lower: number;
+  bandwidth: number; // (upper - lower) / middle
+  percentB: number; // 0 = on the lower band, 1 = on the upper band
+}
+
+export const createBollinger = (period = 20, multiplier = 2): Indicator<number, BollingerValue> => {
+  const window: number[] = [];
+
+  return {
+    update: (close, commit = true) => {
+      const values = [...window, close].slice(-period);
+      if (commit) {
+        window.push(close);
+        if (window.length > period) window.shift();
+      }
+      if (values.length < period) return null;
+
+      const middle = values.reduce((a, b) => a + b, 0) / period;
+      const variance = values.reduce((a, b) => a + (b - middle) * (b - middle), 0) / period;
+      const deviation = Math.sqrt(variance) * multiplier;
+      const upper = middle + deviation;
+      const lower = middle - deviation;
+      return {
+        middle, upper, lower,
+        bandwidth: middle !== 0 ? (upper - lower) / middle : 0,
+        percentB: upper !== lower ? (close - lower) / (upper - lower) : 0.5
+      };
+    }
+  };
+};
+
+export const createATR = (period = 14): Indicator<Candle, number> => {
+  let prevClose: number | null = null;
+  const rma = createRMA(period);
+
+  return {
+    update: (candle, commit = true) => {
+      const trueRange = prevClose === null
+        ? candle.high - candle.low
+        : Math.max(candle.high - candle.low, Math.abs(candle.high - prevClose), Math.abs(candle.low - prevClose));
+      const value = rma.update(trueRange, commit);
+      if (commit) prevClose = candle.close;
+      return value;
+    }
+  };
+};
+
+// --- Volume ---
+
+// Session VWAP, reset at 00:00 UTC like most exchange charts
+export const createVWAP = (sessionMs = 86400000): Indicator<Candle, number> => {
+  let session = -1;
+  let pv = 0;
+  let volume = 0;
+
+  return {
+    update: (candle, commit = true) => {
+      const candleSession = Math.floor(candle.openTime / sessionMs);
+      const fresh = candleSession !== session;
+      const typical = (candle.high + candle.low + candle.close) / 3;
+      const nextPv = (fresh ? 0 : pv) + typical * candle.volume;
+      const nextVolume = (fresh ? 0 : volume) + candle.volume;
+      if (commit) {
+        session = candleSession;
+        pv = nextPv;
+        volume = nextVolume;
+      }
+      return nextVolume > 0 ? nextPv / nextVolume : null;
+    }
+  };
+};
@@ -0,0 +1,382 @@
+import { Candle, FundingRatePoint, KlineInterval, KlineMarket, StreamStatus } from '../types';
+import { createManagedSocket } from './connectionManager';
+import { FeedOptions, Disconnect, chunk } from './exchanges/common';
+import { openDatabase, promisifyRequest, transactionDone, isIndexedDbAvailable } from './idb';
+
+// --- Kline (Candlestick) Service ---
+// REST backfill from Binance spot/futures, cached in IndexedDB, with live
+// @kline updates merged on top. Base URLs can point at a local stub server
+// (KLINE_BASE_URL / KLINE_WS_URL in .env.local, or setKlineEndpoints at runtime).
+
+export interface KlineEndpoints {
+  spotRest: string;
+  futuresRest: string;
+  spotWs: string;
+  futuresWs: string;
+}
+
+const DEFAULT_ENDPOINTS: KlineEndpoints = {
+  spotRest: 'https://api.binance.com',
+  futuresRest: 'https://fapi.binance.com',
+  spotWs: 'wss://stream.binance.com:9443/ws',
+  futuresWs: 'wss://fstream.binance.com/ws',
+};
+
+let endpoints: KlineEndpoints = {
+  ...DEFAULT_ENDPOINTS,
+  ...(process.env.KLINE_BASE_URL ? { spotRest: process.env.KLINE_BASE_URL, futuresRest: process.env.KLINE_BASE_URL } : {}),
+  ...(process.env.KLINE_WS_URL ? { spotWs: process.env.KLINE_WS_URL, futuresWs: process.env.KLINE_WS_URL } : {}),
+};
+
+export const getKlineEndpoints = () => ({ ...endpoints });
+
+export const setKlineEndpoints = (overrides: Partial<KlineEndpoints>) => {
+  endpoints = { ...endpoints, ...overrides };
+};
+
+export const INTERVAL_MS: Record<KlineInterval, number> = {
+  '1m': 60000, '3m': 180000, '5m': 300000, '15m': 900000, '30m': 1800000,
+  '1h': 3600000, '2h': 7200000, '4h': 14400000, '6h': 21600000, '12h': 43200000,
+  '1d': 86400000, '1w': 604800000,
+};
+
+const REST_PAGE_LIMIT = 1000; // Spot max; futures allows 1500 but 1000 keeps it uniform
+const MAX_CACHED_PER_SERIES = 5000; // Older candles are pruned on write
+
+const seriesKey = (market: KlineMarket, symbol: string, interval: KlineInterval) => `${market}:${symbol}:${interval}`;
+
+// --- REST ---
+
+// [openTime, open, high, low, close, volume, closeTime, quoteVolume, trades, ...]
+type RestKline = [number, string, string, string, string, string, number, string, number, string, string, string];
+
+const fromRest = (k: RestKline, now: number): Candle => ({
+  openTime: k[0],
+  open: parseFloat(k[1]),
+  high: parseFloat(k[2]),
+  low: parseFloat(k[3]),
+  close: parseFloat(k[4]),
+  volume: parseFloat(k[5]),
+  closeTime: k[6],
+  quoteVolume: parseFloat(k[7]),
+  takerBuyQuoteVolume: parseFloat(k[10]),
+  isClosed: k[6] < now
+});
+
+export const fetchKlines = async (
+  market: KlineMarket,
+  symbol: string,
+  interval: KlineInterval,
+  range: { startTime?: number; endTime?: number; limit?: number } = {}
+): Promise<Candle[]> => {
+  const base = market === 'spot' ? `${endpoints.spotRest}/api/v3/klines` : `${endpoints.futuresRest}/fapi/v1/klines`;
+  const params = new URLSearchParams({ symbol, interval, limit: String(Math.min(range.limit ?? 500, REST_PAGE_LIMIT)) });
+  if (range.startTime !== undefined) params.set('startTime', String(range.startTime));
+  if (range.endTime !== undefined) params.set('endTime', String(range.endTime));
+
+  const res = await fetch(`${base}?${params}`);
+  if (!res.ok) throw new Error(`Klines ${market} ${symbol} ${interval}: HTTP ${res.status}`);
+  const rows: RestKline[] = await res.json();
+  const now = Date.now();
+  return rows.map(k => fromRest(k, now));
+};
+
+// Every candle between two times, paging forward from `startTime`. Not cached:
+// backtest ranges are far longer than the per-series cache keeps.
+export const fetchKlineRange = async (
+  market: KlineMarket,
+  symbol: string,
+  interval: KlineInterval,
+  startTime: number,
+  endTime: number,
+  { maxCandles = 50000, onPage }: { maxCandles?: number; onPage?: (loaded: number) => void } = {}
+): Promise<Candle[]> => {
+  const step = INTERVAL_MS[interval];
+  const candles: Candle[] = [];
+  let from = startTime;
+  while (from <= endTime && candles.length < maxCandles) {
+    const page = await fetchKlines(market, symbol, interval, { startTime: from, endTime, limit: REST_PAGE_LIMIT });
+    candles.push(...page);
+    onPage?.(candles.length);
+    if (page.length < REST_PAGE_LIMIT) break;
+    from = page[page.length - 1].openTime + step;
+  }
+  return candles.slice(0, maxCandles);
+};
+
+// --- Funding History (futures REST) ---
+
+type RestFundingRate = { symbol: string; fundingTime: number; fundingRate: string; markPrice?: string };
+
+export const fetchFundingHistory = async (symbol: string, startTime: number, endTime: number): Promise<FundingRatePoint[]> => {
+  const points: FundingRatePoint[] = [];
+  let from = startTime;
+  while (from <= endTime) {
+    const params = new URLSearchParams({ symbol, startTime: String(from), endTime: String(endTime), limit: String(REST_PAGE_LIMIT) });
+    const res = await fetch(`${endpoints.futuresRest}/fapi/v1/fundingRate?${params}`);
+    if (!res.ok) throw new Error(`Funding ${symbol}: HTTP ${res.status}`);
+    const rows: RestFundingRate[] = await res.json();
+    rows.forEach(r => points.push({
+      time: r.fundingTime,
+      fundingRate: parseFloat(r.fundingRate),
+      markPrice: r.markPrice ? parseFloat(r.markPrice) : undefined
+    }));
+    if (rows.length < REST_PAGE_LIMIT) break;
+    from = rows[rows.length - 1].fundingTime + 1;
+  }
+  return points;
+};
+
+// --- Cache (IndexedDB, memory fallback) ---
+
+type StoredCandle = Candle & { series: string };
+
+const DB_NAME = 'fidelio-candles';
+const STORE = 'candles';
+const memoryCache: Record<string, Candle[]> = {};
+
+const openCandleDb = () => openDatabase(DB_NAME, 1, (db) => {
+  if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE, { keyPath: ['series', 'openTime'] });
+});
+
+// Candles are keyed by open time, newer data for the same bucket wins
+export const mergeCandles = (base: Candle[], incoming: Candle[]) => {
+  if (incoming.length === 0) return base;
+  const byTime = new Map<number, Candle>();
+  base.forEach(c => byTime.set(c.openTime, c));
+  incoming.forEach(c => byTime.set(c.openTime, c));
+  return Array.from(byTime.values()).sort((a, b) => a.openTime - b.openTime);
+};
+
+const readCached = async (series: string, limit: number, endTime = Infinity): Promise<Candle[]> => {
+  if (!isIndexedDbAvailable()) return (memoryCache[series] || []).filter(c => c.openTime <= endTime).slice(-limit);
+  try {
+    const db = await openCandleDb();
+    const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+    const cursorRequest = store.openCursor(IDBKeyRange.bound([series, -Infinity], [series, endTime]), 'prev');
+    const out: Candle[] = [];
+    await new Promise<void>((resolve, reject) => {
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || out.length >= limit) return resolve();
+        const { series: _series, ...candle } = cursor.value as StoredCandle;
+        out.push(candle);
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+    return out.reverse();
+  } catch (e) {
+    console.error("Candle cache read failed", e);
+    return [];
+  }
+};
+
+const writeCached = async (series: string, candles: Candle[], interval: KlineInterval) => {
+  if (candles.length === 0) return;
+  const newest = candles[candles.length - 1].openTime;
+  const cutoff = newest - MAX_CACHED_PER_SERIES * INTERVAL_MS[interval];
+
+  if (!isIndexedDbAvailable()) {
+    memoryCache[series] = mergeCandles(memoryCache[series] || [], candles).filter(c => c.openTime > cutoff);
+    return;
+  }
+  try {
+    const db = await openCandleDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    candles.forEach(c => store.put({ ...c, series } as StoredCandle));
+    store.delete(IDBKeyRange.bound([series, -Infinity], [series, cutoff]));
+    await transactionDone(tx);
+  } catch (e) {
+    console.error("Candle cache write failed", e);
+  }
+};
+
+export const clearCandleCache = async () => {
+  Object.keys(memoryCache).forEach(k => delete memoryCache[k]);
+  if (!isIndexedDbAvailable()) return;
+  const db = await openCandleDb();
+  await promisifyRequest(db.transaction(STORE, 'readwrite').objectStore(STORE).clear());
+};
+
+// --- History with Backfill ---
+
+// Returns the most recent `limit` candles (or those ending at `endTime`), filling
+// gaps from REST and caching them. Falls back to whatever is cached when offline.
+export const getCandles = async (
+  market: KlineMarket,
+  symbol: string,
+  interval: KlineInterval,
+  { limit = 500, endTime }: { limit?: number; endTime?: number } = {}
+): Promise<Candle[]> => {
+  const series = seriesKey(market, symbol, interval);
+  const step = INTERVAL_MS[interval];
+  const cached = await readCached(series, limit, endTime);
+  let candles = cached;
+
+  try {
+    const fetched: Candle[] = [];
+    const last = cached[cached.length - 1];
+    const target = endTime ?? Date.now();
+
+    if (!last || target - last.openTime > limit * step) {
+      // Nothing usable to extend, take the window in one go
+      fetched.push(...await fetchKlines(market, symbol, interval, { endTime, limit }));
+    } else if (!last.isClosed || target - last.openTime >= step) {
+      // Extend forward from the last cached candle (re-fetching it if it was still open)
+      let startTime = last.openTime;
+      while (startTime <= target) {
+        const page = await fetchKlines(market, symbol, interval, { startTime, endTime, limit: REST_PAGE_LIMIT });
+        fetched.push(...page);
+        if (page.length < REST_PAGE_LIMIT) break;
+        startTime = page[page.length - 1].openTime + step;
+      }
+    }
+    candles = mergeCandles(candles, fetched);
+
+    // Backfill older history if the window is still short
+    if (candles.length < limit && candles.length > 0 && fetched.length > 0) {
+      const older = await fetchKlines(market, symbol, interval, { endTime: candles[0].openTime - 1, limit: limit - candles.length });
+      fetched.push(...older);
+      candles = mergeCandles(older, candles);
+    }
+
+    await writeCached(series, fetched.filter(c => c.isClosed), interval);
+  } catch (e) {
+    if (cached.length === 0) throw e;
+    console.error("Kline fetch failed, serving cached candles", e);
+  }
+
+  return candles.slice(-limit);
+};
+
+// --- Live Updates ---
+
+type KlinePayload = {
+  e: string; // 'kline'
+  s: string; // Symbol
+  k: {
+    t: number; T: number; i: KlineInterval;
+    o: string; h: string; l: string; c: string;
+    v: string; q: string;
+    Q: string; // Taker buy quote volume
+    x: boolean; // Candle closed
+  };
+};
+
+export interface KlineStreamKey {
+  symbol: string;
+  interval: KlineInterval;
+}
+
+export interface KlineStream {
+  setStreams: (streams: KlineStreamKey[]) => void;
+  close: Disconnect;
+}
+
+const klineStreamName = ({ symbol, interval }: KlineStreamKey) => `${symbol.toLowerCase()}@kline_${interval}`;
+
+// One socket per market, streams added and removed on the fly. Closed candles are cached.
+export const connectKlineStream = (
+  market: KlineMarket,
+  onCandle: (symbol: string, interval: KlineInterval, candle: Candle) => void,
+  onStatus?: (status: StreamStatus) => void,
+  options: FeedOptions = {}
+): KlineStream => {
+  let streams = new Set<string>();
+  let requestId = 0;
+
+  const request = (send: (data: string) => boolean | void, method: 'SUBSCRIBE' | 'UNSUBSCRIBE', list: string[]) => {
+    chunk(list, 200).forEach(params => send(JSON.stringify({ method, params, id: ++requestId })));
+  };
+
+  const socket = createManagedSocket({
+    name: `binance:${market}-klines`,
+    url: market === 'spot' ? endpoints.spotWs : endpoints.futuresWs,
+    onStatus,
+    socketFactory: options.socketFactory,
+    staleAfterMs: 30000, // Updates come every ~2s per stream, but the set may be empty
+    onOpen: (send) => request(send, 'SUBSCRIBE', Array.from(streams)),
+    onMessage: (raw) => {
+      try {
+        const payload: KlinePayload = JSON.parse(raw);
+        if (payload.e !== 'kline') return;
+        const k = payload.k;
+        const candle: Candle = {
+          openTime: k.t,
+          closeTime: k.T,
+          open: parseFloat(k.o),
+          high: parseFloat(k.h),
+          low: parseFloat(k.l),
+          close: parseFloat(k.c),
+          volume: parseFloat(k.v),
+          quoteVolume: parseFloat(k.q),
+          takerBuyQuoteVolume: parseFloat(k.Q),
+          isClosed: k.x
+        };
+        if (candle.isClosed) writeCached(seriesKey(market, payload.s, k.i), [candle], k.i);
+        onCandle(payload.s, k.i, candle);
+      } catch (e) {
+        console.error("Kline WS Parse Error", e);
+      }
+    }
+  });
+
+  return {
+    setStreams: (next) => {
+      const nextSet = new Set(next.map(klineStreamName));
+      const added = Array.from(nextSet).filter(s => !streams.has(s));
+      const removed = Array.from(streams).filter(s => !nextSet.has(s));
+      streams = nextSet;
+      if (removed.length) request(socket.send, 'UNSUBSCRIBE', removed);
+      if (added.length) request(socket.send, 'SUBSCRIBE', added);
+    },
+    close: () => socket.close()
+  };
+};
+
+// History plus live updates for a single series, emitted as one growing array
+export const watchCandles = (
+  market: KlineMarket,
+  symbol: string,
+  interval: KlineInterval,
+  onUpdate: (candles: Candle[]) => void,
+  { limit = 500, onStatus, onError }: { limit?: number; onStatus?: (status: StreamStatus) => void; onError?: (error: unknown) => void } = {}
+): Disconnect => {
+  let candles: Candle[] = [];
+  let loaded = false;
+  let buffered: Candle[] = []; // Live candles that arrive before history does
+  let closed = false;
+
+  const stream = connectKlineStream(market, (_symbol, _interval, candle) => {
+    if (!loaded) {
+      buffered.push(candle);
+      return;
+    }
+    candles = mergeCandles(candles, [candle]).slice(-limit);
+    onUpdate(candles);
+  }, onStatus);
+  stream.setStreams([{ symbol, interval }]);
+
+  getCandles(market, symbol, interval, { limit })
+    .then(history => {
+      if (closed) return;
+      candles = mergeCandles(history, buffered).slice(-limit);
+      buffered = [];
+      loaded = true;
+      onUpdate(candles);
+    })
+    .catch(e => {
+      console.error("Kline history load failed", e);
+      candles = buffered.slice(-limit);
+      buffered = [];
+      loaded = true; // Keep going on live data alone
+      onError?.(e);
+    });
+
+  return () => {
+    closed = true;
+    stream.close();
+  };
+};
@@ -0,0 +1,515 @@
+import { Ticker, FuturesTicker, Signal, TradeFlow, OrderBook, BookLevel } from '../types';
+import { PRIMARY_EXCHANGE, exchangeOf } from './exchanges';
+import { isTradableMarket, quoteAsset } from './symbolRegistry';
+import { StrategyConfig, createStrategyRunner } from './strategies';
+
+// --- Market Analysis ---
+// The per-tick math behind Spot Sniper, the Radar and the divergence detector.
+// Plain stateful functions with no React or DOM, so they run in the market
+// worker (or on the main thread when workers are unavailable).
+
+// --- Spot Sniper Flow Analyzer ---
+
+export interface AnalyzerState {
+  symbol: string;
+  price: number;
+  priceChangePercent: number;
+
+  // Accumulated Flow
+  buyVolume: number;
+  sellVolume: number;
+  totalVolumeWindow: number; // Quote volume, in USD
+
+  // Metrics
+  pressure: number; // 0 to 100
+  rvol: number; // Relative Volume Multiplier
+  netFlow: number; // Net USD
+  flowSource: 'TRADES' | 'ESTIMATED'; // Taker side from aggTrades, or guessed by tick rule
+  bookImbalance: number | null; // Bid share of resting depth near the price, 0 to 100; null without a depth stream
+
+  updatedAt: number;
+}
+
+// USD value of one unit of a quote asset, null when it can't be priced yet
+export type QuoteToUsd = (quote: string) => number | null;
+
+// Trade streams are per symbol, so only the busiest markets get real flow
+const FLOW_TOP_N = 40;
+export const FLOW_RESUBSCRIBE_MS = 15000; // How often the top-N list is re-ranked
+const FLOW_STALE_MS = 5000; // Fall back to the tick rule if trades stop arriving
+
+const BOOK_STALE_MS = 5000; // Depth older than this no longer counts
+const FLOW_DECAY = 0.90; // Keeps the window fresh (~1-2 minute rolling window effect)
+
+// Symbols the trade stream should follow: the most traded scannable primary-venue markets
+export const rankFlowSymbols = (tickers: Ticker[], toUsd: QuoteToUsd) => tickers
+  .filter(t => isTradableMarket(t.symbol) && exchangeOf(t) === PRIMARY_EXCHANGE)
+  .map(t => ({ symbol: t.symbol, usdVolume: t.volume * (toUsd(quoteAsset(t.symbol)) ?? 0) }))
+  .sort((a, b) => b.usdVolume - a.usdVolume)
+  .slice(0, FLOW_TOP_N)
+  .map(t => t.symbol);
+
+export const createFlowAnalyzer = () => {
+  let analyzers: Record<string, AnalyzerState> = {};
+  let prevData: Record<string, { vol: number, price: number, time: number }> = {};
+  let pendingFlow: Record<string, { buy: number, sell: number, receivedAt: number }> = {};
+  let books: Record<string, { imbalance: number, receivedAt: number }> = {};
+
+  const addTrades = (flows: Record<string, TradeFlow>, now = Date.now()) => {
+    Object.values(flows).forEach((f: TradeFlow) => {
+      const acc = pendingFlow[f.symbol] || { buy: 0, sell: 0, receivedAt: now };
+      acc.buy += f.buyVolume;
+      acc.sell += f.sellVolume;
+      acc.receivedAt = now;
+      pendingFlow[f.symbol] = acc;
+    });
+  };
+
+  const addBooks = (batch: Record<string, OrderBook>, now = Date.now()) => {
+    Object.values(batch).forEach((book: OrderBook) => {
+      const stats = summarizeBook(book);
+      if (stats) books[book.symbol] = { imbalance: stats.imbalance, receivedAt: now };
+    });
+  };
+
+  // Processes a ticker batch and returns only the analyzers that changed.
+  // Flow is kept in USD so BTC or FDUSD quoted markets compare with USDT ones.
+  const update = (tickers: Ticker[], toUsd: QuoteToUsd, now = Date.now()): Record<string, AnalyzerState> => {
+    const updates: Record<string, AnalyzerState> = {};
+
+    tickers.forEach(t => {
+      // Stablecoin bases, halted markets and quotes we can't price are skipped
+      if (!isTradableMarket(t.symbol)) return;
+      const usd = toUsd(quoteAsset(t.symbol));
+      if (!usd) return;
+
+      const prev = prevData[t.symbol];
+      const current = analyzers[t.symbol] || {
+        symbol: t.symbol,
+        price: t.lastPrice,
+        priceChangePercent: t.priceChangePercent,
+        buyVolume: 0,
+        sellVolume: 0,
+        totalVolumeWindow: 0,
+        pressure: 50,
+        rvol: 0,
+        netFlow: 0,
+        flowSource: 'ESTIMATED',
+        bookImbalance: null,
+        updatedAt: now
+      };
+      const primary = exchangeOf(t) === PRIMARY_EXCHANGE;
+      const flow = primary ? pendingFlow[t.symbol] : undefined;
+      const hasTradeFlow = !!flow && now - flow.receivedAt < FLOW_STALE_MS;
+      const book = primary ? books[t.symbol] : undefined;
+
+      // Process tick (>500ms debounce for metric calculation)
+      if (prev && now - prev.time > 500) {
+        const timeDelta = now - prev.time;
+        let buyDelta = 0;
+        let sellDelta = 0;
+
+        if (hasTradeFlow) {
+          // Real taker flow since the last tick
+          buyDelta = flow.buy;
+          sellDelta = flow.sell;
+          flow.buy = 0;
+          flow.sell = 0;
+        } else {
+          const tickerVolDelta = t.volume - prev.vol; // Change in Quote Volume
+          const priceDelta = t.lastPrice - prev.price;
+          if (tickerVolDelta > 0) {
+            const isBuy = priceDelta > 0 || (priceDelta === 0 && t.lastPrice >= prev.price); // Simple tick rule
+            if (isBuy) buyDelta = tickerVolDelta;
+            else sellDelta = tickerVolDelta;
+          }
+        }
+        const volDelta = buyDelta + sellDelta;
+
+        if (volDelta > 0) {
+          const buyVolume = current.buyVolume * FLOW_DECAY + buyDelta * usd;
+          const sellVolume = current.sellVolume * FLOW_DECAY + sellDelta * usd;
+          const total = buyVolume + sellVolume;
+
+          // RVOL: current flow rate against the 24h average ms flow (volume / 86,400,000), both in quote units
+          const avgRate = t.volume / 86400000;
+          const currentRate = volDelta / timeDelta;
+
+          updates[t.symbol] = {
+            ...current,
+            price: t.lastPrice,
+            priceChangePercent: t.priceChangePercent,
+            buyVolume,
+            sellVolume,
+            totalVolumeWindow: total,
+            pressure: total > 0 ? (buyVolume / total) * 100 : 50,
+            rvol: avgRate > 0 ? currentRate / avgRate : 0,
+            netFlow: buyVolume - sellVolume,
+            flowSource: hasTradeFlow ? 'TRADES' : 'ESTIMATED',
+            bookImbalance: book && now - book.receivedAt < BOOK_STALE_MS ? book.imbalance : null,
+            updatedAt: now
+          };
+        }
+      }
+
+      if (!prev || now - prev.time > 500) {
+        prevData[t.symbol] = { vol: t.volume, price: t.lastPrice, time: now };
+      }
+    });
+
+    analyzers = { ...analyzers, ...updates };
+    return updates;
+  };
+
+  return {
+    update,
+    addTrades,
+    addBooks,
+    reset: () => {
+      analyzers = {};
+      prevData = {};
+      pendingFlow = {};
+      books = {};
+    }
+  };
+};
+
+// --- Spot Sniper Rules ---
+// Shared by the live scanner and the backtester, so a preset means the same thing in both.
+
+export interface ScannerRules {
+  minRvol: number;
+  minPressure: number;
+  maxPressure: number;
+  minImbalance: number; // Min bid share of the book, 0 = off. Only symbols with a depth stream can pass
+  minFlowUsdt: number; // Minimum 1m Volume in USDT to filter dust
+  minPriceChange: number;
+  maxPriceChange: number;
+}
+
+export type ScannerPreset = 'DEFAULT' | 'WHALE_ACCUMULATION' | 'BREAKOUT' | 'DIP_SNIPER';
+
+export const SCANNER_PRESETS: Record<ScannerPreset, ScannerRules> = {
+  DEFAULT: {
+    minRvol: 1.5,
+    minPressure: 0,
+    maxPressure: 100,
+    minImbalance: 0,
+    minFlowUsdt: 5000,
+    minPriceChange: -100,
+    maxPriceChange: 100
+  },
+  WHALE_ACCUMULATION: {
+    minRvol: 3.0,
+    minPressure: 65, // Strong Buying
+    maxPressure: 100,
+    minImbalance: 0,
+    minFlowUsdt: 50000, // Significant Volume
+    minPriceChange: -2, // Price hasn't pumped yet (or is slightly down)
+    maxPriceChange: 2   // Catching before the pump
+  },
+  BREAKOUT: {
+    minRvol: 4.0,
+    minPressure: 60,
+    maxPressure: 100,
+    minImbalance: 0,
+    minFlowUsdt: 20000,
+    minPriceChange: 1, // Already moving up
+    maxPriceChange: 15
+  },
+  DIP_SNIPER: {
+    minRvol: 2.5,
+    minPressure: 55, // Absorption starting
+    maxPressure: 100,
+    minImbalance: 0,
+    minFlowUsdt: 10000,
+    minPriceChange: -20, // Creating a bottom
+    maxPriceChange: -2
+  }
+};
+
+export const matchesScannerRules = (analysis: AnalyzerState, rules: ScannerRules) => {
+  if (analysis.totalVolumeWindow < rules.minFlowUsdt) return false;
+  if (analysis.rvol < rules.minRvol) return false;
+  if (analysis.pressure < rules.minPressure || analysis.pressure > rules.maxPressure) return false;
+  if (rules.minImbalance > 0 && (analysis.bookImbalance === null || analysis.bookImbalance < rules.minImbalance)) return false;
+  return analysis.priceChangePercent >= rules.minPriceChange && analysis.priceChangePercent <= rules.maxPriceChange;
+};
+
+// --- Order Book ---
+
+export interface BookStats {
+  bestBid: number;
+  bestAsk: number;
+  mid: number;
+  spread: number;
+  spreadBps: number; // Spread relative to mid, in basis points
+  bidValue: number; // Quote value resting within the band
+  askValue: number;
+  imbalance: number; // Bid share of bidValue + askValue, 0 to 100 (50 = balanced)
+}
+
+export interface BookWall {
+  side: 'BID' | 'ASK';
+  price: number;
+  quantity: number;
+  value: number; // Quote value
+  multiple: number; // Size against the median level
+  distancePct: number; // From mid
+  since: number; // First seen as a wall
+}
+
+// What the order book panel renders, built in the worker
+export interface BookView {
+  symbol: string;
+  bids: BookLevel[]; // Top levels for the ladder
+  asks: BookLevel[];
+  stats: BookStats;
+  walls: BookWall[];
+  updatedAt: number;
+}
+
+export const IMBALANCE_BAND_PCT = 1; // Depth within ±1% of mid counts towards imbalance
+const WALL_BAND_PCT = 5; // Walls further away than this are ignored
+const WALL_MULTIPLE = 8; // A wall is this many times the median level size
+const WALL_KEEP_MULTIPLE = 4; // Once seen, it stays a wall until it shrinks below this
+const MAX_WALLS = 8;
+const LADDER_LEVELS = 12;
+
+const sideValue = (levels: BookLevel[], inBand: (price: number) => boolean) =>
+  levels.reduce((sum, [price, qty]) => (inBand(price) ? sum + price * qty : sum), 0);
+
+export const summarizeBook = (book: OrderBook, bandPct = IMBALANCE_BAND_PCT): BookStats | null => {
+  if (book.bids.length === 0 || book.asks.length === 0) return null;
+  const bestBid = book.bids[0][0];
+  const bestAsk = book.asks[0][0];
+  const mid = (bestBid + bestAsk) / 2;
+  const band = mid * (bandPct / 100);
+
+  const bidValue = sideValue(book.bids, p => p >= mid - band);
+  const askValue = sideValue(book.asks, p => p <= mid + band);
+  const total = bidValue + askValue;
+
+  return {
+    bestBid, bestAsk, mid,
+    spread: bestAsk - bestBid,
+    spreadBps: mid > 0 ? ((bestAsk - bestBid) / mid) * 10000 : 0,
+    bidValue, askValue,
+    imbalance: total > 0 ? (bidValue / total) * 100 : 50
+  };
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Finds outsized resting levels and remembers when each first appeared, so a
+// wall that keeps sitting there can be told apart from one that flickers
+export const createWallTracker = () => {
+  let seen: Record<string, number> = {}; // 'BID:64000' -> first seen
+
+  const update = (book: OrderBook, stats: BookStats, now = Date.now()): BookWall[] => {
+    const band = stats.mid * (WALL_BAND_PCT / 100);
+    const bids = book.bids.filter(([p]) => p >= stats.mid - band);
+    const asks = book.asks.filter(([p]) => p <= stats.mid + band);
+    const typical = median([...bids, ...asks].map(([, q]) => q));
+    if (typical <= 0) return [];
+
+    const next: Record<string, number> = {};
+    const walls: BookWall[] = [];
+    const scan = (side: 'BID' | 'ASK', levels: BookLevel[]) => {
+      levels.forEach(([price, quantity]) => {
+        const key = `${side}:${price}`;
+        const multiple = quantity / typical;
+        if (multiple < (seen[key] ? WALL_KEEP_MULTIPLE : WALL_MULTIPLE)) return;
+        next[key] = seen[key] ?? now;
+        walls.push({
+          side, price, quantity, multiple,
+          value: price * quantity,
+          distancePct: ((price - stats.mid) / stats.mid) * 100,
+          since: next[key]
+        });
+      });
+    };
+    scan('BID', bids);
+    scan('ASK', asks);
+
+    seen = next;
+    return walls.sort((a, b) => b.value - a.value).slice(0, MAX_WALLS);
+  };
+
+  return {
+    update,
+    reset: () => { seen = {}; }
+  };
+};
+
+export const buildBookView = (book: OrderBook, stats: BookStats, walls: BookWall[]): BookView => ({
+  symbol: book.symbol,
+  bids: book.bids.slice(0, LADDER_LEVELS),
+  asks: book.asks.slice(0, LADDER_LEVELS),
+  stats,
+  walls,
+  updatedAt: book.time
+});
+
+// --- Radar ---
+
+export type AnomalyType = 'PUMP' | 'DUMP' | 'DIV_BULL' | 'DIV_BEAR' | 'NEG_FUNDING' | 'VOLUME_SPIKE';
+
+export interface Anomaly {
+  id: string;
+  symbol: string;
+  type: AnomalyType;
+  value: number;
+  message: string;
+  severity: 'HIGH' | 'MEDIUM' | 'LOW';
+}
+
+export interface VolumeSpike {
+  ratio: number;
+  timestamp: number;
+}
+
+const SPIKE_RATIO = 10; // Flow at 10x the 24h average rate
+const SPIKE_RETENTION_MS = 5 * 60 * 1000;
+
+export const createSpikeDetector = () => {
+  let history: Record<string, { vol: number, time: number }> = {};
+  let spikes: Record<string, VolumeSpike> = {};
+
+  // Returns the spikes still within retention after this batch
+  const update = (tickers: Ticker[], now = Date.now()): Record<string, VolumeSpike> => {
+    tickers.forEach(t => {
+      if (!isTradableMarket(t.symbol)) return;
+
+      const prev = history[t.symbol];
+      if (!prev) {
+        history[t.symbol] = { vol: t.volume, time: now };
+        return;
+      }
+      const timeDelta = now - prev.time;
+      if (timeDelta < 1000) return;
+
+      const volDelta = t.volume - prev.vol;
+      const avgFlowRate = t.volume / (24 * 60 * 60 * 1000);
+      if (volDelta > 0 && avgFlowRate > 0) {
+        const ratio = (volDelta / timeDelta) / avgFlowRate;
+        if (ratio >= SPIKE_RATIO) spikes[t.symbol] = { ratio, timestamp: now };
+      }
+      history[t.symbol] = { vol: t.volume, time: now };
+    });
+
+    spikes = Object.fromEntries(Object.entries(spikes).filter(([, s]) => now - s.timestamp < SPIKE_RETENTION_MS));
+    return spikes;
+  };
+
+  return {
+    update,
+    reset: () => {
+      history = {};
+      spikes = {};
+    }
+  };
+};
+
+// Share of USDT pairs that are up on the day, 0-100 (50 = neutral)
+export const computeSentiment = (spot: Record<string, Ticker>) => {
+  const tickers = (Object.values(spot) as Ticker[]).filter(t => quoteAsset(t.symbol) === 'USDT' && isTradableMarket(t.symbol));
+  if (tickers.length === 0) return 50;
+  return (tickers.filter(t => t.priceChangePercent > 0).length / tickers.length) * 100;
+};
+
+// Top 4 anomalies, high severity first
+export const detectAnomalies = (
+  spot: Record<string, Ticker>,
+  futures: Record<string, FuturesTicker>,
+  spikes: Record<string, VolumeSpike>
+): Anomaly[] => {
+  const list: Anomaly[] = [];
+
+  (Object.values(spot) as Ticker[]).forEach(t => {
+    if (!isTradableMarket(t.symbol)) return;
+    if (t.priceChangePercent > 5) list.push({ id: `pump-${t.symbol}`, symbol: t.symbol, type: 'PUMP', value: t.priceChangePercent, message: 'Rapid Price Surge', severity: 'MEDIUM' });
+    if (t.priceChangePercent < -5) list.push({ id: `dump-${t.symbol}`, symbol: t.symbol, type: 'DUMP', value: t.priceChangePercent, message: 'Sharp Decline', severity: 'MEDIUM' });
+  });
+
+  (Object.values(futures) as FuturesTicker[]).forEach(f => {
+    const fundingPct = f.fundingRate * 100;
+    if (f.fundingRate < -0.0005) list.push({ id: `neg-fund-${f.symbol}`, symbol: f.symbol, type: 'NEG_FUNDING', value: fundingPct, message: 'Extreme Neg. Funding', severity: 'MEDIUM' });
+
+    const s = spot[f.symbol];
+    if (s) {
+      if (f.fundingRate <= -0.0003 && s.priceChangePercent > 1.0) {
+        list.push({ id: `div-bull-${f.symbol}`, symbol: f.symbol, type: 'DIV_BULL', value: fundingPct, message: 'SHORT SQUEEZE SETUP', severity: 'HIGH' });
+      }
+      if (f.fundingRate >= 0.0003 && s.priceChangePercent < -1.0) {
+        list.push({ id: `div-bear-${f.symbol}`, symbol: f.symbol, type: 'DIV_BEAR', value: fundingPct, message: 'LONG TRAP SETUP', severity: 'HIGH' });
+      }
+    }
+  });
+
+  Object.entries(spikes).forEach(([symbol, data]) => {
+    list.push({ id: `vol-${symbol}-${data.timestamp}`, symbol, type: 'VOLUME_SPIKE', value: data.ratio, message: 'Volume Explosion', severity: data.ratio > 50 ? 'HIGH' : 'MEDIUM' });
+  });
+
+  return list.sort((a, b) => {
+    if (a.severity === 'HIGH' && b.severity !== 'HIGH') return -1;
+    if (b.severity === 'HIGH' && a.severity !== 'HIGH') return 1;
+    return 0;
+  }).slice(0, 4);
+};
+
+// --- SmartMoney Divergence ---
+
+// Merges partial mark price updates into full tickers (tracking the session
+// funding drift) and hands complete price + funding updates to the strategy
+// plugins that subscribe to mark prices.
+export const createDivergenceDetector = (config: StrategyConfig = {}) => {
+  const runner = createStrategyRunner('markPrice', config);
+
+  const update = (
+    current: Record<string, FuturesTicker>,
+    updates: Record<string, Partial<FuturesTicker>>,
+    now = Date.now()
+  ): { merged: Record<string, FuturesTicker>; signals: Signal[] } => {
+    const merged: Record<string, FuturesTicker> = {};
+    const signals: Signal[] = [];
+
+    Object.entries(updates).forEach(([key, update]: [string, Partial<FuturesTicker>]) => {
+      const symbol = update.symbol!;
+      const prev = current[key];
+      const exchange = update.exchange ?? prev?.exchange;
+
+      let sessionStartRate = prev?.sessionStartRate;
+      if (sessionStartRate === undefined && update.fundingRate !== undefined) sessionStartRate = update.fundingRate;
+
+      let sessionChange = prev?.sessionChange || 0;
+      if (update.fundingRate !== undefined && sessionStartRate !== undefined) sessionChange = update.fundingRate - sessionStartRate;
+
+      if (prev && update.fundingRate !== undefined && update.markPrice !== undefined) {
+        signals.push(...runner.run({ input: 'markPrice', key, symbol, exchange, prev, markPrice: update.markPrice, fundingRate: update.fundingRate, time: now }, key, now));
+      }
+
+      merged[key] = {
+        ...prev, ...update, symbol, exchange,
+        markPrice: update.markPrice ?? prev?.markPrice ?? 0,
+        fundingRate: update.fundingRate ?? prev?.fundingRate ?? 0,
+        nextFundingTime: update.nextFundingTime ?? prev?.nextFundingTime ?? 0,
+        indexPrice: update.indexPrice ?? prev?.indexPrice ?? 0,
+        sessionStartRate, sessionChange
+      } as FuturesTicker;
+    });
+
+    return { merged, signals };
+  };
+
+  return {
+    update,
+    setConfig: runner.setConfig,
+    reset: runner.reset
+  };
+};
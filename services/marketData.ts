@@ -1,7 +1,8 @@
 
 
-import { Ticker, Signal, Side, FuturesTicker, MarketIndex, Liquidation } from '../types';
-import { STRATEGY_NAMES, DEFAULT_WATCHLIST } from '../constants';
+import { Ticker, FuturesTicker, MarketIndex, Liquidation, StreamStatus, TradeFlow } from '../types';
+import { createManagedSocket } from './connectionManager';
+import { FeedOptions, DEFAULT_BATCH_INTERVAL_MS, TradeSubscription, chunk } from './exchanges/common';
 
 // --- Binance Spot WebSocket Logic ---
 
@@ -17,43 +18,51 @@ type MiniTickerPayload = {
 };
 
 export const connectToBinance = (
-  onTickerUpdate: (tickers: Record<string, Ticker>) => void
+  onTickerUpdate: (tickers: Record<string, Ticker>) => void,
+  onStatus?: (status: StreamStatus) => void,
+  options: FeedOptions = {}
 ) => {
-  const ws = new WebSocket('wss://stream.binance.com:9443/ws/!miniTicker@arr');
-  
   // We throttle updates to avoid React rendering too often
   let pendingUpdates: Record<string, Ticker> = {};
-  let throttleTimer: number | null = null;
-
-  ws.onmessage = (event) => {
-    try {
-      const data: MiniTickerPayload[] = JSON.parse(event.data);
+  let throttleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const socket = createManagedSocket({
+    name: 'binance:spot',
+    url: 'wss://stream.binance.com:9443/ws/!miniTicker@arr',
+    onStatus,
+    socketFactory: options.socketFactory,
+    staleAfterMs: 5000, // Binance pushes the full array every second
+    onMessage: (raw) => {
+      try {
+        const data: MiniTickerPayload[] = JSON.parse(raw);
       
-      data.forEach(t => {
-        pendingUpdates[t.s] = {
-          symbol: t.s,
-          lastPrice: parseFloat(t.c),
-          priceChangePercent: ((parseFloat(t.c) - parseFloat(t.o)) / parseFloat(t.o)) * 100,
-          volume: parseFloat(t.q), // Using Quote volume (USDT value approx)
-          updatedAt: t.E
-        };
-      });
-
-      if (!throttleTimer) {
-        throttleTimer = window.setTimeout(() => {
-          onTickerUpdate({ ...pendingUpdates });
-          pendingUpdates = {};
-          throttleTimer = null;
-        }, 1000); // Update UI once per second
+        data.forEach(t => {
+          pendingUpdates[t.s] = {
+            symbol: t.s,
+            exchange: 'BINANCE',
+            lastPrice: parseFloat(t.c),
+            priceChangePercent: ((parseFloat(t.c) - parseFloat(t.o)) / parseFloat(t.o)) * 100,
+            volume: parseFloat(t.q), // Using Quote volume (USDT value approx)
+            updatedAt: t.E
+          };
+        });
+
+        if (!throttleTimer) {
+          throttleTimer = setTimeout(() => {
+            onTickerUpdate({ ...pendingUpdates });
+            pendingUpdates = {};
+            throttleTimer = null;
+          }, options.batchIntervalMs ?? DEFAULT_BATCH_INTERVAL_MS); // Update UI once per second
+        }
+
+      } catch (e) {
+        console.error("WS Parse Error", e);
       }
-
-    } catch (e) {
-      console.error("WS Parse Error", e);
     }
-  };
+  });
 
   return () => {
-    ws.close();
+    socket.close();
     if (throttleTimer) clearTimeout(throttleTimer);
   };
 };
@@ -69,46 +78,60 @@ type MarkPricePayload = {
   T: number; // Next Funding Time
 };
 
+// One `!markPrice@arr` frame as partial tickers. Also reads recorded frames for backtests.
+export const parseMarkPriceFrame = (raw: string): Record<string, Partial<FuturesTicker>> => {
+  const data: MarkPricePayload[] = JSON.parse(raw);
+  const updates: Record<string, Partial<FuturesTicker>> = {};
+  data.forEach(t => {
+    // Filter for USDT perps only for cleaner view
+    if (!t.s.endsWith('USDT')) return;
+
+    updates[t.s] = {
+        symbol: t.s,
+        exchange: 'BINANCE',
+        markPrice: parseFloat(t.p),
+        indexPrice: parseFloat(t.i),
+        fundingRate: parseFloat(t.r),
+        nextFundingTime: t.T
+    };
+  });
+  return updates;
+};
+
 export const connectToBinanceFutures = (
-  onFuturesUpdate: (data: Record<string, Partial<FuturesTicker>>) => void
+  onFuturesUpdate: (data: Record<string, Partial<FuturesTicker>>) => void,
+  onStatus?: (status: StreamStatus) => void,
+  options: FeedOptions = {}
 ) => {
-  const ws = new WebSocket('wss://fstream.binance.com/ws/!markPrice@arr@1s'); // 1s update speed for mark price
-  
   let pendingUpdates: Record<string, Partial<FuturesTicker>> = {};
-  let throttleTimer: number | null = null;
-
-  ws.onmessage = (event) => {
-    try {
-      const data: MarkPricePayload[] = JSON.parse(event.data);
-      
-      data.forEach(t => {
-        // Filter for USDT perps only for cleaner view
-        if (!t.s.endsWith('USDT')) return;
-
-        pendingUpdates[t.s] = {
-            symbol: t.s,
-            markPrice: parseFloat(t.p),
-            indexPrice: parseFloat(t.i),
-            fundingRate: parseFloat(t.r),
-            nextFundingTime: t.T
-        };
-      });
-
-      if (!throttleTimer) {
-        throttleTimer = window.setTimeout(() => {
-          onFuturesUpdate({ ...pendingUpdates });
-          pendingUpdates = {};
-          throttleTimer = null;
-        }, 1000);
+  let throttleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const socket = createManagedSocket({
+    name: 'binance:futures',
+    url: 'wss://fstream.binance.com/ws/!markPrice@arr@1s', // 1s update speed for mark price
+    onStatus,
+    socketFactory: options.socketFactory,
+    staleAfterMs: 5000,
+    onMessage: (raw) => {
+      try {
+        Object.assign(pendingUpdates, parseMarkPriceFrame(raw));
+
+        if (!throttleTimer) {
+          throttleTimer = setTimeout(() => {
+            onFuturesUpdate({ ...pendingUpdates });
+            pendingUpdates = {};
+            throttleTimer = null;
+          }, options.batchIntervalMs ?? DEFAULT_BATCH_INTERVAL_MS);
+        }
+
+      } catch (e) {
+        console.error("Futures WS Parse Error", e);
       }
-
-    } catch (e) {
-      console.error("Futures WS Parse Error", e);
     }
-  };
+  });
 
   return () => {
-    ws.close();
+    socket.close();
     if (throttleTimer) clearTimeout(throttleTimer);
   };
 };
@@ -132,87 +155,133 @@ type ForceOrderPayload = {
 };
 
 export const connectToLiquidations = (
-  onLiquidation: (liq: Liquidation) => void
+  onLiquidation: (liq: Liquidation) => void,
+  onStatus?: (status: StreamStatus) => void,
+  options: FeedOptions = {}
 ) => {
-  const ws = new WebSocket('wss://fstream.binance.com/ws/!forceOrder@arr');
-
-  ws.onmessage = (event) => {
-    try {
-      const payload: ForceOrderPayload = JSON.parse(event.data);
-      const o = payload.o;
+  const socket = createManagedSocket({
+    name: 'binance:liquidations',
+    url: 'wss://fstream.binance.com/ws/!forceOrder@arr',
+    onStatus,
+    socketFactory: options.socketFactory,
+    staleAfterMs: 120000, // Force orders are bursty, quiet minutes are normal
+    onMessage: (raw) => {
+      try {
+        const payload: ForceOrderPayload = JSON.parse(raw);
+        const o = payload.o;
       
-      if (!o.s.endsWith('USDT')) return;
-
-      const price = parseFloat(o.ap);
-      const amount = parseFloat(o.q);
-      const value = price * amount;
-
-      // Filter tiny liquidations to reduce noise (e.g., < $500)
-      if (value < 500) return;
-
-      const liq: Liquidation = {
-        id: `${o.s}_${o.T}_${Math.random().toString(36).substring(7)}`,
-        symbol: o.s,
-        // If the Force Order is SELL, it means a LONG position is being closed.
-        // If the Force Order is BUY, it means a SHORT position is being closed.
-        side: o.S === 'SELL' ? 'LONG' : 'SHORT',
-        price: price,
-        amount: amount,
-        value: value,
-        time: o.T
-      };
-
-      onLiquidation(liq);
-
-    } catch (e) {
-      console.error("Liquidation WS Parse Error", e);
+        if (!o.s.endsWith('USDT')) return;
+
+        const price = parseFloat(o.ap);
+        const amount = parseFloat(o.q);
+        const value = price * amount;
+
+        // Filter tiny liquidations to reduce noise (e.g., < $500)
+        if (value < 500) return;
+
+        const liq: Liquidation = {
+          id: `${o.s}_${o.T}_${Math.random().toString(36).substring(7)}`,
+          symbol: o.s,
+          exchange: 'BINANCE',
+          // If the Force Order is SELL, it means a LONG position is being closed.
+          // If the Force Order is BUY, it means a SHORT position is being closed.
+          side: o.S === 'SELL' ? 'LONG' : 'SHORT',
+          price: price,
+          amount: amount,
+          value: value,
+          time: o.T
+        };
+
+        onLiquidation(liq);
+
+      } catch (e) {
+        console.error("Liquidation WS Parse Error", e);
+      }
     }
-  };
+  });
 
   return () => {
-    ws.close();
+    socket.close();
   };
 };
 
-// --- Mock Signal Generator (Simulating Webhooks) ---
-
-export const generateMockSignal = (tickers: Record<string, Ticker>): Signal | null => {
-  // Only generate a signal for symbols we actually have price data for
-  const availableSymbols = Object.keys(tickers).filter(s => DEFAULT_WATCHLIST.includes(s));
-  
-  if (availableSymbols.length === 0) return null;
-
-  const randomSymbol = availableSymbols[Math.floor(Math.random() * availableSymbols.length)];
-  const ticker = tickers[randomSymbol];
-  
-  // Random Strategy
-  const strategy = STRATEGY_NAMES[Math.floor(Math.random() * STRATEGY_NAMES.length)];
-  
-  // Logic for RMI Side
-  let side: Side = Math.random() > 0.5 ? 'BUY' : 'SELL';
-  if (strategy === 'RMI_Oversold') side = 'BUY';
-  if (strategy === 'RMI_Overbought') side = 'SELL';
-  
-  // Generate a "realistic" price close to current
-  const variance = ticker.lastPrice * 0.001; // 0.1% variance
-  const signalPrice = ticker.lastPrice + (Math.random() * variance * (Math.random() > 0.5 ? 1 : -1));
-
-  let note = `Simulated Alert: ${strategy} triggered on 15m timeframe.`;
-  
-  // Custom notes for RMI to look realistic
-  if (strategy.includes('RMI')) {
-      const rmiVal = side === 'BUY' ? Math.floor(Math.random() * 20 + 10) : Math.floor(Math.random() * 20 + 70); // 10-30 or 70-90
-      note = `RMI Value: ${rmiVal} - Momentum Reversal Likely`;
-  }
+// --- Binance Aggregated Trades (Taker Flow) ---
+
+type AggTradePayload = {
+  e: string; // Event Type ('aggTrade')
+  s: string; // Symbol
+  p: string; // Price
+  q: string; // Quantity
+  T: number; // Trade Time
+  m: boolean; // Buyer is the maker => the taker sold
+};
+
+const streamName = (symbol: string) => `${symbol.toLowerCase()}@aggTrade`;
+
+export const connectToAggTrades = (
+  onFlow: (flows: Record<string, TradeFlow>) => void,
+  onStatus?: (status: StreamStatus) => void,
+  options: FeedOptions = {}
+): TradeSubscription => {
+  let symbols = new Set<string>();
+  let pendingFlows: Record<string, TradeFlow> = {};
+  let throttleTimer: ReturnType<typeof setTimeout> | null = null;
+  let requestId = 0;
+
+  // Binance rejects oversized requests, keep each (UN)SUBSCRIBE to a few hundred streams
+  const request = (send: (data: string) => boolean | void, method: 'SUBSCRIBE' | 'UNSUBSCRIBE', list: string[]) => {
+    chunk(list.map(streamName), 200).forEach(params => send(JSON.stringify({ method, params, id: ++requestId })));
+  };
+
+  const socket = createManagedSocket({
+    name: 'binance:trades',
+    url: 'wss://stream.binance.com:9443/ws',
+    onStatus,
+    socketFactory: options.socketFactory,
+    staleAfterMs: 30000, // Quiet symbols can go a while without a trade
+    onOpen: (send) => request(send, 'SUBSCRIBE', Array.from(symbols)),
+    onMessage: (raw) => {
+      try {
+        const t: AggTradePayload = JSON.parse(raw);
+        if (t.e !== 'aggTrade') return; // Subscription acks
+
+        const price = parseFloat(t.p);
+        const quote = price * parseFloat(t.q);
+        const flow = pendingFlows[t.s] || (pendingFlows[t.s] = { symbol: t.s, buyVolume: 0, sellVolume: 0, trades: 0, lastPrice: price, time: t.T });
+        if (t.m) flow.sellVolume += quote;
+        else flow.buyVolume += quote;
+        flow.trades++;
+        flow.lastPrice = price;
+        flow.time = t.T;
+
+        if (!throttleTimer) {
+          throttleTimer = setTimeout(() => {
+            onFlow({ ...pendingFlows });
+            pendingFlows = {};
+            throttleTimer = null;
+          }, options.batchIntervalMs ?? DEFAULT_BATCH_INTERVAL_MS);
+        }
+
+      } catch (e) {
+        console.error("AggTrade WS Parse Error", e);
+      }
+    }
+  });
 
   return {
-    id: Math.random().toString(36).substring(7),
-    strategy,
-    symbol: randomSymbol,
-    side,
-    price: signalPrice,
-    time: new Date().toISOString(),
-    note
+    setSymbols: (next) => {
+      const nextSet = new Set(next);
+      const added = next.filter(s => !symbols.has(s));
+      const removed = Array.from(symbols).filter(s => !nextSet.has(s));
+      symbols = nextSet;
+      // If the socket is down these are dropped; onOpen subscribes the full set on reconnect
+      if (removed.length) request(socket.send, 'UNSUBSCRIBE', removed);
+      if (added.length) request(socket.send, 'SUBSCRIBE', added);
+    },
+    close: () => {
+      socket.close();
+      if (throttleTimer) clearTimeout(throttleTimer);
+    }
   };
 };
 
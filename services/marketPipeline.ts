@@ -0,0 +1,361 @@
+import { Ticker, FuturesTicker, Liquidation, Signal, StreamStatus, Exchange, TradeFlow, OrderBook } from '../types';
+import { ExchangeAdapter, TradeSubscription, Disconnect, DEFAULT_BATCH_INTERVAL_MS, createExchangeAdapter, exchangeOf } from './exchanges';
+import { SimulatorConfig, createSimulatorAdapter } from './marketSimulator';
+import { RecordedMessage, RecordingStats, startRecording, stopRecording, getRecordingStats, getRecordingText, isRecording } from './marketRecorder';
+import { ReplaySpeed, ReplayProgress, ReplaySession, createReplaySession } from './marketReplay';
+import { loadSymbolRegistry, quoteToUsd } from './symbolRegistry';
+import { StrategyConfig } from './strategies';
+import {
+  AnalyzerState, Anomaly, BookView, FLOW_RESUBSCRIBE_MS,
+  createFlowAnalyzer, createSpikeDetector, createDivergenceDetector, rankFlowSymbols, computeSentiment, detectAnomalies,
+  summarizeBook, createWallTracker, buildBookView
+} from './marketAnalysis';
+
+// --- Market Pipeline ---
+// Owns every market socket plus the state derived from it. Runs inside the
+// market worker: React sends commands in and gets back only what changed since
+// the last update, coalesced into one message per batch.
+
+export type MarketSource =
+  | { kind: 'live'; exchanges: Exchange[] }
+  | { kind: 'simulator'; config: SimulatorConfig }
+  | { kind: 'replay'; messages: RecordedMessage[]; speed: ReplaySpeed };
+
+export type PipelineCommand =
+  | { type: 'configure'; source: MarketSource; batchIntervalMs: number }
+  | { type: 'scanner'; active: boolean } // Spot Sniper analysis only runs while it is on screen
+  | { type: 'book'; symbol: string | null } // Order book panel symbol, null while hidden
+  | { type: 'recorder'; action: 'start' | 'stop' }
+  | { type: 'strategies'; config: StrategyConfig }; // Plugin settings for the mark price strategies
+
+export interface MarketUpdate {
+  reset?: boolean; // Source changed: drop everything received so far, then apply the rest
+  dropExchanges?: Exchange[]; // Venues switched off
+  tickers?: Record<string, Ticker>; // Changed tickers by market key
+  futures?: Record<string, FuturesTicker>;
+  liquidations?: Liquidation[]; // Newest first
+  signals?: Signal[];
+  analyzers?: Record<string, AnalyzerState>;
+  flowSymbols?: number; // Symbols with real taker flow
+  book?: BookView | null; // null = no book for the current source
+  radar?: { sentiment: number; anomalies: Anomaly[] };
+  status?: Record<string, StreamStatus | null>; // null = stream closed
+  replay?: ReplayProgress;
+  now?: number; // Pipeline clock when the data came in: recorded time during a replay
+  recording?: RecordingStats | null;
+  recordingText?: string; // Sent once when a recording stops
+}
+
+export const BATCH_INTERVAL_OPTIONS = [250, 500, 1000, 2000];
+
+const MAX_LIQUIDATIONS = 50;
+
+const sameSource = (a: MarketSource | null, b: MarketSource) => {
+  if (!a || a.kind !== b.kind) return false;
+  if (a.kind === 'simulator' && b.kind === 'simulator') return a.config.seed === b.config.seed && a.config.scenario === b.config.scenario;
+  return a.kind === 'live'; // A new replay always starts over
+};
+
+const tickerChanged = (a: Ticker | undefined, b: Ticker) =>
+  !a || a.lastPrice !== b.lastPrice || a.volume !== b.volume || a.priceChangePercent !== b.priceChangePercent;
+
+export const createMarketPipeline = (post: (update: MarketUpdate) => void) => {
+  let tickers: Record<string, Ticker> = {};
+  let futures: Record<string, FuturesTicker> = {};
+
+  const flow = createFlowAnalyzer();
+  const spikes = createSpikeDetector();
+  const divergence = createDivergenceDetector();
+  const walls = createWallTracker();
+  const toUsd = (quote: string) => quoteToUsd(quote, tickers);
+
+  // The worker has its own copy of the registry; until it loads the snapshot covers the majors
+  loadSymbolRegistry();
+
+  let source: MarketSource | null = null;
+  let feeds: ExchangeAdapter[] = [];
+  let disconnects: Disconnect[] = [];
+  let replay: ReplaySession | null = null;
+  let scannerActive = false;
+  let tradeSub: TradeSubscription | null = null;
+  let depthSub: TradeSubscription | null = null;
+  let bookSymbol: string | null = null;
+  let closeBookStream: Disconnect | null = null;
+  let lastFlowRank = 0;
+  let wasRecording = false;
+
+  // Replays run on the recorded time so cooldowns and windows match at any speed
+  const clock = () => replay ? replay.now() : Date.now();
+
+  // --- Outgoing Batches ---
+  let pending: MarketUpdate = {};
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  let radarDirty = false;
+  let radarAt = 0; // Clock time of the data that dirtied the radar
+
+  const flush = () => {
+    flushTimer = null;
+    if (radarDirty) {
+      radarDirty = false;
+      pending.radar = { sentiment: computeSentiment(tickers), anomalies: detectAnomalies(tickers, futures, spikes.update([], radarAt)) };
+    }
+    if (isRecording() || wasRecording) {
+      pending.recording = getRecordingStats();
+      if (wasRecording && !isRecording()) pending.recordingText = getRecordingText(); // Stopped at the size cap
+      wasRecording = isRecording();
+    }
+    const update = pending;
+    pending = {};
+    post(update);
+  };
+
+  // Everything a source emits within one tick goes out as a single message
+  const schedule = () => {
+    pending.now = clock();
+    if (!flushTimer) flushTimer = setTimeout(flush, 0);
+  };
+
+  const reportStatus = (name: string) => (status: StreamStatus) => {
+    pending.status = { ...pending.status, [name]: status };
+    schedule();
+  };
+
+  const clearStatus = (name: string) => {
+    pending.status = { ...pending.status, [name]: null };
+    schedule();
+  };
+
+  // --- Ingestion ---
+  const onTickers = (batch: Record<string, Ticker>) => {
+    const changed: Ticker[] = [];
+    Object.entries(batch).forEach(([key, t]: [string, Ticker]) => {
+      if (!tickerChanged(tickers[key], t)) return;
+      tickers[key] = t;
+      pending.tickers = { ...pending.tickers, [key]: t };
+      changed.push(t);
+    });
+    if (changed.length === 0) return;
+
+    const now = clock();
+    spikes.update(changed, now);
+    if (scannerActive) {
+      const analyzers = flow.update(changed, toUsd, now);
+      if (Object.keys(analyzers).length > 0) pending.analyzers = { ...pending.analyzers, ...analyzers };
+      rankTradeSymbols(now);
+    }
+    radarDirty = true;
+    radarAt = now;
+    schedule();
+  };
+
+  const onFutures = (updates: Record<string, Partial<FuturesTicker>>) => {
+    const now = clock();
+    const { merged, signals } = divergence.update(futures, updates, now);
+    futures = { ...futures, ...merged };
+    pending.futures = { ...pending.futures, ...merged };
+    if (signals.length > 0) pending.signals = [...signals, ...(pending.signals || [])];
+    radarDirty = true;
+    radarAt = now;
+    schedule();
+  };
+
+  const onLiquidation = (liq: Liquidation) => {
+    pending.liquidations = [liq, ...(pending.liquidations || [])].slice(0, MAX_LIQUIDATIONS);
+    schedule();
+  };
+
+  // --- Spot Sniper Taker Flow and Depth (first source that streams them) ---
+  const rankTradeSymbols = (now: number) => {
+    if ((!tradeSub && !depthSub) || now - lastFlowRank < FLOW_RESUBSCRIBE_MS) return;
+    const top = rankFlowSymbols(Object.values(tickers) as Ticker[], toUsd);
+    if (top.length === 0) return;
+    lastFlowRank = now;
+    depthSub?.setSymbols(top);
+    if (!tradeSub) return;
+    tradeSub.setSymbols(top);
+    pending.flowSymbols = top.length;
+  };
+
+  const openTrades = () => {
+    const feed = feeds.find(f => f.connectTrades);
+    if (!scannerActive || tradeSub || !feed?.connectTrades) return;
+    const stream = `${feed.label.toLowerCase()}:trades`;
+    const sub = feed.connectTrades((flows: Record<string, TradeFlow>) => flow.addTrades(flows, clock()), reportStatus(stream));
+    tradeSub = {
+      setSymbols: sub.setSymbols,
+      close: () => { sub.close(); clearStatus(stream); }
+    };
+    lastFlowRank = 0; // Subscribe with the next ticker batch
+  };
+
+  const closeTrades = () => {
+    tradeSub?.close();
+    tradeSub = null;
+    pending.flowSymbols = 0;
+    schedule();
+  };
+
+  const openDepth = () => {
+    const feed = feeds.find(f => f.connectDepth);
+    if (!scannerActive || depthSub || !feed?.connectDepth) return;
+    const stream = `${feed.label.toLowerCase()}:depth`;
+    const sub = feed.connectDepth((books: Record<string, OrderBook>) => flow.addBooks(books, clock()), reportStatus(stream));
+    depthSub = {
+      setSymbols: sub.setSymbols,
+      close: () => { sub.close(); clearStatus(stream); }
+    };
+    lastFlowRank = 0;
+  };
+
+  const closeDepth = () => {
+    depthSub?.close();
+    depthSub = null;
+  };
+
+  // --- Order Book Panel ---
+  const onBook = (book: OrderBook) => {
+    const stats = summarizeBook(book);
+    if (!stats) return;
+    pending.book = buildBookView(book, stats, walls.update(book, stats, clock()));
+    schedule();
+  };
+
+  const openBook = () => {
+    if (!bookSymbol || closeBookStream) return;
+    const feed = feeds.find(f => f.connectOrderBook);
+    if (!feed?.connectOrderBook) {
+      pending.book = null;
+      schedule();
+      return;
+    }
+    const stream = `${feed.label.toLowerCase()}:book`;
+    const disconnect = feed.connectOrderBook(bookSymbol, onBook, reportStatus(stream));
+    closeBookStream = () => { disconnect(); clearStatus(stream); };
+  };
+
+  const closeBook = () => {
+    closeBookStream?.();
+    closeBookStream = null;
+    walls.reset();
+  };
+
+  // --- Sources ---
+  const disconnectAll = () => {
+    closeTrades();
+    closeDepth();
+    closeBook();
+    disconnects.forEach(d => d());
+    disconnects = [];
+    replay?.stop();
+    replay = null;
+    feeds = [];
+  };
+
+  const connectAll = () => {
+    disconnects = feeds.flatMap(feed => {
+      const name = feed.label.toLowerCase();
+      return [
+        { stream: `${name}:spot`, disconnect: feed.connectSpot(onTickers, reportStatus(`${name}:spot`)) },
+        { stream: `${name}:futures`, disconnect: feed.connectFutures(onFutures, reportStatus(`${name}:futures`)) },
+        { stream: `${name}:liquidations`, disconnect: feed.connectLiquidations(onLiquidation, reportStatus(`${name}:liquidations`)) }
+      ].map(({ stream, disconnect }) => () => { disconnect(); clearStatus(stream); });
+    });
+    openTrades();
+    openDepth();
+    openBook();
+  };
+
+  const resetState = () => {
+    tickers = {};
+    futures = {};
+    flow.reset();
+    spikes.reset();
+    divergence.reset();
+    radarDirty = false;
+    // Keep closed-stream statuses, everything else belongs to the old source
+    pending = { reset: true, status: pending.status, flowSymbols: pending.flowSymbols };
+  };
+
+  const configure = (next: MarketSource, batchIntervalMs = DEFAULT_BATCH_INTERVAL_MS) => {
+    const previous = source;
+    disconnectAll();
+
+    if (!sameSource(previous, next)) {
+      resetState();
+    } else if (previous?.kind === 'live' && next.kind === 'live') {
+      // Drop data from venues that were switched off so they don't linger frozen
+      const dropped = previous.exchanges.filter(id => !next.exchanges.includes(id));
+      if (dropped.length > 0) {
+        const keep = (item: { exchange?: Exchange }) => !dropped.includes(exchangeOf(item));
+        tickers = Object.fromEntries(Object.entries(tickers).filter(([, t]) => keep(t)));
+        futures = Object.fromEntries(Object.entries(futures).filter(([, f]) => keep(f)));
+        pending.dropExchanges = dropped;
+        radarDirty = true;
+        radarAt = clock();
+      }
+    }
+    source = next;
+
+    if (next.kind === 'replay') {
+      replay = createReplaySession(next.messages, next.speed, progress => {
+        pending.replay = progress;
+        schedule();
+      });
+      feeds = replay.adapters;
+    } else if (next.kind === 'simulator') {
+      feeds = [createSimulatorAdapter(next.config)];
+    } else {
+      feeds = next.exchanges.map(id => createExchangeAdapter(id, { batchIntervalMs }));
+    }
+    connectAll();
+    schedule();
+  };
+
+  const handle = (command: PipelineCommand) => {
+    switch (command.type) {
+      case 'configure':
+        configure(command.source, command.batchIntervalMs);
+        break;
+      case 'scanner':
+        scannerActive = command.active;
+        if (scannerActive) {
+          openTrades();
+          openDepth();
+        } else {
+          closeTrades();
+          closeDepth();
+          flow.reset();
+        }
+        break;
+      case 'book':
+        if (command.symbol === bookSymbol) break;
+        closeBook();
+        bookSymbol = command.symbol;
+        openBook();
+        break;
+      case 'recorder':
+        if (command.action === 'start') {
+          startRecording();
+          wasRecording = true;
+        } else {
+          pending.recordingText = stopRecording();
+          pending.recording = getRecordingStats();
+          wasRecording = false;
+        }
+        schedule();
+        break;
+      case 'strategies':
+        divergence.setConfig(command.config);
+        break;
+    }
+  };
+
+  return {
+    handle,
+    close: () => {
+      disconnectAll();
+      if (flushTimer) clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+  };
+};
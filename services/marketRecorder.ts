@@ -0,0 +1,89 @@
+import { setMessageTap } from './connectionManager';
+
+// --- Market Stream Recorder ---
+// Captures every raw frame from the managed sockets (tickers, mark price,
+// force orders) as NDJSON, one `{ t, stream, data }` object per line.
+
+export interface RecordedMessage {
+  t: number; // Receive time, epoch ms
+  stream: string; // Managed socket name, e.g. 'binance:futures'
+  data: string; // Raw frame exactly as received
+}
+
+export interface RecordingStats {
+  messages: number;
+  bytes: number;
+  startedAt: number;
+  stoppedAt?: number;
+  truncated: boolean; // Hit the size cap and stopped on its own
+}
+
+const MAX_RECORDING_BYTES = 100 * 1024 * 1024; // Keep the tab from running out of memory
+
+let lines: string[] = [];
+let stats: RecordingStats | null = null;
+
+export const isRecording = () => !!stats && !stats.stoppedAt;
+
+export const getRecordingStats = (): RecordingStats | null => (stats ? { ...stats } : null);
+
+export const startRecording = (maxBytes = MAX_RECORDING_BYTES) => {
+  lines = [];
+  const current: RecordingStats = { messages: 0, bytes: 0, startedAt: Date.now(), truncated: false };
+  stats = current;
+
+  setMessageTap((stream, data) => {
+    const line = JSON.stringify({ t: Date.now(), stream, data: String(data) } as RecordedMessage);
+    if (current.bytes + line.length > maxBytes) {
+      current.truncated = true;
+      stopRecording();
+      return;
+    }
+    lines.push(line);
+    current.messages++;
+    current.bytes += line.length + 1;
+  });
+};
+
+// Returns the NDJSON text of the recording (also available until the next start)
+export const stopRecording = () => {
+  setMessageTap(null);
+  if (stats && !stats.stoppedAt) stats.stoppedAt = Date.now();
+  return getRecordingText();
+};
+
+export const getRecordingText = () => (lines.length ? lines.join('\n') + '\n' : '');
+
+export const downloadRecording = (text = getRecordingText()) => {
+  const blob = new Blob([text], { type: 'application/x-ndjson' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `fidelio_market_${new Date().toISOString().replace(/[:.]/g, '-')}.ndjson`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Lenient parse: bad lines are counted and skipped rather than failing the whole file
+export const parseRecording = (text: string): { messages: RecordedMessage[]; skipped: number } => {
+  const messages: RecordedMessage[] = [];
+  let skipped = 0;
+
+  text.split('\n').forEach(line => {
+    if (!line.trim()) return;
+    try {
+      const m = JSON.parse(line);
+      if (typeof m.t !== 'number' || typeof m.stream !== 'string' || m.data === undefined) {
+        skipped++;
+        return;
+      }
+      messages.push({ t: m.t, stream: m.stream, data: typeof m.data === 'string' ? m.data : JSON.stringify(m.data) });
+    } catch (e) {
+      skipped++;
+    }
+  });
+
+  // Streams are written as they arrive, but concatenated files may interleave
+  messages.sort((a, b) => a.t - b.t);
+  return { messages, skipped };
+};
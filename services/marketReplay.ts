@@ -0,0 +1,113 @@
+import { Exchange } from '../types';
+import { SocketFactory, SocketLike } from './connectionManager';
+import { RecordedMessage } from './marketRecorder';
+import { ExchangeAdapter, EXCHANGE_META, createExchangeAdapter } from './exchanges';
+
+// --- Market Replay Source ---
+// Feeds a recording back through the real exchange adapters by swapping their
+// WebSocket for an in-memory one, so parsing, batching and every App callback
+// run exactly as they did live.
+
+export type ReplaySpeed = 1 | 10 | 'max';
+
+export interface ReplayProgress {
+  start: number; // Recorded time range, epoch ms
+  end: number;
+  position: number;
+  delivered: number; // Messages dispatched so far
+  total: number;
+  done: boolean;
+}
+
+export interface ReplaySession {
+  adapters: ExchangeAdapter[];
+  speed: ReplaySpeed;
+  now: () => number; // Recorded time at the end of the step being delivered
+  stop: () => void;
+}
+
+// Recorded time advances in fixed steps; everything inside a step is delivered
+// together and flushed as one batch, which keeps runs identical at any speed.
+// Detectors read the recorded clock through `now`, never the wall clock.
+const STEP_MS = 1000;
+const MAX_GAP_MS = 10000; // Skip dead air (laptop asleep, dropped connection)
+
+export const exchangesInRecording = (messages: RecordedMessage[]): Exchange[] => {
+  const found = new Set<Exchange>();
+  messages.forEach(m => {
+    const prefix = m.stream.split(':')[0].toUpperCase();
+    if (prefix in EXCHANGE_META) found.add(prefix as Exchange);
+  });
+  return Array.from(found);
+};
+
+export const createReplaySession = (
+  messages: RecordedMessage[],
+  speed: ReplaySpeed,
+  onProgress?: (progress: ReplayProgress) => void
+): ReplaySession => {
+  const sockets: Record<string, SocketLike> = {};
+  const stepWallMs = speed === 'max' ? 0 : STEP_MS / speed;
+  const start = messages.length ? messages[0].t : 0;
+  const end = messages.length ? messages[messages.length - 1].t : 0;
+
+  let index = 0;
+  let cursor = start;
+  let started = false;
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const step = () => {
+    timer = null;
+    if (stopped) return;
+
+    if (index < messages.length && messages[index].t - cursor > MAX_GAP_MS) cursor = messages[index].t;
+    const until = cursor + STEP_MS;
+    while (index < messages.length && messages[index].t < until) {
+      const m = messages[index++];
+      // Streams that aren't connected (venue toggled off, reconnecting) just miss the frame
+      sockets[m.stream]?.onmessage?.({ data: m.data });
+    }
+    cursor = until;
+
+    const done = index >= messages.length;
+    onProgress?.({ start, end, position: Math.min(cursor, end), delivered: index, total: messages.length, done });
+    if (!done) timer = setTimeout(step, stepWallMs);
+  };
+
+  const socketFactory: SocketFactory = (_url, name) => {
+    const socket: SocketLike = {
+      onopen: null,
+      onmessage: null,
+      onclose: null,
+      onerror: null,
+      send: () => { /* Subscriptions and pings have nowhere to go */ },
+      close: () => {
+        if (sockets[name] === socket) delete sockets[name];
+      }
+    };
+    sockets[name] = socket;
+    setTimeout(() => socket.onopen?.({ type: 'open' }), 0);
+
+    // Start the clock once the first batch of streams has had a chance to attach
+    if (!started) {
+      started = true;
+      timer = setTimeout(step, 0);
+    }
+    return socket;
+  };
+
+  // Batches flush halfway through each step, before the next one is delivered
+  const options = { socketFactory, batchIntervalMs: stepWallMs / 2 };
+
+  return {
+    adapters: exchangesInRecording(messages).map(id => createExchangeAdapter(id, options)),
+    speed,
+    now: () => cursor,
+    stop: () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      timer = null;
+    }
+  };
+};
@@ -0,0 +1,355 @@
+import { Ticker, FuturesTicker, Liquidation, StreamStatus, TradeFlow } from '../types';
+import { DEFAULT_WATCHLIST } from '../constants';
+import { ExchangeAdapter, MIN_LIQUIDATION_VALUE } from './exchanges/common';
+
+// --- Synthetic Market Simulator ---
+// Offline stand-in for the Binance streams. Prices follow a random walk driven
+// by a shared market factor (so coins move together), volatility regimes and
+// scripted pump/dump events. Everything comes from one seeded RNG advanced once
+// per tick, so a seed always produces the same stream no matter who listens.
+
+export type SimulatorScenarioId = 'calm' | 'choppy' | 'pump_dump' | 'cascade';
+
+export interface SimulatorConfig {
+  seed: number;
+  scenario: SimulatorScenarioId;
+}
+
+type Regime = 'calm' | 'normal' | 'volatile';
+
+interface ScriptedEvent {
+  atSec: number; // Seconds after the simulation starts
+  durationSec: number;
+  symbol: string | '*' | null; // '*' moves the whole market, null picks a seeded random alt
+  change: number; // Total move over the event, 0.2 = +20%
+  volumeBoost: number; // Multiplier on traded volume while active
+}
+
+interface ScenarioDefinition {
+  label: string;
+  description: string;
+  symbolCount: number;
+  regime: Regime;
+  randomEventsPerHour: number;
+  events: ScriptedEvent[];
+}
+
+export const SIMULATOR_SCENARIOS: Record<SimulatorScenarioId, ScenarioDefinition> = {
+  calm: {
+    label: 'Calm',
+    description: 'Low volatility drift, the odd volume spike.',
+    symbolCount: 200,
+    regime: 'calm',
+    randomEventsPerHour: 4,
+    events: []
+  },
+  choppy: {
+    label: 'Choppy',
+    description: 'Regime switches and frequent random pumps on alts.',
+    symbolCount: 300,
+    regime: 'normal',
+    randomEventsPerHour: 30,
+    events: []
+  },
+  pump_dump: {
+    label: 'Pump & Dump',
+    description: 'SOL squeezes then unwinds, plus a small cap pump after two minutes.',
+    symbolCount: 250,
+    regime: 'normal',
+    randomEventsPerHour: 10,
+    events: [
+      { atSec: 30, durationSec: 90, symbol: 'SOLUSDT', change: 0.18, volumeBoost: 25 },
+      { atSec: 150, durationSec: 60, symbol: 'SOLUSDT', change: -0.22, volumeBoost: 30 },
+      { atSec: 120, durationSec: 45, symbol: null, change: 0.45, volumeBoost: 60 },
+    ]
+  },
+  cascade: {
+    label: 'Liquidation Cascade',
+    description: 'Market-wide flush with liquidation bursts, then a relief bounce.',
+    symbolCount: 300,
+    regime: 'volatile',
+    randomEventsPerHour: 6,
+    events: [
+      { atSec: 45, durationSec: 60, symbol: '*', change: -0.07, volumeBoost: 15 },
+      { atSec: 150, durationSec: 90, symbol: '*', change: 0.04, volumeBoost: 6 },
+    ]
+  }
+};
+
+export const DEFAULT_SIMULATOR_CONFIG: SimulatorConfig = { seed: 42, scenario: 'choppy' };
+
+// --- Seeded RNG (mulberry32) ---
+
+export const createRng = (seed: number) => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const normal = () => {
+    // Box-Muller, avoid log(0)
+    const u = Math.max(next(), 1e-12);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * next());
+  };
+  const poisson = (lambda: number) => {
+    const limit = Math.exp(-Math.min(lambda, 30));
+    let k = 0;
+    let p = next();
+    while (p > limit) { k++; p *= next(); }
+    return k;
+  };
+  return { next, normal, poisson, range: (min: number, max: number) => min + next() * (max - min) };
+};
+
+type Rng = ReturnType<typeof createRng>;
+
+// --- Universe ---
+
+const KNOWN_PRICES: Record<string, number> = {
+  BTCUSDT: 65000, ETHUSDT: 3400, SOLUSDT: 150, BNBUSDT: 580, XRPUSDT: 0.6,
+  DOGEUSDT: 0.15, ADAUSDT: 0.45, AVAXUSDT: 35, DOTUSDT: 7, MATICUSDT: 0.7,
+  LINKUSDT: 15, LTCUSDT: 80, TRXUSDT: 0.12, NEARUSDT: 6, ATOMUSDT: 8,
+  UNIUSDT: 9, APTUSDT: 9, ARBUSDT: 1.1, OPUSDT: 2.3, SUIUSDT: 1.2,
+  PEPEUSDT: 0.00001, SHIBUSDT: 0.00002, INJUSDT: 25, TIAUSDT: 9, WIFUSDT: 2.5,
+};
+
+const SYLLABLES = ['ZO', 'RA', 'KI', 'NU', 'VEX', 'LO', 'MI', 'TA', 'QU', 'XEN', 'BO', 'DA', 'FI', 'GRA', 'PY', 'SOL', 'ON', 'AR', 'EL', 'YU'];
+
+interface SimSymbol {
+  symbol: string;
+  price: number;
+  open: number; // 24h open, for priceChangePercent
+  volume: number; // Rolling 24h quote volume
+  baseVolume: number; // Long-run daily quote volume
+  beta: number; // Sensitivity to the market factor
+  sigma: number; // Idiosyncratic per-second volatility
+  funding: number;
+  momentum: number; // EMA of returns, drives funding
+}
+
+const buildUniverse = (rng: Rng, count: number): SimSymbol[] => {
+  const names = [...DEFAULT_WATCHLIST, ...Object.keys(KNOWN_PRICES).filter(s => !DEFAULT_WATCHLIST.includes(s))];
+  const seen = new Set(names);
+  while (names.length < count) {
+    const parts = 1 + Math.floor(rng.next() * 2);
+    let base = '';
+    for (let i = 0; i <= parts; i++) base += SYLLABLES[Math.floor(rng.next() * SYLLABLES.length)];
+    const symbol = `${base.slice(0, 6)}USDT`;
+    if (!seen.has(symbol)) { seen.add(symbol); names.push(symbol); }
+  }
+
+  return names.slice(0, Math.max(count, DEFAULT_WATCHLIST.length)).map((symbol, rank) => {
+    const price = KNOWN_PRICES[symbol] ?? Math.pow(10, rng.range(-4, 2));
+    const dayChange = rng.normal() * 0.03;
+    // Volume falls off with rank like a real exchange listing
+    const baseVolume = Math.max(2e5, 2e9 / Math.pow(rank + 1, 1.2));
+    return {
+      symbol,
+      price,
+      open: price / (1 + dayChange),
+      volume: baseVolume * rng.range(0.6, 1.4),
+      baseVolume,
+      beta: rank < 2 ? 1 : rng.range(0.6, 1.8),
+      sigma: (rank < 10 ? 0.0002 : 0.0004) * rng.range(0.7, 2),
+      funding: 0.0001 + rng.normal() * 0.0002,
+      momentum: 0
+    };
+  });
+};
+
+// --- World ---
+
+const REGIME_VOL: Record<Regime, number> = { calm: 0.5, normal: 1, volatile: 2.5 };
+const REGIMES: Regime[] = ['calm', 'normal', 'volatile'];
+const TICK_MS = 1000;
+const MARKET_SIGMA = 0.00025; // Per-second vol of the common factor
+const FUNDING_INTERVAL_MS = 8 * 60 * 60 * 1000;
+const FUNDING_CAP = 0.0075;
+
+interface ActiveEvent extends ScriptedEvent {
+  target: string; // Resolved symbol or '*'
+  startTick: number;
+}
+
+type Listeners = {
+  spot: Set<(tickers: Record<string, Ticker>) => void>;
+  futures: Set<(updates: Record<string, Partial<FuturesTicker>>) => void>;
+  liquidations: Set<(liq: Liquidation) => void>;
+  trades: Set<(flows: Record<string, TradeFlow>) => void>;
+};
+
+const createWorld = (config: SimulatorConfig) => {
+  const scenario = SIMULATOR_SCENARIOS[config.scenario] || SIMULATOR_SCENARIOS[DEFAULT_SIMULATOR_CONFIG.scenario];
+  const rng = createRng(config.seed);
+  const universe = buildUniverse(rng, scenario.symbolCount);
+  const alts = universe.slice(DEFAULT_WATCHLIST.length);
+  const startTime = Date.now();
+
+  let tick = 0;
+  let regime: Regime = scenario.regime;
+  let events: ActiveEvent[] = [];
+  let liqSeq = 0;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  const listeners: Listeners = { spot: new Set(), futures: new Set(), liquidations: new Set(), trades: new Set() };
+
+  const pickAlt = () => (alts.length ? alts[Math.floor(rng.next() * alts.length)] : universe[universe.length - 1]).symbol;
+
+  const startEvents = () => {
+    scenario.events.forEach(e => {
+      if (e.atSec === tick) events.push({ ...e, target: e.symbol ?? pickAlt(), startTick: tick });
+    });
+    if (rng.next() < scenario.randomEventsPerHour / 3600) {
+      const up = rng.next() < 0.6;
+      events.push({
+        atSec: tick, startTick: tick, symbol: null, target: pickAlt(),
+        durationSec: Math.round(rng.range(20, 120)),
+        change: up ? rng.range(0.08, 0.4) : -rng.range(0.08, 0.3),
+        volumeBoost: rng.range(10, 60)
+      });
+    }
+    events = events.filter(e => tick < e.startTick + e.durationSec);
+  };
+
+  // Per-second log drift and volume boost from whatever events touch this symbol
+  const eventEffect = (symbol: string) => {
+    let drift = 0;
+    let boost = 1;
+    events.forEach(e => {
+      if (e.target !== '*' && e.target !== symbol) return;
+      drift += Math.log(1 + e.change) / e.durationSec;
+      boost = Math.max(boost, e.volumeBoost);
+    });
+    return { drift, boost };
+  };
+
+  const step = () => {
+    const now = startTime + tick * TICK_MS;
+    if (rng.next() < 1 / 240) regime = REGIMES[Math.floor(rng.next() * REGIMES.length)];
+    startEvents();
+
+    const vol = REGIME_VOL[regime];
+    const marketEvent = eventEffect('*');
+    const market = MARKET_SIGMA * vol * rng.normal() + marketEvent.drift;
+    const nextFundingTime = Math.ceil((now + 1) / FUNDING_INTERVAL_MS) * FUNDING_INTERVAL_MS;
+
+    const tickers: Record<string, Ticker> = {};
+    const futures: Record<string, Partial<FuturesTicker>> = {};
+    const liquidations: Liquidation[] = [];
+    const flows: Record<string, TradeFlow> = {};
+
+    universe.forEach(s => {
+      const z = rng.normal();
+      const own = eventEffect(s.symbol);
+      const ret = s.beta * market + s.sigma * vol * z + own.drift;
+      s.price *= Math.exp(ret);
+
+      // Activity scales with the size of the move and any event in play
+      const boost = Math.max(own.boost, marketEvent.boost);
+      const tickVolume = (s.baseVolume / 86400) * (0.5 + rng.next()) * (1 + Math.abs(z)) * boost;
+      s.volume = s.volume * (1 - 1 / 86400) + tickVolume;
+
+      // Takers lean with the move, and hard into events. No extra RNG draws so
+      // listening to trades doesn't change the rest of the stream.
+      const lean = own.drift > 0 ? 0.2 : own.drift < 0 ? -0.2 : 0;
+      const buyShare = Math.max(0.05, Math.min(0.95, 0.5 + z * 0.12 + lean));
+      flows[s.symbol] = {
+        symbol: s.symbol,
+        buyVolume: tickVolume * buyShare,
+        sellVolume: tickVolume * (1 - buyShare),
+        trades: Math.ceil(tickVolume / 2000),
+        lastPrice: s.price,
+        time: now
+      };
+
+      // Crowd leans against squeezes: shorts pile into pumps, longs into dumps
+      s.momentum = s.momentum * 0.95 + ret * 0.05;
+      const crowd = own.drift !== 0 ? -Math.sign(own.drift) * 0.0008 : 0.0001 + s.momentum * 20;
+      s.funding += (crowd - s.funding) * 0.02 + rng.normal() * 0.000005;
+      s.funding = Math.max(-FUNDING_CAP, Math.min(FUNDING_CAP, s.funding));
+
+      tickers[s.symbol] = {
+        symbol: s.symbol,
+        exchange: 'BINANCE',
+        lastPrice: s.price,
+        priceChangePercent: ((s.price - s.open) / s.open) * 100,
+        volume: s.volume,
+        updatedAt: now
+      };
+      futures[s.symbol] = {
+        symbol: s.symbol,
+        exchange: 'BINANCE',
+        markPrice: s.price * (1 + s.funding * 0.5),
+        indexPrice: s.price,
+        fundingRate: s.funding,
+        nextFundingTime
+      };
+
+      // Background trickle, bursts on outsized moves
+      const surprise = Math.abs(ret) / (s.sigma * vol + MARKET_SIGMA * vol * s.beta);
+      const count = rng.poisson(0.002 + (surprise > 2 ? surprise * 0.4 : 0) + (boost > 1 ? 0.05 : 0));
+      for (let i = 0; i < count; i++) {
+        const value = Math.exp(Math.log(2000 + s.baseVolume / 2e4) + rng.normal() * 1.2);
+        if (value < MIN_LIQUIDATION_VALUE) continue;
+        const time = now + Math.floor(rng.next() * TICK_MS);
+        liquidations.push({
+          id: `sim_${s.symbol}_${time}_${liqSeq++}`,
+          symbol: s.symbol,
+          exchange: 'BINANCE',
+          side: ret < 0 ? 'LONG' : 'SHORT', // Falling price wipes out longs
+          price: s.price,
+          amount: value / s.price,
+          value,
+          time
+        });
+      }
+    });
+
+    tick++;
+    listeners.spot.forEach(l => l(tickers));
+    listeners.futures.forEach(l => l(futures));
+    listeners.trades.forEach(l => l(flows));
+    liquidations.sort((a, b) => a.time - b.time).forEach(liq => listeners.liquidations.forEach(l => l(liq)));
+  };
+
+  // The clock only runs while something is listening; pausing keeps the sequence intact
+  const updateClock = () => {
+    const listening = listeners.spot.size + listeners.futures.size + listeners.liquidations.size + listeners.trades.size > 0;
+    if (listening && !timer) timer = setInterval(step, TICK_MS);
+    if (!listening && timer) { clearInterval(timer); timer = null; }
+  };
+
+  const attach = <K extends keyof Listeners>(kind: K, listener: Parameters<Listeners[K]['add']>[0], onStatus?: (status: StreamStatus) => void) => {
+    (listeners[kind] as Set<typeof listener>).add(listener);
+    onStatus?.('live');
+    updateClock();
+    return () => {
+      (listeners[kind] as Set<typeof listener>).delete(listener);
+      updateClock();
+    };
+  };
+
+  return { attach };
+};
+
+export const createSimulatorAdapter = (config: SimulatorConfig = DEFAULT_SIMULATOR_CONFIG): ExchangeAdapter => {
+  const world = createWorld(config);
+  return {
+    id: 'BINANCE', // Simulated symbols behave like the primary venue everywhere in the UI
+    label: 'Simulator',
+    connectSpot: (onTickers, onStatus) => world.attach('spot', onTickers, onStatus),
+    connectFutures: (onFutures, onStatus) => world.attach('futures', onFutures, onStatus),
+    connectLiquidations: (onLiquidation, onStatus) => world.attach('liquidations', onLiquidation, onStatus),
+    connectTrades: (onFlow, onStatus) => {
+      let symbols = new Set<string>();
+      const detach = world.attach('trades', (flows) => {
+        const picked: Record<string, TradeFlow> = {};
+        symbols.forEach(s => { if (flows[s]) picked[s] = flows[s]; });
+        if (Object.keys(picked).length) onFlow(picked);
+      }, onStatus);
+      return { setSymbols: (next) => { symbols = new Set(next); }, close: detach };
+    },
+  };
+};
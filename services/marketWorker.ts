@@ -0,0 +1,8 @@
+import { createMarketPipeline, MarketUpdate, PipelineCommand } from './marketPipeline';
+
+// --- Market Worker ---
+// Entry point for the dedicated worker; see marketPipeline for the protocol.
+
+const pipeline = createMarketPipeline((update: MarketUpdate) => self.postMessage(update));
+
+self.onmessage = (e: MessageEvent<PipelineCommand>) => pipeline.handle(e.data);
@@ -0,0 +1,29 @@
+import { createMarketPipeline, MarketUpdate, PipelineCommand } from './marketPipeline';
+
+// --- Market Worker Client ---
+// Starts the market pipeline in a Web Worker, or on the main thread when the
+// browser can't run module workers.
+
+export interface MarketPipelineClient {
+  send: (command: PipelineCommand) => void;
+  close: () => void;
+}
+
+export const connectMarketPipeline = (onUpdate: (update: MarketUpdate) => void): MarketPipelineClient => {
+  if (typeof Worker !== 'undefined') {
+    try {
+      const worker = new Worker(new URL('./marketWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<MarketUpdate>) => onUpdate(e.data);
+      worker.onerror = (e) => console.error("Market worker error", e);
+      return {
+        send: (command) => worker.postMessage(command),
+        close: () => worker.terminate()
+      };
+    } catch (e) {
+      console.error("Market worker unavailable, running on the main thread", e);
+    }
+  }
+
+  const pipeline = createMarketPipeline(onUpdate);
+  return { send: pipeline.handle, close: pipeline.close };
+};
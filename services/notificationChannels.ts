@@ -0,0 +1,225 @@
+import { ChannelDelivery, ChannelKind, NotificationChannel, Signal } from '../types';
+import { computeBackoff } from './connectionManager';
+
+// --- Outbound Notification Channels ---
+// Sends rule matches to a Telegram bot, Discord or Slack incoming webhooks, or
+// any HTTP endpoint with a templated body. Network errors, 429s and 5xx are
+// retried with backoff (honouring retry-after), and every attempt reports the
+// delivery's status. API origins can be overridden per channel or with
+// TELEGRAM_API_URL, DISCORD_API_URL and SLACK_API_URL, e.g. to test against a
+// local stub server.
+
+export interface ChannelMessage {
+  title: string;
+  body: string;
+  ruleName?: string;
+  signal?: Signal;
+}
+
+export const CHANNEL_KINDS: ChannelKind[] = ['TELEGRAM', 'DISCORD', 'SLACK', 'HTTP'];
+
+export const CHANNEL_LABELS: Record<ChannelKind, string> = {
+  TELEGRAM: 'Telegram',
+  DISCORD: 'Discord',
+  SLACK: 'Slack',
+  HTTP: 'HTTP POST'
+};
+
+const DEFAULT_BASE_URLS: Record<ChannelKind, string | undefined> = {
+  TELEGRAM: process.env.TELEGRAM_API_URL || 'https://api.telegram.org',
+  DISCORD: process.env.DISCORD_API_URL,
+  SLACK: process.env.SLACK_API_URL,
+  HTTP: undefined
+};
+
+export const DEFAULT_TEMPLATES: Record<ChannelKind, string> = {
+  TELEGRAM: '{{title}}\n{{body}}',
+  DISCORD: '**{{title}}**\n{{body}}',
+  SLACK: '*{{title}}*\n{{body}}',
+  HTTP: '{"title": "{{title}}", "body": "{{body}}", "rule": "{{rule}}", "signal": {{signal}}}'
+};
+
+export const TEMPLATE_FIELDS = ['title', 'body', 'rule', 'symbol', 'side', 'strategy', 'price', 'confidence', 'exchange', 'time', 'note', 'signal'];
+
+const DEFAULT_HTTP_HEADERS = { 'Content-Type': 'application/json' };
+const MESSAGE_LIMITS: Partial<Record<ChannelKind, number>> = { TELEGRAM: 4096, DISCORD: 2000 };
+const MAX_ATTEMPTS = 4;
+const MAX_RETRY_DELAY_MS = 30000;
+
+// --- Templates ---
+
+const templateVars = (m: ChannelMessage): Record<string, string> => {
+  const s = m.signal;
+  return {
+    title: m.title,
+    body: m.body,
+    rule: m.ruleName || '',
+    symbol: s?.symbol || '',
+    side: s?.side || '',
+    strategy: s?.strategy || '',
+    price: s ? String(s.price) : '',
+    confidence: s?.confidence !== undefined ? String(s.confidence) : '',
+    exchange: s ? s.exchange || 'BINANCE' : '',
+    time: s?.time || new Date().toISOString(),
+    note: s?.note || '',
+    signal: s ? JSON.stringify(s) : 'null'
+  };
+};
+
+// In JSON bodies values are escaped to sit inside quotes; {{signal}} is the whole signal as JSON
+export const renderTemplate = (template: string, message: ChannelMessage, json = false) => {
+  const vars = templateVars(message);
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => {
+    if (!(key in vars)) return match;
+    return json && key !== 'signal' ? JSON.stringify(vars[key]).slice(1, -1) : vars[key];
+  });
+};
+
+// --- Requests ---
+
+const isJson = (headers: Record<string, string>) =>
+  Object.entries(headers).some(([k, v]) => k.toLowerCase() === 'content-type' && v.toLowerCase().includes('json'));
+
+// Keeps the path and query of `url` on a different origin
+const withBase = (url: string, base?: string) => {
+  if (!base) return url;
+  const parsed = new URL(url);
+  return `${base.replace(/\/$/, '')}${parsed.pathname}${parsed.search}`;
+};
+
+export const channelError = (c: NotificationChannel): string | null => {
+  if (c.kind === 'TELEGRAM') {
+    if (!c.botToken?.trim()) return 'Bot token is required';
+    if (!c.chatId?.trim()) return 'Chat id is required';
+  } else {
+    if (!c.url?.trim()) return 'URL is required';
+    try {
+      new URL(c.url);
+    } catch {
+      return 'URL is not valid';
+    }
+  }
+  if (c.baseUrl) {
+    try {
+      new URL(c.baseUrl);
+    } catch {
+      return 'Base URL is not valid';
+    }
+  }
+  return null;
+};
+
+interface ChannelRequest {
+  url: string;
+  init: RequestInit;
+  opaque?: boolean; // The response can't be read from the browser
+}
+
+const buildRequest = (c: NotificationChannel, message: ChannelMessage): ChannelRequest => {
+  const template = c.template || DEFAULT_TEMPLATES[c.kind];
+  const base = c.baseUrl || DEFAULT_BASE_URLS[c.kind];
+  const text = renderTemplate(template, message).slice(0, MESSAGE_LIMITS[c.kind]);
+  const post = (body: string, headers: Record<string, string>): RequestInit => ({ method: 'POST', headers, body });
+
+  switch (c.kind) {
+    case 'TELEGRAM':
+      return {
+        url: `${base!.replace(/\/$/, '')}/bot${c.botToken!.trim()}/sendMessage`,
+        init: post(JSON.stringify({ chat_id: c.chatId!.trim(), text, disable_web_page_preview: true }), DEFAULT_HTTP_HEADERS)
+      };
+    case 'DISCORD':
+      return { url: withBase(c.url!, base), init: post(JSON.stringify({ content: text }), DEFAULT_HTTP_HEADERS) };
+    case 'SLACK':
+      // Slack webhooks send no CORS headers; a form post is a simple request that still goes through
+      return {
+        url: withBase(c.url!, base),
+        init: { ...post(`payload=${encodeURIComponent(JSON.stringify({ text }))}`, { 'Content-Type': 'application/x-www-form-urlencoded' }), mode: 'no-cors' },
+        opaque: true
+      };
+    case 'HTTP': {
+      const headers = c.headers && Object.keys(c.headers).length > 0 ? c.headers : DEFAULT_HTTP_HEADERS;
+      return { url: withBase(c.url!, base), init: post(renderTemplate(template, message, isJson(headers)), headers) };
+    }
+  }
+};
+
+class DeliveryError extends Error {
+  constructor(message: string, public httpStatus?: number, public retryAfterMs?: number, public retryable = true) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
+
+const send = async (request: ChannelRequest): Promise<number | undefined> => {
+  const res = await fetch(request.url, request.init);
+  if (request.opaque) return undefined;
+  if (res.ok) return res.status;
+
+  const text = await res.text().catch(() => '');
+  let detail = text;
+  let retryAfterMs: number | undefined;
+  try {
+    const data = JSON.parse(text);
+    detail = data.description || data.message || data.error || text;
+    const retryAfter = data.parameters?.retry_after ?? data.retry_after; // Telegram, Discord (seconds)
+    if (typeof retryAfter === 'number') retryAfterMs = retryAfter * 1000;
+  } catch {
+    // Plain text error
+  }
+  const header = Number(res.headers.get('Retry-After'));
+  if (retryAfterMs === undefined && header > 0) retryAfterMs = header * 1000;
+  throw new DeliveryError(
+    `HTTP ${res.status}${detail ? `: ${String(detail).slice(0, 200)}` : ''}`,
+    res.status, retryAfterMs, res.status === 429 || res.status >= 500
+  );
+};
+
+// --- Delivery ---
+
+export const deliverToChannel = async (
+  channel: NotificationChannel,
+  message: ChannelMessage,
+  onUpdate: (delivery: ChannelDelivery) => void
+): Promise<ChannelDelivery> => {
+  const createdAt = Date.now();
+  let delivery: ChannelDelivery = {
+    id: `${channel.id}_${createdAt}_${Math.random().toString(36).substring(2, 7)}`,
+    channelId: channel.id,
+    channelName: channel.name,
+    kind: channel.kind,
+    title: message.title,
+    ruleName: message.ruleName,
+    status: 'PENDING',
+    attempts: 0,
+    createdAt,
+    updatedAt: createdAt
+  };
+  const update = (patch: Partial<ChannelDelivery>) => {
+    delivery = { ...delivery, ...patch, updatedAt: Date.now() };
+    onUpdate(delivery);
+  };
+  onUpdate(delivery);
+
+  const problem = channelError(channel);
+  if (problem) {
+    update({ status: 'FAILED', error: problem });
+    return delivery;
+  }
+  const request = buildRequest(channel, message);
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    try {
+      const httpStatus = await send(request);
+      update({ status: 'SENT', attempts: attempt + 1, httpStatus, error: undefined });
+      return delivery;
+    } catch (e) {
+      const err = e instanceof DeliveryError ? e : new DeliveryError(e instanceof Error ? e.message : String(e));
+      const final = !err.retryable || attempt === MAX_ATTEMPTS - 1;
+      update({ status: final ? 'FAILED' : 'RETRYING', attempts: attempt + 1, httpStatus: err.httpStatus, error: err.message });
+      if (final) break;
+      const delay = Math.min(MAX_RETRY_DELAY_MS, err.retryAfterMs ?? computeBackoff(attempt, 1000, MAX_RETRY_DELAY_MS));
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+  return delivery;
+};
@@ -0,0 +1,153 @@
+import { NotificationPolicy, NotificationThrottle, QuietHours } from '../types';
+
+// --- Notification Throttling ---
+// Sits between whatever raises a notification (a rule match, a built-in signal
+// toast, a price alert) and the channels. Each source keeps its own throttle:
+// the same symbol, side and strategy within the dedup window is dropped, and
+// past the rate limit events are dropped or, in digest mode, collected per
+// symbol (and group, if the event has one) into one summary when the window
+// ends. Quiet hours are checked per channel at send time, and critical sources
+// are sent through them.
+
+export const SIGNAL_TOAST_SOURCE = 'signals';
+export const PRICE_ALERT_SOURCE = 'price_alerts';
+
+export interface ThrottledEvent {
+  source: string; // Rule id, SIGNAL_TOAST_SOURCE or PRICE_ALERT_SOURCE
+  symbol: string;
+  side?: string;
+  strategy?: string;
+  group?: string; // Splits a symbol's digest, e.g. per price alert so each keeps its own channels
+  title: string;
+  body: string;
+}
+
+export interface NotificationDigest {
+  key: string; // digestKey() of the events it summarizes
+  source: string;
+  symbol: string;
+  count: number;
+  title: string;
+  body: string;
+}
+
+export type ThrottleVerdict = 'SEND' | 'DUPLICATE' | 'LIMITED' | 'DIGESTED';
+
+export const VERDICT_LABELS: Record<ThrottleVerdict, string> = {
+  SEND: 'Sent',
+  DUPLICATE: 'Dropped as a duplicate',
+  LIMITED: 'Dropped by the rate limit',
+  DIGESTED: 'Held for the digest'
+};
+
+export const NO_THROTTLE: NotificationThrottle = { maxPerWindow: 0, windowMinutes: 1, digest: false, dedupMinutes: 0, critical: false };
+
+export const DEFAULT_POLICY: NotificationPolicy = {
+  quietHours: {},
+  signalToasts: { maxPerWindow: 5, windowMinutes: 1, digest: true, dedupMinutes: 5, critical: false },
+  priceAlerts: { ...NO_THROTTLE, critical: true },
+  maxToasts: 4
+};
+
+const DEDUP_PRUNE_SIZE = 2000;
+
+export const isQuietTime = (q: QuietHours | undefined, date = new Date()) => {
+  if (!q?.enabled || q.start === q.end) return false;
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  return q.start < q.end ? minutes >= q.start && minutes < q.end : minutes >= q.start || minutes < q.end;
+};
+
+// Events summarized together; whoever routes a digest looks its targets up by this
+export const digestKey = (event: Pick<ThrottledEvent, 'source' | 'symbol' | 'group'>) =>
+  `${event.source}|${event.symbol}${event.group ? `|${event.group}` : ''}`;
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+export const describeThrottle = (t: NotificationThrottle | undefined) => {
+  if (!t) return '';
+  const parts: string[] = [];
+  if (t.maxPerWindow > 0) parts.push(`max ${t.maxPerWindow} per ${t.windowMinutes}m`);
+  if (t.digest) parts.push(t.maxPerWindow > 0 ? 'digest over limit' : `digest every ${t.windowMinutes}m`);
+  if (t.dedupMinutes > 0) parts.push(`dedup ${t.dedupMinutes}m`);
+  if (t.critical) parts.push('critical');
+  return parts.join(', ');
+};
+
+export const createNotificationThrottle = (onDigest: (digest: NotificationDigest) => void) => {
+  let lastSeen: Record<string, number> = {}; // source|symbol|side|strategy -> time
+  let sent: Record<string, number[]> = {}; // source -> send times within its window
+  let pending: Record<string, { events: ThrottledEvent[]; windowMinutes: number; limited: boolean; timer: ReturnType<typeof setTimeout> }> = {};
+
+  const flush = (key: string) => {
+    const bucket = pending[key];
+    if (!bucket) return;
+    delete pending[key];
+    const [first] = bucket.events;
+    const count = bucket.events.length;
+    if (count === 1) {
+      onDigest({ key, source: first.source, symbol: first.symbol, count, title: first.title, body: first.body });
+      return;
+    }
+    const noun = first.source === PRICE_ALERT_SOURCE ? 'price alert' : 'signal';
+    const strategies = [...new Set(bucket.events.map(e => e.strategy).filter(Boolean))];
+    const summary = `${bucket.limited ? `${count} more ${noun}s` : plural(count, noun)} on ${first.symbol}`;
+    onDigest({
+      key,
+      source: first.source,
+      symbol: first.symbol,
+      count,
+      title: summary,
+      body: `${summary} in the last ${plural(bucket.windowMinutes, 'minute')}${strategies.length > 0 ? `: ${strategies.join(', ')}` : ''}`
+    });
+  };
+
+  const pruneDedup = (now: number) => {
+    if (Object.keys(lastSeen).length < DEDUP_PRUNE_SIZE) return;
+    lastSeen = Object.fromEntries(Object.entries(lastSeen).filter(([, time]) => now - time < 24 * 60 * 60 * 1000));
+  };
+
+  const admit = (event: ThrottledEvent, throttle: NotificationThrottle, now = Date.now()): ThrottleVerdict => {
+    if (throttle.dedupMinutes > 0) {
+      const key = `${event.source}|${event.symbol}|${event.side || ''}|${event.strategy || ''}`;
+      if (lastSeen[key] !== undefined && now - lastSeen[key] < throttle.dedupMinutes * 60 * 1000) return 'DUPLICATE';
+      lastSeen[key] = now;
+      pruneDedup(now);
+    }
+
+    // A digest without a limit collects everything
+    const windowMs = Math.max(1, throttle.windowMinutes) * 60 * 1000;
+    const times = (sent[event.source] || []).filter(t => now - t < windowMs);
+    const overLimit = throttle.maxPerWindow > 0 ? times.length >= throttle.maxPerWindow : throttle.digest;
+    if (!overLimit) {
+      sent[event.source] = [...times, now];
+      return 'SEND';
+    }
+    sent[event.source] = times;
+    if (!throttle.digest) return 'LIMITED';
+
+    const key = digestKey(event);
+    if (pending[key]) {
+      pending[key].events.push(event);
+    } else {
+      pending[key] = {
+        events: [event],
+        windowMinutes: Math.max(1, throttle.windowMinutes),
+        limited: throttle.maxPerWindow > 0,
+        timer: setTimeout(() => flush(key), windowMs)
+      };
+    }
+    return 'DIGESTED';
+  };
+
+  return {
+    admit,
+    reset: () => {
+      Object.values(pending).forEach(b => clearTimeout(b.timer));
+      lastSeen = {};
+      sent = {};
+      pending = {};
+    }
+  };
+};
+
+export type NotificationThrottler = ReturnType<typeof createNotificationThrottle>;
@@ -0,0 +1,203 @@
+import { FuturesTicker, PriceAlert, PriceAlertTarget, Ticker } from '../types';
+import { parseMarketKey } from './exchanges';
+import { formatPrice } from './symbolRegistry';
+
+// --- Price Alerts ---
+// Checks alerts against last price, mark price or funding on every market
+// batch. Level alerts (ABOVE, BELOW, CROSS) fire once, or when recurring,
+// fire and then wait until the value has moved `rearmBy` back past the level
+// so noise around it doesn't re-trigger. MOVE and TRAILING start over from
+// the trigger. Values seen between batches (the previous side of a level, the
+// trailing high/low, the recent samples for MOVE) live in the monitor, not on
+// the alert.
+
+export type PriceAlertDraft = Pick<PriceAlert,
+  'targetPrice' | 'condition' | 'target' | 'movePercent' | 'moveMinutes' | 'trailFrom' | 'recurring' | 'rearmBy' | 'expiresAt' | 'channels'>;
+
+export type PriceAlertStatus = 'ACTIVE' | 'WAITING' | 'PAUSED' | 'TRIGGERED' | 'EXPIRED';
+
+export interface PriceAlertEvent {
+  alert: PriceAlert; // As updated by the check
+  type: 'TRIGGERED' | 'EXPIRED';
+  value?: number;
+  message: string;
+}
+
+export const TARGET_LABELS: Record<PriceAlertTarget, string> = {
+  LAST: 'Last',
+  MARK: 'Mark',
+  FUNDING: 'Funding'
+};
+
+export const DEFAULT_ALERT_CHANNELS: PriceAlert['channels'] = { inApp: true, browser: true };
+
+// The alert's configuration without its trigger history, for editing and duplicating
+export const alertDraft = (alert: PriceAlert): PriceAlertDraft => ({
+  targetPrice: alert.targetPrice,
+  condition: alert.condition,
+  target: alert.target,
+  movePercent: alert.movePercent,
+  moveMinutes: alert.moveMinutes,
+  trailFrom: alert.trailFrom,
+  recurring: alert.recurring,
+  rearmBy: alert.rearmBy,
+  expiresAt: alert.expiresAt,
+  channels: alert.channels
+});
+
+// Inactive alerts that fired once and weren't resumed count as triggered rather than paused
+export const alertStatus = (alert: PriceAlert): PriceAlertStatus => {
+  if (alert.expired) return 'EXPIRED';
+  if (alert.isActive) return alert.armed === false ? 'WAITING' : 'ACTIVE';
+  return !alert.recurring && alert.triggerCount ? 'TRIGGERED' : 'PAUSED';
+};
+
+const MAX_SAMPLE_AGE_MS = 24 * 60 * 60 * 1000;
+
+export const alertValue = (alert: PriceAlert, tickers: Record<string, Ticker>, futures: Record<string, FuturesTicker>): number | undefined => {
+  switch (alert.target || 'LAST') {
+    case 'MARK': return futures[alert.symbol]?.markPrice;
+    case 'FUNDING': return futures[alert.symbol] ? futures[alert.symbol].fundingRate * 100 : undefined;
+    default: return tickers[alert.symbol]?.lastPrice;
+  }
+};
+
+export const formatAlertValue = (alert: Pick<PriceAlert, 'symbol' | 'target'>, value: number) =>
+  alert.target === 'FUNDING' ? `${value.toFixed(4)}%` : formatPrice(parseMarketKey(alert.symbol).symbol, value);
+
+export const describeAlert = (alert: PriceAlert) => {
+  const target = alert.target === 'MARK' ? 'mark' : alert.target === 'FUNDING' ? 'funding' : 'price';
+  const level = formatAlertValue(alert, alert.targetPrice);
+  switch (alert.condition) {
+    case 'ABOVE': return `${target} above ${level}`;
+    case 'BELOW': return `${target} below ${level}`;
+    case 'CROSS': return `${target} crosses ${level}`;
+    case 'MOVE': return `${target} moves ±${alert.movePercent}% in ${alert.moveMinutes}m`;
+    case 'TRAILING': return `${target} ${alert.trailFrom === 'LOW' ? 'rises' : 'drops'} ${alert.movePercent}% from its ${alert.trailFrom === 'LOW' ? 'low' : 'high'}`;
+  }
+};
+
+// Distance past the level before a recurring alert can fire again
+const rearmBand = (alert: PriceAlert) =>
+  alert.target === 'FUNDING' ? alert.rearmBy || 0 : Math.abs(alert.targetPrice) * (alert.rearmBy || 0) / 100;
+
+export const createPriceAlertMonitor = () => {
+  let samples: Record<string, { time: number; value: number }[]> = {}; // target:symbol
+  let previous: Record<string, number> = {}; // Alert id -> last value, for CROSS
+  let extremes: Record<string, number> = {}; // Alert id -> trailing high/low
+  let since: Record<string, number> = {}; // Alert id -> start of the MOVE window after a trigger
+
+  const record = (key: string, value: number, now: number, keepMs: number) => {
+    const series = samples[key] || [];
+    if (series.length === 0 || series[series.length - 1].time < now) series.push({ time: now, value });
+    while (series.length > 0 && now - series[0].time > Math.min(keepMs, MAX_SAMPLE_AGE_MS)) series.shift();
+    samples[key] = series;
+  };
+
+  // Whether the alert fires on this value; updates the monitor's own tracking
+  const fires = (alert: PriceAlert, value: number, now: number): boolean => {
+    const level = alert.targetPrice;
+    const pct = (alert.movePercent || 0) / 100;
+    switch (alert.condition) {
+      case 'ABOVE': return value >= level;
+      case 'BELOW': return value <= level;
+      case 'CROSS': {
+        const prev = previous[alert.id];
+        previous[alert.id] = value;
+        return prev !== undefined && ((prev < level && value >= level) || (prev > level && value <= level));
+      }
+      case 'MOVE': {
+        const from = Math.max(now - (alert.moveMinutes || 1) * 60 * 1000, since[alert.id] ?? 0);
+        const window = (samples[`${alert.target || 'LAST'}:${alert.symbol}`] || []).filter(s => s.time >= from);
+        if (window.length < 2 || pct <= 0) return false;
+        const low = Math.min(...window.map(s => s.value));
+        const high = Math.max(...window.map(s => s.value));
+        return (low > 0 && value >= low * (1 + pct)) || (high > 0 && value <= high * (1 - pct));
+      }
+      case 'TRAILING': {
+        const fromLow = alert.trailFrom === 'LOW';
+        const extreme = extremes[alert.id] === undefined ? value : fromLow ? Math.min(extremes[alert.id], value) : Math.max(extremes[alert.id], value);
+        extremes[alert.id] = extreme;
+        return pct > 0 && (fromLow ? value >= extreme * (1 + pct) : value <= extreme * (1 - pct));
+      }
+    }
+  };
+
+  const rearmed = (alert: PriceAlert, value: number) => {
+    const band = rearmBand(alert);
+    if (alert.condition === 'ABOVE') return value <= alert.targetPrice - band;
+    if (alert.condition === 'BELOW') return value >= alert.targetPrice + band;
+    return Math.abs(value - alert.targetPrice) >= band; // CROSS
+  };
+
+  // Returns the same array when nothing changed
+  const check = (alerts: PriceAlert[], tickers: Record<string, Ticker>, futures: Record<string, FuturesTicker>, now = Date.now()) => {
+    const events: PriceAlertEvent[] = [];
+
+    // One sample per series per batch, kept as long as the longest MOVE window needs
+    const keep: Record<string, { value: number; ms: number }> = {};
+    alerts.forEach(alert => {
+      if (!alert.isActive || alert.condition !== 'MOVE') return;
+      const value = alertValue(alert, tickers, futures);
+      const key = `${alert.target || 'LAST'}:${alert.symbol}`;
+      if (value !== undefined) keep[key] = { value, ms: Math.max(keep[key]?.ms ?? 0, (alert.moveMinutes || 1) * 60 * 1000) };
+    });
+    Object.entries(keep).forEach(([key, { value, ms }]) => record(key, value, now, ms));
+
+    let changed = false;
+    const next = alerts.map(alert => {
+      if (!alert.isActive) return alert;
+      if (alert.expiresAt && now >= alert.expiresAt) {
+        changed = true;
+        const updated = { ...alert, isActive: false, expired: true };
+        events.push({ alert: updated, type: 'EXPIRED', message: `${describeAlert(alert)} expired` });
+        return updated;
+      }
+      const value = alertValue(alert, tickers, futures);
+      if (value === undefined) return alert;
+
+      const level = alert.condition === 'ABOVE' || alert.condition === 'BELOW' || alert.condition === 'CROSS';
+      const didFire = fires(alert, value, now);
+      if (alert.armed === false) {
+        if (!rearmed(alert, value)) return alert;
+        changed = true;
+        return { ...alert, armed: true };
+      }
+      if (!didFire) return alert;
+
+      changed = true;
+      const updated: PriceAlert = {
+        ...alert,
+        isActive: !!alert.recurring,
+        armed: alert.recurring && level ? false : alert.armed,
+        triggerCount: (alert.triggerCount || 0) + 1,
+        lastTriggeredAt: now
+      };
+      // MOVE and TRAILING measure from here on
+      since[alert.id] = now;
+      if (alert.condition === 'TRAILING') extremes[alert.id] = value;
+      events.push({ alert: updated, type: 'TRIGGERED', value, message: `${describeAlert(alert)}, now ${formatAlertValue(alert, value)}` });
+      return updated;
+    });
+
+    return { alerts: changed ? next : alerts, events };
+  };
+
+  return {
+    check,
+    // Edited alerts start their tracking over
+    forget: (id: string) => {
+      delete previous[id];
+      delete extremes[id];
+      delete since[id];
+    },
+    reset: () => {
+      samples = {};
+      previous = {};
+      extremes = {};
+      since = {};
+    }
+  };
+};
+
+export type PriceAlertMonitor = ReturnType<typeof createPriceAlertMonitor>;
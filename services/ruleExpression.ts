@@ -0,0 +1,384 @@
+import { FuturesTicker, RuleCondition, RuleGroup, RuleNode, RuleOperator, RuleValue, Signal, Ticker } from '../types';
+import { EXCHANGE_META, marketKey, parseMarketKey } from './exchanges';
+import { quoteAsset, quoteToUsd } from './symbolRegistry';
+import { UNKNOWN_SOURCE } from './signalStore';
+
+// --- Notification Rule Expressions ---
+// A small condition language for notification rules, e.g.
+//   strategy in (RMI_*, SmartMoney_*) AND confidence >= 0.8 AND watchlist AND volume24h > 50M
+// Rules are stored as a RuleNode tree (what the visual builder edits); the
+// text form is parsed into and formatted from the same tree. A condition on
+// data that isn't available (no ticker for the symbol, no confluence score)
+// never matches.
+
+export type RuleFieldType = 'string' | 'enum' | 'number' | 'boolean' | 'time';
+
+export interface RuleContext {
+  signal: Signal;
+  tickers: Record<string, Ticker>; // By market key
+  futures: Record<string, FuturesTicker>;
+  watchlist: string[]; // Market keys
+}
+
+export interface RuleField {
+  key: string;
+  label: string;
+  group: 'Signal' | 'Ticker' | 'Watchlist' | 'Time';
+  type: RuleFieldType;
+  options?: string[]; // For enums
+  hint?: string;
+  get: (ctx: RuleContext) => string | number | boolean | undefined;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const signalDate = (s: Signal) => {
+  const time = Date.parse(s.time);
+  return Number.isFinite(time) ? new Date(time) : new Date();
+};
+
+const tickerFor = (ctx: RuleContext) => ctx.tickers[marketKey(ctx.signal.exchange, ctx.signal.symbol)] || ctx.tickers[ctx.signal.symbol];
+const futuresFor = (ctx: RuleContext) => ctx.futures[marketKey(ctx.signal.exchange, ctx.signal.symbol)] || ctx.futures[ctx.signal.symbol];
+
+export const RULE_FIELDS: RuleField[] = [
+  { key: 'strategy', label: 'Strategy', group: 'Signal', type: 'string', hint: 'Wildcards allowed, e.g. RMI_*', get: ctx => ctx.signal.strategy },
+  { key: 'symbol', label: 'Symbol', group: 'Signal', type: 'string', hint: 'e.g. BTCUSDT or *USDC', get: ctx => ctx.signal.symbol },
+  { key: 'side', label: 'Side', group: 'Signal', type: 'enum', options: ['BUY', 'SELL', 'LONG', 'SHORT', 'CLOSE'], get: ctx => ctx.signal.side },
+  { key: 'source', label: 'Source', group: 'Signal', type: 'enum', options: ['ALGO_INDICATOR', 'ALGO', 'WEBHOOK', 'MANUAL', 'CONFLUENCE', UNKNOWN_SOURCE], get: ctx => ctx.signal.source || UNKNOWN_SOURCE },
+  { key: 'exchange', label: 'Exchange', group: 'Signal', type: 'enum', options: Object.keys(EXCHANGE_META), get: ctx => ctx.signal.exchange || 'BINANCE' },
+  { key: 'timeframe', label: 'Timeframe', group: 'Signal', type: 'string', get: ctx => ctx.signal.timeframe },
+  { key: 'confidence', label: 'Confidence', group: 'Signal', type: 'number', hint: '0 to 1', get: ctx => ctx.signal.confidence },
+  { key: 'price', label: 'Signal Price', group: 'Signal', type: 'number', get: ctx => ctx.signal.price },
+  { key: 'confluence', label: 'Is Confluence', group: 'Signal', type: 'boolean', get: ctx => !!ctx.signal.confluence },
+  { key: 'score', label: 'Confluence Score', group: 'Signal', type: 'number', hint: '0 to 1', get: ctx => ctx.signal.confluence?.score },
+  {
+    key: 'volume24h', label: '24h Volume ($)', group: 'Ticker', type: 'number', hint: 'Suffixes K, M, B',
+    get: ctx => {
+      const t = tickerFor(ctx);
+      const usd = t ? quoteToUsd(quoteAsset(t.symbol), ctx.tickers) : null;
+      return t && usd !== null ? t.volume * usd : undefined;
+    }
+  },
+  { key: 'change24h', label: '24h Change (%)', group: 'Ticker', type: 'number', get: ctx => tickerFor(ctx)?.priceChangePercent },
+  { key: 'fundingRate', label: 'Funding Rate (%)', group: 'Ticker', type: 'number', get: ctx => { const f = futuresFor(ctx); return f ? f.fundingRate * 100 : undefined; } },
+  { key: 'watchlist', label: 'In Watchlist', group: 'Watchlist', type: 'boolean', get: ctx => ctx.watchlist.some(k => parseMarketKey(k).symbol === ctx.signal.symbol) },
+  { key: 'time', label: 'Time of Day', group: 'Time', type: 'time', hint: 'Local time of the signal', get: ctx => { const d = signalDate(ctx.signal); return d.getHours() * 60 + d.getMinutes(); } },
+  { key: 'weekday', label: 'Weekday', group: 'Time', type: 'enum', options: WEEKDAYS, get: ctx => WEEKDAYS[signalDate(ctx.signal).getDay()] }
+];
+
+export const ruleField = (key: string) => RULE_FIELDS.find(f => f.key.toLowerCase() === key.toLowerCase());
+
+export const OPERATORS_BY_TYPE: Record<RuleFieldType, RuleOperator[]> = {
+  string: ['=', '!=', 'in', 'not in'],
+  enum: ['=', '!=', 'in', 'not in'],
+  number: ['>', '>=', '<', '<=', '=', '!=', 'between'],
+  boolean: ['is'],
+  time: ['between', '>=', '<=', '>', '<']
+};
+
+export const emptyRule = (): RuleGroup => ({ kind: 'group', combinator: 'AND', children: [] });
+
+// A sensible starting condition when the builder switches to a field
+export const defaultCondition = (key: string): RuleCondition => {
+  const field = ruleField(key) || RULE_FIELDS[0];
+  switch (field.type) {
+    case 'number': return { kind: 'condition', field: field.key, operator: '>=', value: 0 };
+    case 'boolean': return { kind: 'condition', field: field.key, operator: 'is', value: true };
+    case 'time': return { kind: 'condition', field: field.key, operator: 'between', value: [8 * 60, 17 * 60] };
+    case 'enum': return { kind: 'condition', field: field.key, operator: '=', value: field.options![0] };
+    default: return { kind: 'condition', field: field.key, operator: '=', value: '' };
+  }
+};
+
+// --- Evaluation ---
+
+const globMatch = (pattern: string, value: string) => {
+  const re = new RegExp(`^${pattern.split('*').map(p => p.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+  return re.test(value);
+};
+
+const evaluateCondition = (c: RuleCondition, ctx: RuleContext): boolean => {
+  const field = ruleField(c.field);
+  if (!field) return false;
+  const actual = field.get(ctx);
+  if (actual === undefined) return false;
+
+  if (field.type === 'boolean') return actual === c.value;
+
+  if (field.type === 'string' || field.type === 'enum') {
+    const text = String(actual);
+    const list = Array.isArray(c.value) ? c.value.map(String) : [String(c.value)];
+    const hit = list.some(p => globMatch(p, text));
+    return c.operator === '!=' || c.operator === 'not in' ? !hit : hit;
+  }
+
+  const n = actual as number;
+  if (c.operator === 'between') {
+    const [lo, hi] = c.value as [number, number];
+    // Time ranges may wrap past midnight, e.g. 22:00 to 06:00
+    return field.type === 'time' && lo > hi ? n >= lo || n <= hi : n >= lo && n <= hi;
+  }
+  const v = c.value as number;
+  switch (c.operator) {
+    case '>': return n > v;
+    case '>=': return n >= v;
+    case '<': return n < v;
+    case '<=': return n <= v;
+    case '=': return n === v;
+    case '!=': return n !== v;
+    default: return false;
+  }
+};
+
+// An empty group matches everything
+export const evaluateRule = (node: RuleNode, ctx: RuleContext): boolean => {
+  if (node.kind === 'condition') return evaluateCondition(node, ctx);
+  const result = node.combinator === 'AND'
+    ? node.children.every(child => evaluateRule(child, ctx))
+    : node.children.length === 0 || node.children.some(child => evaluateRule(child, ctx));
+  return node.negate ? !result : result;
+};
+
+// --- Formatting ---
+
+const KEYWORDS = ['AND', 'OR', 'NOT', 'IN', 'BETWEEN', 'IS'];
+const WORD = /^[\w*][\w*.\-/]*$/;
+
+export const formatRuleNumber = (n: number) => {
+  const abs = Math.abs(n);
+  if (abs >= 1e9 && Number.isInteger(n / 1e7)) return `${n / 1e9}B`;
+  if (abs >= 1e6 && Number.isInteger(n / 1e4)) return `${n / 1e6}M`;
+  if (abs >= 1e3 && Number.isInteger(n / 10)) return `${n / 1e3}K`;
+  return String(n);
+};
+
+export const formatTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const formatValue = (type: RuleFieldType, v: string | number) => {
+  if (type === 'number') return formatRuleNumber(v as number);
+  if (type === 'time') return formatTime(v as number);
+  const text = String(v);
+  return WORD.test(text) && !KEYWORDS.includes(text.toUpperCase()) ? text : `"${text.replace(/"/g, '\\"')}"`;
+};
+
+const formatCondition = (c: RuleCondition) => {
+  const type = ruleField(c.field)?.type || 'string';
+  if (c.operator === 'is') return c.value ? c.field : `NOT ${c.field}`;
+  if (c.operator === 'in' || c.operator === 'not in') {
+    return `${c.field} ${c.operator} (${(c.value as string[]).map(v => formatValue(type, v)).join(', ')})`;
+  }
+  if (c.operator === 'between') {
+    const [lo, hi] = c.value as [number, number];
+    return `${c.field} between ${formatValue(type, lo)} and ${formatValue(type, hi)}`;
+  }
+  return `${c.field} ${c.operator} ${formatValue(type, c.value as string | number)}`;
+};
+
+export const formatRule = (node: RuleNode, nested = false): string => {
+  if (node.kind === 'condition') return formatCondition(node);
+  const parts = node.children.map(child => formatRule(child, true)).filter(Boolean);
+  const inner = parts.join(` ${node.combinator} `);
+  if (node.negate) return `NOT (${inner})`;
+  return nested && parts.length > 1 ? `(${inner})` : inner;
+};
+
+// --- Parsing ---
+
+const SUFFIX: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+
+// '50M', '1.5k', '-2' -> number
+export const parseRuleNumber = (text: string): number | null => {
+  const m = text.trim().match(/^(-?\d+(?:\.\d+)?)([kKmMbB])?$/);
+  return m ? parseFloat(m[1]) * (m[2] ? SUFFIX[m[2].toLowerCase()] : 1) : null;
+};
+
+type Token =
+  | { type: 'word' | 'string' | 'time' | 'number' | 'op'; text: string; pos: number; value?: number }
+  | { type: '(' | ')' | ','; text: string; pos: number };
+
+export class RuleSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = 'RuleSyntaxError';
+  }
+}
+
+const OP_ALIASES: Record<string, RuleOperator> = { '==': '=', '≥': '>=', '≤': '<=', '≠': '!=' };
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const rest = text.slice(i);
+    const ws = rest.match(/^\s+/);
+    if (ws) { i += ws[0].length; continue; }
+
+    const ch = text[i];
+    if (ch === '(' || ch === ')' || ch === ',') {
+      tokens.push({ type: ch, text: ch, pos: i });
+      i++;
+      continue;
+    }
+    const op = rest.match(/^(>=|<=|!=|==|≥|≤|≠|=|>|<)/);
+    if (op) {
+      tokens.push({ type: 'op', text: OP_ALIASES[op[0]] || op[0], pos: i });
+      i += op[0].length;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      let j = i + 1;
+      let value = '';
+      while (j < text.length && text[j] !== ch) {
+        if (text[j] === '\\' && j + 1 < text.length) j++;
+        value += text[j++];
+      }
+      if (j >= text.length) throw new RuleSyntaxError('Unterminated string', i);
+      tokens.push({ type: 'string', text: value, pos: i });
+      i = j + 1;
+      continue;
+    }
+    const time = rest.match(/^(\d{1,2}):(\d{2})(?![\w:])/);
+    if (time) {
+      const h = Number(time[1]);
+      const m = Number(time[2]);
+      if (h > 23 || m > 59) throw new RuleSyntaxError(`Invalid time ${time[0]}`, i);
+      tokens.push({ type: 'time', text: time[0], pos: i, value: h * 60 + m });
+      i += time[0].length;
+      continue;
+    }
+    const num = rest.match(/^-?\d+(?:\.\d+)?([kKmMbB])?(?![\w*.])/);
+    if (num) {
+      const value = parseFloat(num[0]) * (num[1] ? SUFFIX[num[1].toLowerCase()] : 1);
+      tokens.push({ type: 'number', text: num[0], pos: i, value });
+      i += num[0].length;
+      continue;
+    }
+    const word = rest.match(/^[\w*][\w*.\-/]*/);
+    if (word) {
+      tokens.push({ type: 'word', text: word[0], pos: i });
+      i += word[0].length;
+      continue;
+    }
+    throw new RuleSyntaxError(`Unexpected '${ch}'`, i);
+  }
+  return tokens;
+};
+
+export const parseRule = (text: string): RuleGroup => {
+  const tokens = tokenize(text);
+  let i = 0;
+  const end = text.length;
+
+  const peek = () => tokens[i];
+  const isKeyword = (t: Token | undefined, kw: string) => !!t && t.type === 'word' && t.text.toUpperCase() === kw;
+  const expect = (type: Token['type'], what: string) => {
+    const t = tokens[i];
+    if (!t || t.type !== type) throw new RuleSyntaxError(`Expected ${what}`, t ? t.pos : end);
+    i++;
+    return t;
+  };
+
+  const parseValue = (type: RuleFieldType, field: string, options?: string[]): string | number => {
+    const t = tokens[i];
+    if (!t || t.type === '(' || t.type === ')' || t.type === ',' || t.type === 'op') throw new RuleSyntaxError(`Expected a value for ${field}`, t ? t.pos : end);
+    i++;
+    if (type === 'number') {
+      if (t.type !== 'number') throw new RuleSyntaxError(`${field} needs a number`, t.pos);
+      return t.value!;
+    }
+    if (type === 'time') {
+      if (t.type !== 'time') throw new RuleSyntaxError(`${field} needs a time like 08:30`, t.pos);
+      return t.value!;
+    }
+    if (type === 'enum') {
+      const match = options!.find(o => o.toLowerCase() === t.text.toLowerCase());
+      if (!match) throw new RuleSyntaxError(`${field} is one of ${options!.join(', ')}`, t.pos);
+      return match;
+    }
+    return t.text;
+  };
+
+  const parseCondition = (): RuleNode => {
+    const t = expect('word', 'a field name');
+    const field = ruleField(t.text);
+    if (!field) throw new RuleSyntaxError(`Unknown field '${t.text}'`, t.pos);
+    const key = field.key;
+    if (field.type === 'boolean') return { kind: 'condition', field: key, operator: 'is', value: true };
+
+    const next = peek();
+    let operator: RuleOperator;
+    if (next?.type === 'op') {
+      operator = next.text as RuleOperator;
+      i++;
+    } else if (isKeyword(next, 'IN')) {
+      operator = 'in';
+      i++;
+    } else if (isKeyword(next, 'NOT') && isKeyword(tokens[i + 1], 'IN')) {
+      operator = 'not in';
+      i += 2;
+    } else if (isKeyword(next, 'BETWEEN')) {
+      operator = 'between';
+      i++;
+    } else {
+      throw new RuleSyntaxError(`Expected an operator after ${key}`, next ? next.pos : end);
+    }
+    if (!OPERATORS_BY_TYPE[field.type].includes(operator)) {
+      throw new RuleSyntaxError(`${key} doesn't support '${operator}'`, next ? next.pos : end);
+    }
+
+    let value: RuleValue;
+    if (operator === 'in' || operator === 'not in') {
+      expect('(', "'('");
+      const list: string[] = [String(parseValue(field.type, key, field.options))];
+      while (peek()?.type === ',') {
+        i++;
+        list.push(String(parseValue(field.type, key, field.options)));
+      }
+      expect(')', "')'");
+      value = list;
+    } else if (operator === 'between') {
+      const lo = parseValue(field.type, key) as number;
+      if (!isKeyword(peek(), 'AND')) throw new RuleSyntaxError("Expected 'and' in between", peek()?.pos ?? end);
+      i++;
+      value = [lo, parseValue(field.type, key) as number];
+    } else {
+      value = parseValue(field.type, key, field.options);
+    }
+    return { kind: 'condition', field: key, operator, value };
+  };
+
+  const parseUnary = (): RuleNode => {
+    if (isKeyword(peek(), 'NOT')) {
+      i++;
+      const inner = parseUnary();
+      if (inner.kind === 'condition' && inner.operator === 'is') return { ...inner, value: !inner.value };
+      if (inner.kind === 'group') return { ...inner, negate: !inner.negate };
+      return { kind: 'group', combinator: 'AND', negate: true, children: [inner] };
+    }
+    if (peek()?.type === '(') {
+      i++;
+      const inner = parseOr();
+      expect(')', "')'");
+      return inner;
+    }
+    return parseCondition();
+  };
+
+  const parseSequence = (combinator: 'AND' | 'OR', parseItem: () => RuleNode): RuleNode => {
+    const children = [parseItem()];
+    while (isKeyword(peek(), combinator)) {
+      i++;
+      children.push(parseItem());
+    }
+    return children.length === 1 ? children[0] : { kind: 'group', combinator, children };
+  };
+
+  const parseAnd = () => parseSequence('AND', parseUnary);
+  const parseOr = (): RuleNode => parseSequence('OR', parseAnd);
+
+  if (tokens.length === 0) return emptyRule();
+  const node = parseOr();
+  if (i < tokens.length) throw new RuleSyntaxError(`Unexpected '${tokens[i].text}'`, tokens[i].pos);
+  return node.kind === 'group' && !node.negate ? node : { kind: 'group', combinator: 'AND', children: [node] };
+};
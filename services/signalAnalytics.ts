@@ -0,0 +1,116 @@
+import { Signal } from '../types';
+import { SignalCursor, querySignals } from './signalStore';
+
+// --- Signal Analytics ---
+// Performance of resolved signals (TP/SL hit, expired or closed) grouped by
+// strategy, symbol or source. R multiples use the signal's stop distance, so
+// signals resolved without a stop count towards % stats but not towards R.
+
+export type AnalyticsGroup = 'strategy' | 'symbol' | 'source';
+
+export interface HourBucket {
+  hour: number; // Local hour the signal fired
+  trades: number;
+  wins: number;
+  avgPnl: number;
+}
+
+export interface EquityPoint {
+  time: number;
+  equity: number;
+}
+
+export interface PerformanceStats {
+  key: string;
+  trades: number;
+  open: number; // Still unresolved in the range
+  wins: number;
+  losses: number;
+  winRate: number; // 0..1
+  avgPnl: number; // % per trade, i.e. the expectancy in %
+  avgR: number | null; // Expectancy in R, over the trades that had a stop
+  profitFactor: number | null; // Gross win / gross loss; null without losses
+  avgResolutionMs: number | null;
+  equity: EquityPoint[];
+  byHour: HourBucket[];
+}
+
+export const EQUITY_TRADE_SIZE = 1000; // Hypothetical stake per trade, in quote currency
+const LOAD_PAGE_SIZE = 2000;
+
+const isResolved = (s: Signal) => !!s.lifecycle && s.lifecycle.state !== 'OPEN' && s.lifecycle.pnl !== undefined;
+
+// Result in units of the initial risk (entry to stop)
+export const signalR = (s: Signal): number | null => {
+  if (!isResolved(s) || !s.stopLoss) return null;
+  const risk = Math.abs(s.price - s.stopLoss) / s.price * 100;
+  return risk > 0 ? s.lifecycle!.pnl! / risk : null;
+};
+
+const average = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+export const computeStats = (key: string, signals: Signal[], tradeSize = EQUITY_TRADE_SIZE): PerformanceStats => {
+  const resolved = signals.filter(isResolved).sort((a, b) => Date.parse(a.lifecycle!.resolvedAt!) - Date.parse(b.lifecycle!.resolvedAt!));
+  const pnls = resolved.map(s => s.lifecycle!.pnl!);
+  const wins = pnls.filter(p => p > 0);
+  const losses = pnls.filter(p => p <= 0);
+  const grossWin = wins.reduce((a, b) => a + b, 0);
+  const grossLoss = -losses.reduce((a, b) => a + b, 0);
+
+  const rs = resolved.map(signalR).filter((r): r is number => r !== null);
+
+  let equity = 0;
+  const curve = resolved.map(s => {
+    equity += tradeSize * s.lifecycle!.pnl! / 100;
+    return { time: Date.parse(s.lifecycle!.resolvedAt!), equity };
+  });
+
+  const hours = Array.from({ length: 24 }, (_, hour) => ({ hour, trades: 0, wins: 0, total: 0 }));
+  resolved.forEach(s => {
+    const bucket = hours[new Date(s.time).getHours()];
+    bucket.trades++;
+    bucket.total += s.lifecycle!.pnl!;
+    if (s.lifecycle!.pnl! > 0) bucket.wins++;
+  });
+
+  return {
+    key,
+    trades: resolved.length,
+    open: signals.filter(s => s.lifecycle?.state === 'OPEN').length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: resolved.length ? wins.length / resolved.length : 0,
+    avgPnl: average(pnls) ?? 0,
+    avgR: average(rs),
+    profitFactor: grossLoss > 0 ? grossWin / grossLoss : null,
+    avgResolutionMs: average(resolved.map(s => Date.parse(s.lifecycle!.resolvedAt!) - Date.parse(s.time))),
+    equity: curve,
+    byHour: hours.map(({ hour, trades, wins, total }) => ({ hour, trades, wins, avgPnl: trades ? total / trades : 0 }))
+  };
+};
+
+// One row per strategy/symbol/source, most trades first
+export const groupStats = (signals: Signal[], group: AnalyticsGroup): PerformanceStats[] => {
+  const groups = new Map<string, Signal[]>();
+  signals.forEach(s => {
+    const key = s[group] || 'UNKNOWN';
+    const list = groups.get(key);
+    if (list) list.push(s);
+    else groups.set(key, [s]);
+  });
+  return Array.from(groups, ([key, list]) => computeStats(key, list))
+    .filter(stats => stats.trades + stats.open > 0)
+    .sort((a, b) => b.trades - a.trades || a.key.localeCompare(b.key));
+};
+
+// Tracked signals (anything with a lifecycle) that fired within the range
+export const loadTrackedSignals = async (from?: number, to?: number): Promise<Signal[]> => {
+  const tracked: Signal[] = [];
+  let cursor: SignalCursor | null = null;
+  do {
+    const page = await querySignals({ from, to, history: true }, LOAD_PAGE_SIZE, cursor); // Never a simulated session
+    page.signals.forEach(s => { if (s.lifecycle) tracked.push(s); });
+    cursor = page.next;
+  } while (cursor);
+  return tracked;
+};
@@ -0,0 +1,213 @@
+import { Signal, SignalLifecycle, SignalState, KlineInterval } from '../types';
+import { createATR } from './indicators';
+import { getCandles, INTERVAL_MS } from './klineService';
+import { querySignals, saveSignals } from './signalStore';
+import { marketKey } from './exchanges';
+
+// --- Signal Lifecycle ---
+// A directional signal opens with optional take-profit and stop-loss levels
+// (from its source, or ATR-based when it has none) and stays OPEN until price
+// reaches one, it expires, or a CLOSE signal from the same strategy arrives.
+// Excursions are tracked against live prices while it is open; the outcome is
+// stored with the signal when it resolves.
+
+export const ATR_STOP_MULTIPLIER = 1.5;
+export const ATR_TARGET_MULTIPLIER = 3; // 2R against the ATR stop
+const ATR_INTERVAL: KlineInterval = '15m'; // For signals without a timeframe
+const EXPIRY_BARS = 48;
+const DEFAULT_EXPIRY_MS = 24 * 60 * 60 * 1000;
+const PERSIST_INTERVAL_MS = 30000; // Excursions change every tick; state changes save at once
+const OPEN_LOAD_LIMIT = 5000;
+
+export const isLongSide = (side: Signal['side']) => side === 'BUY' || side === 'LONG';
+
+export const isTracked = (signal: Signal) => signal.side !== 'CLOSE';
+
+// Direction-adjusted move from the entry, in %
+export const signalPnl = (signal: Signal, price: number) => {
+  const change = ((price - signal.price) / signal.price) * 100;
+  return isLongSide(signal.side) ? change : -change;
+};
+
+export const levelsFromAtr = (signal: Signal, atr: number) => {
+  const dir = isLongSide(signal.side) ? 1 : -1;
+  return {
+    stopLoss: signal.price - dir * atr * ATR_STOP_MULTIPLIER,
+    takeProfit: signal.price + dir * atr * ATR_TARGET_MULTIPLIER
+  };
+};
+
+export const openLifecycle = (signal: Signal, now = Date.now()): Signal => {
+  if (!isTracked(signal) || signal.lifecycle) return signal;
+  const opened = Date.parse(signal.time);
+  const ttl = signal.timeframe ? INTERVAL_MS[signal.timeframe] * EXPIRY_BARS : DEFAULT_EXPIRY_MS;
+  return {
+    ...signal,
+    lifecycle: {
+      state: 'OPEN',
+      expiresAt: new Date((Number.isFinite(opened) ? opened : now) + ttl).toISOString(),
+      mfe: 0,
+      mae: 0
+    }
+  };
+};
+
+const resolve = (signal: Signal, state: SignalState, exitPrice: number, now: number, extra: Partial<SignalLifecycle> = {}): Signal => ({
+  ...signal,
+  lifecycle: {
+    ...signal.lifecycle!,
+    ...extra,
+    state,
+    exitPrice,
+    pnl: signalPnl(signal, exitPrice),
+    resolvedAt: new Date(now).toISOString()
+  }
+});
+
+// Applies a price to an open signal. The stop is checked first, so a bar that
+// spans both levels counts as a loss. Returns the same object when nothing moved.
+export const advanceLifecycle = (signal: Signal, price: number, now = Date.now()): Signal => {
+  const life = signal.lifecycle;
+  if (!life || life.state !== 'OPEN' || !(price > 0)) return signal;
+
+  const move = signalPnl(signal, price);
+  const next: Signal = {
+    ...signal,
+    lifecycle: { ...life, lastPrice: price, mfe: Math.max(life.mfe, move), mae: Math.min(life.mae, move) }
+  };
+  const long = isLongSide(signal.side);
+  if (signal.stopLoss && (long ? price <= signal.stopLoss : price >= signal.stopLoss)) return resolve(next, 'SL_HIT', signal.stopLoss, now);
+  if (signal.takeProfit && (long ? price >= signal.takeProfit : price <= signal.takeProfit)) return resolve(next, 'TP_HIT', signal.takeProfit, now);
+  if (now >= Date.parse(life.expiresAt)) return resolve(next, 'EXPIRED', price, now);
+  return life.lastPrice === price ? signal : next;
+};
+
+// Expiry on the clock alone, for signals whose market has no price this batch.
+// Exits at the last seen price, or flat at the entry when none was ever seen.
+export const expireLifecycle = (signal: Signal, now = Date.now()): Signal => {
+  const life = signal.lifecycle;
+  if (!life || life.state !== 'OPEN' || now < Date.parse(life.expiresAt)) return signal;
+  return resolve(signal, 'EXPIRED', life.lastPrice ?? signal.price, now);
+};
+
+// A CLOSE only resolves positions on its own venue
+const sameMarket = (a: Signal, b: Signal) => marketKey(a.exchange, a.symbol) === marketKey(b.exchange, b.symbol);
+
+export const closeLifecycle = (signal: Signal, close: Signal, now = Date.now()): Signal =>
+  resolve(signal, 'CLOSED', close.price, now, { closedBy: close.id });
+
+// ATR(14) on the signal's timeframe, for signals that arrive without levels
+const fetchAtr = async (signal: Signal): Promise<number | null> => {
+  const candles = await getCandles('spot', signal.symbol, signal.timeframe || ATR_INTERVAL, { limit: 50 });
+  const atr = createATR(14);
+  let value: number | null = null;
+  candles.filter(c => c.isClosed).forEach(c => { value = atr.update(c) ?? value; });
+  return value;
+};
+
+// --- Tracker ---
+
+export interface SignalTracker {
+  add: (signals: Signal[]) => void;
+  // `priceOf` is looked up by market key, so each signal follows its own venue
+  onPrices: (priceOf: (key: string) => number | undefined, now?: number) => void;
+  stop: () => void;
+}
+
+// Owns open signals between the feed and the store: new signals are opened
+// (and given ATR levels) before saving, prices advance them, and resolutions
+// are saved immediately and reported through `onResolved`.
+export const createSignalTracker = (onResolved: (signal: Signal) => void): SignalTracker => {
+  const open = new Map<string, Signal>();
+  const dirty = new Set<string>();
+  let stopped = false;
+
+  // Pick up signals that were still open when the page was last closed
+  querySignals({ state: 'OPEN', history: true }, OPEN_LOAD_LIMIT).then(page => {
+    if (!stopped) page.signals.forEach(s => { if (!open.has(s.id)) open.set(s.id, s); });
+  });
+
+  const persistTimer = setInterval(() => {
+    expireDue(Date.now());
+    if (dirty.size === 0) return;
+    const changed = Array.from(dirty).map(id => open.get(id)).filter((s): s is Signal => !!s);
+    dirty.clear();
+    saveSignals(changed);
+  }, PERSIST_INTERVAL_MS);
+
+  const settle = (resolved: Signal[]) => {
+    if (resolved.length === 0) return;
+    resolved.forEach(s => {
+      open.delete(s.id);
+      dirty.delete(s.id);
+    });
+    saveSignals(resolved);
+    resolved.forEach(onResolved);
+  };
+
+  const withAtrLevels = (signal: Signal) => {
+    fetchAtr(signal)
+      .then(atr => {
+        const current = open.get(signal.id);
+        if (!atr || !current || stopped) return;
+        const updated = { ...current, ...levelsFromAtr(current, atr), levelsFrom: 'ATR' as const };
+        open.set(signal.id, updated);
+        saveSignals([updated]);
+      })
+      .catch(e => console.error(`ATR levels unavailable for ${signal.symbol}`, e));
+  };
+
+  const add = (signals: Signal[]) => {
+    const now = Date.now();
+    const closed: Signal[] = [];
+    const opened = signals.map(signal => {
+      if (!isTracked(signal)) {
+        open.forEach(s => {
+          if (sameMarket(s, signal) && s.strategy === signal.strategy) closed.push(closeLifecycle(s, signal, now));
+        });
+        return signal;
+      }
+      const tracked = openLifecycle(signal, now);
+      open.set(tracked.id, tracked);
+      return tracked;
+    });
+    saveSignals(opened);
+    settle(closed);
+    opened.filter(s => isTracked(s) && s.takeProfit === undefined && s.stopLoss === undefined).forEach(withAtrLevels);
+  };
+
+  // Signals without price updates (no feed, or a paused one) still expire
+  const expireDue = (now: number) => {
+    const expired: Signal[] = [];
+    open.forEach(signal => {
+      const next = expireLifecycle(signal, now);
+      if (next !== signal) expired.push(next);
+    });
+    settle(expired);
+  };
+
+  const onPrices = (priceOf: (key: string) => number | undefined, now = Date.now()) => {
+    const resolved: Signal[] = [];
+    open.forEach((signal, id) => {
+      const price = priceOf(marketKey(signal.exchange, signal.symbol));
+      const next = price === undefined ? expireLifecycle(signal, now) : advanceLifecycle(signal, price, now);
+      if (next === signal) return;
+      if (next.lifecycle!.state !== 'OPEN') resolved.push(next);
+      else {
+        open.set(id, next);
+        dirty.add(id);
+      }
+    });
+    settle(resolved);
+  };
+
+  return {
+    add,
+    onPrices,
+    stop: () => {
+      stopped = true;
+      clearInterval(persistTimer);
+      saveSignals(Array.from(dirty).map(id => open.get(id)).filter((s): s is Signal => !!s));
+    }
+  };
+};
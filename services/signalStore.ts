@@ -0,0 +1,345 @@
+import { Signal, SignalState } from '../types';
+import { openDatabase, promisifyRequest, transactionDone, isIndexedDbAvailable } from './idb';
+
+// --- Signal Store (IndexedDB, memory fallback) ---
+// Every signal the dashboard sees, kept across reloads. Indexed by symbol,
+// strategy, source and lifecycle state (each paired with time, so a filtered
+// page is still newest first) and by time alone. Views page through it with a cursor
+// instead of holding the history in React state.
+//
+// While the dashboard runs on simulated or replayed data, a session is open:
+// views read that session's signals from memory, and only writes aimed at the
+// history (the lifecycle tracker, webhook alerts) reach the database. Closing
+// the session drops it, so synthetic trades never land in history or analytics.
+
+export interface SignalQuery {
+  symbol?: string;
+  strategy?: string;
+  source?: string;
+  state?: SignalState;
+  direction?: 'LONG' | 'SHORT'; // BUY/LONG or SELL/SHORT
+  search?: string; // Substring of symbol, strategy or note
+  from?: number; // ms, inclusive
+  to?: number;
+  history?: boolean; // Read the stored history even while a session is open
+}
+
+// Position after the last row of a page; pass it back to get the next one
+export interface SignalCursor {
+  ts: number;
+  id: string;
+}
+
+export interface SignalPage {
+  signals: Signal[];
+  next: SignalCursor | null;
+}
+
+export interface RetentionPolicy {
+  maxAgeDays: number; // 0 = keep forever
+  maxCount: number; // 0 = no limit
+}
+
+export const DEFAULT_RETENTION: RetentionPolicy = { maxAgeDays: 90, maxCount: 50000 };
+
+export const UNKNOWN_SOURCE = 'UNKNOWN'; // Stored for signals that arrive without a source
+
+// Bumped when the stored shape changes; older records are upgraded as they're read
+const SIGNAL_SCHEMA_VERSION = 1;
+
+type StoredSignal = Signal & { ts: number; v: number };
+
+const DB_NAME = 'fidelio-signals';
+const STORE = 'signals';
+const INDEXED_FIELDS = ['symbol', 'strategy', 'source'] as const;
+const NOTIFY_DELAY_MS = 250; // Scanner bursts become one refresh
+
+let memoryStore: StoredSignal[] = []; // Newest first
+let session: StoredSignal[] | null = null; // Newest first, while on simulated or replayed data
+
+// Same order as walking an index backwards: time, then id, both descending
+const newestFirst = (a: StoredSignal, b: StoredSignal) => b.ts - a.ts || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+const openSignalDb = () => openDatabase(DB_NAME, 2, (db, oldVersion, tx) => {
+  if (oldVersion < 1) {
+    const store = db.createObjectStore(STORE, { keyPath: 'id' });
+    store.createIndex('ts', 'ts');
+    INDEXED_FIELDS.forEach(field => store.createIndex(field, [field, 'ts']));
+  }
+  // v2: lifecycle tracking. Signals stored before it have no state and stay out of the index.
+  if (oldVersion < 2) tx.objectStore(STORE).createIndex('state', ['lifecycle.state', 'ts']);
+});
+
+// --- Migration ---
+
+// Early signals carried a bare 'HH:mm:ss' time and sometimes no source
+const parseSignalTime = (time: string, fallback: number) => {
+  const parsed = Date.parse(time);
+  if (Number.isFinite(parsed)) return parsed;
+  const clock = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(time.trim());
+  if (!clock) return fallback;
+  const day = new Date(fallback);
+  day.setHours(Number(clock[1]), Number(clock[2]), Number(clock[3] || 0), 0);
+  return day.getTime();
+};
+
+export const toStoredSignal = (signal: Signal, now = Date.now()): StoredSignal => {
+  const ts = parseSignalTime(signal.time, now);
+  return {
+    ...signal,
+    time: new Date(ts).toISOString(),
+    source: signal.source || UNKNOWN_SOURCE,
+    confidence: signal.confidence === undefined ? undefined : Math.max(0, Math.min(1, signal.confidence)),
+    ts,
+    v: SIGNAL_SCHEMA_VERSION
+  };
+};
+
+const fromStored = (stored: StoredSignal): Signal => {
+  const { ts, v, ...signal } = stored.v === SIGNAL_SCHEMA_VERSION ? stored : toStoredSignal(stored, stored.ts);
+  return signal;
+};
+
+// --- Change Notifications ---
+
+const listeners = new Set<() => void>();
+let notifyTimer: ReturnType<typeof setTimeout> | null = null;
+
+const notifyChange = () => {
+  if (notifyTimer) return;
+  notifyTimer = setTimeout(() => {
+    notifyTimer = null;
+    listeners.forEach(listener => listener());
+  }, NOTIFY_DELAY_MS);
+};
+
+export const subscribeSignalStore = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// --- Session ---
+
+export const openSignalSession = () => {
+  session = [];
+  notifyChange();
+};
+
+export const closeSignalSession = () => {
+  if (session === null) return;
+  session = null;
+  notifyChange();
+};
+
+// Rows kept in memory for this read or write: the session's, or the fallback without IndexedDB
+const memoryRows = (useSession: boolean) => useSession && session ? session : !isIndexedDbAvailable() ? memoryStore : null;
+
+const setMemoryRows = (useSession: boolean, rows: StoredSignal[]) => {
+  if (useSession && session) session = rows;
+  else memoryStore = rows;
+};
+
+// --- Queries ---
+
+const matches = (s: StoredSignal, q: SignalQuery) => {
+  if (q.symbol && s.symbol !== q.symbol) return false;
+  if (q.strategy && s.strategy !== q.strategy) return false;
+  if (q.source && s.source !== q.source) return false;
+  if (q.state && s.lifecycle?.state !== q.state) return false;
+  if (q.from !== undefined && s.ts < q.from) return false;
+  if (q.to !== undefined && s.ts > q.to) return false;
+  if (q.direction) {
+    const isLong = s.side === 'BUY' || s.side === 'LONG';
+    const isShort = s.side === 'SELL' || s.side === 'SHORT';
+    if (q.direction === 'LONG' ? !isLong : !isShort) return false;
+  }
+  if (q.search) {
+    const term = q.search.toLowerCase();
+    if (![s.symbol, s.strategy, s.note || ''].some(text => text.toLowerCase().includes(term))) return false;
+  }
+  return true;
+};
+
+// The narrowest index for the query, and the key range that walks it newest first
+const planQuery = (store: IDBObjectStore, q: SignalQuery, before: SignalCursor | null) => {
+  const upper = Math.min(q.to ?? Infinity, before?.ts ?? Infinity);
+  const lower = q.from ?? -Infinity;
+  const field = (['state', ...INDEXED_FIELDS] as const).find(f => q[f]);
+  if (field) {
+    return { source: store.index(field), range: IDBKeyRange.bound([q[field], lower], [q[field], upper]) };
+  }
+  return { source: store.index('ts'), range: IDBKeyRange.bound(lower, upper) };
+};
+
+// Walks matching signals newest first until `visit` returns false
+const scan = async (q: SignalQuery, before: SignalCursor | null, visit: (s: StoredSignal) => boolean) => {
+  // Rows sharing the cursor's timestamp are ordered by id (descending), so skip those already seen
+  const seen = (s: StoredSignal) => !!before && s.ts === before.ts && s.id >= before.id;
+
+  const rows = memoryRows(!q.history);
+  if (rows) {
+    for (const s of rows) {
+      if (before && s.ts > before.ts) continue;
+      if (seen(s) || !matches(s, q)) continue;
+      if (!visit(s)) return;
+    }
+    return;
+  }
+
+  const db = await openSignalDb();
+  const { source, range } = planQuery(db.transaction(STORE, 'readonly').objectStore(STORE), q, before);
+  const cursorRequest = source.openCursor(range, 'prev');
+  await new Promise<void>((resolve, reject) => {
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return resolve();
+      const s = cursor.value as StoredSignal;
+      if (!seen(s) && matches(s, q) && !visit(s)) return resolve();
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+};
+
+export const querySignals = async (q: SignalQuery, limit: number, before: SignalCursor | null = null): Promise<SignalPage> => {
+  const rows: StoredSignal[] = [];
+  try {
+    await scan(q, before, s => {
+      rows.push(s);
+      return rows.length < limit;
+    });
+  } catch (e) {
+    console.error("Signal store query failed", e);
+  }
+  const last = rows[rows.length - 1];
+  return { signals: rows.map(fromStored), next: rows.length === limit && last ? { ts: last.ts, id: last.id } : null };
+};
+
+export const countSignals = async (q: SignalQuery): Promise<number> => {
+  let count = 0;
+  try {
+    await scan(q, null, () => {
+      count++;
+      return true;
+    });
+  } catch (e) {
+    console.error("Signal store count failed", e);
+  }
+  return count;
+};
+
+// Distinct values of an indexed field, for filter dropdowns. Jumps from one
+// value to the next instead of reading every row.
+export const listSignalValues = async (field: typeof INDEXED_FIELDS[number]): Promise<string[]> => {
+  const rows = memoryRows(true);
+  if (rows) return Array.from(new Set(rows.map(s => s[field] as string))).sort();
+  try {
+    const db = await openSignalDb();
+    const cursorRequest = db.transaction(STORE, 'readonly').objectStore(STORE).index(field).openKeyCursor();
+    const values: string[] = [];
+    await new Promise<void>((resolve, reject) => {
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return resolve();
+        const value = (cursor.key as [string, number])[0];
+        values.push(value);
+        cursor.continue([value, Infinity]);
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+    return values;
+  } catch (e) {
+    console.error("Signal store read failed", e);
+    return [];
+  }
+};
+
+// --- Writes ---
+
+// Session signals are dropped when no session is open
+export const saveSignals = async (signals: Signal[], target: 'history' | 'session' = 'history') => {
+  if (signals.length === 0 || (target === 'session' && !session)) return;
+  const stored = signals.map(s => toStoredSignal(s));
+  try {
+    const rows = memoryRows(target === 'session');
+    if (rows) {
+      const ids = new Set(stored.map(s => s.id));
+      setMemoryRows(target === 'session', [...stored, ...rows.filter(s => !ids.has(s.id))].sort(newestFirst));
+    } else {
+      const db = await openSignalDb();
+      const tx = db.transaction(STORE, 'readwrite');
+      stored.forEach(s => tx.objectStore(STORE).put(s));
+      await transactionDone(tx);
+    }
+    notifyChange();
+  } catch (e) {
+    console.error("Signal store write failed", e);
+  }
+};
+
+// Deletes act on what the views show, so the session's signals while one is open
+export const deleteSignal = async (id: string) => {
+  try {
+    const rows = memoryRows(true);
+    if (rows) {
+      setMemoryRows(true, rows.filter(s => s.id !== id));
+    } else {
+      const db = await openSignalDb();
+      const tx = db.transaction(STORE, 'readwrite');
+      tx.objectStore(STORE).delete(id);
+      await transactionDone(tx);
+    }
+    notifyChange();
+  } catch (e) {
+    console.error("Signal store delete failed", e);
+  }
+};
+
+export const clearSignals = async () => {
+  try {
+    if (memoryRows(true)) {
+      setMemoryRows(true, []);
+    } else {
+      const db = await openSignalDb();
+      await promisifyRequest(db.transaction(STORE, 'readwrite').objectStore(STORE).clear());
+    }
+    notifyChange();
+  } catch (e) {
+    console.error("Signal store clear failed", e);
+  }
+};
+
+// Drops history older than the policy's age, then the oldest beyond its count
+export const applyRetention = async (policy: RetentionPolicy, now = Date.now()): Promise<number> => {
+  const cutoff = policy.maxAgeDays > 0 ? now - policy.maxAgeDays * 24 * 60 * 60 * 1000 : -Infinity;
+  let removed = 0;
+  try {
+    if (!isIndexedDbAvailable()) {
+      const kept = memoryStore.filter(s => s.ts >= cutoff).slice(0, policy.maxCount > 0 ? policy.maxCount : undefined);
+      removed = memoryStore.length - kept.length;
+      memoryStore = kept;
+    } else {
+      const db = await openSignalDb();
+      const tx = db.transaction(STORE, 'readwrite');
+      const store = tx.objectStore(STORE);
+      const total = await promisifyRequest(store.count());
+      const overCount = policy.maxCount > 0 ? Math.max(0, total - policy.maxCount) : 0;
+      // Oldest first: delete until both limits hold, then stop
+      const cursorRequest = store.index('ts').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || ((cursor.value as StoredSignal).ts >= cutoff && removed >= overCount)) return;
+        cursor.delete();
+        removed++;
+        cursor.continue();
+      };
+      await transactionDone(tx);
+    }
+    if (removed > 0) notifyChange();
+  } catch (e) {
+    console.error("Signal retention failed", e);
+  }
+  return removed;
+};
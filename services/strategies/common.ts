@@ -0,0 +1,78 @@
+import { Candle, Exchange, FuturesTicker, KlineInterval, Signal } from '../../types';
+import { Snapshot } from '../strategyEngine';
+
+// --- Strategy Plugin Contract ---
+// A strategy subscribes to one or more inputs, declares its tunable parameters
+// and turns each input event into signals. Cooldowns and enable/disable are
+// applied by the runner, so evaluate() only has to decide what fired.
+
+export type StrategyInput = 'klines' | 'markPrice';
+
+// A closed candle with the indicator snapshots before and after it
+export interface KlineEvent {
+  input: 'klines';
+  symbol: string;
+  interval: KlineInterval;
+  candle: Candle;
+  prev: Snapshot;
+  cur: Snapshot;
+}
+
+// A mark price update carrying both price and funding, against the previous one
+export interface MarkPriceEvent {
+  input: 'markPrice';
+  key: string; // Market key
+  symbol: string;
+  exchange?: Exchange;
+  prev: FuturesTicker;
+  markPrice: number;
+  fundingRate: number;
+  time: number;
+}
+
+export type StrategyEvent = KlineEvent | MarkPriceEvent;
+
+export type StrategyParamValue = number | boolean;
+export type StrategyParams = Record<string, StrategyParamValue>;
+
+export type StrategyParam =
+  | { key: string; label: string; type: 'number'; default: number; min?: number; max?: number; step?: number; unit?: string; hint?: string }
+  | { key: string; label: string; type: 'boolean'; default: boolean; hint?: string };
+
+export interface StrategyPlugin {
+  id: string;
+  label: string;
+  description: string;
+  emits: string[]; // Signal.strategy names it produces
+  inputs: StrategyInput[];
+  params: StrategyParam[];
+  cooldown: number; // Default, in cooldownUnit; per symbol and emitted strategy name
+  cooldownUnit: 'bars' | 'seconds';
+  enabledByDefault?: boolean;
+  evaluate: (event: StrategyEvent, params: StrategyParams) => Signal[];
+}
+
+// What the user changed; anything missing falls back to the plugin defaults
+export interface StrategySettings {
+  enabled: boolean;
+  params: StrategyParams;
+  cooldown: number;
+}
+
+export type StrategyConfig = Record<string, Partial<StrategySettings>>; // By plugin id
+
+export const resolveSettings = (plugin: StrategyPlugin, config: StrategyConfig = {}): StrategySettings => {
+  const saved = config[plugin.id] || {};
+  const params: StrategyParams = {};
+  plugin.params.forEach(p => {
+    const value = saved.params?.[p.key];
+    params[p.key] = typeof value === typeof p.default ? value! : p.default;
+  });
+  return {
+    enabled: saved.enabled ?? plugin.enabledByDefault ?? true,
+    params,
+    cooldown: Number.isFinite(saved.cooldown) ? Math.max(0, saved.cooldown!) : plugin.cooldown
+  };
+};
+
+export const clamp = (v: number, min = 0, max = 0.99) => Math.max(min, Math.min(max, v));
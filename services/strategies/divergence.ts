@@ -0,0 +1,42 @@
+import { Signal } from '../../types';
+import { StrategyPlugin } from './common';
+
+// --- SmartMoney Divergence (mark price and funding, any venue) ---
+// Funding moving against price: shorts paying more while price rises is a
+// squeeze building, longs paying more into a falling price is a trap.
+
+export const SMARTMONEY_DIVERGENCE: StrategyPlugin = {
+  id: 'smartmoney_divergence',
+  label: 'SmartMoney Divergence',
+  description: 'Funding rate moving against mark price beyond a funding threshold.',
+  emits: ['SmartMoney_Divergence'],
+  inputs: ['markPrice'],
+  params: [
+    { key: 'fundingThreshold', label: 'Min |funding rate|', type: 'number', default: 0.03, min: 0.001, max: 1, step: 0.005, unit: '%' },
+    { key: 'minPriceMove', label: 'Min price move per update', type: 'number', default: 0.05, min: 0, max: 5, step: 0.01, unit: '%' },
+    { key: 'confidence', label: 'Confidence', type: 'number', default: 0.85, min: 0.1, max: 0.99, step: 0.05 }
+  ],
+  cooldown: 15,
+  cooldownUnit: 'seconds',
+  evaluate: (e, params) => {
+    if (e.input !== 'markPrice') return [];
+    const threshold = (params.fundingThreshold as number) / 100;
+    const minMove = (params.minPriceMove as number) / 100;
+    const priceChange = e.markPrice - e.prev.markPrice;
+    const fundingChange = e.fundingRate - e.prev.fundingRate;
+    const move = priceChange / e.prev.markPrice;
+    const base = {
+      strategy: 'SmartMoney_Divergence', symbol: e.symbol, price: e.markPrice,
+      time: new Date(e.time).toISOString(), confidence: params.confidence as number, source: 'ALGO', exchange: e.exchange
+    };
+
+    const out: Signal[] = [];
+    if (fundingChange < 0 && priceChange > 0 && e.fundingRate <= -threshold && move > minMove) {
+      out.push({ ...base, id: `auto_${e.time}_${e.key}`, side: 'LONG', note: 'Funding Short Squeeze Alert' });
+    }
+    if (fundingChange > 0 && priceChange < 0 && e.fundingRate >= threshold && move < -minMove) {
+      out.push({ ...base, id: `auto_${e.time}_${e.key}`, side: 'SHORT', note: 'Funding Long Trap Alert' });
+    }
+    return out;
+  }
+};
@@ -0,0 +1,62 @@
+import { Signal } from '../../types';
+import { StrategyConfig, StrategyEvent, StrategyInput, StrategyPlugin, StrategySettings, resolveSettings } from './common';
+import { RSI_OVERSOLD, RMI_REVERSAL, MACD_CROSS, BB_BREAKOUT, TREND_FOLLOWER } from './indicatorStrategies';
+import { SMARTMONEY_DIVERGENCE } from './divergence';
+
+export * from './common';
+
+// --- Strategy Registry ---
+
+const plugins: StrategyPlugin[] = [RSI_OVERSOLD, RMI_REVERSAL, MACD_CROSS, BB_BREAKOUT, TREND_FOLLOWER, SMARTMONEY_DIVERGENCE];
+
+export const BUILT_IN_STRATEGIES = plugins.map(p => p.id);
+
+// Adds a plugin (replacing one with the same id); runners pick it up on their next event
+export const registerStrategy = (plugin: StrategyPlugin) => {
+  const i = plugins.findIndex(p => p.id === plugin.id);
+  if (i >= 0) plugins[i] = plugin;
+  else plugins.push(plugin);
+};
+
+export const getStrategies = (): StrategyPlugin[] => [...plugins];
+
+export const getStrategy = (id: string) => plugins.find(p => p.id === id);
+
+// The plugin behind a Signal.strategy name
+export const strategyEmitting = (name: string) => plugins.find(p => p.emits.includes(name));
+
+// --- Runner ---
+// Dispatches input events to the enabled plugins that subscribe to them and
+// applies each plugin's cooldown per series and emitted strategy name.
+
+export const createStrategyRunner = (input: StrategyInput, initial: StrategyConfig = {}) => {
+  let config = initial;
+  let lastFired: Record<string, number> = {};
+
+  // `time` orders events within a series, `barMs` converts cooldowns given in bars
+  const run = (event: StrategyEvent, series: string, time: number, barMs = 0): Signal[] => {
+    const out: Signal[] = [];
+    plugins.forEach(plugin => {
+      if (!plugin.inputs.includes(input)) return;
+      const settings: StrategySettings = resolveSettings(plugin, config);
+      if (!settings.enabled) return;
+      const cooldownMs = settings.cooldown * (plugin.cooldownUnit === 'bars' ? barMs : 1000);
+      plugin.evaluate(event, settings.params).forEach(signal => {
+        const key = `${series}:${signal.strategy}`;
+        const last = lastFired[key];
+        if (last !== undefined && time - last < cooldownMs) return;
+        lastFired[key] = time;
+        out.push(signal);
+      });
+    });
+    return out;
+  };
+
+  return {
+    run,
+    setConfig: (next: StrategyConfig) => { config = next; },
+    reset: () => { lastFired = {}; }
+  };
+};
+
+export type StrategyRunner = ReturnType<typeof createStrategyRunner>;
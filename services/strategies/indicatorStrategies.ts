@@ -0,0 +1,165 @@
+import { Signal } from '../../types';
+import { levelsFromAtr } from '../signalLifecycle';
+import { KlineEvent, StrategyEvent, StrategyPlugin, clamp } from './common';
+
+// --- Indicator Strategies (closed candles, Binance spot) ---
+// Each compares the just-closed bar against the previous one.
+
+const fmt = (n: number) => n.toLocaleString(undefined, { maximumSignificantDigits: 6 });
+
+const indicatorSignal = (e: KlineEvent, strategy: string, side: Signal['side'], confidence: number, note: string): Signal => {
+  const signal: Signal = {
+    id: `ind_${strategy}_${e.symbol}_${e.interval}_${e.candle.openTime}`,
+    strategy,
+    symbol: e.symbol,
+    side,
+    price: e.candle.close,
+    time: new Date(e.candle.closeTime).toISOString(),
+    note,
+    confidence,
+    source: 'ALGO_INDICATOR',
+    exchange: 'BINANCE',
+    timeframe: e.interval
+  };
+  // Levels from the ATR at the signal bar, so tracking doesn't need to refetch candles
+  return e.cur.atr ? { ...signal, ...levelsFromAtr(signal, e.cur.atr), levelsFrom: 'ATR' } : signal;
+};
+
+// Plugins below only subscribe to klines
+const klines = (e: StrategyEvent): KlineEvent | null => e.input === 'klines' ? e : null;
+
+export const RSI_OVERSOLD: StrategyPlugin = {
+  id: 'rsi_oversold',
+  label: 'RSI Oversold',
+  description: 'RSI(14) crossing down through the oversold level, stronger below the lower Bollinger band.',
+  emits: ['RSI_Oversold'],
+  inputs: ['klines'],
+  params: [
+    { key: 'level', label: 'Oversold level', type: 'number', default: 30, min: 5, max: 50, step: 1 }
+  ],
+  cooldown: 3,
+  cooldownUnit: 'bars',
+  evaluate: (event, params) => {
+    const e = klines(event);
+    const level = params.level as number;
+    if (!e || e.prev.rsi === null || e.cur.rsi === null || e.prev.rsi < level || e.cur.rsi >= level) return [];
+    const belowBand = e.cur.bb && e.cur.close < e.cur.bb.lower ? 0.05 : 0;
+    return [indicatorSignal(e, 'RSI_Oversold', 'BUY',
+      clamp(0.55 + ((level - e.cur.rsi) / level) * 0.4 + belowBand),
+      `RSI(14) ${e.cur.rsi.toFixed(1)} crossed below ${level} on ${e.interval}`)];
+  }
+};
+
+export const RMI_REVERSAL: StrategyPlugin = {
+  id: 'rmi_reversal',
+  label: 'RMI Reversal',
+  description: 'Relative Momentum Index(14, 5) crossing into oversold (buy) or overbought (sell).',
+  emits: ['RMI_Oversold', 'RMI_Overbought'],
+  inputs: ['klines'],
+  params: [
+    { key: 'oversold', label: 'Oversold level', type: 'number', default: 30, min: 5, max: 50, step: 1 },
+    { key: 'overbought', label: 'Overbought level', type: 'number', default: 70, min: 50, max: 95, step: 1 }
+  ],
+  cooldown: 3,
+  cooldownUnit: 'bars',
+  evaluate: (event, params) => {
+    const e = klines(event);
+    if (!e || e.prev.rmi === null || e.cur.rmi === null) return [];
+    const oversold = params.oversold as number;
+    const overbought = params.overbought as number;
+    const out: Signal[] = [];
+    if (e.prev.rmi >= oversold && e.cur.rmi < oversold) {
+      out.push(indicatorSignal(e, 'RMI_Oversold', 'BUY',
+        clamp(0.55 + ((oversold - e.cur.rmi) / oversold) * 0.4),
+        `RMI(14,5) ${e.cur.rmi.toFixed(1)} crossed below ${oversold} on ${e.interval} - Momentum Reversal Likely`));
+    }
+    if (e.prev.rmi <= overbought && e.cur.rmi > overbought) {
+      out.push(indicatorSignal(e, 'RMI_Overbought', 'SELL',
+        clamp(0.55 + ((e.cur.rmi - overbought) / (100 - overbought)) * 0.4),
+        `RMI(14,5) ${e.cur.rmi.toFixed(1)} crossed above ${overbought} on ${e.interval} - Momentum Reversal Likely`));
+    }
+    return out;
+  }
+};
+
+export const MACD_CROSS: StrategyPlugin = {
+  id: 'macd_cross',
+  label: 'MACD Cross',
+  description: 'MACD(12, 26, 9) crossing its signal line. Crosses far from zero and with the EMA50 trend score higher.',
+  emits: ['MACD_Cross'],
+  inputs: ['klines'],
+  params: [
+    { key: 'minStrength', label: 'Min |MACD| / ATR', type: 'number', default: 0, min: 0, max: 2, step: 0.05, hint: '0 takes every cross' },
+    { key: 'withTrendOnly', label: 'Only with the EMA50 trend', type: 'boolean', default: false }
+  ],
+  cooldown: 3,
+  cooldownUnit: 'bars',
+  evaluate: (event, params) => {
+    const e = klines(event);
+    if (!e) return [];
+    const { prev, cur } = e;
+    if (!prev.macd || !cur.macd || !cur.atr || Math.sign(prev.macd.histogram) === Math.sign(cur.macd.histogram) || cur.macd.histogram === 0) return [];
+    const bullish = cur.macd.histogram > 0;
+    const strength = Math.min(1, Math.abs(cur.macd.macd) / cur.atr);
+    const withTrend = cur.ema50 !== null && (bullish ? cur.close > cur.ema50 : cur.close < cur.ema50);
+    if (Math.abs(cur.macd.macd) / cur.atr < (params.minStrength as number) || (params.withTrendOnly && !withTrend)) return [];
+    return [indicatorSignal(e, 'MACD_Cross', bullish ? 'BUY' : 'SELL',
+      clamp(0.5 + strength * 0.3 + (withTrend ? 0.15 : 0)),
+      `MACD ${fmt(cur.macd.macd)} crossed ${bullish ? 'above' : 'below'} signal ${fmt(cur.macd.signal)} (hist ${cur.macd.histogram > 0 ? '+' : ''}${fmt(cur.macd.histogram)}) on ${e.interval}`)];
+  }
+};
+
+export const BB_BREAKOUT: StrategyPlugin = {
+  id: 'bb_breakout',
+  label: 'Bollinger Breakout',
+  description: 'Close breaking out of the Bollinger bands (20, 2), scored on volume and a preceding squeeze.',
+  emits: ['BB_Breakout'],
+  inputs: ['klines'],
+  params: [
+    { key: 'minVolumeRatio', label: 'Min volume vs 20-bar avg', type: 'number', default: 0, min: 0, max: 10, step: 0.1, unit: 'x', hint: '0 ignores volume' },
+    { key: 'squeezeRatio', label: 'Squeeze below avg bandwidth', type: 'number', default: 0.8, min: 0.1, max: 1, step: 0.05, unit: 'x' }
+  ],
+  cooldown: 3,
+  cooldownUnit: 'bars',
+  evaluate: (event, params) => {
+    const e = klines(event);
+    if (!e || !e.prev.bb || !e.cur.bb) return [];
+    const { prev, cur } = e;
+    const up = prev.close <= prev.bb!.upper && cur.close > cur.bb!.upper;
+    const down = prev.close >= prev.bb!.lower && cur.close < cur.bb!.lower;
+    if (!up && !down) return [];
+    const volumeRatio = cur.avgVolume ? cur.volume / cur.avgVolume : 1;
+    if (volumeRatio < (params.minVolumeRatio as number)) return [];
+    const squeeze = prev.avgBandwidth !== null && prev.bb!.bandwidth < prev.avgBandwidth * (params.squeezeRatio as number) ? 0.2 : 0;
+    return [indicatorSignal(e, 'BB_Breakout', up ? 'BUY' : 'SELL',
+      clamp(0.5 + Math.min(1, Math.max(0, volumeRatio - 1) / 2) * 0.25 + squeeze),
+      `Close ${fmt(cur.close)} broke ${up ? 'above upper' : 'below lower'} band ${fmt(up ? cur.bb!.upper : cur.bb!.lower)} (BB 20,2), volume ${volumeRatio.toFixed(1)}x avg${squeeze ? ', after squeeze' : ''} on ${e.interval}`)];
+  }
+};
+
+export const TREND_FOLLOWER: StrategyPlugin = {
+  id: 'trend_follower',
+  label: 'Trend Follower',
+  description: 'EMA20 crossing EMA50, scored on the gap in ATRs and on agreement with VWAP.',
+  emits: ['Trend_Follower_V2'],
+  inputs: ['klines'],
+  params: [
+    { key: 'requireVwap', label: 'Require close on the VWAP side', type: 'boolean', default: false }
+  ],
+  cooldown: 3,
+  cooldownUnit: 'bars',
+  evaluate: (event, params) => {
+    const e = klines(event);
+    if (!e) return [];
+    const { prev, cur } = e;
+    if (prev.ema20 === null || prev.ema50 === null || cur.ema20 === null || cur.ema50 === null || !cur.atr) return [];
+    const crossUp = prev.ema20 <= prev.ema50 && cur.ema20 > cur.ema50;
+    const crossDown = prev.ema20 >= prev.ema50 && cur.ema20 < cur.ema50;
+    if (!crossUp && !crossDown) return [];
+    const vwapAgrees = cur.vwap !== null && (crossUp ? cur.close > cur.vwap : cur.close < cur.vwap);
+    if (params.requireVwap && !vwapAgrees) return [];
+    return [indicatorSignal(e, 'Trend_Follower_V2', crossUp ? 'BUY' : 'SELL',
+      clamp(0.55 + Math.min(1, Math.abs(cur.ema20 - cur.ema50) / cur.atr) * 0.25 + (vwapAgrees ? 0.15 : 0)),
+      `EMA20 ${fmt(cur.ema20)} crossed ${crossUp ? 'above' : 'below'} EMA50 ${fmt(cur.ema50)}${cur.vwap !== null ? `, close ${vwapAgrees ? (crossUp ? 'above' : 'below') : 'against'} VWAP ${fmt(cur.vwap)}` : ''} on ${e.interval}`)];
+  }
+};
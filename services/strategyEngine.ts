@@ -0,0 +1,160 @@
+import { Candle, KlineInterval, Signal, StreamStatus } from '../types';
+import { createRSI, createRMI, createMACD, createBollinger, createATR, createVWAP, createEMA, createSMA, MACDValue, BollingerValue } from './indicators';
+import { getCandles, connectKlineStream } from './klineService';
+import { StrategyConfig, createStrategyRunner } from './strategies';
+
+// --- Indicator Strategy Engine ---
+// Feeds real candles to the strategy plugins that subscribe to klines.
+// Indicators are updated on every live tick but plugins only see a bar once it
+// closes, so signals never repaint.
+
+export const STRATEGY_INTERVALS: KlineInterval[] = ['5m', '15m'];
+
+const WARMUP_CANDLES = 200; // Enough for EMA50 and the bandwidth average to settle
+
+export interface Snapshot {
+  close: number;
+  volume: number;
+  rsi: number | null;
+  rmi: number | null;
+  macd: MACDValue | null;
+  bb: BollingerValue | null;
+  avgBandwidth: number | null;
+  atr: number | null;
+  vwap: number | null;
+  ema20: number | null;
+  ema50: number | null;
+  avgVolume: number | null;
+}
+
+const createSeries = () => ({
+  rsi: createRSI(14),
+  rmi: createRMI(14, 5),
+  macd: createMACD(12, 26, 9),
+  bb: createBollinger(20, 2),
+  bandwidth: createSMA(50),
+  atr: createATR(14),
+  vwap: createVWAP(),
+  ema20: createEMA(20),
+  ema50: createEMA(50),
+  volume: createSMA(20),
+  prev: null as Snapshot | null,
+  live: null as Snapshot | null,
+  avgVolume: null as number | null, // SMA20 of volume up to the last closed bar
+  lastOpenTime: -1
+});
+
+type Series = ReturnType<typeof createSeries>;
+
+const snapshot = (s: Series, candle: Candle, commit: boolean): Snapshot => {
+  const bb = s.bb.update(candle.close, commit);
+  // Average volume excludes the current bar so a spike stands out against it
+  const avgVolume = s.avgVolume;
+  const nextAvgVolume = s.volume.update(candle.volume, commit);
+  if (commit) s.avgVolume = nextAvgVolume;
+  return {
+    close: candle.close,
+    volume: candle.volume,
+    rsi: s.rsi.update(candle.close, commit),
+    rmi: s.rmi.update(candle.close, commit),
+    macd: s.macd.update(candle.close, commit),
+    bb,
+    avgBandwidth: bb ? s.bandwidth.update(bb.bandwidth, commit) : null,
+    atr: s.atr.update(candle, commit),
+    vwap: s.vwap.update(candle, commit),
+    ema20: s.ema20.update(candle.close, commit),
+    ema50: s.ema50.update(candle.close, commit),
+    avgVolume
+  };
+};
+
+// Pure evaluator: feed candles in order, get signals back on closes
+export const createStrategyEvaluator = (config: StrategyConfig = {}) => {
+  const series: Record<string, Series> = {};
+  const runner = createStrategyRunner('klines', config);
+
+  const ingest = (symbol: string, interval: KlineInterval, candle: Candle, emit = true): Signal[] => {
+    const key = `${symbol}:${interval}`;
+    const s = series[key] || (series[key] = createSeries());
+
+    if (!candle.isClosed) {
+      s.live = snapshot(s, candle, false); // Current values for the forming bar, nothing committed
+      return [];
+    }
+    if (candle.openTime <= s.lastOpenTime) return []; // Already counted (history/live overlap)
+
+    const cur = snapshot(s, candle, true);
+    const prev = s.prev;
+    s.prev = cur;
+    s.live = cur;
+    s.lastOpenTime = candle.openTime;
+    if (!emit || !prev) return [];
+
+    const barMs = candle.closeTime + 1 - candle.openTime;
+    return runner.run({ input: 'klines', symbol, interval, candle, prev, cur }, key, candle.openTime, barMs);
+  };
+
+  return {
+    ingest,
+    setConfig: runner.setConfig,
+    latest: (symbol: string, interval: KlineInterval): Snapshot | null => series[`${symbol}:${interval}`]?.live ?? null,
+    forget: (symbol: string) => {
+      Object.keys(series).forEach(k => { if (k.startsWith(`${symbol}:`)) delete series[k]; });
+    }
+  };
+};
+
+// --- Live Runner (Binance spot klines) ---
+
+export interface StrategyEngine {
+  setSymbols: (symbols: string[]) => void;
+  setConfig: (config: StrategyConfig) => void;
+  stop: () => void;
+}
+
+export const startStrategyEngine = (
+  onSignals: (signals: Signal[]) => void,
+  { intervals = STRATEGY_INTERVALS, onStatus, config }: { intervals?: KlineInterval[]; onStatus?: (status: StreamStatus) => void; config?: StrategyConfig } = {}
+): StrategyEngine => {
+  const evaluator = createStrategyEvaluator(config);
+  const ready = new Set<string>(); // Series whose history has been replayed
+  let symbols: string[] = [];
+  let stopped = false;
+
+  const stream = connectKlineStream('spot', (symbol, interval, candle) => {
+    // Until history is in, live bars would be committed out of order
+    if (!ready.has(`${symbol}:${interval}`)) return;
+    const signals = evaluator.ingest(symbol, interval, candle);
+    if (signals.length > 0) onSignals(signals);
+  }, onStatus);
+
+  const warmUp = (symbol: string, interval: KlineInterval) => {
+    getCandles('spot', symbol, interval, { limit: WARMUP_CANDLES })
+      .then(history => {
+        if (stopped || !symbols.includes(symbol)) return;
+        history.forEach(c => evaluator.ingest(symbol, interval, c, false));
+        ready.add(`${symbol}:${interval}`);
+      })
+      .catch(e => console.error(`Indicator warm-up failed for ${symbol} ${interval}`, e));
+  };
+
+  const setSymbols = (next: string[]) => {
+    const added = next.filter(s => !symbols.includes(s));
+    symbols.filter(s => !next.includes(s)).forEach(s => {
+      evaluator.forget(s);
+      intervals.forEach(i => ready.delete(`${s}:${i}`));
+    });
+    symbols = next;
+    stream.setStreams(next.flatMap(symbol => intervals.map(interval => ({ symbol, interval }))));
+    added.forEach(s => intervals.forEach(i => warmUp(s, i)));
+  };
+
+  return {
+    setSymbols,
+    setConfig: evaluator.setConfig,
+    stop: () => {
+      stopped = true;
+      stream.close();
+    }
+  };
+};
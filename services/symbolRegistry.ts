@@ -0,0 +1,214 @@
+import { SymbolInfo, SymbolStatus, ContractType, KlineMarket, Ticker } from '../types';
+import { getKlineEndpoints } from './klineService';
+import { openDatabase, promisifyRequest, transactionDone, isIndexedDbAvailable } from './idb';
+import { SPOT_SNAPSHOT, FUTURES_SNAPSHOT, SnapshotRow } from './symbolSnapshot';
+
+// --- Symbol Registry ---
+// Base/quote, precision, status and contract type per market, from Binance
+// exchangeInfo. Starts from the bundled snapshot, then loads the full list
+// (cached in IndexedDB for a day). Bybit and OKX use the same symbol format,
+// so their markets resolve against the Binance entry for the pair.
+
+// Stablecoins and fiat: never scanned as a base asset, valued at $1 as a quote
+const STABLE_ASSETS = ['USDT', 'USDC', 'FDUSD', 'TUSD', 'BUSD', 'DAI', 'USDP', 'USDE', 'EURI', 'EUR', 'AEUR'];
+const USD_STABLES = ['USDT', 'USDC', 'FDUSD', 'TUSD', 'BUSD', 'DAI', 'USDP', 'USDE'];
+
+// For symbols the registry doesn't know yet; longest suffix wins
+const KNOWN_QUOTES = ['FDUSD', 'USDT', 'USDC', 'TUSD', 'BUSD', 'BTC', 'ETH', 'BNB', 'EUR', 'TRY', 'BRL', 'JPY'];
+
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const isStablecoin = (asset: string) => STABLE_ASSETS.includes(asset);
+
+export const isUsdStable = (asset: string) => USD_STABLES.includes(asset);
+
+export const decimalsOf = (step: number) => {
+  for (let d = 0; d <= 12; d++) {
+    const scaled = step * Math.pow(10, d);
+    if (Math.abs(scaled - Math.round(scaled)) < 1e-9) return d;
+  }
+  return 8;
+};
+
+const toInfo = (
+  market: KlineMarket,
+  symbol: string,
+  baseAsset: string,
+  quoteAsset: string,
+  tickSize: number,
+  stepSize: number,
+  status: SymbolStatus = 'TRADING',
+  contractType: ContractType = market === 'spot' ? 'SPOT' : 'PERPETUAL'
+): SymbolInfo => ({
+  symbol, market, baseAsset, quoteAsset, status, tickSize, stepSize, contractType,
+  pricePrecision: decimalsOf(tickSize),
+  qtyPrecision: decimalsOf(stepSize),
+  isStablecoin: isStablecoin(baseAsset)
+});
+
+const fromSnapshot = (market: KlineMarket, rows: SnapshotRow[]) =>
+  rows.map(([symbol, base, quote, tick, step, status, contract]) => toInfo(market, symbol, base, quote, tick, step, status, contract));
+
+const registry: Record<KlineMarket, Map<string, SymbolInfo>> = {
+  spot: new Map(fromSnapshot('spot', SPOT_SNAPSHOT).map(i => [i.symbol, i])),
+  futures: new Map(fromSnapshot('futures', FUTURES_SNAPSHOT).map(i => [i.symbol, i]))
+};
+
+// --- Lookups ---
+
+export const getSymbolInfo = (symbol: string, market: KlineMarket = 'spot'): SymbolInfo | undefined =>
+  registry[market].get(symbol) ?? registry[market === 'spot' ? 'futures' : 'spot'].get(symbol);
+
+export const splitSymbol = (symbol: string): { base: string; quote: string } => {
+  const info = getSymbolInfo(symbol);
+  if (info) return { base: info.baseAsset, quote: info.quoteAsset };
+  const quote = KNOWN_QUOTES
+    .filter(q => symbol.endsWith(q) && symbol.length > q.length)
+    .sort((a, b) => b.length - a.length)[0];
+  return quote ? { base: symbol.slice(0, -quote.length), quote } : { base: symbol, quote: '' };
+};
+
+export const baseAsset = (symbol: string) => splitSymbol(symbol).base;
+
+export const quoteAsset = (symbol: string) => splitSymbol(symbol).quote;
+
+// Worth scanning: a real coin against a quote we can value, and not halted
+export const isTradableMarket = (symbol: string) => {
+  const info = getSymbolInfo(symbol);
+  if (info) return info.status === 'TRADING' && !info.isStablecoin && !!info.quoteAsset;
+  const { base, quote } = splitSymbol(symbol);
+  return !!quote && !isStablecoin(base);
+};
+
+// False only once the full lists are loaded and neither market lists it; the
+// bundled snapshot alone is too small to call a symbol unknown
+export const isKnownSymbol = (symbol: string) =>
+  !!getSymbolInfo(symbol) || !(fullyLoaded.spot && fullyLoaded.futures);
+
+// Completes user input like 'SOL' or 'eth' to a market symbol
+export const resolveSymbol = (input: string, defaultQuote = 'USDT') => {
+  const symbol = input.toUpperCase().trim();
+  if (getSymbolInfo(symbol)) return symbol;
+  if (getSymbolInfo(`${symbol}${defaultQuote}`)) return `${symbol}${defaultQuote}`; // WBTC is a coin, not W/BTC
+  return splitSymbol(symbol).quote ? symbol : `${symbol}${defaultQuote}`;
+};
+
+// Value of one unit of a quote asset in USD, from USD-stable pairs in `tickers`
+export const quoteToUsd = (quote: string, tickers: Record<string, Ticker>): number | null => {
+  if (isUsdStable(quote)) return 1;
+  const ref = tickers[`${quote}USDT`] || tickers[`${quote}FDUSD`] || tickers[`${quote}USDC`];
+  return ref ? ref.lastPrice : null;
+};
+
+// --- Formatting ---
+
+// Decimals for a price: the market's tick size, else ~5 significant digits
+export const pricePrecision = (symbol: string, price?: number, market: KlineMarket = 'spot') => {
+  const info = getSymbolInfo(symbol, market);
+  if (info) return info.pricePrecision;
+  if (price === undefined || price === 0) return 2;
+  if (price >= 1) return 2;
+  return Math.min(8, 4 - Math.floor(Math.log10(Math.abs(price))));
+};
+
+export const formatPrice = (symbol: string, price: number, market: KlineMarket = 'spot') => {
+  const decimals = pricePrecision(symbol, price, market);
+  return price.toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+};
+
+// --- Loading ---
+
+type ExchangeInfoFilter = { filterType: string; tickSize?: string; stepSize?: string };
+type ExchangeInfoSymbol = {
+  symbol: string;
+  status: string;
+  baseAsset: string;
+  quoteAsset: string;
+  contractType?: string; // Futures only: PERPETUAL, CURRENT_QUARTER, NEXT_QUARTER, ...
+  filters: ExchangeInfoFilter[];
+};
+
+const STATUSES: SymbolStatus[] = ['TRADING', 'HALT', 'BREAK', 'PRE_TRADING', 'SETTLING', 'DELISTED'];
+
+export const parseExchangeInfo = (market: KlineMarket, symbols: ExchangeInfoSymbol[]): SymbolInfo[] =>
+  symbols.map(s => {
+    const tick = parseFloat(s.filters.find(f => f.filterType === 'PRICE_FILTER')?.tickSize || '0.01');
+    const step = parseFloat(s.filters.find(f => f.filterType === 'LOT_SIZE')?.stepSize || '1');
+    const status = STATUSES.includes(s.status as SymbolStatus) ? s.status as SymbolStatus : 'BREAK';
+    const contract: ContractType = market === 'spot' ? 'SPOT' : s.contractType === 'PERPETUAL' ? 'PERPETUAL' : 'DELIVERY';
+    return toInfo(market, s.symbol, s.baseAsset, s.quoteAsset, tick, step, status, contract);
+  });
+
+const fetchExchangeInfo = async (market: KlineMarket): Promise<SymbolInfo[]> => {
+  const endpoints = getKlineEndpoints();
+  const url = market === 'spot' ? `${endpoints.spotRest}/api/v3/exchangeInfo` : `${endpoints.futuresRest}/fapi/v1/exchangeInfo`;
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`exchangeInfo ${market}: HTTP ${res.status}`);
+  const body: { symbols: ExchangeInfoSymbol[] } = await res.json();
+  return parseExchangeInfo(market, body.symbols);
+};
+
+// --- Cache (IndexedDB) ---
+
+type CachedInfo = { market: KlineMarket; fetchedAt: number; symbols: SymbolInfo[] };
+
+const DB_NAME = 'fidelio-symbols';
+const STORE = 'exchangeInfo';
+
+const openSymbolDb = () => openDatabase(DB_NAME, 1, (db) => {
+  if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE, { keyPath: 'market' });
+});
+
+const readCache = async (market: KlineMarket): Promise<CachedInfo | undefined> => {
+  if (!isIndexedDbAvailable()) return undefined;
+  try {
+    const db = await openSymbolDb();
+    return await promisifyRequest<CachedInfo | undefined>(db.transaction(STORE, 'readonly').objectStore(STORE).get(market));
+  } catch (e) {
+    console.error("Symbol cache read failed", e);
+    return undefined;
+  }
+};
+
+const writeCache = async (entry: CachedInfo) => {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    const db = await openSymbolDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).put(entry);
+    await transactionDone(tx);
+  } catch (e) {
+    console.error("Symbol cache write failed", e);
+  }
+};
+
+// Markets whose full exchangeInfo (cached or fetched) has been applied
+const fullyLoaded: Record<KlineMarket, boolean> = { spot: false, futures: false };
+
+const apply = (market: KlineMarket, symbols: SymbolInfo[]) => {
+  symbols.forEach(info => registry[market].set(info.symbol, info));
+  fullyLoaded[market] = true;
+};
+
+const loadMarket = async (market: KlineMarket) => {
+  const cached = await readCache(market);
+  if (cached) apply(market, cached.symbols);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) return;
+
+  try {
+    const symbols = await fetchExchangeInfo(market);
+    apply(market, symbols);
+    await writeCache({ market, fetchedAt: Date.now(), symbols });
+  } catch (e) {
+    // Offline or blocked: the snapshot (and any stale cache) keeps working
+    console.error(`Symbol registry refresh failed for ${market}`, e);
+  }
+};
+
+let loading: Promise<void> | null = null;
+
+// Safe to call from anywhere; the first call loads, the rest share it
+export const loadSymbolRegistry = () => {
+  if (!loading) loading = Promise.all([loadMarket('spot'), loadMarket('futures')]).then(() => undefined);
+  return loading;
+};
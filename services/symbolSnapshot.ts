@@ -0,0 +1,77 @@
+import { SymbolStatus, ContractType } from '../types';
+
+// --- Bundled exchangeInfo Snapshot ---
+// Trimmed from Binance spot and USD-M futures exchangeInfo so the busiest
+// markets resolve (and format) before the live registry loads, or offline.
+// Rows: [symbol, base, quote, tickSize, stepSize, status?, contractType?]
+// (status defaults to TRADING, contract type to SPOT / PERPETUAL).
+
+export type SnapshotRow = [string, string, string, number, number, SymbolStatus?, ContractType?];
+
+export const SPOT_SNAPSHOT: SnapshotRow[] = [
+  ['BTCUSDT', 'BTC', 'USDT', 0.01, 0.00001],
+  ['ETHUSDT', 'ETH', 'USDT', 0.01, 0.0001],
+  ['BNBUSDT', 'BNB', 'USDT', 0.01, 0.001],
+  ['SOLUSDT', 'SOL', 'USDT', 0.01, 0.001],
+  ['XRPUSDT', 'XRP', 'USDT', 0.0001, 0.1],
+  ['DOGEUSDT', 'DOGE', 'USDT', 0.00001, 1],
+  ['ADAUSDT', 'ADA', 'USDT', 0.0001, 0.1],
+  ['AVAXUSDT', 'AVAX', 'USDT', 0.01, 0.01],
+  ['DOTUSDT', 'DOT', 'USDT', 0.001, 0.01],
+  ['MATICUSDT', 'MATIC', 'USDT', 0.0001, 0.1, 'BREAK'],
+  ['POLUSDT', 'POL', 'USDT', 0.0001, 0.1],
+  ['LINKUSDT', 'LINK', 'USDT', 0.01, 0.01],
+  ['LTCUSDT', 'LTC', 'USDT', 0.01, 0.001],
+  ['TRXUSDT', 'TRX', 'USDT', 0.0001, 0.1],
+  ['NEARUSDT', 'NEAR', 'USDT', 0.001, 0.1],
+  ['ATOMUSDT', 'ATOM', 'USDT', 0.001, 0.01],
+  ['UNIUSDT', 'UNI', 'USDT', 0.001, 0.01],
+  ['APTUSDT', 'APT', 'USDT', 0.001, 0.01],
+  ['ARBUSDT', 'ARB', 'USDT', 0.0001, 0.1],
+  ['OPUSDT', 'OP', 'USDT', 0.001, 0.01],
+  ['SUIUSDT', 'SUI', 'USDT', 0.0001, 0.1],
+  ['PEPEUSDT', 'PEPE', 'USDT', 0.00000001, 1],
+  ['SHIBUSDT', 'SHIB', 'USDT', 0.00000001, 1],
+  ['INJUSDT', 'INJ', 'USDT', 0.01, 0.01],
+  ['TIAUSDT', 'TIA', 'USDT', 0.001, 0.01],
+  ['WIFUSDT', 'WIF', 'USDT', 0.001, 0.01],
+  ['USDCUSDT', 'USDC', 'USDT', 0.0001, 1],
+  ['FDUSDUSDT', 'FDUSD', 'USDT', 0.0001, 1],
+  ['EURUSDT', 'EUR', 'USDT', 0.0001, 0.1],
+  ['BTCFDUSD', 'BTC', 'FDUSD', 0.01, 0.00001],
+  ['ETHFDUSD', 'ETH', 'FDUSD', 0.01, 0.0001],
+  ['SOLFDUSD', 'SOL', 'FDUSD', 0.01, 0.001],
+  ['BNBFDUSD', 'BNB', 'FDUSD', 0.01, 0.001],
+  ['XRPFDUSD', 'XRP', 'FDUSD', 0.0001, 0.1],
+  ['DOGEFDUSD', 'DOGE', 'FDUSD', 0.00001, 1],
+  ['BTCUSDC', 'BTC', 'USDC', 0.01, 0.00001],
+  ['ETHUSDC', 'ETH', 'USDC', 0.01, 0.0001],
+  ['SOLUSDC', 'SOL', 'USDC', 0.01, 0.001],
+  ['ETHBTC', 'ETH', 'BTC', 0.00001, 0.0001],
+  ['BNBBTC', 'BNB', 'BTC', 0.000001, 0.001],
+  ['SOLBTC', 'SOL', 'BTC', 0.0000001, 0.001],
+  ['XRPBTC', 'XRP', 'BTC', 0.00000001, 1],
+  ['LINKBTC', 'LINK', 'BTC', 0.0000001, 0.01],
+  ['ADABTC', 'ADA', 'BTC', 0.00000001, 0.1],
+  ['BNBETH', 'BNB', 'ETH', 0.00001, 0.001],
+];
+
+// Delivery contracts carry their expiry in the symbol
+export const FUTURES_SNAPSHOT: SnapshotRow[] = [
+  ['BTCUSDT', 'BTC', 'USDT', 0.1, 0.001],
+  ['ETHUSDT', 'ETH', 'USDT', 0.01, 0.001],
+  ['BNBUSDT', 'BNB', 'USDT', 0.01, 0.01],
+  ['SOLUSDT', 'SOL', 'USDT', 0.01, 1],
+  ['XRPUSDT', 'XRP', 'USDT', 0.0001, 0.1],
+  ['DOGEUSDT', 'DOGE', 'USDT', 0.00001, 1],
+  ['ADAUSDT', 'ADA', 'USDT', 0.0001, 1],
+  ['AVAXUSDT', 'AVAX', 'USDT', 0.001, 1],
+  ['DOTUSDT', 'DOT', 'USDT', 0.001, 0.1],
+  ['LINKUSDT', 'LINK', 'USDT', 0.001, 0.01],
+  ['LTCUSDT', 'LTC', 'USDT', 0.01, 0.001],
+  ['SUIUSDT', 'SUI', 'USDT', 0.0001, 0.1],
+  ['1000PEPEUSDT', '1000PEPE', 'USDT', 0.0000001, 1],
+  ['WIFUSDT', 'WIF', 'USDT', 0.0001, 0.1],
+  ['BTCUSDT_251226', 'BTC', 'USDT', 0.1, 0.001, 'TRADING', 'DELIVERY'],
+  ['ETHUSDT_251226', 'ETH', 'USDT', 0.01, 0.001, 'TRADING', 'DELIVERY'],
+];
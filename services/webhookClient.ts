@@ -0,0 +1,182 @@
+import { Signal, StreamStatus, WebhookEndpoint, WebhookEndpointStats, WebhookAuthMode, PayloadTemplate, WebhookDelivery, WebhookDeliverySummary } from '../types';
+import { computeBackoff } from './connectionManager';
+import { Disconnect } from './exchanges/common';
+
+// --- Webhook Feed (Server-Sent Events) ---
+// Listens to the local webhook receiver (`npm run webhooks`) for signals that
+// arrived from TradingView or other vendors, manages the endpoints they are
+// posted to, and reads the delivery log.
+// Configured with WEBHOOK_SERVER_URL. The admin token, which also picks the
+// user, is entered in the Lab and kept in this browser only; it never goes
+// into the bundle.
+
+export const WEBHOOK_SERVER_URL = (process.env.WEBHOOK_SERVER_URL || 'http://localhost:8787').replace(/\/$/, '');
+
+const TOKEN_KEY = 'fidelio_webhook_token';
+
+let adminToken = typeof localStorage === 'undefined' ? '' : localStorage.getItem(TOKEN_KEY) || '';
+const tokenListeners = new Set<() => void>();
+
+export const getWebhookToken = () => adminToken;
+
+export const setWebhookToken = (token: string) => {
+  adminToken = token.trim();
+  if (adminToken) localStorage.setItem(TOKEN_KEY, adminToken);
+  else localStorage.removeItem(TOKEN_KEY);
+  tokenListeners.forEach(listener => listener());
+};
+
+export const subscribeWebhookToken = (listener: () => void) => {
+  tokenListeners.add(listener);
+  return () => {
+    tokenListeners.delete(listener);
+  };
+};
+
+export const endpointUrl = (id: string) => `${WEBHOOK_SERVER_URL}/webhook/${id}`;
+
+export const SIGNATURE_HEADER = 'X-Fidelio-Signature';
+
+export const GRACE_PERIODS: { label: string; ms: number }[] = [
+  { label: 'None', ms: 0 },
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '24 hours', ms: 24 * 60 * 60 * 1000 },
+  { label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+];
+
+const MAX_BACKOFF_MS = 60000; // The receiver is optional, don't keep knocking every few seconds
+
+export interface WebhookFeedHandlers {
+  onSignal: (signal: Signal) => void;
+  onEndpointStats?: (id: string, stats: WebhookEndpointStats) => void;
+  onDelivery?: (delivery: WebhookDeliverySummary) => void;
+}
+
+export const connectWebhookFeed = (
+  handlers: WebhookFeedHandlers,
+  onStatus?: (status: StreamStatus | null) => void // null without a token
+): Disconnect => {
+  let source: EventSource | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+  let closed = false;
+
+  const listen = <T>(event: string, handle: (data: T) => void) => {
+    source?.addEventListener(event, (e) => {
+      try {
+        handle(JSON.parse((e as MessageEvent).data));
+      } catch (err) {
+        console.error(`Webhook ${event} event parse error`, err);
+      }
+    });
+  };
+
+  const retry = () => {
+    if (closed || retryTimer) return;
+    onStatus?.('reconnecting');
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      connect();
+    }, computeBackoff(attempt++, 2000, MAX_BACKOFF_MS));
+  };
+
+  // EventSource can't send the token, so each connection starts with a one-time ticket
+  const connect = async () => {
+    if (closed || typeof EventSource === 'undefined') return;
+    if (!adminToken) {
+      onStatus?.(null);
+      return;
+    }
+    onStatus?.(attempt === 0 ? 'connecting' : 'reconnecting');
+    let ticket: string;
+    try {
+      ticket = (await api<{ ticket: string }>('/stream-ticket', 'POST')).ticket;
+    } catch {
+      retry();
+      return;
+    }
+    if (closed || source) return;
+    source = new EventSource(`${WEBHOOK_SERVER_URL}/events?ticket=${encodeURIComponent(ticket)}`);
+
+    source.onopen = () => {
+      attempt = 0;
+      onStatus?.('live');
+    };
+
+    listen<Signal>('signal', handlers.onSignal);
+    listen<{ id: string; stats: WebhookEndpointStats }>('endpoint', ({ id, stats }) => handlers.onEndpointStats?.(id, stats));
+    listen<WebhookDeliverySummary>('delivery', delivery => handlers.onDelivery?.(delivery));
+
+    // EventSource retries on its own every few seconds; back off instead
+    source.onerror = () => {
+      source?.close();
+      source = null;
+      retry();
+    };
+  };
+
+  // A new token starts over as that user
+  const unsubscribe = subscribeWebhookToken(() => {
+    source?.close();
+    source = null;
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    attempt = 0;
+    connect();
+  });
+
+  connect();
+
+  return () => {
+    closed = true;
+    unsubscribe();
+    source?.close();
+    source = null;
+    if (retryTimer) clearTimeout(retryTimer);
+  };
+};
+
+// --- Endpoint Management ---
+
+const api = async <T>(path: string, method = 'GET', body?: unknown): Promise<T> => {
+  const res = await fetch(`${WEBHOOK_SERVER_URL}/api${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(adminToken ? { Authorization: `Bearer ${adminToken}` } : {})
+    },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+  return data as T;
+};
+
+export const listWebhookEndpoints = () => api<WebhookEndpoint[]>('/endpoints');
+
+export const createWebhookEndpoint = (name: string, auth: WebhookAuthMode = 'SECRET') =>
+  api<WebhookEndpoint>('/endpoints', 'POST', { name, auth });
+
+// `template: null` resets the endpoint to TradingView JSON
+export const updateWebhookEndpoint = (id: string, patch: { name?: string; auth?: WebhookAuthMode; template?: PayloadTemplate | null }) =>
+  api<WebhookEndpoint>(`/endpoints/${id}`, 'PATCH', patch);
+
+export const rotateWebhookSecret = (id: string, graceMs: number) =>
+  api<WebhookEndpoint>(`/endpoints/${id}/rotate`, 'POST', { graceMs });
+
+export const deleteWebhookEndpoint = (id: string) => api<{ ok: boolean }>(`/endpoints/${id}`, 'DELETE');
+
+// --- Delivery Log ---
+
+export const listWebhookDeliveries = (filter: { endpointId?: string; deadLetter?: boolean } = {}) => {
+  const query = new URLSearchParams();
+  if (filter.endpointId) query.set('endpoint', filter.endpointId);
+  if (filter.deadLetter) query.set('deadLetter', '1');
+  return api<WebhookDelivery[]>(`/deliveries?${query}`);
+};
+
+// Resubmits a logged body, or a fixed version of it, through the endpoint's current template
+export const replayWebhookDelivery = (id: string, body?: string) =>
+  api<{ delivery: WebhookDelivery; original: WebhookDelivery }>(`/deliveries/${id}/replay`, 'POST', body === undefined ? {} : { body });
+
+export const dismissWebhookDelivery = (id: string) => api<WebhookDelivery>(`/deliveries/${id}`, 'DELETE');
@@ -0,0 +1,257 @@
+import { Signal, Side, Exchange, KlineInterval, PayloadTemplate, WebhookField, WebhookDelivery } from '../types';
+import { EXCHANGE_META } from './exchanges/common';
+import { resolveSymbol, isKnownSymbol } from './symbolRegistry';
+
+// --- Webhook Signal Normalization ---
+// Turns an inbound alert body into a Signal: the endpoint's payload template
+// pulls out the fields, then they are validated and normalized. Shared by the
+// webhook server (which authenticates and broadcasts) and the Lab (which
+// previews payloads against a template).
+
+// Flat field values after a template has been applied
+export type WebhookPayload = Partial<Record<WebhookField, string | number>>;
+
+export type WebhookResult = { ok: true; signal: Signal } | { ok: false; errors: string[] };
+
+export const WEBHOOK_FIELDS: WebhookField[] = ['secret', 'symbol', 'side', 'price', 'strategy', 'confidence', 'note', 'time', 'timeframe', 'takeProfit', 'stopLoss'];
+
+// The Lab's TradingView JSON template, and what endpoints without a template use
+export const TRADINGVIEW_TEMPLATE: PayloadTemplate = {
+  format: 'JSON',
+  paths: {
+    secret: 'secret', symbol: 'symbol', side: 'side', price: 'price', strategy: 'strategy',
+    confidence: 'confidence', note: 'note', time: 'time', timeframe: 'timeframe', takeProfit: 'tp', stopLoss: 'sl'
+  }
+};
+
+export const TEMPLATE_PRESETS: { id: string; label: string; template: PayloadTemplate; sample: string }[] = [
+  {
+    id: 'tradingview',
+    label: 'TradingView JSON',
+    template: TRADINGVIEW_TEMPLATE,
+    sample: '{"secret": "sk_live_...", "symbol": "BINANCE:BTCUSDT", "side": "buy", "price": 65000, "time": "2024-05-01T12:00:00Z", "strategy": "TV_Alert_V1"}'
+  },
+  {
+    id: 'tradingview-text',
+    label: 'TradingView text',
+    template: {
+      format: 'TEXT',
+      paths: {},
+      pattern: '(?<side>buy|sell|long|short)\\s+(?<symbol>[A-Z0-9.:]+)\\s+@\\s*(?<price>[\\d.]+)',
+      defaults: { strategy: 'TV_Text_Alert' }
+    },
+    sample: 'SELL BTCUSDT @ 65000 (RSI overbought)'
+  },
+  {
+    id: '3commas',
+    label: '3Commas signal bot',
+    template: {
+      format: 'JSON',
+      paths: { secret: 'secret', symbol: 'tv_instrument', side: 'action', price: 'trigger_price', time: 'timestamp' },
+      defaults: { strategy: '3Commas_Bot' },
+      sideAliases: { enter_long: 'LONG', enter_short: 'SHORT', exit_long: 'CLOSE', exit_short: 'CLOSE' }
+    },
+    sample: '{"secret": "sk_live_...", "max_lag": "300", "timestamp": "2024-05-01T12:00:00Z", "trigger_price": "65000", "tv_exchange": "BINANCE", "tv_instrument": "BTCUSDT", "action": "enter_long", "bot_uuid": "..."}'
+  },
+  {
+    id: 'script',
+    label: 'Custom script',
+    template: {
+      format: 'JSON',
+      paths: {
+        secret: '$.auth.secret', symbol: '$.data.pair', side: '$.data.direction', price: '$.data.entry',
+        takeProfit: '$.data.targets[0]', stopLoss: '$.data.stop', strategy: '$.meta.name', confidence: '$.meta.score', note: '$.meta.comment'
+      }
+    },
+    sample: '{"auth": {"secret": "sk_live_..."}, "data": {"pair": "ETH/USDT", "direction": "short", "entry": 3200, "targets": [3050, 2900], "stop": 3290}, "meta": {"name": "py_momentum", "score": 72, "comment": "4h breakdown"}}'
+  }
+];
+
+const SIDES: Record<string, Side> = {
+  buy: 'BUY', sell: 'SELL', long: 'LONG', short: 'SHORT', close: 'CLOSE', exit: 'CLOSE', flat: 'CLOSE'
+};
+
+// TradingView sends {{interval}} in minutes, or with a D/W suffix
+const TV_INTERVALS: Record<string, KlineInterval> = {
+  '1': '1m', '3': '3m', '5': '5m', '15': '15m', '30': '30m', '60': '1h', '120': '2h',
+  '240': '4h', '360': '6h', '720': '12h', 'D': '1d', '1D': '1d', 'W': '1w', '1W': '1w'
+};
+
+const DEFAULT_CONFIDENCE = 0.8; // Vendor didn't say
+
+export const parseSide = (raw: unknown, aliases: Record<string, Side> = {}): Side | null => {
+  if (typeof raw !== 'string') return null;
+  const key = raw.trim().toLowerCase();
+  const alias = Object.keys(aliases).find(a => a.toLowerCase() === key);
+  return alias ? aliases[alias] : SIDES[key] ?? null;
+};
+
+// 'BINANCE:BTCUSDT.P' -> BTCUSDT on Binance; 'BTC/USDT' -> BTCUSDT
+export const parseWebhookSymbol = (raw: string): { symbol: string; exchange?: Exchange } => {
+  let text = raw.trim().toUpperCase();
+  let exchange: Exchange | undefined;
+  const colon = text.indexOf(':');
+  if (colon > 0) {
+    const prefix = text.slice(0, colon);
+    text = text.slice(colon + 1);
+    exchange = (Object.keys(EXCHANGE_META) as Exchange[]).find(id => EXCHANGE_META[id].tvPrefix === prefix);
+  }
+  text = text.replace(/\.P$/, '').replace(/PERP$/, '').replace(/[/_-]/g, '');
+  return { symbol: resolveSymbol(text), exchange };
+};
+
+const parseNumber = (raw: unknown) => {
+  const value = typeof raw === 'number' ? raw : typeof raw === 'string' ? parseFloat(raw) : NaN;
+  return Number.isFinite(value) ? value : null;
+};
+
+// Below this a numeric time is epoch seconds rather than milliseconds (1e12 ms is 2001)
+const EPOCH_SECONDS_BELOW = 1e12;
+
+// Epoch seconds or milliseconds, as a number or numeric string, or a date
+// string. undefined when absent, null when present but not a usable date.
+const parseTime = (raw: unknown): number | null | undefined => {
+  if (raw === undefined || raw === '') return undefined;
+  const numeric = typeof raw === 'number' ? raw : typeof raw === 'string' && /^\s*\d+(\.\d+)?\s*$/.test(raw) ? Number(raw) : undefined;
+  const ms = numeric !== undefined
+    ? (Math.abs(numeric) < EPOCH_SECONDS_BELOW ? numeric * 1000 : numeric)
+    : typeof raw === 'string' ? Date.parse(raw) : NaN;
+  // Outside the range Date can represent, toISOString would throw
+  return Number.isFinite(ms) && Number.isFinite(new Date(ms).getTime()) ? ms : null;
+};
+
+// --- Templates ---
+
+// Accepts '$.a.b[0]', 'a.b.0' and "$['key with spaces']"
+const pathSegments = (path: string) =>
+  path.trim().replace(/^\$\.?/, '')
+    .replace(/\[(\d+)\]/g, '.$1')
+    .replace(/\[['"]([^'"]+)['"]\]/g, '.$1')
+    .split('.')
+    .filter(Boolean);
+
+export const readPath = (source: unknown, path: string): unknown =>
+  pathSegments(path).reduce<unknown>((node, key) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined), source);
+
+// Problems with the template itself, before any payload is involved
+export const validateTemplate = (template: PayloadTemplate): string[] => {
+  const errors: string[] = [];
+  if (template.format === 'TEXT') {
+    if (!template.pattern) return ['Text templates need a pattern'];
+    try {
+      new RegExp(template.pattern, 'i');
+    } catch (e) {
+      return [`Pattern is not a valid regex: ${(e as Error).message}`];
+    }
+    (['symbol', 'side', 'price'] as WebhookField[]).forEach(field => {
+      if (!template.pattern!.includes(`(?<${field}>`) && !template.defaults?.[field]) errors.push(`Pattern has no (?<${field}>...) group`);
+    });
+  } else {
+    (['symbol', 'side', 'price'] as WebhookField[]).forEach(field => {
+      if (!template.paths[field]?.trim() && !template.defaults?.[field]) errors.push(`No path for ${field}`);
+    });
+  }
+  return errors;
+};
+
+// Pulls the template's fields out of a raw body; defaults fill the gaps
+export const applyTemplate = (raw: string, template: PayloadTemplate): { payload?: WebhookPayload; errors: string[] } => {
+  const payload: WebhookPayload = {};
+
+  if (template.format === 'TEXT') {
+    let match: RegExpMatchArray | null;
+    try {
+      match = raw.match(new RegExp(template.pattern || '', 'i'));
+    } catch (e) {
+      return { errors: [`Pattern is not a valid regex: ${(e as Error).message}`] };
+    }
+    if (!match) return { errors: ['Body does not match the pattern'] };
+    WEBHOOK_FIELDS.forEach(field => {
+      const value = match!.groups?.[field];
+      if (value !== undefined) payload[field] = value;
+    });
+  } else {
+    let body: unknown;
+    try {
+      body = JSON.parse(raw);
+    } catch (e) {
+      return { errors: ['Body is not valid JSON'] };
+    }
+    if (!body || typeof body !== 'object') return { errors: ['Body is not a JSON object'] };
+    WEBHOOK_FIELDS.forEach(field => {
+      const path = template.paths[field];
+      if (!path) return;
+      const value = readPath(body, path);
+      if (typeof value === 'string' || typeof value === 'number') payload[field] = value;
+    });
+  }
+
+  WEBHOOK_FIELDS.forEach(field => {
+    const fallback = template.defaults?.[field];
+    if (payload[field] === undefined && fallback) payload[field] = fallback;
+  });
+  return { payload, errors: [] };
+};
+
+// --- Normalization ---
+
+export const normalizeWebhookPayload = (p: WebhookPayload, sideAliases?: Record<string, Side>, now = Date.now()): WebhookResult => {
+  const errors: string[] = [];
+  const rawSymbol = p.symbol === undefined ? '' : String(p.symbol).trim();
+  const { symbol, exchange } = parseWebhookSymbol(rawSymbol);
+  if (!rawSymbol) errors.push('Missing symbol');
+  else if (!isKnownSymbol(symbol)) errors.push(`Unknown symbol "${rawSymbol}"`);
+  const side = parseSide(p.side, sideAliases);
+  if (!side) errors.push(p.side === undefined ? 'Missing side' : `Unrecognized side "${p.side}"`);
+  const price = parseNumber(p.price);
+  if (price === null || price <= 0) errors.push('Missing or invalid price');
+
+  // Levels are optional, but must sit on the right side of the entry
+  const takeProfit = p.takeProfit !== undefined && p.takeProfit !== '' ? parseNumber(p.takeProfit) : undefined;
+  const stopLoss = p.stopLoss !== undefined && p.stopLoss !== '' ? parseNumber(p.stopLoss) : undefined;
+  if (takeProfit === null) errors.push('Invalid take profit');
+  if (stopLoss === null) errors.push('Invalid stop loss');
+  if (side && side !== 'CLOSE' && price !== null) {
+    const long = side === 'BUY' || side === 'LONG';
+    if (takeProfit && (long ? takeProfit <= price : takeProfit >= price)) errors.push(`Take profit must be ${long ? 'above' : 'below'} the entry for a ${side}`);
+    if (stopLoss && (long ? stopLoss >= price : stopLoss <= price)) errors.push(`Stop loss must be ${long ? 'below' : 'above'} the entry for a ${side}`);
+  }
+  const sentAt = parseTime(p.time);
+  if (sentAt === null) errors.push(`Invalid time "${p.time}"`);
+  if (errors.length > 0 || !side || price === null) return { ok: false, errors };
+
+  let confidence = parseNumber(p.confidence) ?? DEFAULT_CONFIDENCE;
+  if (confidence > 1) confidence /= 100;
+
+  const signal: Signal = {
+    id: `wh_${now}_${Math.random().toString(36).slice(2, 8)}`,
+    strategy: p.strategy !== undefined && String(p.strategy).trim() ? String(p.strategy).trim() : 'TradingView',
+    symbol,
+    side,
+    price,
+    time: new Date(sentAt ?? now).toISOString(),
+    note: p.note !== undefined ? String(p.note) : undefined,
+    source: 'WEBHOOK',
+    confidence: Math.max(0, Math.min(1, confidence))
+  };
+  if (exchange) signal.exchange = exchange;
+  const timeframe = p.timeframe !== undefined ? TV_INTERVALS[String(p.timeframe).toUpperCase()] : undefined;
+  if (timeframe) signal.timeframe = timeframe;
+  if (takeProfit) signal.takeProfit = takeProfit;
+  if (stopLoss) signal.stopLoss = stopLoss;
+  if (takeProfit || stopLoss) signal.levelsFrom = 'SOURCE';
+  return { ok: true, signal };
+};
+
+// Only requests that passed the credential check can be replayed: accepted
+// ones and those rejected later, on their fields. The log keeps no secret or
+// signature to check the others against.
+export const isReplayable = (d: Pick<WebhookDelivery, 'status' | 'stage'>) => d.status === 'ACCEPTED' || d.stage === 'VALIDATE';
+
+// Template + normalization in one step. `payload` is returned even when the
+// signal is rejected, so the secret can still be checked and errors shown.
+export const parseWebhookBody = (raw: string, template: PayloadTemplate = TRADINGVIEW_TEMPLATE, now = Date.now()) => {
+  const { payload, errors } = applyTemplate(raw, template);
+  const result: WebhookResult = payload ? normalizeWebhookPayload(payload, template.sideAliases, now) : { ok: false, errors };
+  return { payload, result };
+};
@@ -1,15 +1,85 @@
 
 
+export type Exchange = 'BINANCE' | 'BYBIT' | 'OKX';
+
 export interface Ticker {
   symbol: string;
+  exchange?: Exchange; // Venue, BINANCE when absent
   lastPrice: number;
   priceChangePercent: number;
   volume: number;
   updatedAt: number;
 }
 
+// Taker flow aggregated from individual trades over one batch interval
+export interface TradeFlow {
+  symbol: string;
+  buyVolume: number; // Quote volume where the taker bought
+  sellVolume: number; // Quote volume where the taker sold
+  trades: number;
+  lastPrice: number;
+  time: number;
+}
+
+// One resting price level: [price, quantity in base units]
+export type BookLevel = [number, number];
+
+// Order book for one symbol, best levels first on both sides
+export interface OrderBook {
+  symbol: string;
+  bids: BookLevel[];
+  asks: BookLevel[];
+  lastUpdateId: number;
+  time: number;
+}
+
+export type KlineInterval = '1m' | '3m' | '5m' | '15m' | '30m' | '1h' | '2h' | '4h' | '6h' | '12h' | '1d' | '1w';
+
+export type KlineMarket = 'spot' | 'futures';
+
+export interface Candle {
+  openTime: number;
+  closeTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // Base asset
+  quoteVolume: number;
+  takerBuyQuoteVolume?: number; // Quote volume bought by takers; missing on candles cached before it was kept
+  isClosed: boolean; // False for the still-forming live candle
+}
+
+// Settled perpetual funding, one entry per funding interval (every 8h on Binance)
+export interface FundingRatePoint {
+  time: number;
+  fundingRate: number;
+  markPrice?: number;
+}
+
+// --- Symbol Metadata (exchangeInfo) ---
+
+export type SymbolStatus = 'TRADING' | 'HALT' | 'BREAK' | 'PRE_TRADING' | 'SETTLING' | 'DELISTED';
+
+export type ContractType = 'SPOT' | 'PERPETUAL' | 'DELIVERY';
+
+export interface SymbolInfo {
+  symbol: string;
+  market: KlineMarket;
+  baseAsset: string;
+  quoteAsset: string;
+  status: SymbolStatus;
+  tickSize: number; // Minimum price increment
+  stepSize: number; // Minimum quantity increment
+  pricePrecision: number; // Decimals implied by tickSize
+  qtyPrecision: number; // Decimals implied by stepSize
+  contractType: ContractType;
+  isStablecoin: boolean; // Base asset is a stablecoin or fiat, e.g. USDCUSDT
+}
+
 export interface FuturesTicker {
   symbol: string;
+  exchange?: Exchange;
   markPrice: number;
   fundingRate: number; // 0.0001 = 0.01%
   nextFundingTime: number;
@@ -20,6 +90,8 @@ export interface FuturesTicker {
   lastTrend?: 'UP' | 'DOWN';
 }
 
+export type StreamStatus = 'connecting' | 'live' | 'stale' | 'reconnecting';
+
 export interface MarketIndex {
   symbol: string;
   price: number;
@@ -39,11 +111,53 @@ export interface Signal {
   note?: string;
   source?: string;
   confidence?: number;
+  exchange?: Exchange;
+  timeframe?: KlineInterval; // Candle interval for indicator-based signals
+  takeProfit?: number;
+  stopLoss?: number;
+  levelsFrom?: 'SOURCE' | 'ATR'; // Who set takeProfit/stopLoss
+  lifecycle?: SignalLifecycle; // Unset for CLOSE signals and history recorded before tracking
+  confluence?: ConfluenceInfo; // Set on signals emitted by the confluence engine
+}
+
+// Where a confluence input came from; each kind has its own weight
+export type ConfluenceSource = 'INDICATOR' | 'FUNDING' | 'RADAR' | 'SCANNER' | 'EXTERNAL';
+
+// One input that agreed on the direction within the window
+export interface ConfluenceContributor {
+  source: ConfluenceSource;
+  label: string; // Strategy name, radar anomaly or scanner preset
+  confidence: number;
+  time: number;
+  signalId?: string; // When the input was itself a stored signal
+}
+
+export interface ConfluenceInfo {
+  score: number; // Combined confidence, 0..1
+  windowMs: number;
+  contributors: ConfluenceContributor[];
+}
+
+// OPEN until price reaches a level, the signal times out, or a CLOSE signal
+// from the same strategy arrives for the symbol
+export type SignalState = 'OPEN' | 'TP_HIT' | 'SL_HIT' | 'EXPIRED' | 'CLOSED';
+
+export interface SignalLifecycle {
+  state: SignalState;
+  expiresAt: string;
+  mfe: number; // Max favorable excursion, % from entry (>= 0)
+  mae: number; // Max adverse excursion, % from entry (<= 0)
+  lastPrice?: number;
+  resolvedAt?: string;
+  exitPrice?: number;
+  pnl?: number; // % at resolution, direction-adjusted
+  closedBy?: string; // Id of the CLOSE signal that ended it
 }
 
 export interface Liquidation {
   id: string;
   symbol: string;
+  exchange?: Exchange;
   side: 'LONG' | 'SHORT'; // The position side that got liquidated
   price: number;
   amount: number; // Quantity in original units
@@ -68,29 +182,205 @@ export interface PortfolioSummary {
 export interface UserProfile {
   id: string;
   email: string;
-  webhookSecret: string;
+}
+
+// --- Webhook Endpoints (owned by a user, stored by the webhook receiver) ---
+
+// SECRET: the payload carries `secret`. HMAC: the sender signs the raw body
+// with the secret and sends `X-Fidelio-Signature: sha256=<hex>`.
+export type WebhookAuthMode = 'SECRET' | 'HMAC';
+
+export interface WebhookEndpointStats {
+  accepted: number;
+  rejected: number;
+  lastReceivedAt?: number; // Any request, accepted or not
+  lastAcceptedAt?: number;
+}
+
+// Fields a payload template can fill; `secret` is only read for SECRET auth
+export type WebhookField = 'secret' | 'symbol' | 'side' | 'price' | 'strategy' | 'confidence' | 'note' | 'time' | 'timeframe' | 'takeProfit' | 'stopLoss';
+
+// How an inbound body becomes Signal fields. JSON bodies are read with a path
+// per field ('$.data.pair', 'ticker', 'legs[0].side'); text bodies with one
+// regex whose named groups are field names ((?<symbol>\w+)).
+export interface PayloadTemplate {
+  format: 'JSON' | 'TEXT';
+  paths: Partial<Record<WebhookField, string>>;
+  pattern?: string;
+  defaults?: Partial<Record<WebhookField, string>>; // When the body doesn't have it, e.g. a strategy name
+  sideAliases?: Record<string, Side>; // Vendor words for sides, e.g. { enter_long: 'LONG' }
+}
+
+export interface WebhookEndpoint {
+  id: string; // Alerts are posted to /webhook/<id>
+  userId: string;
+  name: string;
+  auth: WebhookAuthMode;
+  template?: PayloadTemplate; // TradingView JSON when unset
+  secret: string;
+  previousSecret?: string; // Still accepted until previousSecretExpiresAt after a rotation
+  previousSecretExpiresAt?: number;
+  createdAt: number;
+  rotatedAt?: number;
+  stats: WebhookEndpointStats;
+}
+
+// Where a rejected alert stopped: body unreadable, credential wrong, or fields invalid
+export type WebhookDeliveryStage = 'PARSE' | 'AUTH' | 'VALIDATE';
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string | null; // null for the legacy /webhook
+  receivedAt: number;
+  body: string; // Raw, as received
+  status: 'ACCEPTED' | 'REJECTED';
+  httpStatus: number;
+  stage?: WebhookDeliveryStage;
+  errors: string[];
+  payload?: Partial<Record<WebhookField, string | number>>; // After the endpoint's template
+  signal?: Signal;
+  replayOf?: string; // Delivery this one resubmitted
+  resolvedBy?: string; // Accepted replay that fixed this rejection
+  dismissedAt?: number;
+}
+
+// Pushed over SSE as alerts arrive; the body stays on the receiver
+export type WebhookDeliverySummary = Pick<WebhookDelivery, 'id' | 'endpointId' | 'receivedAt' | 'status' | 'stage' | 'errors'>;
+
+// --- Notification Rule Expressions ---
+// A tree of conditions over signal, ticker, watchlist and time-of-day fields.
+// services/ruleExpression.ts parses, formats and evaluates it.
+
+export type RuleOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'in' | 'not in' | 'between' | 'is';
+
+export type RuleValue = string | number | boolean | string[] | [number, number];
+
+export interface RuleCondition {
+  kind: 'condition';
+  field: string;
+  operator: RuleOperator;
+  value: RuleValue; // Times are minutes after local midnight
+}
+
+export interface RuleGroup {
+  kind: 'group';
+  combinator: 'AND' | 'OR';
+  negate?: boolean;
+  children: RuleNode[];
+}
+
+export type RuleNode = RuleCondition | RuleGroup;
+
+// --- Outbound Notification Channels ---
+// Configured once in Preferences and picked per rule. services/notificationChannels.ts sends to them.
+
+export type ChannelKind = 'TELEGRAM' | 'DISCORD' | 'SLACK' | 'HTTP';
+
+export interface NotificationChannel {
+  id: string;
+  name: string;
+  kind: ChannelKind;
+  enabled: boolean;
+  url?: string; // Discord/Slack incoming webhook or HTTP target
+  botToken?: string; // Telegram
+  chatId?: string; // Telegram
+  headers?: Record<string, string>; // HTTP
+  template?: string; // Message text, or the request body for HTTP; {{placeholders}} are filled in
+  baseUrl?: string; // Replaces the API origin, e.g. a local stub server
+}
+
+export type ChannelDeliveryStatus = 'PENDING' | 'RETRYING' | 'SENT' | 'FAILED';
+
+export interface ChannelDelivery {
+  id: string;
+  channelId: string;
+  channelName: string;
+  kind: ChannelKind;
+  title: string;
+  ruleName?: string; // Unset for test messages
+  status: ChannelDeliveryStatus;
+  attempts: number;
+  httpStatus?: number;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// --- Notification Throttling ---
+// services/notificationThrottle.ts applies these before anything is sent.
+
+export interface NotificationThrottle {
+  maxPerWindow: number; // 0 = unlimited
+  windowMinutes: number;
+  digest: boolean; // Over the limit, summarize per symbol at the end of the window instead of dropping
+  dedupMinutes: number; // Same symbol, side and strategy within this many minutes is dropped; 0 = off
+  critical: boolean; // Still delivered during quiet hours
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  start: number; // Minutes after local midnight
+  end: number; // May be before start to wrap past midnight
+}
+
+export interface NotificationPolicy {
+  quietHours: Record<string, QuietHours>; // 'inApp', 'browser' or a NotificationChannel id
+  signalToasts: NotificationThrottle; // Built-in toasts for divergence and confluence signals
+  priceAlerts: NotificationThrottle;
+  maxToasts: number; // Visible at once
 }
 
 export interface NotificationRule {
   id: string;
   name: string;
-  condition: {
-    symbol: string; // Empty string means 'Any'
-    side: Side | 'ANY';
-  };
+  condition: RuleNode;
   channels: {
     inApp: boolean;
     browser: boolean;
+    external?: string[]; // NotificationChannel ids
   };
+  throttle?: NotificationThrottle;
 }
 
+// ABOVE/BELOW/CROSS compare against `targetPrice`; MOVE fires on ±movePercent
+// within moveMinutes; TRAILING follows the high (or low) and fires on a
+// movePercent pullback from it. services/priceAlerts.ts evaluates them.
+export type PriceAlertCondition = 'ABOVE' | 'BELOW' | 'CROSS' | 'MOVE' | 'TRAILING';
+
+export type PriceAlertTarget = 'LAST' | 'MARK' | 'FUNDING';
+
 export interface PriceAlert {
   id: string;
-  symbol: string;
-  targetPrice: number;
-  condition: 'ABOVE' | 'BELOW';
+  symbol: string; // Market key
+  targetPrice: number; // Funding alerts use a rate in %
+  condition: PriceAlertCondition;
+  target?: PriceAlertTarget; // LAST when unset
+  movePercent?: number;
+  moveMinutes?: number;
+  trailFrom?: 'HIGH' | 'LOW';
+  recurring?: boolean;
+  rearmBy?: number; // Recurring level alerts re-arm this far back past the level: % of it, or points for funding
+  expiresAt?: number;
+  channels?: NotificationRule['channels']; // In-app and browser when unset
   isActive: boolean;
   createdAt: number;
+  armed?: boolean; // Recurring level alerts wait to re-arm after firing; unset means armed
+  triggerCount?: number;
+  lastTriggeredAt?: number;
+  expired?: boolean;
+}
+
+// One firing of a price alert, kept in the alert manager's trigger log
+export interface AlertTrigger {
+  id: string;
+  alertId: string;
+  symbol: string;
+  description: string; // The alert as it was when it fired
+  target: PriceAlertTarget;
+  value: number;
+  time: number;
+  channels: string[]; // Names of the channels notified
+  suppressed?: string; // Why some or all channels weren't notified
 }
 
 export interface ToastMessage {
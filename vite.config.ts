@@ -12,7 +12,13 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.KLINE_BASE_URL': JSON.stringify(env.KLINE_BASE_URL),
+        'process.env.KLINE_WS_URL': JSON.stringify(env.KLINE_WS_URL),
+        'process.env.WEBHOOK_SERVER_URL': JSON.stringify(env.WEBHOOK_SERVER_URL),
+        'process.env.TELEGRAM_API_URL': JSON.stringify(env.TELEGRAM_API_URL),
+        'process.env.DISCORD_API_URL': JSON.stringify(env.DISCORD_API_URL),
+        'process.env.SLACK_API_URL': JSON.stringify(env.SLACK_API_URL)
       },
       resolve: {
         alias: {